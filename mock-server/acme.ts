@@ -0,0 +1,393 @@
+import { createHash, createPublicKey, randomBytes, verify } from 'node:crypto';
+import type { KeyObject, JsonWebKey } from 'node:crypto';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { createTestCa, parseCsr, CsrRejectedError } from './ca';
+import type { TestCa } from './ca';
+
+// Pebble-style ACME stand-in (RFC 8555). Challenges always validate, like
+// running Pebble with PEBBLE_VA_ALWAYS_VALID=1, so renewals can be exercised
+// without serving anything on the requested domains.
+
+export const ACME_PREFIX = '/acme';
+
+// How long challenge validation and issuance stay "processing" before completing
+const PROCESSING_MS = 500;
+const CERT_VALIDITY_DAYS = 90;
+const ORDER_LIFETIME_MS = 7 * 24 * 60 * 60 * 1000;
+
+const ERROR_NS = 'urn:ietf:params:acme:error:';
+
+class AcmeProblem extends Error {
+  status: number;
+  type: string;
+
+  constructor(status: number, type: string, detail: string) {
+    super(detail);
+    this.status = status;
+    this.type = ERROR_NS + type;
+  }
+}
+
+interface Account {
+  id: string;
+  key: KeyObject;
+  jwk: JsonWebKey;
+}
+
+interface Challenge {
+  id: string;
+  type: 'http-01' | 'dns-01';
+  token: string;
+  status: 'pending' | 'processing' | 'valid';
+  authzId: string;
+  validated?: string;
+}
+
+interface Authorization {
+  id: string;
+  accountId: string;
+  orderId: string;
+  identifier: { type: 'dns'; value: string };
+  status: 'pending' | 'valid';
+  challenges: string[];
+}
+
+interface Order {
+  id: string;
+  accountId: string;
+  status: 'pending' | 'ready' | 'processing' | 'valid';
+  expires: string;
+  identifiers: { type: 'dns'; value: string }[];
+  authorizations: string[];
+  certificateId?: string;
+}
+
+interface JwsRequest {
+  account?: Account;
+  jwk?: JsonWebKey;
+  // Parsed payload; undefined for POST-as-GET
+  payload: Record<string, unknown> | undefined;
+}
+
+const randomId = () => randomBytes(8).toString('hex');
+const base64Url = (bytes: Buffer) => bytes.toString('base64url');
+
+function thumbprint(jwk: JsonWebKey) {
+  const canonical = jwk.kty === 'EC'
+    ? { crv: jwk.crv, kty: jwk.kty, x: jwk.x, y: jwk.y }
+    : { e: jwk.e, kty: jwk.kty, n: jwk.n };
+  return base64Url(createHash('sha256').update(JSON.stringify(canonical)).digest());
+}
+
+async function readBody(req: IncomingMessage) {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+export function createAcmeServer(ca: TestCa = createTestCa()) {
+  const nonces = new Set<string>();
+  const accounts = new Map<string, Account>();
+  const orders = new Map<string, Order>();
+  const authorizations = new Map<string, Authorization>();
+  const challenges = new Map<string, Challenge>();
+  const certificates = new Map<string, string>();
+
+  const newNonce = () => {
+    const nonce = base64Url(randomBytes(16));
+    nonces.add(nonce);
+    return nonce;
+  };
+
+  // URLs are absolute and use the Host the client called, so they work through the Vite proxy
+  const baseUrl = (req: IncomingMessage) => `http://${req.headers.host ?? 'localhost'}${ACME_PREFIX}`;
+
+  const send = (res: ServerResponse, status: number, body?: unknown, headers: Record<string, string> = {}) => {
+    const isText = typeof body === 'string';
+    res.writeHead(status, {
+      'Content-Type': isText ? 'application/pem-certificate-chain' : 'application/json',
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Expose-Headers': 'Replay-Nonce, Location, Link',
+      'Cache-Control': 'no-store',
+      'Replay-Nonce': newNonce(),
+      ...headers,
+    });
+    res.end(body === undefined ? undefined : isText ? body : JSON.stringify(body));
+  };
+
+  const sendProblem = (res: ServerResponse, problem: AcmeProblem) => {
+    res.writeHead(problem.status, {
+      'Content-Type': 'application/problem+json',
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Expose-Headers': 'Replay-Nonce',
+      'Replay-Nonce': newNonce(),
+    });
+    res.end(JSON.stringify({ type: problem.type, detail: problem.message, status: problem.status }));
+  };
+
+  const directory = (base: string) => ({
+    newNonce: `${base}/new-nonce`,
+    newAccount: `${base}/new-account`,
+    newOrder: `${base}/new-order`,
+    revokeCert: `${base}/revoke-cert`,
+    keyChange: `${base}/key-change`,
+    meta: { termsOfService: `${base}/terms`, externalAccountRequired: false },
+  });
+
+  const orderJson = (order: Order, base: string) => ({
+    status: order.status,
+    expires: order.expires,
+    identifiers: order.identifiers,
+    authorizations: order.authorizations.map(id => `${base}/authz/${id}`),
+    finalize: `${base}/finalize/${order.id}`,
+    ...(order.certificateId ? { certificate: `${base}/cert/${order.certificateId}` } : {}),
+  });
+
+  const challengeJson = (challenge: Challenge, base: string) => ({
+    type: challenge.type,
+    url: `${base}/chall/${challenge.id}`,
+    token: challenge.token,
+    status: challenge.status,
+    ...(challenge.validated ? { validated: challenge.validated } : {}),
+  });
+
+  const authzJson = (authz: Authorization, base: string) => ({
+    status: authz.status,
+    identifier: authz.identifier,
+    expires: orders.get(authz.orderId)?.expires,
+    challenges: authz.challenges.map(id => challengeJson(challenges.get(id)!, base)),
+  });
+
+  async function verifyJws(req: IncomingMessage, url: string): Promise<JwsRequest> {
+    let jws: { protected?: string; payload?: string; signature?: string };
+    try {
+      jws = JSON.parse(await readBody(req));
+    } catch {
+      throw new AcmeProblem(400, 'malformed', 'Request body must be a flattened JWS');
+    }
+    if (typeof jws.protected !== 'string' || typeof jws.payload !== 'string' || typeof jws.signature !== 'string') {
+      throw new AcmeProblem(400, 'malformed', 'Request body must be a flattened JWS');
+    }
+
+    let header;
+    try {
+      header = JSON.parse(Buffer.from(jws.protected, 'base64url').toString('utf8'));
+    } catch {
+      throw new AcmeProblem(400, 'malformed', 'JWS protected header is not valid JSON');
+    }
+    if (!nonces.delete(header.nonce)) {
+      throw new AcmeProblem(400, 'badNonce', 'Unknown or reused nonce');
+    }
+    if (header.url !== url) {
+      throw new AcmeProblem(401, 'unauthorized', `JWS url "${header.url}" does not match request URL "${url}"`);
+    }
+    if (header.alg !== 'ES256' && header.alg !== 'RS256') {
+      throw new AcmeProblem(400, 'badSignatureAlgorithm', `Unsupported JWS algorithm "${header.alg}"`);
+    }
+
+    let account: Account | undefined;
+    let key: KeyObject;
+    if (header.kid) {
+      account = accounts.get(String(header.kid).split('/').pop()!);
+      if (!account) throw new AcmeProblem(400, 'accountDoesNotExist', 'Unknown account');
+      key = account.key;
+    } else if (header.jwk) {
+      key = createPublicKey({ key: header.jwk, format: 'jwk' });
+    } else {
+      throw new AcmeProblem(400, 'malformed', 'JWS must carry either "kid" or "jwk"');
+    }
+
+    const signingInput = Buffer.from(`${jws.protected}.${jws.payload}`);
+    const signature = Buffer.from(jws.signature, 'base64url');
+    const valid = header.alg === 'ES256'
+      ? verify('sha256', signingInput, { key, dsaEncoding: 'ieee-p1363' }, signature)
+      : verify('sha256', signingInput, key, signature);
+    if (!valid) throw new AcmeProblem(400, 'malformed', 'JWS signature is invalid');
+
+    let payload;
+    try {
+      payload = jws.payload ? JSON.parse(Buffer.from(jws.payload, 'base64url').toString('utf8')) : undefined;
+    } catch {
+      throw new AcmeProblem(400, 'malformed', 'JWS payload is not valid JSON');
+    }
+    return { account, jwk: header.jwk, payload };
+  }
+
+  const requireAccount = (request: JwsRequest) => {
+    if (!request.account) throw new AcmeProblem(400, 'malformed', 'Request must be signed with an account "kid"');
+    return request.account;
+  };
+
+  function findOwned<T extends { accountId: string }>(map: Map<string, T>, id: string, account: Account, what: string) {
+    const resource = map.get(id);
+    if (!resource || resource.accountId !== account.id) {
+      throw new AcmeProblem(404, 'malformed', `${what} ${id} not found`);
+    }
+    return resource;
+  }
+
+  function refreshOrder(order: Order) {
+    if (order.status === 'pending' && order.authorizations.every(id => authorizations.get(id)!.status === 'valid')) {
+      order.status = 'ready';
+    }
+  }
+
+  async function handle(req: IncomingMessage, res: ServerResponse, path: string) {
+    const base = baseUrl(req);
+    const url = `${base}${path}`;
+    const [resource, id] = path.split('/').filter(Boolean);
+
+    try {
+      if (resource === 'directory' && req.method === 'GET') {
+        return send(res, 200, directory(base));
+      }
+      if (resource === 'new-nonce') {
+        return send(res, req.method === 'HEAD' ? 200 : 204);
+      }
+      if (resource === 'roots' && req.method === 'GET') {
+        return send(res, 200, ca.rootPem);
+      }
+      if (req.method !== 'POST') {
+        throw new AcmeProblem(405, 'malformed', `${req.method} not allowed on ${ACME_PREFIX}${path}`);
+      }
+
+      const request = await verifyJws(req, url);
+
+      switch (resource) {
+        case 'new-account': {
+          if (!request.jwk) throw new AcmeProblem(400, 'malformed', 'newAccount must be signed with a "jwk"');
+          const accountId = thumbprint(request.jwk);
+          const existing = accounts.get(accountId);
+          const location = `${base}/account/${accountId}`;
+          if (existing) {
+            return send(res, 200, { status: 'valid' }, { Location: location });
+          }
+          if (request.payload?.onlyReturnExisting) {
+            throw new AcmeProblem(400, 'accountDoesNotExist', 'No account exists for this key');
+          }
+          accounts.set(accountId, { id: accountId, key: createPublicKey({ key: request.jwk, format: 'jwk' }), jwk: request.jwk });
+          return send(res, 201, { status: 'valid', orders: `${location}/orders` }, { Location: location });
+        }
+
+        case 'new-order': {
+          const account = requireAccount(request);
+          const identifiers = request.payload?.identifiers;
+          if (!Array.isArray(identifiers) || identifiers.length === 0
+            || identifiers.some(i => i?.type !== 'dns' || typeof i.value !== 'string' || !i.value)) {
+            throw new AcmeProblem(400, 'rejectedIdentifier', 'Orders need one or more DNS identifiers');
+          }
+
+          const order: Order = {
+            id: randomId(),
+            accountId: account.id,
+            status: 'pending',
+            expires: new Date(Date.now() + ORDER_LIFETIME_MS).toISOString(),
+            identifiers: identifiers.map(i => ({ type: 'dns', value: String(i.value).toLowerCase() })),
+            authorizations: [],
+          };
+          order.identifiers.forEach(identifier => {
+            const authz: Authorization = {
+              id: randomId(),
+              accountId: account.id,
+              orderId: order.id,
+              identifier,
+              status: 'pending',
+              challenges: [],
+            };
+            (['http-01', 'dns-01'] as const).forEach(type => {
+              const challenge: Challenge = { id: randomId(), type, token: base64Url(randomBytes(32)), status: 'pending', authzId: authz.id };
+              challenges.set(challenge.id, challenge);
+              authz.challenges.push(challenge.id);
+            });
+            authorizations.set(authz.id, authz);
+            order.authorizations.push(authz.id);
+          });
+          orders.set(order.id, order);
+          return send(res, 201, orderJson(order, base), { Location: `${base}/order/${order.id}` });
+        }
+
+        case 'order': {
+          const order = findOwned(orders, id, requireAccount(request), 'Order');
+          return send(res, 200, orderJson(order, base));
+        }
+
+        case 'authz': {
+          const authz = findOwned(authorizations, id, requireAccount(request), 'Authorization');
+          return send(res, 200, authzJson(authz, base));
+        }
+
+        case 'chall': {
+          const account = requireAccount(request);
+          const challenge = challenges.get(id);
+          const authz = challenge && authorizations.get(challenge.authzId);
+          if (!challenge || !authz || authz.accountId !== account.id) {
+            throw new AcmeProblem(404, 'malformed', `Challenge ${id} not found`);
+          }
+          // A POST with a payload is the client saying "ready"; POST-as-GET just reads
+          if (request.payload !== undefined && challenge.status === 'pending') {
+            challenge.status = 'processing';
+            setTimeout(() => {
+              challenge.status = 'valid';
+              challenge.validated = new Date().toISOString();
+              authz.status = 'valid';
+              refreshOrder(orders.get(authz.orderId)!);
+            }, PROCESSING_MS);
+          }
+          return send(res, 200, challengeJson(challenge, base), { Link: `<${base}/authz/${authz.id}>;rel="up"` });
+        }
+
+        case 'finalize': {
+          const order = findOwned(orders, id, requireAccount(request), 'Order');
+          if (order.status !== 'ready') {
+            throw new AcmeProblem(403, 'orderNotReady', `Order is "${order.status}", not "ready"`);
+          }
+          const encoded = request.payload?.csr;
+          if (typeof encoded !== 'string') throw new AcmeProblem(400, 'badCSR', 'Missing "csr"');
+
+          let csr;
+          try {
+            csr = parseCsr(new Uint8Array(Buffer.from(encoded, 'base64url')));
+          } catch (err) {
+            if (err instanceof CsrRejectedError) throw new AcmeProblem(400, 'badCSR', err.message);
+            throw err;
+          }
+          const requested = [...new Set(csr.dnsNames.map(name => name.toLowerCase()))].sort();
+          const ordered = order.identifiers.map(i => i.value).sort();
+          if (requested.join(',') !== ordered.join(',')) {
+            throw new AcmeProblem(400, 'badCSR', `CSR names [${requested.join(', ')}] do not match the order [${ordered.join(', ')}]`);
+          }
+
+          order.status = 'processing';
+          setTimeout(() => {
+            const certificateId = randomId();
+            const host = `http://${req.headers.host ?? 'localhost'}`;
+            certificates.set(certificateId, ca.issue(csr, CERT_VALIDITY_DAYS, {
+              ocspUrl: `${host}/revocation/ocsp`,
+              crlUrl: `${host}/revocation/crl`,
+            }));
+            order.certificateId = certificateId;
+            order.status = 'valid';
+          }, PROCESSING_MS);
+          return send(res, 200, orderJson(order, base), { Location: `${base}/order/${order.id}` });
+        }
+
+        case 'cert': {
+          requireAccount(request);
+          const chain = certificates.get(id);
+          if (!chain) throw new AcmeProblem(404, 'malformed', `Certificate ${id} not found`);
+          return send(res, 200, chain);
+        }
+
+        default:
+          throw new AcmeProblem(404, 'malformed', `Unknown ACME resource ${ACME_PREFIX}${path}`);
+      }
+    } catch (err) {
+      if (err instanceof AcmeProblem) return sendProblem(res, err);
+      throw err;
+    }
+  }
+
+  return { handle };
+}
+
+export type AcmeServer = ReturnType<typeof createAcmeServer>;
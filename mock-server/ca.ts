@@ -0,0 +1,208 @@
+import { createHash, createPublicKey, generateKeyPairSync, randomBytes, sign, verify } from 'node:crypto';
+import type { KeyObject } from 'node:crypto';
+import {
+  TAG,
+  decodeDer,
+  decodeOid,
+  bitStringBytes,
+  isContext,
+  isUniversal,
+  encodeSequence,
+  encodeInteger,
+  encodeBoolean,
+  encodeOid,
+  encodeBitString,
+  encodeOctetString,
+  encodeTime,
+  encodeExplicit,
+  encodeImplicit,
+} from '../src/lib/asn1';
+import type { Asn1Node } from '../src/lib/asn1';
+import { encodeName, encodeDnsSubjectAltNames } from '../src/lib/csr';
+import type { CsrSubject } from '../src/lib/csr';
+import { derToPem } from '../src/lib/x509';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const OID = {
+  ECDSA_WITH_SHA256: '1.2.840.10045.4.3.2',
+  EXTENSION_REQUEST: '1.2.840.113549.1.9.14',
+  COMMON_NAME: '2.5.4.3',
+  SUBJECT_KEY_ID: '2.5.29.14',
+  KEY_USAGE: '2.5.29.15',
+  SUBJECT_ALT_NAME: '2.5.29.17',
+  BASIC_CONSTRAINTS: '2.5.29.19',
+  AUTHORITY_KEY_ID: '2.5.29.35',
+  EXT_KEY_USAGE: '2.5.29.37',
+  SERVER_AUTH: '1.3.6.1.5.5.7.3.1',
+  AUTHORITY_INFO_ACCESS: '1.3.6.1.5.5.7.1.1',
+  OCSP: '1.3.6.1.5.5.7.48.1',
+  CRL_DISTRIBUTION_POINTS: '2.5.29.31',
+};
+
+export const SIGNATURE_ALGORITHM = encodeSequence(encodeOid(OID.ECDSA_WITH_SHA256));
+
+export class CsrRejectedError extends Error {}
+
+export function extension(oid: string, critical: boolean, value: Uint8Array) {
+  return critical
+    ? encodeSequence(encodeOid(oid), encodeBoolean(true), encodeOctetString(value))
+    : encodeSequence(encodeOid(oid), encodeOctetString(value));
+}
+
+function keyIdentifier(spki: Uint8Array) {
+  const publicKey = bitStringBytes(decodeDer(spki).children[1]);
+  return new Uint8Array(createHash('sha1').update(publicKey).digest());
+}
+
+interface CertificateTemplate {
+  issuer: CsrSubject;
+  subject: CsrSubject;
+  spki: Uint8Array;
+  notBefore: Date;
+  notAfter: Date;
+  extensions: Uint8Array[];
+}
+
+function signCertificate(template: CertificateTemplate, signingKey: KeyObject) {
+  const tbs = encodeSequence(
+    encodeExplicit(0, encodeInteger(2)),
+    encodeInteger(randomBytes(16)),
+    SIGNATURE_ALGORITHM,
+    encodeName(template.issuer),
+    encodeSequence(encodeTime(template.notBefore), encodeTime(template.notAfter)),
+    encodeName(template.subject),
+    template.spki,
+    encodeExplicit(3, encodeSequence(...template.extensions))
+  );
+  const signature = new Uint8Array(sign('sha256', tbs, signingKey));
+  return encodeSequence(tbs, SIGNATURE_ALGORITHM, encodeBitString(signature));
+}
+
+export interface ParsedCsr {
+  spki: Uint8Array;
+  // subjectAltName DNS names, falling back to the common name
+  dnsNames: string[];
+}
+
+function findDnsNames(attributes: Asn1Node | undefined): string[] {
+  const names: string[] = [];
+  attributes?.children.forEach(attribute => {
+    const [type, values] = attribute.children;
+    if (decodeOid(type.value) !== OID.EXTENSION_REQUEST) return;
+    values.children[0]?.children.forEach(ext => {
+      if (decodeOid(ext.children[0].value) !== OID.SUBJECT_ALT_NAME) return;
+      const value = ext.children[ext.children.length - 1];
+      decodeDer(value.value).children
+        .filter(name => isContext(name, 2))
+        .forEach(name => names.push(new TextDecoder().decode(name.value)));
+    });
+  });
+  return names;
+}
+
+/** Decodes a PKCS#10 request and checks its self-signature. */
+export function parseCsr(der: Uint8Array): ParsedCsr {
+  let root: Asn1Node;
+  try {
+    root = decodeDer(der);
+  } catch (err) {
+    throw new CsrRejectedError(`CSR is not valid DER: ${(err as Error).message}`);
+  }
+
+  const [info, , signature] = root.children;
+  const [, subject, spki, attributes] = info?.children ?? [];
+  if (!isUniversal(spki, TAG.SEQUENCE) || !isUniversal(signature, TAG.BIT_STRING)) {
+    throw new CsrRejectedError('CSR is not a PKCS#10 request');
+  }
+
+  const publicKey = createPublicKey({ key: Buffer.from(spki.bytes), format: 'der', type: 'spki' });
+  if (!verify('sha256', info.bytes, publicKey, bitStringBytes(signature))) {
+    throw new CsrRejectedError('CSR signature does not verify');
+  }
+
+  let dnsNames = findDnsNames(isContext(attributes, 0) ? attributes : undefined);
+  if (dnsNames.length === 0) {
+    const commonName = subject.children
+      .flatMap(rdn => rdn.children)
+      .find(attr => decodeOid(attr.children[0].value) === OID.COMMON_NAME);
+    dnsNames = commonName ? [new TextDecoder().decode(commonName.children[1].value)] : [];
+  }
+  return { spki: spki.bytes, dnsNames };
+}
+
+export interface RevocationUrls {
+  ocspUrl: string;
+  crlUrl: string;
+}
+
+function revocationExtensions({ ocspUrl, crlUrl }: RevocationUrls) {
+  const uri = (url: string) => encodeImplicit(6, new TextEncoder().encode(url));
+  return [
+    extension(OID.AUTHORITY_INFO_ACCESS, false, encodeSequence(encodeSequence(encodeOid(OID.OCSP), uri(ocspUrl)))),
+    // DistributionPoint -> distributionPoint [0] -> fullName [0] -> URI
+    extension(OID.CRL_DISTRIBUTION_POINTS, false, encodeSequence(encodeSequence(encodeExplicit(0, encodeExplicit(0, uri(crlUrl)))))),
+  ];
+}
+
+/**
+ * A throwaway ECDSA CA, regenerated on every start like Pebble's. Its root
+ * is served at /acme/roots/0 for anyone who wants to build a trusted chain,
+ * and it also signs the revocation stub's OCSP responses and CRL.
+ */
+export function createTestCa(commonName = 'Mock ACME Test CA') {
+  const { privateKey, publicKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  const spki = new Uint8Array(publicKey.export({ type: 'spki', format: 'der' }));
+  const keyId = keyIdentifier(spki);
+  const name: CsrSubject = { CN: commonName, O: 'Mock Server' };
+  const now = Date.now();
+
+  const root = signCertificate({
+    issuer: name,
+    subject: name,
+    spki,
+    notBefore: new Date(now - DAY_MS),
+    notAfter: new Date(now + 10 * 365 * DAY_MS),
+    extensions: [
+      extension(OID.BASIC_CONSTRAINTS, true, encodeSequence(encodeBoolean(true))),
+      // keyCertSign and cRLSign
+      extension(OID.KEY_USAGE, true, encodeBitString(Uint8Array.of(0x06), 1)),
+      extension(OID.SUBJECT_KEY_ID, false, encodeOctetString(keyId)),
+    ],
+  }, privateKey);
+  const rootPem = derToPem(root);
+
+  return {
+    rootPem,
+    name: encodeName(name),
+    keyId,
+    // ECDSA-SHA256 signature (DER) over `data` with the CA key
+    sign(data: Uint8Array) {
+      return new Uint8Array(sign('sha256', data, privateKey));
+    },
+    // Returns the PEM chain: leaf, then root
+    issue(csr: ParsedCsr, validityDays: number, revocation?: RevocationUrls) {
+      const issuedAt = Date.now();
+      const leaf = signCertificate({
+        issuer: name,
+        subject: { CN: csr.dnsNames[0] },
+        spki: csr.spki,
+        notBefore: new Date(issuedAt - 60 * 60 * 1000),
+        notAfter: new Date(issuedAt + validityDays * DAY_MS),
+        extensions: [
+          extension(OID.BASIC_CONSTRAINTS, true, encodeSequence()),
+          // digitalSignature and keyEncipherment
+          extension(OID.KEY_USAGE, true, encodeBitString(Uint8Array.of(0xa0), 5)),
+          extension(OID.EXT_KEY_USAGE, false, encodeSequence(encodeOid(OID.SERVER_AUTH))),
+          extension(OID.SUBJECT_ALT_NAME, false, encodeDnsSubjectAltNames(csr.dnsNames)),
+          extension(OID.SUBJECT_KEY_ID, false, encodeOctetString(keyIdentifier(csr.spki))),
+          extension(OID.AUTHORITY_KEY_ID, false, encodeSequence(encodeImplicit(0, keyId))),
+          ...(revocation ? revocationExtensions(revocation) : []),
+        ],
+      }, privateKey);
+      return derToPem(leaf) + rootPem;
+    },
+  };
+}
+
+export type TestCa = ReturnType<typeof createTestCa>;
@@ -0,0 +1,60 @@
+import { QueryError } from './query';
+
+export interface FaultConfig {
+  // Delay added to every response, picked uniformly from [min, max] ms
+  latency: { min: number; max: number };
+  // Probability (0-1) that a request fails with `errorStatus`
+  errorRate: number;
+  errorStatus: number;
+}
+
+export function parseLatency(raw: string | undefined): FaultConfig['latency'] {
+  if (!raw) return { min: 0, max: 0 };
+  const [min, max = min] = raw.split('-').map(Number);
+  if (!Number.isFinite(min) || !Number.isFinite(max) || min < 0 || max < min) {
+    throw new QueryError(`Invalid latency "${raw}", expected "ms" or "min-max"`);
+  }
+  return { min, max };
+}
+
+// Injected failures must be 4xx or 5xx; anything else can't be written as a response
+export const isErrorStatus = (value: number) => Number.isInteger(value) && value >= 400 && value <= 599;
+
+export function defaultFaults(env: NodeJS.ProcessEnv): FaultConfig {
+  const errorStatus = Number(env.MOCK_ERROR_STATUS ?? 503);
+  return {
+    latency: parseLatency(env.MOCK_LATENCY),
+    errorRate: Number(env.MOCK_ERROR_RATE ?? 0),
+    errorStatus: isErrorStatus(errorStatus) ? errorStatus : 503,
+  };
+}
+
+/**
+ * Resolves the delay and forced failure for one request. The `_latency`
+ * and `_fail` query parameters (or `X-Mock-Latency` / `X-Mock-Fail`
+ * headers) override the server-wide config for that request only; a
+ * `_fail` value that isn't an error status fails with `errorStatus`.
+ */
+export function resolveFaults(
+  config: FaultConfig,
+  params: URLSearchParams,
+  headers: Record<string, string | string[] | undefined>
+) {
+  const latencyOverride = params.get('_latency') ?? headers['x-mock-latency'];
+  const failOverride = params.get('_fail') ?? headers['x-mock-fail'];
+
+  const latency = latencyOverride !== undefined
+    ? parseLatency(String(latencyOverride))
+    : config.latency;
+  const delay = latency.min + Math.random() * (latency.max - latency.min);
+
+  let failStatus: number | null = null;
+  if (failOverride !== undefined) {
+    const status = Number(failOverride);
+    failStatus = isErrorStatus(status) ? status : config.errorStatus;
+  } else if (Math.random() < config.errorRate) {
+    failStatus = config.errorStatus;
+  }
+
+  return { delay, failStatus };
+}
@@ -0,0 +1,26 @@
+import { createServer } from 'node:http';
+import { createStore } from './store';
+import { createRouter } from './router';
+import { defaultFaults } from './faults';
+import { createAcmeServer } from './acme';
+import { createRevocationResponder } from './revocation';
+import { createTestCa } from './ca';
+
+const port = Number(process.env.MOCK_PORT ?? 4000);
+const faults = defaultFaults(process.env);
+const syntheticRows = Number(process.env.MOCK_SYNTHETIC_ROWS ?? 0);
+const store = createStore({ syntheticRows });
+// One CA issues ACME certificates and signs OCSP responses and CRLs for them
+const ca = createTestCa();
+const server = createServer(createRouter(store, faults, {
+  acme: createAcmeServer(ca),
+  revocation: createRevocationResponder(ca, store),
+}));
+
+server.listen(port, () => {
+  console.log(`Mock inventory API listening on http://localhost:${port}/api`);
+  console.log(`ACME directory at http://localhost:${port}/acme/directory`);
+  console.log(`OCSP responder at http://localhost:${port}/revocation/ocsp, CRL at /revocation/crl`);
+  console.log(`  latency ${faults.latency.min}-${faults.latency.max}ms, error rate ${faults.errorRate}`);
+  if (syntheticRows > 0) console.log(`  serving ${syntheticRows} generated records per asset collection`);
+});
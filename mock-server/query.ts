@@ -0,0 +1,92 @@
+import type { AssetRecord } from './store';
+
+// Query parameters with special meaning. Every other parameter is treated
+// as an exact-match filter on the field of the same name.
+const RESERVED = new Set(['q', 'sort', 'page', 'pageSize', '_latency', '_fail']);
+
+const MAX_PAGE_SIZE = 500;
+
+export interface QueryResult {
+  data: AssetRecord[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+// Raised for malformed query parameters; the router answers with 400
+export class QueryError extends Error {}
+
+function matchesSearch(record: AssetRecord, term: string) {
+  return Object.values(record).some(value =>
+    typeof value === 'string'
+      ? value.toLowerCase().includes(term)
+      : Array.isArray(value) && value.some(v => typeof v === 'string' && v.toLowerCase().includes(term))
+  );
+}
+
+function matchesFilter(value: unknown, expected: string[]) {
+  if (Array.isArray(value)) {
+    return value.some(v => expected.includes(String(v)));
+  }
+  return expected.includes(String(value));
+}
+
+function compare(a: unknown, b: unknown) {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a ?? '').localeCompare(String(b ?? ''));
+}
+
+function parsePositiveInt(raw: string | null, name: string, fallback: number) {
+  if (raw === null) return fallback;
+  const n = Number(raw);
+  if (!Number.isInteger(n) || n < 1) {
+    throw new QueryError(`${name} must be a positive integer`);
+  }
+  return n;
+}
+
+/**
+ * Applies search (`q`), field filters (`status=active`, repeatable for OR),
+ * sorting (`sort=name,-expiryDate`) and paging (`page`, `pageSize`).
+ * Without `page` the whole filtered set is returned in one page.
+ */
+export function runQuery(records: AssetRecord[], params: URLSearchParams): QueryResult {
+  let result = records;
+
+  const term = params.get('q')?.trim().toLowerCase();
+  if (term) {
+    result = result.filter(record => matchesSearch(record, term));
+  }
+
+  const filterKeys = new Set([...params.keys()].filter(key => !RESERVED.has(key)));
+  for (const key of filterKeys) {
+    const expected = params.getAll(key);
+    result = result.filter(record => matchesFilter(record[key], expected));
+  }
+
+  const sort = params.get('sort');
+  if (sort) {
+    const fields = sort.split(',').filter(Boolean).map(field =>
+      field.startsWith('-')
+        ? { name: field.slice(1), direction: -1 }
+        : { name: field, direction: 1 }
+    );
+    result = [...result].sort((a, b) => {
+      for (const { name, direction } of fields) {
+        const diff = compare(a[name], b[name]);
+        if (diff !== 0) return diff * direction;
+      }
+      return 0;
+    });
+  }
+
+  const total = result.length;
+  if (!params.has('page')) {
+    return { data: result, total, page: 1, pageSize: total };
+  }
+
+  const page = parsePositiveInt(params.get('page'), 'page', 1);
+  const pageSize = Math.min(parsePositiveInt(params.get('pageSize'), 'pageSize', 25), MAX_PAGE_SIZE);
+  const start = (page - 1) * pageSize;
+  return { data: result.slice(start, start + pageSize), total, page, pageSize };
+}
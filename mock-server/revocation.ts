@@ -0,0 +1,186 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import {
+  TAG,
+  TAG_CLASS,
+  decodeDer,
+  toHex,
+  encodeSequence,
+  encodeInteger,
+  encodeOid,
+  encodeBitString,
+  encodeOctetString,
+  encodeEnumerated,
+  encodeGeneralizedTime,
+  encodeTime,
+  encodeExplicit,
+  encodeImplicit,
+} from '../src/lib/asn1';
+import type { Asn1Node } from '../src/lib/asn1';
+import { parseAuditTimestamp } from '../src/lib/audit';
+import type { Store } from './store';
+import { extension, SIGNATURE_ALGORITHM } from './ca';
+import type { TestCa } from './ca';
+
+// Stand-in OCSP responder and CRL endpoint for the test CA. Answers for any
+// serial number without checking the CertID hashes; anything not revoked here
+// is reported as good.
+
+export const REVOCATION_PREFIX = '/revocation';
+
+const OCSP_BASIC = '1.3.6.1.5.5.7.48.1.1';
+const CRL_REASON = '2.5.29.21';
+const AUTHORITY_KEY_ID = '2.5.29.35';
+// Responses and CRLs are valid this long
+const NEXT_UPDATE_MS = 60 * 60 * 1000;
+
+export interface Revocation {
+  serialNumber: string;
+  revokedAt: Date;
+  // CRLReason code, e.g. 1 for keyCompromise
+  reason: number;
+}
+
+const normalizeSerial = (serial: string) => serial.replace(/[:\s]/g, '').toUpperCase().replace(/^0+(?=.)/, '');
+const isHexSerial = (serial: string) => /^[0-9A-F]+$/.test(normalizeSerial(serial));
+
+function serialInteger(serial: string) {
+  const hex = normalizeSerial(serial);
+  return encodeInteger(Uint8Array.from((hex.length % 2 ? `0${hex}` : hex).match(/../g)!, b => parseInt(b, 16)));
+}
+
+// Best-effort mapping from the free-text reasons in CERT_REVOKED entries
+function reasonCode(text: unknown) {
+  const reason = String(text ?? '').toLowerCase();
+  if (reason.includes('compromise')) return 1;
+  if (reason.includes('supersede') || reason.includes('replace')) return 4;
+  if (reason.includes('decommission') || reason.includes('cessation')) return 5;
+  return 0;
+}
+
+export function createRevocationResponder(ca: TestCa, store: Store) {
+  const manual = new Map<string, Revocation>();
+
+  // CERT_REVOKED audit entries count as revocations, so the stub agrees with the audit trail
+  const fromAuditLog = (): Revocation[] => store.all('auditLogs')
+    .filter(log => log.actionType === 'CERT_REVOKED')
+    .flatMap(log => {
+      const metadata = (log.metadata ?? {}) as Record<string, unknown>;
+      const cert = store.all('certificates').find(c => `Certificate ${c.domain}` === log.targetResource);
+      const serial = typeof cert?.serialNumber === 'string' ? cert.serialNumber : '';
+      if (!isHexSerial(serial)) return [];
+      const revokedAt = new Date(parseAuditTimestamp(String(metadata.revocation_date ?? log.timestamp)));
+      return [{
+        serialNumber: serial,
+        revokedAt: Number.isNaN(revokedAt.getTime()) ? new Date() : revokedAt,
+        reason: reasonCode(metadata.reason),
+      }];
+    });
+
+  const revocations = () => {
+    const all = new Map(fromAuditLog().map(r => [normalizeSerial(r.serialNumber), r]));
+    manual.forEach((r, serial) => all.set(serial, r));
+    return all;
+  };
+
+  const revoke = (serialNumber: string, reason = 0) => {
+    if (!isHexSerial(serialNumber)) return null;
+    const revocation = { serialNumber, revokedAt: new Date(), reason };
+    manual.set(normalizeSerial(serialNumber), revocation);
+    return revocation;
+  };
+
+  function singleResponse(certId: Asn1Node, now: Date, revoked: Map<string, Revocation>) {
+    const serial = normalizeSerial(toHex(certId.children[3].value));
+    const revocation = revoked.get(serial);
+    const status = revocation
+      ? encodeExplicit(1, encodeGeneralizedTime(revocation.revokedAt), encodeExplicit(0, encodeEnumerated(revocation.reason)))
+      : encodeImplicit(0, new Uint8Array(0));
+    return encodeSequence(
+      certId.bytes,
+      status,
+      encodeGeneralizedTime(now),
+      encodeExplicit(0, encodeGeneralizedTime(new Date(now.getTime() + NEXT_UPDATE_MS)))
+    );
+  }
+
+  function ocspResponse(requestDer: Uint8Array): Uint8Array {
+    let certIds: Asn1Node[];
+    try {
+      const tbsRequest = decodeDer(requestDer).children[0];
+      const requestList = tbsRequest.children.find(node => node.tagClass === TAG_CLASS.UNIVERSAL && node.tagNumber === TAG.SEQUENCE);
+      certIds = requestList!.children.map(request => request.children[0]);
+      if (certIds.length === 0 || certIds.some(id => id.children.length !== 4)) throw new Error();
+    } catch {
+      // malformedRequest
+      return encodeSequence(encodeEnumerated(1));
+    }
+
+    const now = new Date();
+    const revoked = revocations();
+    const responseData = encodeSequence(
+      // responderID: byKey [2]
+      encodeExplicit(2, encodeOctetString(ca.keyId)),
+      encodeGeneralizedTime(now),
+      encodeSequence(...certIds.map(id => singleResponse(id, now, revoked)))
+    );
+    const basic = encodeSequence(responseData, SIGNATURE_ALGORITHM, encodeBitString(ca.sign(responseData)));
+    return encodeSequence(
+      encodeEnumerated(0),
+      encodeExplicit(0, encodeSequence(encodeOid(OCSP_BASIC), encodeOctetString(basic)))
+    );
+  }
+
+  function crl(): Uint8Array {
+    const now = new Date();
+    const entries = [...revocations().values()].map(r => encodeSequence(
+      serialInteger(r.serialNumber),
+      encodeTime(r.revokedAt),
+      encodeSequence(extension(CRL_REASON, false, encodeEnumerated(r.reason)))
+    ));
+    const tbs = encodeSequence(
+      encodeInteger(1),
+      SIGNATURE_ALGORITHM,
+      ca.name,
+      encodeTime(now),
+      encodeTime(new Date(now.getTime() + NEXT_UPDATE_MS)),
+      // revokedCertificates is omitted, not empty, when nothing is revoked
+      ...(entries.length > 0 ? [encodeSequence(...entries)] : []),
+      encodeExplicit(0, encodeSequence(
+        extension(AUTHORITY_KEY_ID, false, encodeSequence(encodeImplicit(0, ca.keyId)))
+      ))
+    );
+    return encodeSequence(tbs, SIGNATURE_ALGORITHM, encodeBitString(ca.sign(tbs)));
+  }
+
+  const sendDer = (res: ServerResponse, contentType: string, body: Uint8Array) => {
+    res.writeHead(200, {
+      'Content-Type': contentType,
+      'Access-Control-Allow-Origin': '*',
+      'Cache-Control': 'no-store',
+    });
+    res.end(Buffer.from(body));
+  };
+
+  // Resolves false for routes it doesn't serve
+  async function handle(req: IncomingMessage, res: ServerResponse, path: string) {
+    if (path === '/ocsp' && req.method === 'POST') {
+      const chunks: Buffer[] = [];
+      for await (const chunk of req) chunks.push(chunk as Buffer);
+      sendDer(res, 'application/ocsp-response', ocspResponse(new Uint8Array(Buffer.concat(chunks))));
+      return true;
+    }
+    if (path === '/crl' && req.method === 'GET') {
+      sendDer(res, 'application/pkix-crl', crl());
+      return true;
+    }
+    return false;
+  }
+
+  return {
+    handle,
+    revoke,
+    list: () => [...revocations().values()],
+  };
+}
+
+export type RevocationResponder = ReturnType<typeof createRevocationResponder>;
@@ -0,0 +1,182 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { COLLECTIONS, isCollection } from './store';
+import type { Store } from './store';
+import { runQuery, QueryError } from './query';
+import { isErrorStatus, resolveFaults, parseLatency } from './faults';
+import type { FaultConfig } from './faults';
+import { ACME_PREFIX } from './acme';
+import type { AcmeServer } from './acme';
+import { REVOCATION_PREFIX } from './revocation';
+import type { RevocationResponder } from './revocation';
+
+const API_PREFIX = '/api';
+const ADMIN_PREFIX = '/__mock';
+
+class HttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+function send(res: ServerResponse, status: number, body?: unknown) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET,POST,PATCH,DELETE,OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type,X-Mock-Latency,X-Mock-Fail',
+  });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+}
+
+async function readJson(req: IncomingMessage): Promise<Record<string, unknown>> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  const raw = Buffer.concat(chunks).toString('utf8');
+  if (!raw) return {};
+
+  try {
+    const body = JSON.parse(raw);
+    if (body === null || typeof body !== 'object' || Array.isArray(body)) {
+      throw new Error();
+    }
+    return body;
+  } catch {
+    throw new HttpError(400, 'Request body must be a JSON object');
+  }
+}
+
+interface Services {
+  acme: AcmeServer;
+  revocation: RevocationResponder;
+}
+
+async function handleAdmin(req: IncomingMessage, res: ServerResponse, path: string, store: Store, faults: FaultConfig, services: Services) {
+  if (path === '/config' && req.method === 'GET') {
+    return send(res, 200, faults);
+  }
+  if (path === '/config' && req.method === 'POST') {
+    const body = await readJson(req);
+    if (body.latency !== undefined) faults.latency = parseLatency(String(body.latency));
+    if (body.errorRate !== undefined) faults.errorRate = Number(body.errorRate);
+    if (body.errorStatus !== undefined) {
+      const errorStatus = Number(body.errorStatus);
+      if (!isErrorStatus(errorStatus)) throw new HttpError(400, 'errorStatus must be a whole number from 400 to 599');
+      faults.errorStatus = errorStatus;
+    }
+    return send(res, 200, faults);
+  }
+  if (path === '/revocations' && req.method === 'GET') {
+    return send(res, 200, services.revocation.list());
+  }
+  if (path === '/revocations' && req.method === 'POST') {
+    const body = await readJson(req);
+    const revocation = services.revocation.revoke(String(body.serialNumber ?? ''), Number(body.reason ?? 0));
+    if (!revocation) throw new HttpError(400, 'serialNumber must be a hexadecimal serial');
+    return send(res, 201, revocation);
+  }
+  if (path === '/reset' && req.method === 'POST') {
+    store.reset();
+    return send(res, 204);
+  }
+  throw new HttpError(404, `Unknown admin route ${req.method} ${ADMIN_PREFIX}${path}`);
+}
+
+function decodeSegment(segment: string) {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    throw new HttpError(400, `Malformed percent-encoding in "${segment}"`);
+  }
+}
+
+async function handleApi(req: IncomingMessage, res: ServerResponse, path: string, params: URLSearchParams, store: Store) {
+  const [collection, id, ...rest] = path.split('/').filter(Boolean).map(decodeSegment);
+
+  if (!collection) {
+    return send(res, 200, { collections: COLLECTIONS });
+  }
+  if (!isCollection(collection) || rest.length > 0) {
+    throw new HttpError(404, `Unknown resource ${path}`);
+  }
+
+  if (!id) {
+    if (req.method === 'GET') {
+      return send(res, 200, runQuery(store.all(collection), params));
+    }
+    if (req.method === 'POST') {
+      const body = await readJson(req);
+      if (typeof body.id === 'string' && store.get(collection, body.id)) {
+        throw new HttpError(409, `${collection}/${body.id} already exists`);
+      }
+      return send(res, 201, store.create(collection, body));
+    }
+    throw new HttpError(405, `${req.method} not allowed on ${collection}`);
+  }
+
+  switch (req.method) {
+    case 'GET': {
+      const record = store.get(collection, id);
+      if (!record) throw new HttpError(404, `${collection}/${id} not found`);
+      return send(res, 200, record);
+    }
+    case 'PATCH': {
+      const updated = store.update(collection, id, await readJson(req));
+      if (!updated) throw new HttpError(404, `${collection}/${id} not found`);
+      return send(res, 200, updated);
+    }
+    case 'DELETE': {
+      if (!store.remove(collection, id)) throw new HttpError(404, `${collection}/${id} not found`);
+      return send(res, 204);
+    }
+    default:
+      throw new HttpError(405, `${req.method} not allowed on ${collection}/${id}`);
+  }
+}
+
+export function createRouter(store: Store, faults: FaultConfig, services: Services) {
+  return async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    try {
+      if (req.method === 'OPTIONS') {
+        return send(res, 204);
+      }
+      if (url.pathname.startsWith(ADMIN_PREFIX)) {
+        return await handleAdmin(req, res, url.pathname.slice(ADMIN_PREFIX.length), store, faults, services);
+      }
+      // ACME and revocation have their own wire formats and aren't subject to fault injection
+      if (url.pathname.startsWith(ACME_PREFIX)) {
+        return await services.acme.handle(req, res, url.pathname.slice(ACME_PREFIX.length));
+      }
+      if (url.pathname.startsWith(REVOCATION_PREFIX)) {
+        if (await services.revocation.handle(req, res, url.pathname.slice(REVOCATION_PREFIX.length))) return;
+        throw new HttpError(404, `Unknown route ${req.method} ${url.pathname}`);
+      }
+      if (!url.pathname.startsWith(API_PREFIX)) {
+        throw new HttpError(404, `Unknown route ${url.pathname}`);
+      }
+
+      const { delay, failStatus } = resolveFaults(faults, url.searchParams, req.headers);
+      if (delay > 0) {
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+      if (failStatus !== null) {
+        throw new HttpError(failStatus, 'Injected failure');
+      }
+
+      await handleApi(req, res, url.pathname.slice(API_PREFIX.length), url.searchParams, store);
+    } catch (err) {
+      if (err instanceof HttpError) {
+        send(res, err.status, { error: err.message });
+      } else if (err instanceof QueryError) {
+        send(res, 400, { error: err.message });
+      } else {
+        console.error(err);
+        send(res, 500, { error: 'Internal server error' });
+      }
+    }
+  };
+}
@@ -0,0 +1,90 @@
+import { readFileSync } from 'node:fs';
+import { generateRecords, isSyntheticCollection } from '../src/lib/syntheticData';
+
+export const COLLECTIONS = ['certificates', 'certificateRequests', 'sshKeys', 'codeSigningKeys', 'auditLogs', 'savedViews'] as const;
+
+export type Collection = typeof COLLECTIONS[number];
+
+export type AssetRecord = { id: string } & Record<string, unknown>;
+
+const ID_PREFIX: Record<Collection, string> = {
+  certificates: 'cert',
+  certificateRequests: 'req',
+  sshKeys: 'ssh',
+  codeSigningKeys: 'csk',
+  auditLogs: 'log',
+  savedViews: 'view',
+};
+
+interface StoreOptions {
+  // Generate this many certificates, SSH keys, signing keys and audit entries instead of the bundled ones
+  syntheticRows?: number;
+}
+
+function loadDataset(collection: Collection, { syntheticRows = 0 }: StoreOptions): AssetRecord[] {
+  if (syntheticRows > 0 && isSyntheticCollection(collection)) {
+    return generateRecords(collection, syntheticRows);
+  }
+  const file = new URL(`../src/data/${collection}.json`, import.meta.url);
+  return JSON.parse(readFileSync(file, 'utf8'));
+}
+
+export function isCollection(name: string): name is Collection {
+  return (COLLECTIONS as readonly string[]).includes(name);
+}
+
+// In-memory copy of the bundled (or generated) datasets. Mutations live until reset() or restart.
+export function createStore(options: StoreOptions = {}) {
+  let data = {} as Record<Collection, AssetRecord[]>;
+
+  const reset = () => {
+    data = {} as Record<Collection, AssetRecord[]>;
+    for (const collection of COLLECTIONS) {
+      data[collection] = loadDataset(collection, options);
+    }
+  };
+
+  const nextId = (collection: Collection) => {
+    const prefix = ID_PREFIX[collection];
+    const max = data[collection].reduce((highest, record) => {
+      const n = Number(record.id.replace(`${prefix}-`, ''));
+      return Number.isFinite(n) ? Math.max(highest, n) : highest;
+    }, 0);
+    return `${prefix}-${max + 1}`;
+  };
+
+  reset();
+
+  return {
+    reset,
+    all(collection: Collection) {
+      return data[collection];
+    },
+    get(collection: Collection, id: string) {
+      return data[collection].find(record => record.id === id);
+    },
+    create(collection: Collection, input: Record<string, unknown>) {
+      const record = { ...input, id: typeof input.id === 'string' ? input.id : nextId(collection) };
+      data[collection] = [...data[collection], record];
+      return record;
+    },
+    update(collection: Collection, id: string, patch: Record<string, unknown>) {
+      const existing = this.get(collection, id);
+      if (!existing) return undefined;
+      const updated: AssetRecord = { ...existing, ...patch, id };
+      // JSON Merge Patch: null removes the field
+      Object.keys(patch).forEach(field => {
+        if (patch[field] === null) delete updated[field];
+      });
+      data[collection] = data[collection].map(record => record.id === id ? updated : record);
+      return updated;
+    },
+    remove(collection: Collection, id: string) {
+      const before = data[collection].length;
+      data[collection] = data[collection].filter(record => record.id !== id);
+      return data[collection].length < before;
+    },
+  };
+}
+
+export type Store = ReturnType<typeof createStore>;
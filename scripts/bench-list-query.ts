@@ -0,0 +1,34 @@
+// Times list filtering and sorting over synthetic inventories.
+//   npm run bench -- 10000 100000 1000000
+import { generateRecords } from '../src/lib/syntheticData';
+import { runListQuery, ListCollection, ListQuery } from '../src/lib/listQuery';
+import { DEFAULT_EXPIRY_THRESHOLDS } from '../src/lib/certStatus';
+import { DEFAULT_CRYPTO_POLICY } from '../src/lib/policy';
+import { DEFAULT_TRUST_THRESHOLDS } from '../src/lib/sshTrust';
+
+const sizes = process.argv.slice(2).map(Number).filter(n => Number.isInteger(n) && n > 0);
+
+// A typical query per page: one filter plus a multi-column sort
+const QUERIES: { [C in ListCollection]: ListQuery<C> } = {
+  certificates: { domain: 'all', status: 'warning', search: '', thresholds: DEFAULT_EXPIRY_THRESHOLDS, sort: 'issuer,expiryDate' },
+  sshKeys: { trust: 'all', rotation: 'overdue', kind: 'all', search: '', policy: DEFAULT_CRYPTO_POLICY, trustThresholds: DEFAULT_TRUST_THRESHOLDS, logins: {}, watched: null, sort: '-trustLevel,owner' },
+  codeSigningKeys: { protection: 'Soft', environment: 'all', rotation: 'all', search: '', sort: '-lastUsed' },
+  auditLogs: { action: 'all', search: 'alice', sort: '-timestamp' },
+};
+
+function time<T>(run: () => T): [T, number] {
+  const start = performance.now();
+  const result = run();
+  return [result, performance.now() - start];
+}
+
+for (const size of sizes.length > 0 ? sizes : [10_000, 100_000, 1_000_000]) {
+  for (const collection of Object.keys(QUERIES) as ListCollection[]) {
+    const [records, generateMs] = time(() => generateRecords(collection, size));
+    const [indices, queryMs] = time(() => runListQuery(collection, records, QUERIES[collection]));
+    console.log(
+      `${String(size).padStart(9)} ${collection.padEnd(16)} generate ${generateMs.toFixed(0).padStart(6)}ms` +
+      `  filter+sort ${queryMs.toFixed(0).padStart(6)}ms  (${indices.length} rows)`
+    );
+  }
+}
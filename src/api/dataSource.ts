@@ -0,0 +1,23 @@
+import type { AssetCollection, AssetRecordMap, NewRecord } from '../types/assets';
+
+export interface AssetDataSource {
+  list<K extends AssetCollection>(collection: K): Promise<AssetRecordMap[K][]>;
+  create<K extends AssetCollection>(collection: K, record: NewRecord<AssetRecordMap[K]>): Promise<AssetRecordMap[K]>;
+  // Fields set to undefined in `patch` are removed from the record
+  update<K extends AssetCollection>(
+    collection: K,
+    id: string,
+    patch: Partial<AssetRecordMap[K]>
+  ): Promise<AssetRecordMap[K]>;
+  remove(collection: AssetCollection, id: string): Promise<void>;
+}
+
+export class DataSourceError extends Error {
+  status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'DataSourceError';
+    this.status = status;
+  }
+}
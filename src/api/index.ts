@@ -0,0 +1,19 @@
+import type { AssetDataSource } from './dataSource';
+import { createStaticDataSource } from './staticDataSource';
+import { createRestDataSource } from './restDataSource';
+
+export type { AssetDataSource } from './dataSource';
+export { DataSourceError } from './dataSource';
+
+let dataSource: AssetDataSource | null = null;
+
+// Picks the backend from VITE_DATA_SOURCE ("static" or "rest").
+// The REST source reads VITE_API_BASE_URL and defaults to /api.
+export function getDataSource(): AssetDataSource {
+  if (!dataSource) {
+    dataSource = import.meta.env.VITE_DATA_SOURCE === 'rest'
+      ? createRestDataSource(import.meta.env.VITE_API_BASE_URL || '/api')
+      : createStaticDataSource();
+  }
+  return dataSource;
+}
@@ -0,0 +1,61 @@
+import type { AssetDataSource } from './dataSource';
+import { DataSourceError } from './dataSource';
+
+// PATCH bodies follow JSON Merge Patch (RFC 7386), where null removes a field.
+// JSON.stringify drops undefined, so cleared fields are sent as null.
+function toMergePatch(patch: object) {
+  return Object.fromEntries(Object.entries(patch).map(([field, value]) => [field, value === undefined ? null : value]));
+}
+
+export function createRestDataSource(baseUrl: string): AssetDataSource {
+  const root = baseUrl.replace(/\/$/, '');
+
+  const request = async (path: string, description: string, init?: RequestInit) => {
+    let response: Response;
+    try {
+      response = await fetch(`${root}/${path}`, {
+        ...init,
+        headers: { Accept: 'application/json', 'Content-Type': 'application/json' },
+      });
+    } catch (err) {
+      throw new DataSourceError(`Could not reach ${root}`);
+    }
+
+    if (!response.ok) {
+      throw new DataSourceError(
+        `Failed to ${description} (${response.status} ${response.statusText})`,
+        response.status
+      );
+    }
+    // DELETE answers 204 with no body
+    return response.status === 204 ? undefined : response.json();
+  };
+
+  return {
+    async list(collection) {
+      // Accept either a bare array or a `{ data: [...] }` envelope
+      const body = await request(collection, `load ${collection}`);
+      return Array.isArray(body) ? body : body.data;
+    },
+
+    create(collection, record) {
+      return request(collection, `create ${collection} record`, {
+        method: 'POST',
+        body: JSON.stringify(record),
+      });
+    },
+
+    update(collection, id, patch) {
+      return request(`${collection}/${encodeURIComponent(id)}`, `update ${collection}/${id}`, {
+        method: 'PATCH',
+        body: JSON.stringify(toMergePatch(patch)),
+      });
+    },
+
+    async remove(collection, id) {
+      await request(`${collection}/${encodeURIComponent(id)}`, `delete ${collection}/${id}`, {
+        method: 'DELETE',
+      });
+    },
+  };
+}
@@ -0,0 +1,162 @@
+import type {
+  AssetCollection,
+  AssetRecordMap,
+  AuditLog,
+  Certificate,
+  CertificateRequest,
+  CodeSigningKey,
+  SavedView,
+  SSHKey,
+} from '../types/assets';
+import type { AssetDataSource } from './dataSource';
+import { DataSourceError } from './dataSource';
+import { generateRecords, isSyntheticCollection, SyntheticCollection } from '../lib/syntheticData';
+import certificatesData from '../data/certificates.json';
+import certificateRequestsData from '../data/certificateRequests.json';
+import sshKeysData from '../data/sshKeys.json';
+import codeSigningData from '../data/codeSigningKeys.json';
+import auditLogsData from '../data/auditLogs.json';
+import savedViewsData from '../data/savedViews.json';
+
+// JSON imports type enum fields as plain strings
+const datasets: { [K in AssetCollection]: AssetRecordMap[K][] } = {
+  certificates: certificatesData as Certificate[],
+  certificateRequests: certificateRequestsData as CertificateRequest[],
+  sshKeys: sshKeysData as SSHKey[],
+  codeSigningKeys: codeSigningData as CodeSigningKey[],
+  auditLogs: auditLogsData as AuditLog[],
+  savedViews: savedViewsData as SavedView[],
+};
+
+// Simulated network latency per collection, in ms
+const LATENCY: Record<AssetCollection, number> = {
+  certificates: 800,
+  certificateRequests: 400,
+  sshKeys: 600,
+  codeSigningKeys: 700,
+  auditLogs: 500,
+  savedViews: 300,
+};
+
+const WRITE_LATENCY = 300;
+
+const ID_PREFIX: Record<AssetCollection, string> = {
+  certificates: 'cert',
+  certificateRequests: 'req',
+  sshKeys: 'ssh',
+  codeSigningKeys: 'csk',
+  auditLogs: 'log',
+  savedViews: 'view',
+};
+
+// Writes are kept in localStorage on top of the bundled JSON, so edits
+// survive reloads. This is separate from the cache and is not cleared with it.
+const STORAGE_PREFIX = 'static_';
+
+// Bump whenever the bundled JSON or a record shape changes. Saved copies are
+// stamped with it, and copies of an older dataset (or unstamped ones) are
+// dropped in favour of the bundled data.
+const DATASET_VERSION = 4;
+
+interface StoredDataset<T> {
+  version: number;
+  records: T[];
+}
+
+// VITE_SYNTHETIC_ROWS=100000 replaces the bundled assets and audit log with
+// generated ones of that size. They are far too big for localStorage, so
+// edits to them only last until reload.
+const SYNTHETIC_ROWS = Number(import.meta.env.VITE_SYNTHETIC_ROWS) || 0;
+const syntheticDatasets = new Map<AssetCollection, unknown[]>();
+
+const isSynthetic = (collection: AssetCollection): collection is SyntheticCollection =>
+  SYNTHETIC_ROWS > 0 && isSyntheticCollection(collection);
+
+function delay(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function readRecords<K extends AssetCollection>(collection: K): AssetRecordMap[K][] {
+  if (isSynthetic(collection)) {
+    if (!syntheticDatasets.has(collection)) {
+      syntheticDatasets.set(collection, generateRecords(collection, SYNTHETIC_ROWS));
+    }
+    return syntheticDatasets.get(collection) as AssetRecordMap[K][];
+  }
+  const stored = localStorage.getItem(STORAGE_PREFIX + collection);
+  if (stored) {
+    try {
+      const dataset: StoredDataset<AssetRecordMap[K]> = JSON.parse(stored);
+      if (dataset.version === DATASET_VERSION && Array.isArray(dataset.records)) return dataset.records;
+    } catch {
+      // Unreadable; dropped below
+    }
+    localStorage.removeItem(STORAGE_PREFIX + collection);
+  }
+  return datasets[collection];
+}
+
+function writeRecords<K extends AssetCollection>(collection: K, records: AssetRecordMap[K][]) {
+  if (isSynthetic(collection)) {
+    syntheticDatasets.set(collection, records);
+    return;
+  }
+  try {
+    const dataset: StoredDataset<AssetRecordMap[K]> = { version: DATASET_VERSION, records };
+    localStorage.setItem(STORAGE_PREFIX + collection, JSON.stringify(dataset));
+  } catch (err) {
+    throw new DataSourceError(`Could not save ${collection} locally`);
+  }
+}
+
+function nextId(collection: AssetCollection, records: { id: string }[]) {
+  const prefix = ID_PREFIX[collection];
+  const max = records.reduce((highest, record) => {
+    const n = Number(record.id.replace(`${prefix}-`, ''));
+    return Number.isFinite(n) ? Math.max(highest, n) : highest;
+  }, 0);
+  return `${prefix}-${max + 1}`;
+}
+
+// Takes the non-distributive form of NewRecord, which TypeScript can check against T
+function withId<T extends { id: string }>(record: Omit<T, 'id'> & { id?: string }, id: string): T {
+  return { ...record, id } as T;
+}
+
+export function createStaticDataSource(): AssetDataSource {
+  return {
+    async list(collection) {
+      await delay(LATENCY[collection]);
+      return readRecords(collection);
+    },
+
+    async create(collection, record) {
+      await delay(WRITE_LATENCY);
+      const records = readRecords(collection);
+      const created = withId<AssetRecordMap[typeof collection]>(record, record.id ?? nextId(collection, records));
+      writeRecords(collection, [...records, created]);
+      return created;
+    },
+
+    async update(collection, id, patch) {
+      await delay(WRITE_LATENCY);
+      const records = readRecords(collection);
+      const existing = records.find(record => record.id === id);
+      if (!existing) {
+        throw new DataSourceError(`${collection}/${id} not found`, 404);
+      }
+      const updated = { ...existing, ...patch, id };
+      writeRecords(collection, records.map(record => record.id === id ? updated : record));
+      return updated;
+    },
+
+    async remove(collection, id) {
+      await delay(WRITE_LATENCY);
+      const records = readRecords(collection);
+      if (!records.some(record => record.id === id)) {
+        throw new DataSourceError(`${collection}/${id} not found`, 404);
+      }
+      writeRecords(collection, records.filter(record => record.id !== id));
+    },
+  };
+}
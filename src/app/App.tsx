@@ -1,11 +1,15 @@
-import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
+import { BrowserRouter, Routes, Route } from 'react-router-dom';
 import { DashboardProvider } from '../contexts/DashboardContext';
 import { Sidebar } from './components/Sidebar';
 import { TopNav } from './components/TopNav';
+import { OverviewPage } from './pages/OverviewPage';
 import { CertificatesPage } from './pages/CertificatesPage';
+import { IssuersPage } from './pages/IssuersPage';
 import { SSHKeysPage } from './pages/SSHKeysPage';
+import { ServersPage } from './pages/ServersPage';
 import { CodeSigningPage } from './pages/CodeSigningPage';
 import { AuditLogsPage } from './pages/AuditLogsPage';
+import { PoliciesPage } from './pages/PoliciesPage';
 import { Toaster } from './components/ui/sonner';
 
 export default function App() {
@@ -18,10 +22,13 @@ export default function App() {
             <TopNav />
             <main className="flex-1 overflow-auto">
               <Routes>
-                <Route path="/" element={<Navigate to="/certificates" replace />} />
+                <Route path="/" element={<OverviewPage />} />
                 <Route path="/certificates" element={<CertificatesPage />} />
+                <Route path="/issuers" element={<IssuersPage />} />
                 <Route path="/ssh-keys" element={<SSHKeysPage />} />
+                <Route path="/servers" element={<ServersPage />} />
                 <Route path="/code-signing" element={<CodeSigningPage />} />
+                <Route path="/policies" element={<PoliciesPage />} />
                 <Route path="/audit-logs" element={<AuditLogsPage />} />
               </Routes>
             </main>
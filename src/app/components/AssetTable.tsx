@@ -0,0 +1,442 @@
+import { useEffect, useMemo, useState, ReactNode, PointerEvent as ReactPointerEvent } from 'react';
+import {
+  ArrowDown,
+  ArrowUp,
+  ArrowUpDown,
+  ChevronDown,
+  ChevronLeft,
+  ChevronRight,
+  ChevronsLeft,
+  ChevronsRight,
+  ChevronUp,
+  Columns3,
+} from 'lucide-react';
+import { Button } from './ui/button';
+import { Checkbox } from './ui/checkbox';
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from './ui/table';
+import { useColumnConfig } from '../../hooks/useColumnConfig';
+import { useVirtualList } from '../../hooks/useVirtualList';
+import { formatSort, parseSort, toggleSort } from '../../lib/tableSort';
+
+export interface AssetColumn<T> {
+  id: string;
+  header: string;
+  cell: (row: T) => ReactNode;
+  // Whether clicking the header sorts by this column. The rows themselves
+  // arrive sorted, e.g. from useListQuery.
+  sortable?: boolean;
+  // Starting width in px; the user can resize from there
+  width?: number;
+  defaultHidden?: boolean;
+  // Always shown at the end and left out of the column menu, e.g. row actions
+  fixed?: boolean;
+  className?: string;
+}
+
+export const PAGE_SIZES = [10, 25, 50, 100, 500, 1000];
+
+const MIN_COLUMN_WIDTH = 60;
+
+// A row with action buttons; only used until rows are measured
+const ESTIMATED_ROW_HEIGHT = 49;
+
+interface AssetTableProps<T> {
+  // Key the user's column layout is saved under
+  tableId: string;
+  columns: AssetColumn<T>[];
+  // Already filtered and sorted by `sort`
+  rows: T[];
+  getRowId: (row: T) => string;
+  // "expiryDate,-name": comma-separated column ids, "-" for descending
+  sort: string;
+  onSortChange: (sort: string) => void;
+  page: number;
+  onPageChange: (page: number) => void;
+  pageSize: number;
+  onPageSizeChange: (pageSize: number) => void;
+  title?: string;
+  // Extra toolbar content shown before the column menu, e.g. export buttons
+  actions?: ReactNode;
+  emptyMessage?: string;
+  // Rows are being recomputed; the current ones are dimmed meanwhile
+  busy?: boolean;
+  // Adds an expand toggle to each row that shows this below it
+  renderExpanded?: (row: T) => ReactNode;
+  // Adds a checkbox to each row; ids may include rows on other pages
+  selected?: Set<string>;
+  onSelectedChange?: (selected: Set<string>) => void;
+  // Row to page to, expand and scroll to once it is loaded, e.g. from an ?open= link
+  openRowId?: string;
+}
+
+// Up to five page numbers around the current one
+function pageWindow(page: number, totalPages: number) {
+  const size = Math.min(5, totalPages);
+  const start = Math.min(Math.max(1, page - 2), totalPages - size + 1);
+  return Array.from({ length: size }, (_, i) => start + i);
+}
+
+/**
+ * Sortable, paginated table over a list of records. Clicking a header sorts
+ * by that column; shift-click adds it as a further sort key. Column order,
+ * visibility and widths are saved per user. Only the rows on screen are
+ * rendered, so large pages stay responsive. With `selected`, rows get
+ * checkboxes and a full page selection offers to select every matching row.
+ */
+export function AssetTable<T>({
+  tableId,
+  columns,
+  rows,
+  getRowId,
+  sort,
+  onSortChange,
+  page,
+  onPageChange,
+  pageSize,
+  onPageSizeChange,
+  title,
+  actions,
+  emptyMessage = 'No records match the current filters.',
+  busy = false,
+  renderExpanded,
+  selected,
+  onSelectedChange,
+  openRowId,
+}: AssetTableProps<T>) {
+  const { config, toggleHidden, move, resize, reset } = useColumnConfig(tableId, columns);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  // Width of the column being dragged, before it is saved on release
+  const [dragging, setDragging] = useState<{ id: string; width: number } | null>(null);
+
+  const sortKeys = useMemo(() => parseSort(sort), [sort]);
+
+  const movable = useMemo(
+    () => config.order
+      .map(id => columns.find(column => column.id === id))
+      .filter((column): column is AssetColumn<T> => !!column && !column.fixed),
+    [config.order, columns]
+  );
+  const visible = [
+    ...movable.filter(column => !config.hidden.includes(column.id)),
+    ...columns.filter(column => column.fixed),
+  ];
+
+  const safePageSize = PAGE_SIZES.includes(pageSize) ? pageSize : PAGE_SIZES[1];
+  const totalPages = Math.max(1, Math.ceil(rows.length / safePageSize));
+  // A shared link may point past the end once the data has changed
+  const currentPage = Math.min(Math.max(1, Math.floor(page) || 1), totalPages);
+  const pageRows = useMemo(
+    () => rows.slice((currentPage - 1) * safePageSize, currentPage * safePageSize),
+    [rows, currentPage, safePageSize]
+  );
+  const virtual = useVirtualList({ items: pageRows, getKey: getRowId, estimateSize: ESTIMATED_ROW_HEIGHT });
+
+  // The row last brought into view, so it is only done once per link
+  const [revealed, setRevealed] = useState<string | null>(null);
+  const { scrollToIndex } = virtual;
+  useEffect(() => {
+    if (!openRowId || openRowId === revealed || busy) return;
+    const index = rows.findIndex(row => getRowId(row) === openRowId);
+    if (index === -1) return;
+    const rowPage = Math.floor(index / safePageSize) + 1;
+    if (rowPage !== currentPage) {
+      onPageChange(rowPage);
+      return;
+    }
+    if (!scrollToIndex(index - (rowPage - 1) * safePageSize)) return;
+    if (renderExpanded) setExpanded(prev => new Set(prev).add(openRowId));
+    setRevealed(openRowId);
+  }, [openRowId, revealed, busy, rows, getRowId, safePageSize, currentPage, onPageChange, renderExpanded, scrollToIndex]);
+
+  const columnWidth = (column: AssetColumn<T>) =>
+    dragging?.id === column.id ? dragging.width : config.widths[column.id] ?? column.width;
+
+  const startResize = (column: AssetColumn<T>, event: ReactPointerEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    event.stopPropagation();
+    const handle = event.currentTarget;
+    const startX = event.clientX;
+    const startWidth = handle.parentElement?.getBoundingClientRect().width ?? MIN_COLUMN_WIDTH;
+    const widthAt = (x: number) => Math.max(MIN_COLUMN_WIDTH, Math.round(startWidth + x - startX));
+
+    handle.setPointerCapture(event.pointerId);
+    handle.onpointermove = (e) => setDragging({ id: column.id, width: widthAt(e.clientX) });
+    handle.onpointerup = (e) => {
+      handle.onpointermove = null;
+      handle.onpointerup = null;
+      setDragging(null);
+      resize(column.id, widthAt(e.clientX));
+    };
+  };
+
+  const toggleRow = (id: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const selectable = !!selected && !!onSelectedChange;
+  const pageSelected = selectable && pageRows.length > 0 && pageRows.every(row => selected.has(getRowId(row)));
+  const somePageSelected = selectable && pageRows.some(row => selected.has(getRowId(row)));
+  const allSelected = selectable && rows.length > 0 && selected.size >= rows.length && rows.every(row => selected.has(getRowId(row)));
+
+  const setSelected = (ids: string[], on: boolean) => {
+    if (!selected || !onSelectedChange) return;
+    const next = new Set(selected);
+    ids.forEach(id => on ? next.add(id) : next.delete(id));
+    onSelectedChange(next);
+  };
+
+  const columnCount = visible.length + (renderExpanded ? 1 : 0) + (selectable ? 1 : 0);
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700 overflow-hidden">
+      <div className="flex items-center justify-between gap-2 p-4 border-b border-slate-200 dark:border-slate-700">
+        {title ? <h3 className="text-lg">{title}</h3> : <span />}
+        <div className="flex items-center gap-2">
+          {actions}
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="outline" size="sm">
+                <Columns3 className="h-4 w-4 mr-2" />
+                Columns
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent align="end" className="w-64 p-2">
+              <div className="space-y-1">
+                {movable.map((column, index) => (
+                  <div key={column.id} className="flex items-center gap-2 rounded px-1 py-0.5 hover:bg-slate-50 dark:hover:bg-slate-700/50">
+                    <Checkbox
+                      id={`${tableId}-column-${column.id}`}
+                      checked={!config.hidden.includes(column.id)}
+                      onCheckedChange={() => toggleHidden(column.id)}
+                    />
+                    <label htmlFor={`${tableId}-column-${column.id}`} className="flex-1 text-sm truncate">
+                      {column.header}
+                    </label>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 w-6 p-0"
+                      disabled={index === 0}
+                      onClick={() => move(column.id, -1)}
+                      title="Move left"
+                    >
+                      <ChevronUp className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 w-6 p-0"
+                      disabled={index === movable.length - 1}
+                      onClick={() => move(column.id, 1)}
+                      title="Move right"
+                    >
+                      <ChevronDown className="h-3 w-3" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+              <Button variant="ghost" size="sm" className="w-full mt-2" onClick={reset}>
+                Reset columns
+              </Button>
+            </PopoverContent>
+          </Popover>
+        </div>
+      </div>
+
+      {pageSelected && rows.length > pageRows.length && (
+        <div className="flex flex-wrap items-center justify-center gap-2 px-4 py-2 text-sm bg-blue-50 dark:bg-blue-950/40 border-b border-slate-200 dark:border-slate-700">
+          {allSelected ? (
+            <>
+              <span>All {rows.length.toLocaleString()} matching rows are selected.</span>
+              <Button variant="link" size="sm" className="h-auto p-0" onClick={() => onSelectedChange?.(new Set())}>
+                Clear selection
+              </Button>
+            </>
+          ) : (
+            <>
+              <span>All {pageRows.length.toLocaleString()} rows on this page are selected.</span>
+              <Button variant="link" size="sm" className="h-auto p-0" onClick={() => setSelected(rows.map(getRowId), true)}>
+                Select all {rows.length.toLocaleString()} matching rows
+              </Button>
+            </>
+          )}
+        </div>
+      )}
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            {selectable && (
+              <TableHead className="w-10">
+                <Checkbox
+                  aria-label="Select all rows on this page"
+                  checked={pageSelected ? true : somePageSelected ? 'indeterminate' : false}
+                  onCheckedChange={() => setSelected(pageRows.map(getRowId), !pageSelected)}
+                />
+              </TableHead>
+            )}
+            {renderExpanded && <TableHead className="w-12" />}
+            {visible.map(column => {
+              const index = sortKeys.findIndex(key => key.id === column.id);
+              const key = sortKeys[index];
+              const width = columnWidth(column);
+              return (
+                <TableHead key={column.id} className="relative" style={width ? { width, minWidth: width } : undefined}>
+                  {column.sortable ? (
+                    <button
+                      type="button"
+                      className="flex items-center gap-1 hover:text-slate-900 dark:hover:text-white"
+                      title="Click to sort, Shift+click to sort by more than one column"
+                      onClick={(e) => onSortChange(formatSort(toggleSort(sortKeys, column.id, e.shiftKey)))}
+                    >
+                      {column.header}
+                      {key ? (
+                        key.desc ? <ArrowDown className="h-3 w-3" /> : <ArrowUp className="h-3 w-3" />
+                      ) : (
+                        <ArrowUpDown className="h-3 w-3 text-slate-300" />
+                      )}
+                      {key && sortKeys.length > 1 && <span className="text-[10px] text-slate-400">{index + 1}</span>}
+                    </button>
+                  ) : (
+                    column.header
+                  )}
+                  {!column.fixed && (
+                    <div
+                      className="absolute right-0 top-0 h-full w-1.5 cursor-col-resize select-none hover:bg-blue-600/40"
+                      onPointerDown={(e) => startResize(column, e)}
+                    />
+                  )}
+                </TableHead>
+              );
+            })}
+          </TableRow>
+        </TableHeader>
+        {pageRows.length === 0 ? (
+          <TableBody>
+            <TableRow>
+              <TableCell colSpan={columnCount} className="py-8 text-center text-sm text-slate-500">
+                {emptyMessage}
+              </TableCell>
+            </TableRow>
+          </TableBody>
+        ) : (
+          <>
+            {/* Each row gets its own tbody so it can be measured with its expanded content */}
+            <tbody ref={virtual.listRef} aria-hidden>
+              <tr style={{ height: virtual.paddingTop }} />
+            </tbody>
+            {virtual.items.map(({ index, item: row, key: id }) => {
+              const open = expanded.has(id);
+              return (
+                <tbody
+                  key={id}
+                  data-index={index}
+                  ref={virtual.measureElement}
+                  className={busy ? 'opacity-60 transition-opacity' : 'transition-opacity'}
+                >
+                  <TableRow data-state={selected?.has(id) || id === openRowId ? 'selected' : undefined}>
+                    {selectable && (
+                      <TableCell>
+                        <Checkbox
+                          aria-label="Select row"
+                          checked={selected.has(id)}
+                          onCheckedChange={(checked) => setSelected([id], checked === true)}
+                        />
+                      </TableCell>
+                    )}
+                    {renderExpanded && (
+                      <TableCell>
+                        <Button variant="ghost" size="sm" onClick={() => toggleRow(id)} title={open ? 'Collapse' : 'Expand'}>
+                          {open ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                        </Button>
+                      </TableCell>
+                    )}
+                    {visible.map(column => (
+                      <TableCell key={column.id} className={column.className}>{column.cell(row)}</TableCell>
+                    ))}
+                  </TableRow>
+                  {renderExpanded && open && (
+                    <TableRow>
+                      <TableCell colSpan={columnCount} className="bg-slate-50 dark:bg-slate-900/50">
+                        {renderExpanded(row)}
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </tbody>
+              );
+            })}
+            <tbody aria-hidden>
+              <tr style={{ height: virtual.paddingBottom }} />
+            </tbody>
+          </>
+        )}
+      </Table>
+
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 p-4 border-t border-slate-200 dark:border-slate-700">
+        <div className="flex items-center gap-3 text-sm text-slate-500">
+          <span>
+            {rows.length === 0
+              ? 'No rows'
+              : `Showing ${(currentPage - 1) * safePageSize + 1} to ${Math.min(currentPage * safePageSize, rows.length)} of ${rows.length}`}
+          </span>
+          <Select value={String(safePageSize)} onValueChange={(value) => onPageSizeChange(Number(value))}>
+            <SelectTrigger className="h-8 w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PAGE_SIZES.map(size => (
+                <SelectItem key={size} value={String(size)}>{size} / page</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {totalPages > 1 && (
+          <div className="flex gap-1">
+            <Button variant="outline" size="sm" onClick={() => onPageChange(1)} disabled={currentPage === 1} title="First page">
+              <ChevronsLeft className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => onPageChange(currentPage - 1)} disabled={currentPage === 1} title="Previous page">
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            {pageWindow(currentPage, totalPages).map(n => (
+              <Button
+                key={n}
+                variant={n === currentPage ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => onPageChange(n)}
+              >
+                {n}
+              </Button>
+            ))}
+            <Button variant="outline" size="sm" onClick={() => onPageChange(currentPage + 1)} disabled={currentPage === totalPages} title="Next page">
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => onPageChange(totalPages)} disabled={currentPage === totalPages} title="Last page">
+              <ChevronsRight className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,217 @@
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { CheckCheck, Download, RotateCw, Ban, Tag, UserCog, X } from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Progress } from './ui/progress';
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from './ui/alert-dialog';
+import {
+  BULK_ACTION_IDS,
+  BulkActionId,
+  BulkActionInput,
+  BulkChange,
+  BulkCollection,
+  bulkActionDefinition,
+  bulkChange,
+  createBatchId,
+  describeCount,
+  exportAuditEntry,
+  parseTags,
+} from '../../lib/bulkActions';
+import type { AuditEntryInput } from '../../lib/audit';
+import type { AssetRecordMap } from '../../types/assets';
+
+const ICONS: Record<BulkActionId, typeof Tag> = {
+  export: Download,
+  tag: Tag,
+  assignOwner: UserCog,
+  revoke: Ban,
+  rotate: RotateCw,
+  review: CheckCheck,
+};
+
+const INPUT_LABELS: Record<keyof BulkActionInput, { label: string; placeholder: string }> = {
+  tags: { label: 'Tags', placeholder: 'pci, team-payments' },
+  owner: { label: 'Owner', placeholder: 'platform-security@example.com' },
+  reason: { label: 'Reason', placeholder: 'Superseded by the 2025 rollout' },
+};
+
+interface BulkActionBarProps<C extends BulkCollection, T = AssetRecordMap[C]> {
+  collection: C;
+  // Selected rows that still match the table's filters
+  selected: T[];
+  // updateMany and recordAuditEntries from the page's useAssetData
+  updateMany: (
+    changes: { id: string; patch: Partial<T> }[],
+    options: { audit: (before: T, after: T) => AuditEntryInput | null; onProgress: (done: number, total: number) => void }
+  ) => Promise<{ saved: T[]; failed: { id: string; error: string }[] }>;
+  recordAuditEntries: (entries: AuditEntryInput[], onProgress: (done: number, total: number) => void) => Promise<void>;
+  // Downloads the given rows in the page's CSV layout
+  onExport: (rows: T[]) => void;
+  onClear: () => void;
+  // Suggestions for the owner field
+  owners?: string[];
+}
+
+/**
+ * Toolbar for the rows selected in an asset table. Every action asks for
+ * confirmation, shows progress while it runs and logs one audit entry per
+ * record it touches, all sharing a batch id.
+ */
+export function BulkActionBar<C extends BulkCollection>({
+  collection,
+  selected,
+  updateMany,
+  recordAuditEntries,
+  onExport,
+  onClear,
+  owners = [],
+}: BulkActionBarProps<C>) {
+  type Item = AssetRecordMap[C];
+  const [action, setAction] = useState<BulkActionId | null>(null);
+  const [value, setValue] = useState('');
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+
+  if (selected.length === 0) return null;
+
+  const definition = action && bulkActionDefinition(collection, action);
+  const input: BulkActionInput = {
+    tags: parseTags(value),
+    owner: value.trim(),
+    reason: value.trim(),
+  };
+  const missingInput = !!definition?.input && input[definition.input].length === 0;
+
+  const open = (next: BulkActionId) => {
+    setAction(next);
+    setValue('');
+  };
+
+  const run = async () => {
+    if (!action || !definition || missingInput || progress) return;
+    const targets = selected;
+    const batchId = createBatchId();
+    const onProgress = (done: number, total: number) => setProgress({ done, total });
+    setProgress({ done: 0, total: targets.length });
+
+    try {
+      if (action === 'export') {
+        onExport(targets);
+        await recordAuditEntries(targets.map(record => exportAuditEntry(collection, record, batchId)), onProgress);
+        toast.success(`${definition.done} ${describeCount(collection, targets.length)}`);
+      } else {
+        const changes = targets
+          .map(record => bulkChange(collection, action, record, input, batchId))
+          .filter((change): change is BulkChange<Item> => !!change);
+        const audits = new Map(changes.map(change => [change.id, change.audit]));
+        const { saved, failed } = await updateMany(changes, {
+          audit: (before, after) => audits.get(after.id)?.(before, after) ?? null,
+          onProgress,
+        });
+        const summary = `${definition.done} ${describeCount(collection, saved.length)}`;
+        if (failed.length > 0) {
+          toast.warning(`${summary}; ${failed.length} could not be saved`, { description: failed[0].error });
+        } else {
+          toast.success(summary);
+        }
+      }
+      onClear();
+    } finally {
+      setProgress(null);
+      setAction(null);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 rounded-lg border border-blue-200 dark:border-blue-900 bg-blue-50 dark:bg-blue-950/40 p-3">
+      <span className="text-sm mr-2">{describeCount(collection, selected.length)} selected</span>
+      {BULK_ACTION_IDS.map(id => {
+        const Icon = ICONS[id];
+        const { label, destructive } = bulkActionDefinition(collection, id);
+        return (
+          <Button
+            key={id}
+            variant="outline"
+            size="sm"
+            className={destructive ? 'text-red-600 hover:text-red-700' : undefined}
+            onClick={() => open(id)}
+          >
+            <Icon className="h-4 w-4 mr-2" />
+            {label}
+          </Button>
+        );
+      })}
+      <Button variant="ghost" size="sm" className="ml-auto" onClick={onClear}>
+        <X className="h-4 w-4 mr-2" />
+        Clear selection
+      </Button>
+
+      <AlertDialog open={!!action} onOpenChange={next => !next && !progress && setAction(null)}>
+        <AlertDialogContent>
+          {definition && (
+            <>
+              <AlertDialogHeader>
+                <AlertDialogTitle>
+                  {definition.label} {describeCount(collection, selected.length)}?
+                </AlertDialogTitle>
+                <AlertDialogDescription>{definition.description}</AlertDialogDescription>
+              </AlertDialogHeader>
+
+              {definition.input && (
+                <div className="space-y-2">
+                  <Label htmlFor="bulk-action-input">{INPUT_LABELS[definition.input].label}</Label>
+                  <Input
+                    id="bulk-action-input"
+                    value={value}
+                    onChange={(e) => setValue(e.target.value)}
+                    placeholder={INPUT_LABELS[definition.input].placeholder}
+                    list={definition.input === 'owner' ? 'bulk-action-owners' : undefined}
+                    disabled={!!progress}
+                    autoFocus
+                  />
+                  {definition.input === 'owner' && (
+                    <datalist id="bulk-action-owners">
+                      {owners.map(owner => <option key={owner} value={owner} />)}
+                    </datalist>
+                  )}
+                  {definition.input === 'tags' && (
+                    <p className="text-xs text-slate-500">Separate tags with commas or spaces.</p>
+                  )}
+                </div>
+              )}
+
+              {progress && (
+                <div className="space-y-2">
+                  <p className="text-sm text-slate-500">
+                    {progress.done} of {progress.total} done
+                  </p>
+                  <Progress value={progress.total ? progress.done / progress.total * 100 : 0} />
+                </div>
+              )}
+
+              <AlertDialogFooter>
+                <AlertDialogCancel disabled={!!progress}>Cancel</AlertDialogCancel>
+                <Button
+                  variant={definition.destructive ? 'destructive' : 'default'}
+                  disabled={missingInput || !!progress}
+                  onClick={run}
+                >
+                  {progress ? 'Working...' : definition.label}
+                </Button>
+              </AlertDialogFooter>
+            </>
+          )}
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
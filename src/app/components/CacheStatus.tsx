@@ -0,0 +1,35 @@
+import { useState, useEffect } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { RefreshCw } from 'lucide-react';
+import { Button } from './ui/button';
+
+interface CacheStatusProps {
+  lastUpdated: number | null;
+  refreshing?: boolean;
+  onRefresh: () => void;
+}
+
+export function CacheStatus({ lastUpdated, refreshing = false, onRefresh }: CacheStatusProps) {
+  const [, setTick] = useState(0);
+
+  // Re-render periodically so the relative time stays accurate
+  useEffect(() => {
+    const timer = setInterval(() => setTick(t => t + 1), 30 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  return (
+    <div className="flex items-center gap-2 text-sm text-slate-500">
+      <span>
+        {refreshing
+          ? 'Refreshing...'
+          : lastUpdated
+            ? `Last refreshed ${formatDistanceToNow(lastUpdated, { addSuffix: true })}`
+            : 'Not refreshed yet'}
+      </span>
+      <Button variant="ghost" size="sm" onClick={onRefresh} disabled={refreshing}>
+        <RefreshCw className={`h-4 w-4 ${refreshing ? 'animate-spin' : ''}`} />
+      </Button>
+    </div>
+  );
+}
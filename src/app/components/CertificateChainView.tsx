@@ -0,0 +1,68 @@
+import { ShieldCheck, ShieldAlert, ShieldQuestion, ArrowDown } from 'lucide-react';
+import { Badge } from './ui/badge';
+import type { CertificateChain, ChainStatus } from '../../lib/certChain';
+
+const STATUS_LABELS: Record<ChainStatus, { label: string; className: string }> = {
+  trusted: { label: 'Trusted chain', className: 'bg-green-600' },
+  missing_intermediate: { label: 'Missing intermediate', className: 'bg-orange-500' },
+  self_signed_leaf: { label: 'Self-signed leaf', className: 'bg-red-600' },
+  untrusted_root: { label: 'Untrusted root', className: 'bg-red-600' },
+};
+
+export function CertificateChainView({ chain }: { chain: CertificateChain }) {
+  const status = STATUS_LABELS[chain.status];
+  // Show the root at the top, the way browsers display chains
+  const links = [...chain.links].reverse();
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Badge className={status.className}>{status.label}</Badge>
+      </div>
+      {chain.issues.length > 0 && (
+        <ul className="text-sm text-orange-600 list-disc pl-5">
+          {chain.issues.map(issue => (
+            <li key={issue}>{issue}</li>
+          ))}
+        </ul>
+      )}
+      <div className="space-y-1">
+        {links.map((link, idx) => {
+          const Icon = link.source === 'missing'
+            ? ShieldQuestion
+            : link.role === 'root' && chain.status !== 'trusted' ? ShieldAlert : ShieldCheck;
+          return (
+            <div key={`${link.name}-${idx}`}>
+              <div
+                className={`flex items-center gap-3 rounded-lg border p-3 ${
+                  link.source === 'missing'
+                    ? 'border-dashed border-orange-400'
+                    : 'border-slate-200 dark:border-slate-700'
+                }`}
+              >
+                <Icon
+                  className={`h-5 w-5 ${
+                    link.source === 'missing' ? 'text-orange-500' : 'text-slate-500'
+                  }`}
+                />
+                <div className="flex-1">
+                  <p className="font-mono text-sm">{link.name}</p>
+                  <p className="text-xs text-slate-500 capitalize">
+                    {link.role}
+                    {link.source === 'trust-store' && ' · from trust store, not in inventory'}
+                    {link.source === 'missing' && ' · not found'}
+                  </p>
+                </div>
+              </div>
+              {idx < links.length - 1 && (
+                <div className="flex justify-center py-1">
+                  <ArrowDown className="h-4 w-4 text-slate-400" />
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { CalendarDays } from 'lucide-react';
+import { Calendar } from './ui/calendar';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from './ui/chart';
+import { CertificateStatusBadge } from './CertificateStatusBadge';
+import { useDashboard } from '../../contexts/DashboardContext';
+import { buildExpiryForecast, groupByExpiryDay } from '../../lib/expiryForecast';
+import { CertificateHealth, HEALTH_LABELS, HEALTH_ORDER } from '../../lib/certStatus';
+import type { Certificate } from '../../types/assets';
+
+const SERIES_COLORS = ['var(--chart-1)', 'var(--chart-2)', 'var(--chart-3)', 'var(--chart-4)', 'var(--chart-5)'];
+
+const DAY_CLASSES: Record<CertificateHealth, string> = {
+  expired: 'bg-red-100 text-red-700 dark:bg-red-950 dark:text-red-300 font-semibold',
+  critical: 'bg-red-500 text-white font-semibold',
+  warning: 'bg-orange-500 text-white font-semibold',
+  healthy: 'bg-green-600 text-white font-semibold',
+};
+
+const LEGEND_CLASSES: Record<CertificateHealth, string> = {
+  expired: 'bg-red-100 dark:bg-red-950',
+  critical: 'bg-red-500',
+  warning: 'bg-orange-500',
+  healthy: 'bg-green-600',
+};
+
+// Calendar days are local midnights; expiry keys are plain YYYY-MM-DD strings
+function toCalendarDate(key: string) {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+interface CertificateExpiryTimelineProps {
+  certificates: Certificate[];
+  onSelect: (cert: Certificate) => void;
+}
+
+export function CertificateExpiryTimeline({ certificates, onSelect }: CertificateExpiryTimelineProps) {
+  const { expiryThresholds } = useDashboard();
+  const [month, setMonth] = useState(() => new Date());
+  const [selectedDay, setSelectedDay] = useState<string | null>(null);
+
+  const days = useMemo(
+    () => groupByExpiryDay(certificates, expiryThresholds),
+    [certificates, expiryThresholds]
+  );
+  const forecast = useMemo(() => buildExpiryForecast(certificates), [certificates]);
+
+  const modifiers = useMemo(() => {
+    const byHealth = Object.fromEntries(HEALTH_ORDER.map(health => [health, [] as Date[]]));
+    days.forEach(day => byHealth[day.health].push(toCalendarDate(day.date)));
+    return byHealth;
+  }, [days]);
+
+  const chartConfig = useMemo<ChartConfig>(() => Object.fromEntries(
+    forecast.series.map((series, i) => [
+      series.key,
+      { label: series.issuer, color: SERIES_COLORS[i % SERIES_COLORS.length] },
+    ])
+  ), [forecast]);
+
+  const chartData = forecast.months.map(m => ({ month: m.month, label: m.label, ...m.counts }));
+  const upcomingTotal = forecast.months.reduce((sum, m) => sum + m.total, 0);
+  const selected = selectedDay ? days.get(selectedDay) : undefined;
+
+  const handleDayClick = (day: Date) => {
+    const key = format(day, 'yyyy-MM-dd');
+    setSelectedDay(current => (current === key ? null : key));
+  };
+
+  const handleBarClick = (data: { month?: string }) => {
+    if (!data.month) return;
+    const [year, monthIndex] = data.month.split('-').map(Number);
+    setMonth(new Date(year, monthIndex - 1, 1));
+    setSelectedDay(null);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 lg:grid-cols-[auto_1fr] gap-4">
+        <div className="bg-white dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700">
+          <Calendar
+            mode="single"
+            numberOfMonths={2}
+            month={month}
+            onMonthChange={setMonth}
+            selected={selectedDay ? toCalendarDate(selectedDay) : undefined}
+            onDayClick={handleDayClick}
+            modifiers={modifiers}
+            modifiersClassNames={DAY_CLASSES}
+          />
+          <div className="flex flex-wrap gap-3 px-4 pb-4 text-xs text-slate-500">
+            {HEALTH_ORDER.map(health => (
+              <span key={health} className="flex items-center gap-1.5">
+                <span className={`h-2.5 w-2.5 rounded-sm ${LEGEND_CLASSES[health]}`} />
+                {HEALTH_LABELS[health]}
+              </span>
+            ))}
+          </div>
+        </div>
+
+        <div className="bg-white dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700 p-4">
+          {selected ? (
+            <>
+              <h3 className="mb-1">Expiring {format(toCalendarDate(selected.date), 'PPP')}</h3>
+              <p className="text-sm text-slate-500 mb-3">
+                {selected.certificates.length} certificate{selected.certificates.length === 1 ? '' : 's'}
+              </p>
+              <ul className="divide-y divide-slate-200 dark:divide-slate-700">
+                {selected.certificates.map(cert => (
+                  <li key={cert.id}>
+                    <button
+                      type="button"
+                      onClick={() => onSelect(cert)}
+                      className="w-full flex items-center justify-between gap-3 py-2 text-left hover:bg-slate-50 dark:hover:bg-slate-700/50 rounded px-2"
+                    >
+                      <div className="min-w-0">
+                        <p className="truncate">{cert.name}</p>
+                        <p className="text-xs text-slate-500 truncate">{cert.domain} · {cert.issuer}</p>
+                      </div>
+                      <CertificateStatusBadge expiryDate={cert.expiryDate} />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </>
+          ) : (
+            <div className="h-full flex flex-col items-center justify-center text-center text-slate-500 py-8">
+              <CalendarDays className="h-8 w-8 mb-2" />
+              <p>Select a highlighted day to see what expires then.</p>
+              {selectedDay && <p className="text-sm mt-1">Nothing expires on {format(toCalendarDate(selectedDay), 'PPP')}.</p>}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700 p-4">
+        <div className="flex items-baseline justify-between mb-4">
+          <div>
+            <h3>12-month expiry forecast</h3>
+            <p className="text-sm text-slate-500">
+              {upcomingTotal} upcoming expiration{upcomingTotal === 1 ? '' : 's'} by issuer. Click a month to jump the calendar there.
+            </p>
+          </div>
+          {forecast.overdue > 0 && (
+            <p className="text-sm text-red-500">{forecast.overdue} already expired</p>
+          )}
+        </div>
+        <ChartContainer config={chartConfig} className="aspect-auto h-72 w-full">
+          <BarChart data={chartData}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="label" tickLine={false} axisLine={false} />
+            <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <ChartLegend content={<ChartLegendContent />} />
+            {forecast.series.map(series => (
+              <Bar
+                key={series.key}
+                dataKey={series.key}
+                stackId="issuers"
+                fill={`var(--color-${series.key})`}
+                className="cursor-pointer"
+                onClick={handleBarClick}
+              />
+            ))}
+          </BarChart>
+        </ChartContainer>
+      </div>
+    </div>
+  );
+}
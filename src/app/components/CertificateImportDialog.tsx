@@ -0,0 +1,194 @@
+import { useState, useRef } from 'react';
+import { Upload, FileText, AlertCircle } from 'lucide-react';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Textarea } from './ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import { parseCertificates, ParsedCertificate, nameAttribute, uniqueCertificates } from '../../lib/x509';
+
+interface ImportSource {
+  label: string;
+  certificates: ParsedCertificate[];
+  error?: string;
+}
+
+interface CertificateImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Returns the id of the inventory record a parsed certificate would replace, if any
+  findExisting: (parsed: ParsedCertificate) => string | undefined;
+  // Returns the pending request a parsed certificate fulfils, if any
+  findRequest?: (parsed: ParsedCertificate) => { id: string } | undefined;
+  onImport: (certificates: ParsedCertificate[], source: string) => Promise<void>;
+}
+
+async function readFile(file: File): Promise<ImportSource> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  try {
+    return { label: file.name, certificates: await parseCertificates(bytes) };
+  } catch (err) {
+    return { label: file.name, certificates: [], error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+export function CertificateImportDialog({ open, onOpenChange, findExisting, findRequest, onImport }: CertificateImportDialogProps) {
+  const [pemText, setPemText] = useState('');
+  const [sources, setSources] = useState<ImportSource[]>([]);
+  const [dragging, setDragging] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const close = () => {
+    setPemText('');
+    setSources([]);
+    setImporting(false);
+    onOpenChange(false);
+  };
+
+  const addFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    const parsed = await Promise.all(Array.from(files).map(readFile));
+    setSources(prev => [...prev, ...parsed]);
+  };
+
+  const parsePasted = async () => {
+    if (!pemText.trim()) return;
+    try {
+      const certificates = await parseCertificates(pemText);
+      setSources(prev => [...prev, { label: 'Pasted PEM', certificates }]);
+      setPemText('');
+    } catch (err) {
+      setSources(prev => [...prev, {
+        label: 'Pasted PEM',
+        certificates: [],
+        error: err instanceof Error ? err.message : String(err),
+      }]);
+    }
+  };
+
+  const certificates = uniqueCertificates(sources.flatMap(source => source.certificates));
+
+  const handleImport = async () => {
+    setImporting(true);
+    await onImport(certificates, sources.map(source => source.label).join(', '));
+    close();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => (next ? onOpenChange(true) : close())}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import Certificates</DialogTitle>
+          <DialogDescription>
+            Paste PEM text or drop .pem, .crt, .cer or .der files. Chains are split into one record per certificate.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div
+          onDragOver={(e) => {
+            e.preventDefault();
+            setDragging(true);
+          }}
+          onDragLeave={() => setDragging(false)}
+          onDrop={(e) => {
+            e.preventDefault();
+            setDragging(false);
+            addFiles(e.dataTransfer.files);
+          }}
+          onClick={() => fileInput.current?.click()}
+          className={`flex flex-col items-center justify-center gap-2 rounded-lg border-2 border-dashed p-6 cursor-pointer transition-colors ${
+            dragging
+              ? 'border-blue-600 bg-blue-50 dark:bg-blue-950/30'
+              : 'border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-700/50'
+          }`}
+        >
+          <Upload className="h-6 w-6 text-slate-400" />
+          <p className="text-sm text-slate-500">Drop certificate files here or click to browse</p>
+          <input
+            ref={fileInput}
+            type="file"
+            multiple
+            accept=".pem,.crt,.cer,.der"
+            className="hidden"
+            onChange={(e) => {
+              addFiles(e.target.files);
+              e.target.value = '';
+            }}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Textarea
+            value={pemText}
+            onChange={(e) => setPemText(e.target.value)}
+            placeholder="-----BEGIN CERTIFICATE-----"
+            className="font-mono text-xs max-h-40"
+          />
+          <Button variant="outline" size="sm" onClick={parsePasted} disabled={!pemText.trim()}>
+            <FileText className="h-4 w-4 mr-2" />
+            Parse pasted PEM
+          </Button>
+        </div>
+
+        {sources.length > 0 && (
+          <div className="space-y-2 max-h-72 overflow-y-auto">
+            {sources.map((source, sourceIdx) => (
+              <div key={sourceIdx} className="space-y-2">
+                <p className="text-xs text-slate-500">{source.label}</p>
+                {source.error && (
+                  <div className="flex items-center gap-2 text-sm text-red-600">
+                    <AlertCircle className="h-4 w-4" />
+                    {source.error}
+                  </div>
+                )}
+                {source.certificates.map(cert => (
+                  <div
+                    key={cert.fingerprints.sha256}
+                    className="rounded-lg border border-slate-200 dark:border-slate-700 p-3 text-sm"
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <p className="font-mono">{nameAttribute(cert.subject, 'CN') ?? cert.subject.text}</p>
+                      <div className="flex gap-1">
+                        {cert.isCA && <Badge className="bg-indigo-600">CA</Badge>}
+                        {findRequest?.(cert) && (
+                          <Badge className="bg-blue-600">Completes {findRequest(cert)!.id}</Badge>
+                        )}
+                        {findExisting(cert)
+                          ? <Badge variant="outline">Updates existing</Badge>
+                          : <Badge className="bg-green-600">New</Badge>}
+                      </div>
+                    </div>
+                    <p className="text-xs text-slate-500 mt-1">
+                      Issued by {cert.issuer.text} · {cert.keyAlgorithm} · expires {cert.notAfter.toLocaleDateString()}
+                    </p>
+                    {cert.subjectAltNames.length > 0 && (
+                      <p className="text-xs text-slate-500 mt-1 font-mono truncate">
+                        {cert.subjectAltNames.join(', ')}
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={close}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={certificates.length === 0 || importing}>
+            {importing ? 'Importing...' : `Import ${certificates.length} certificate${certificates.length === 1 ? '' : 's'}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
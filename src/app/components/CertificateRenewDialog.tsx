@@ -0,0 +1,226 @@
+import { useState } from 'react';
+import { CheckCircle2, Circle, Download, Loader2, XCircle } from 'lucide-react';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Progress } from './ui/progress';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
+import { useDashboard } from '../../contexts/DashboardContext';
+import { requestCertificate, ACME_STEPS, AcmeStep } from '../../lib/acme';
+import { generateKeyPair, createCsr, exportPrivateKeyPem, KeyAlgorithm, KEY_ALGORITHMS } from '../../lib/csr';
+import { parseCertificates, ParsedCertificate } from '../../lib/x509';
+import { downloadFile } from '../../lib/download';
+import type { Certificate } from '../../types/assets';
+
+type RenewStep = 'key' | AcmeStep;
+
+const STEPS: { step: RenewStep; label: string }[] = [
+  { step: 'key', label: 'Generate key and CSR' },
+  ...ACME_STEPS,
+];
+
+type Phase = 'idle' | 'running' | 'done' | 'failed';
+
+export interface RenewalDetails {
+  directoryUrl: string;
+  orderUrl: string;
+}
+
+interface CertificateRenewDialogProps {
+  certificate: Certificate | null;
+  onOpenChange: (open: boolean) => void;
+  // Saves the renewed certificate over the existing record; resolves false if that failed
+  onRenewed: (certificate: Certificate, renewed: ParsedCertificate, details: RenewalDetails) => Promise<boolean>;
+}
+
+// DNS names to request: the certificate's SANs, or its domain for older records without them
+export function renewalDnsNames(cert: Certificate): string[] {
+  const sans = (cert.subjectAltNames ?? [])
+    .filter(name => name.startsWith('DNS:'))
+    .map(name => name.slice(4));
+  return sans.length > 0 ? sans : [cert.domain];
+}
+
+export function CertificateRenewDialog({ certificate, onOpenChange, onRenewed }: CertificateRenewDialogProps) {
+  const { acmeDirectoryUrl } = useDashboard();
+  const [algorithm, setAlgorithm] = useState<KeyAlgorithm>('ECDSA-P256');
+  const [phase, setPhase] = useState<Phase>('idle');
+  const [current, setCurrent] = useState<RenewStep | null>(null);
+  const [challenges, setChallenges] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<{ privateKeyPem: string; pemChain: string } | null>(null);
+
+  const close = () => {
+    // Keep the dialog up while an order is in flight
+    if (phase === 'running') return;
+    setPhase('idle');
+    setCurrent(null);
+    setChallenges([]);
+    setError(null);
+    setResult(null);
+    onOpenChange(false);
+  };
+
+  const dnsNames = certificate ? renewalDnsNames(certificate) : [];
+  const currentIndex = current ? STEPS.findIndex(s => s.step === current) : -1;
+  const progress = phase === 'done' ? 100 : Math.max(0, currentIndex) / STEPS.length * 100;
+
+  const renew = async () => {
+    if (!certificate) return;
+    setPhase('running');
+    setError(null);
+    setChallenges([]);
+
+    try {
+      setCurrent('key');
+      const keyPair = await generateKeyPair(algorithm);
+      const csr = await createCsr({ subject: { CN: dnsNames[0] }, dnsNames, keyPair });
+
+      const { pemChain, orderUrl } = await requestCertificate({
+        directoryUrl: acmeDirectoryUrl,
+        dnsNames,
+        csr,
+        onProgress: (step, detail) => {
+          setCurrent(step);
+          if (detail) setChallenges(prev => [...prev, detail]);
+        },
+      });
+
+      const [leaf] = await parseCertificates(pemChain);
+      const saved = await onRenewed(certificate, leaf, { directoryUrl: acmeDirectoryUrl, orderUrl });
+      if (!saved) throw new Error('The certificate was issued but could not be saved to the inventory');
+
+      setResult({ privateKeyPem: await exportPrivateKeyPem(keyPair.privateKey), pemChain });
+      setPhase('done');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      setPhase('failed');
+    }
+  };
+
+  const stepIcon = (index: number) => {
+    if (phase === 'done' || index < currentIndex) {
+      return <CheckCircle2 className="h-4 w-4 text-green-600" />;
+    }
+    if (index === currentIndex && phase === 'running') {
+      return <Loader2 className="h-4 w-4 animate-spin text-blue-500" />;
+    }
+    if (index === currentIndex && phase === 'failed') {
+      return <XCircle className="h-4 w-4 text-red-500" />;
+    }
+    return <Circle className="h-4 w-4 text-slate-300" />;
+  };
+
+  return (
+    <Dialog open={!!certificate} onOpenChange={open => !open && close()}>
+      <DialogContent className="max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Renew Certificate</DialogTitle>
+          <DialogDescription>
+            Requests a replacement over ACME and swaps it into the inventory.
+          </DialogDescription>
+        </DialogHeader>
+
+        {certificate && (
+          <div className="space-y-4">
+            <div className="space-y-1 text-sm">
+              <p><span className="text-slate-500">Certificate:</span> {certificate.name}</p>
+              <p className="break-all"><span className="text-slate-500">Directory:</span> <span className="font-mono">{acmeDirectoryUrl}</span></p>
+              <div className="flex flex-wrap gap-1 pt-1">
+                {dnsNames.map(name => (
+                  <Badge key={name} variant="outline" className="font-mono">{name}</Badge>
+                ))}
+              </div>
+            </div>
+
+            {phase === 'idle' ? (
+              <div className="space-y-1">
+                <p className="text-sm">Key algorithm</p>
+                <Select value={algorithm} onValueChange={value => setAlgorithm(value as KeyAlgorithm)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {KEY_ALGORITHMS.map(option => (
+                      <SelectItem key={option} value={option}>{option}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-slate-500">
+                  A new key is generated in this browser. Download it after renewal; it isn't stored anywhere else.
+                </p>
+              </div>
+            ) : (
+              <div className="space-y-3">
+                <Progress value={progress} />
+                <ol className="space-y-2">
+                  {STEPS.map(({ step, label }, index) => (
+                    <li key={step} className="flex items-center gap-2 text-sm">
+                      {stepIcon(index)}
+                      <span className={index > currentIndex && phase !== 'done' ? 'text-slate-400' : ''}>{label}</span>
+                    </li>
+                  ))}
+                </ol>
+                {challenges.length > 0 && (
+                  <div className="text-xs text-slate-500 space-y-1">
+                    <p>http-01 responses:</p>
+                    {challenges.map(challenge => (
+                      <p key={challenge} className="font-mono break-all">{challenge}</p>
+                    ))}
+                  </div>
+                )}
+                {error && (
+                  <p className="text-sm text-red-600">{error}</p>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {phase === 'done' && result && certificate ? (
+            <>
+              <Button
+                variant="outline"
+                onClick={() => downloadFile(`${dnsNames[0]}.chain.pem`, result.pemChain, 'application/x-pem-file')}
+              >
+                <Download className="h-4 w-4 mr-2" />
+                Chain
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => downloadFile(`${dnsNames[0]}.key.pem`, result.privateKeyPem, 'application/x-pem-file')}
+              >
+                <Download className="h-4 w-4 mr-2" />
+                Private key
+              </Button>
+              <Button onClick={close}>Done</Button>
+            </>
+          ) : (
+            <>
+              <Button variant="outline" onClick={close} disabled={phase === 'running'}>
+                Cancel
+              </Button>
+              <Button onClick={renew} disabled={phase === 'running'}>
+                {phase === 'running' ? 'Renewing...' : phase === 'failed' ? 'Retry' : 'Renew'}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,310 @@
+import { useState } from 'react';
+import { Download, KeyRound } from 'lucide-react';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
+import {
+  generateKeyPair,
+  createCsr,
+  csrToPem,
+  exportPrivateKeyPem,
+  publicKeySha256,
+  formatSubject,
+  isDnsName,
+  CsrSubject,
+  KeyAlgorithm,
+  KEY_ALGORITHMS,
+} from '../../lib/csr';
+import { CURRENT_USER } from '../../lib/currentUser';
+import { downloadFile } from '../../lib/download';
+import type { CertificateRequest, NewRecord } from '../../types/assets';
+
+type WizardStep = 'subject' | 'names' | 'review' | 'done';
+
+const STEP_LABELS: { step: Exclude<WizardStep, 'done'>; label: string }[] = [
+  { step: 'subject', label: 'Subject' },
+  { step: 'names', label: 'Names and key' },
+  { step: 'review', label: 'Review' },
+];
+
+const SUBJECT_FIELDS: { key: keyof CsrSubject; label: string; placeholder: string }[] = [
+  { key: 'CN', label: 'Common name', placeholder: 'www.example.com' },
+  { key: 'O', label: 'Organization', placeholder: 'Example Inc.' },
+  { key: 'OU', label: 'Organizational unit', placeholder: 'Platform' },
+  { key: 'L', label: 'Locality', placeholder: 'San Francisco' },
+  { key: 'ST', label: 'State or province', placeholder: 'California' },
+  { key: 'C', label: 'Country (2 letters)', placeholder: 'US' },
+];
+
+const EMPTY_SUBJECT: CsrSubject = { CN: '' };
+
+interface CertificateRequestDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Saves the pending request; resolves null if that failed
+  onRequested: (request: NewRecord<CertificateRequest>) => Promise<CertificateRequest | null>;
+}
+
+// The common name always goes first in the SANs, since browsers ignore the CN
+function requestedNames(subject: CsrSubject, extra: string): string[] {
+  const names = [subject.CN, ...extra.split(/[\s,]+/)]
+    .map(name => name.trim().toLowerCase())
+    .filter(Boolean);
+  return [...new Set(names)];
+}
+
+// Trimmed, with blank optional attributes dropped
+function cleanSubject(subject: CsrSubject): CsrSubject {
+  const clean: CsrSubject = { CN: subject.CN.trim() };
+  SUBJECT_FIELDS.forEach(({ key }) => {
+    const value = subject[key]?.trim();
+    if (value) clean[key] = value;
+  });
+  return clean;
+}
+
+function subjectProblem(subject: CsrSubject): string | null {
+  if (!subject.CN.trim()) return 'Common name is required';
+  if (!isDnsName(subject.CN.trim())) return `"${subject.CN}" is not a valid DNS name`;
+  if (subject.C && !/^[A-Z]{2}$/.test(subject.C)) return 'Country must be a two-letter code, e.g. US';
+  return null;
+}
+
+export function CertificateRequestDialog({ open, onOpenChange, onRequested }: CertificateRequestDialogProps) {
+  const [step, setStep] = useState<WizardStep>('subject');
+  const [subject, setSubject] = useState<CsrSubject>(EMPTY_SUBJECT);
+  const [extraNames, setExtraNames] = useState('');
+  const [algorithm, setAlgorithm] = useState<KeyAlgorithm>('ECDSA-P256');
+  const [generating, setGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<{ request: CertificateRequest; privateKeyPem: string } | null>(null);
+  const [keyDownloaded, setKeyDownloaded] = useState(false);
+
+  const close = () => {
+    if (generating) return;
+    setStep('subject');
+    setSubject(EMPTY_SUBJECT);
+    setExtraNames('');
+    setAlgorithm('ECDSA-P256');
+    setError(null);
+    setResult(null);
+    setKeyDownloaded(false);
+    onOpenChange(false);
+  };
+
+  const dnsNames = requestedNames(subject, extraNames);
+  const finalSubject = cleanSubject(subject);
+
+  const next = () => {
+    const invalidName = dnsNames.find(name => !isDnsName(name));
+    const problem = step === 'subject'
+      ? subjectProblem(subject)
+      : invalidName ? `"${invalidName}" is not a valid DNS name` : null;
+    setError(problem);
+    if (!problem) setStep(step === 'subject' ? 'names' : 'review');
+  };
+
+  const back = () => {
+    setError(null);
+    setStep(step === 'review' ? 'names' : 'subject');
+  };
+
+  const generate = async () => {
+    setGenerating(true);
+    setError(null);
+    try {
+      const keyPair = await generateKeyPair(algorithm);
+      const csr = csrToPem(await createCsr({ subject: finalSubject, dnsNames, keyPair }));
+      const request = await onRequested({
+        commonName: finalSubject.CN,
+        subject: formatSubject(finalSubject),
+        dnsNames,
+        keyAlgorithm: algorithm,
+        status: 'pending',
+        requestedBy: CURRENT_USER.email,
+        requestedAt: new Date().toISOString(),
+        csr,
+        publicKeySha256: await publicKeySha256(keyPair.publicKey),
+      });
+      if (!request) throw new Error('The request could not be saved');
+      setResult({ request, privateKeyPem: await exportPrivateKeyPem(keyPair.privateKey) });
+      setStep('done');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const stepIndex = STEP_LABELS.findIndex(s => s.step === step);
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => (next ? onOpenChange(true) : close())}>
+      <DialogContent className="max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Request Certificate</DialogTitle>
+          <DialogDescription>
+            Generates a key and CSR in this browser. Send the CSR to your CA; importing the issued certificate completes the request.
+          </DialogDescription>
+        </DialogHeader>
+
+        {step !== 'done' && (
+          <div className="flex gap-2">
+            {STEP_LABELS.map(({ step: s, label }, index) => (
+              <Badge key={s} variant={index === stepIndex ? 'default' : 'outline'}>
+                {index + 1}. {label}
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        {step === 'subject' && (
+          <div className="grid grid-cols-2 gap-3">
+            {SUBJECT_FIELDS.map(({ key, label, placeholder }) => (
+              <div key={key} className={`space-y-1 ${key === 'CN' ? 'col-span-2' : ''}`}>
+                <Label htmlFor={`csr-${key}`}>{label}</Label>
+                <Input
+                  id={`csr-${key}`}
+                  value={subject[key] ?? ''}
+                  placeholder={placeholder}
+                  className={key === 'CN' ? 'font-mono' : ''}
+                  onChange={(e) => setSubject({
+                    ...subject,
+                    [key]: key === 'C' ? e.target.value.toUpperCase() : e.target.value,
+                  })}
+                />
+              </div>
+            ))}
+          </div>
+        )}
+
+        {step === 'names' && (
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label htmlFor="csr-sans">Additional DNS names</Label>
+              <Textarea
+                id="csr-sans"
+                value={extraNames}
+                onChange={(e) => setExtraNames(e.target.value)}
+                placeholder={'example.com\n*.example.com'}
+                className="font-mono text-sm"
+              />
+              <p className="text-xs text-slate-500">One per line or comma-separated. The common name is always included.</p>
+            </div>
+            <div className="space-y-1">
+              <Label>Key algorithm</Label>
+              <Select value={algorithm} onValueChange={value => setAlgorithm(value as KeyAlgorithm)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {KEY_ALGORITHMS.map(option => (
+                    <SelectItem key={option} value={option}>{option}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        )}
+
+        {step === 'review' && (
+          <div className="space-y-3 text-sm">
+            <div>
+              <p className="text-slate-500">Subject</p>
+              <p className="font-mono break-all">{formatSubject(finalSubject)}</p>
+            </div>
+            <div>
+              <p className="text-slate-500">Subject alternative names</p>
+              <div className="flex flex-wrap gap-1 mt-1">
+                {dnsNames.map(name => (
+                  <Badge key={name} variant="outline" className="font-mono">{name}</Badge>
+                ))}
+              </div>
+            </div>
+            <div>
+              <p className="text-slate-500">Key algorithm</p>
+              <p>{algorithm}</p>
+            </div>
+            {algorithm === 'RSA-4096' && (
+              <p className="text-xs text-slate-500">RSA-4096 keys can take a few seconds to generate.</p>
+            )}
+          </div>
+        )}
+
+        {step === 'done' && result && (
+          <div className="space-y-3 text-sm">
+            <p>
+              Request <span className="font-mono">{result.request.id}</span> for{' '}
+              <span className="font-mono">{result.request.commonName}</span> is pending.
+            </p>
+            <div className="flex items-start gap-2 rounded-lg border border-orange-200 bg-orange-50 dark:border-orange-900 dark:bg-orange-950/30 p-3">
+              <KeyRound className="h-4 w-4 mt-0.5 text-orange-600" />
+              <p className="text-xs">
+                The private key exists only in this dialog. Download it now and store it securely; it can't be recovered after you close this window.
+              </p>
+            </div>
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <DialogFooter>
+          {step === 'done' && result ? (
+            <>
+              <Button
+                variant="outline"
+                onClick={() => downloadFile(`${result.request.commonName}.csr`, result.request.csr, 'application/pkcs10')}
+              >
+                <Download className="h-4 w-4 mr-2" />
+                CSR
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => {
+                  downloadFile(`${result.request.commonName}.key.pem`, result.privateKeyPem, 'application/x-pem-file');
+                  setKeyDownloaded(true);
+                }}
+              >
+                <Download className="h-4 w-4 mr-2" />
+                Private key
+              </Button>
+              <Button onClick={close}>{keyDownloaded ? 'Done' : 'Close without key'}</Button>
+            </>
+          ) : (
+            <>
+              {step === 'subject' ? (
+                <Button variant="outline" onClick={close}>Cancel</Button>
+              ) : (
+                <Button variant="outline" onClick={back} disabled={generating}>Back</Button>
+              )}
+              {step === 'review' ? (
+                <Button onClick={generate} disabled={generating}>
+                  {generating ? 'Generating...' : 'Generate CSR'}
+                </Button>
+              ) : (
+                <Button onClick={next}>Next</Button>
+              )}
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,105 @@
+import { Download, XCircle } from 'lucide-react';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from './ui/table';
+import { downloadFile } from '../../lib/download';
+import type { Certificate, CertificateRequest } from '../../types/assets';
+
+const STATUS_CLASSES: Record<CertificateRequest['status'], string> = {
+  pending: 'bg-orange-500',
+  issued: 'bg-green-600',
+  cancelled: 'bg-slate-400',
+};
+
+interface CertificateRequestListProps {
+  requests: CertificateRequest[];
+  certificates: Certificate[];
+  onCancel: (request: CertificateRequest) => void;
+  onSelectCertificate: (certificate: Certificate) => void;
+}
+
+export function CertificateRequestList({ requests, certificates, onCancel, onSelectCertificate }: CertificateRequestListProps) {
+  if (requests.length === 0) {
+    return (
+      <div className="bg-white dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700 p-8 text-center text-sm text-slate-500">
+        No certificate requests yet. Use Request certificate to generate a CSR.
+      </div>
+    );
+  }
+
+  // Pending first, newest first within each status
+  const sorted = [...requests].sort((a, b) =>
+    Number(b.status === 'pending') - Number(a.status === 'pending') ||
+    new Date(b.requestedAt).getTime() - new Date(a.requestedAt).getTime()
+  );
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700 overflow-hidden">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Common Name</TableHead>
+            <TableHead>DNS Names</TableHead>
+            <TableHead>Key</TableHead>
+            <TableHead>Requested</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead>Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {sorted.map(request => {
+            const certificate = certificates.find(c => c.id === request.certificateId);
+            return (
+              <TableRow key={request.id}>
+                <TableCell className="font-mono text-sm">{request.commonName}</TableCell>
+                <TableCell className="font-mono text-xs max-w-64 truncate" title={request.dnsNames.join(', ')}>
+                  {request.dnsNames.join(', ')}
+                </TableCell>
+                <TableCell>{request.keyAlgorithm}</TableCell>
+                <TableCell>
+                  <p>{new Date(request.requestedAt).toLocaleDateString()}</p>
+                  <p className="text-xs text-slate-500">{request.requestedBy}</p>
+                </TableCell>
+                <TableCell>
+                  <Badge className={STATUS_CLASSES[request.status]}>{request.status}</Badge>
+                  {certificate && (
+                    <button
+                      className="block text-xs text-blue-600 hover:underline mt-1"
+                      onClick={() => onSelectCertificate(certificate)}
+                    >
+                      {certificate.name}
+                    </button>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title="Download CSR"
+                      onClick={() => downloadFile(`${request.commonName}.csr`, request.csr, 'application/pkcs10')}
+                    >
+                      <Download className="h-4 w-4" />
+                    </Button>
+                    {request.status === 'pending' && (
+                      <Button variant="ghost" size="sm" title="Cancel request" onClick={() => onCancel(request)}>
+                        <XCircle className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import { Badge } from './ui/badge';
+import type { RevocationState } from '../../types/assets';
+
+const STATUS_LABELS: Record<RevocationState['status'], string> = {
+  good: 'Good',
+  revoked: 'Revoked',
+  unknown: 'Unknown',
+};
+
+export function describeRevocation(state: RevocationState): string {
+  const checked = `Checked ${new Date(state.checkedAt).toLocaleString()}`;
+  const via = state.method ? ` via ${state.method.toUpperCase()}` : '';
+  if (state.status === 'revoked') {
+    const when = state.revokedAt ? ` on ${new Date(state.revokedAt).toLocaleDateString()}` : '';
+    return `Revoked${when} (${state.reason ?? 'unspecified'}). ${checked}${via}`;
+  }
+  if (state.status === 'unknown') return `${state.error ?? 'No answer'}. ${checked}`;
+  return `${checked}${via}`;
+}
+
+export function CertificateRevocationBadge({ revocation }: { revocation?: RevocationState }) {
+  if (!revocation) {
+    return <Badge variant="outline" className="text-slate-500">Not checked</Badge>;
+  }
+
+  const title = describeRevocation(revocation);
+  if (revocation.status === 'revoked') {
+    return <Badge variant="destructive" title={title}>{STATUS_LABELS.revoked}</Badge>;
+  }
+  if (revocation.status === 'unknown') {
+    return <Badge variant="secondary" title={title}>{STATUS_LABELS.unknown}</Badge>;
+  }
+  return <Badge className="bg-green-600" title={title}>{STATUS_LABELS.good}</Badge>;
+}
@@ -0,0 +1,20 @@
+import { Badge } from './ui/badge';
+import { useDashboard } from '../../contexts/DashboardContext';
+import { getCertificateHealth, HEALTH_LABELS, CertificateHealth } from '../../lib/certStatus';
+
+const HEALTH_CLASSES: Record<CertificateHealth, string> = {
+  expired: '',
+  critical: 'bg-red-500',
+  warning: 'bg-orange-500',
+  healthy: 'bg-green-600',
+};
+
+export function CertificateStatusBadge({ expiryDate }: { expiryDate: string }) {
+  const { expiryThresholds } = useDashboard();
+  const health = getCertificateHealth(expiryDate, expiryThresholds);
+
+  if (health === 'expired') {
+    return <Badge variant="destructive">{HEALTH_LABELS.expired}</Badge>;
+  }
+  return <Badge className={HEALTH_CLASSES[health]}>{HEALTH_LABELS[health]}</Badge>;
+}
@@ -0,0 +1,60 @@
+import { useMemo } from 'react';
+import { Badge } from './ui/badge';
+import { parseAuditTimestamp } from '../../lib/audit';
+import type { AuditLog } from '../../types/assets';
+
+interface ChangeHistoryProps {
+  logs: AuditLog[];
+  resourcePath: string;
+  // Also shows entries that name the record some other way
+  matches?: (log: AuditLog) => boolean;
+}
+
+function formatValue(value: unknown) {
+  if (value === undefined || value === null || value === '') return '—';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+export function ChangeHistory({ logs, resourcePath, matches }: ChangeHistoryProps) {
+  const entries = useMemo(() => {
+    return logs
+      .filter(log => log.resourcePath === resourcePath || matches?.(log))
+      .sort((a, b) => parseAuditTimestamp(b.timestamp) - parseAuditTimestamp(a.timestamp));
+  }, [logs, resourcePath, matches]);
+
+  if (entries.length === 0) {
+    return <p className="text-sm text-slate-500 py-4">No recorded changes for this record yet.</p>;
+  }
+
+  return (
+    <div className="space-y-3 max-h-96 overflow-y-auto">
+      {entries.map(entry => {
+        const changes = 'changes' in entry.metadata ? entry.metadata.changes : undefined;
+        return (
+          <div
+            key={entry.id}
+            className="rounded-lg border border-slate-200 dark:border-slate-700 p-3"
+          >
+            <div className="flex items-center justify-between gap-2 mb-1">
+              <Badge variant="secondary">{entry.actionType.replace(/_/g, ' ')}</Badge>
+              <span className="text-xs text-slate-500">{entry.timestamp}</span>
+            </div>
+            <p className="text-sm">{entry.actor}</p>
+            {changes && (
+              <div className="mt-2 space-y-1">
+                {Object.entries(changes).map(([field, change]) => (
+                  <p key={field} className="text-xs">
+                    <span className="text-slate-500">{field}: </span>
+                    <span className="line-through text-red-600">{formatValue(change.before)}</span>
+                    <span className="text-slate-400"> → </span>
+                    <span className="text-green-600">{formatValue(change.after)}</span>
+                  </p>
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,190 @@
+import { useDeferredValue, useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { FileKey, Key, ScrollText, Search, Shield } from 'lucide-react';
+import { useAssetData } from '../../hooks/useAssetData';
+import { searchCollection, SearchCollection } from '../../lib/assetSearch';
+import type { AssetRecordMap } from '../../types/assets';
+import { NAV_ITEMS } from './Sidebar';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from './ui/command';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+
+const RESULTS_PER_GROUP = 5;
+
+interface ResultView<T> {
+  heading: string;
+  icon: typeof Search;
+  // Page the record opens on, via ?open=<id>
+  module: string;
+  describe: (record: T) => { title: string; detail: string };
+}
+
+const RESULT_VIEWS: { [C in SearchCollection]: ResultView<AssetRecordMap[C]> } = {
+  certificates: {
+    heading: 'Certificates',
+    icon: Shield,
+    module: '/certificates',
+    describe: cert => ({ title: cert.name, detail: cert.domain }),
+  },
+  sshKeys: {
+    heading: 'SSH Keys',
+    icon: Key,
+    module: '/ssh-keys',
+    describe: key => ({ title: key.keyOwner, detail: key.fingerprint }),
+  },
+  codeSigningKeys: {
+    heading: 'Code Signing Keys',
+    icon: FileKey,
+    module: '/code-signing',
+    describe: key => ({ title: key.keyAlias, detail: `${key.environment} · ${key.algorithm}` }),
+  },
+  auditLogs: {
+    heading: 'Audit Logs',
+    icon: ScrollText,
+    module: '/audit-logs',
+    describe: log => ({ title: `${log.actionType.replace(/_/g, ' ')} by ${log.actor}`, detail: log.resourcePath }),
+  },
+};
+
+interface PaletteResult {
+  value: string;
+  icon: typeof Search;
+  title: string;
+  detail?: string;
+  path: string;
+}
+
+interface PaletteGroup {
+  heading: string;
+  results: PaletteResult[];
+}
+
+function resultGroup<C extends SearchCollection>(collection: C, records: AssetRecordMap[C][], query: string): PaletteGroup {
+  const view = RESULT_VIEWS[collection] as ResultView<AssetRecordMap[C]>;
+  const { top, total } = searchCollection(collection, records, query, RESULTS_PER_GROUP);
+  const results: PaletteResult[] = top.map(record => ({
+    value: `${collection}:${record.id}`,
+    icon: view.icon,
+    ...view.describe(record),
+    path: `${view.module}?open=${encodeURIComponent(record.id)}`,
+  }));
+  if (total > top.length) {
+    results.push({
+      value: `${collection}:all`,
+      icon: Search,
+      title: `Show all ${total.toLocaleString()} matches`,
+      path: `${view.module}?q=${encodeURIComponent(query.trim())}`,
+    });
+  }
+  return { heading: view.heading, results };
+}
+
+// Mounted only while the palette is open, so its collections load on demand
+function PaletteSearch({ onSelect }: { onSelect: (path: string) => void }) {
+  const [query, setQuery] = useState('');
+  // Keeps typing responsive while large inventories are searched
+  const term = useDeferredValue(query);
+  const certificates = useAssetData('certificates');
+  const sshKeys = useAssetData('sshKeys');
+  const codeSigningKeys = useAssetData('codeSigningKeys');
+  const auditLogs = useAssetData('auditLogs');
+  const loading = [certificates, sshKeys, codeSigningKeys, auditLogs].some(source => source.loading);
+
+  const groups = useMemo(() => {
+    const lower = term.trim().toLowerCase();
+    const navigation: PaletteGroup = {
+      heading: 'Go to',
+      results: NAV_ITEMS
+        .filter(item => item.label.toLowerCase().includes(lower))
+        .map(item => ({ value: `nav:${item.path}`, icon: item.icon, title: item.label, path: item.path })),
+    };
+    if (!lower) return [navigation];
+    return [
+      navigation,
+      resultGroup('certificates', certificates.data, term),
+      resultGroup('sshKeys', sshKeys.data, term),
+      resultGroup('codeSigningKeys', codeSigningKeys.data, term),
+      resultGroup('auditLogs', auditLogs.data, term),
+    ].filter(group => group.results.length > 0);
+  }, [term, certificates.data, sshKeys.data, codeSigningKeys.data, auditLogs.data]);
+
+  return (
+    <Command shouldFilter={false} className="[&_[cmdk-item]]:py-2">
+      <CommandInput
+        value={query}
+        onValueChange={setQuery}
+        placeholder="Search certificates, SSH keys, signing keys, audit logs or pages..."
+        className="h-12"
+      />
+      <CommandList className="max-h-[420px]">
+        <CommandEmpty>{loading ? 'Loading inventories...' : 'No matches.'}</CommandEmpty>
+        {groups.map(group => (
+          <CommandGroup key={group.heading} heading={group.heading}>
+            {group.results.map(({ value, icon: Icon, title, detail, path }) => (
+              <CommandItem key={value} value={value} onSelect={() => onSelect(path)}>
+                <Icon className="h-4 w-4" />
+                <div className="min-w-0">
+                  <p className="truncate">{title}</p>
+                  {detail && <p className="truncate text-xs text-slate-500 font-mono">{detail}</p>}
+                </div>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        ))}
+      </CommandList>
+    </Command>
+  );
+}
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Ctrl/Cmd+K search across every asset type at once, plus page navigation.
+ * Picking a record opens its page with the record's details showing.
+ */
+export function CommandPalette({ open, onOpenChange }: CommandPaletteProps) {
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if ((event.metaKey || event.ctrlKey) && event.key.toLowerCase() === 'k') {
+        event.preventDefault();
+        onOpenChange(!open);
+      }
+    };
+    document.addEventListener('keydown', onKeyDown);
+    return () => document.removeEventListener('keydown', onKeyDown);
+  }, [open, onOpenChange]);
+
+  const select = (path: string) => {
+    onOpenChange(false);
+    navigate(path);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="overflow-hidden p-0 sm:max-w-2xl">
+        <DialogHeader className="sr-only">
+          <DialogTitle>Search</DialogTitle>
+          <DialogDescription>Search every asset type and jump to a page</DialogDescription>
+        </DialogHeader>
+        <PaletteSearch onSelect={select} />
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,60 @@
+import { useState } from 'react';
+import { AlertTriangle, ChevronDown, ChevronUp } from 'lucide-react';
+import { Button } from './ui/button';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from './ui/collapsible';
+import type { QuarantinedRecord } from '../../lib/validation';
+
+interface DataQualityPanelProps {
+  records: QuarantinedRecord[];
+}
+
+export function DataQualityPanel({ records }: DataQualityPanelProps) {
+  const [open, setOpen] = useState(false);
+
+  if (records.length === 0) return null;
+
+  return (
+    <Collapsible
+      open={open}
+      onOpenChange={setOpen}
+      className="bg-amber-50 dark:bg-amber-950/30 rounded-lg border border-amber-200 dark:border-amber-900"
+    >
+      <div className="flex items-center justify-between p-4">
+        <div className="flex items-center gap-3">
+          <AlertTriangle className="h-5 w-5 text-amber-600" />
+          <div>
+            <p className="text-sm">Data quality</p>
+            <p className="text-sm text-slate-500">
+              {records.length} {records.length === 1 ? 'record was' : 'records were'} quarantined because {records.length === 1 ? 'it' : 'they'} failed validation
+            </p>
+          </div>
+        </div>
+        <CollapsibleTrigger asChild>
+          <Button variant="ghost" size="sm">
+            {open ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+          </Button>
+        </CollapsibleTrigger>
+      </div>
+      <CollapsibleContent>
+        <div className="px-4 pb-4 space-y-3">
+          {records.map((item, idx) => (
+            <div
+              key={item.id ?? idx}
+              className="bg-white dark:bg-slate-800 rounded px-3 py-2 border border-slate-200 dark:border-slate-700"
+            >
+              <p className="font-mono text-sm">{item.id ?? `Record #${idx + 1} (no id)`}</p>
+              <ul className="mt-1 text-xs text-slate-500 list-disc pl-4">
+                {item.issues.map(issue => (
+                  <li key={issue}>{issue}</li>
+                ))}
+              </ul>
+              <pre className="mt-2 bg-slate-900 dark:bg-slate-950 text-slate-100 p-3 rounded-lg text-xs overflow-x-auto">
+                {JSON.stringify(item.record, null, 2)}
+              </pre>
+            </div>
+          ))}
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
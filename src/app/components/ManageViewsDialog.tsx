@@ -0,0 +1,154 @@
+import { useRef } from 'react';
+import { Link } from 'react-router-dom';
+import { Download, Lock, Trash2, Upload, Users } from 'lucide-react';
+import { Button } from './ui/button';
+import { Switch } from './ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from './ui/table';
+import { applyViewColumns } from '../../hooks/useColumnConfig';
+import { VIEW_MODULES, viewPath } from '../../lib/savedViews';
+import type { SavedView } from '../../types/assets';
+
+interface ManageViewsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  views: SavedView[];
+  owner: string;
+  // Ids of the views the user pinned
+  pinned: string[];
+  onPinnedChange: (view: SavedView, pinned: boolean) => void;
+  onUpdate: (view: SavedView, patch: Partial<SavedView>) => void;
+  onDelete: (view: SavedView) => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+}
+
+export function ManageViewsDialog({
+  open,
+  onOpenChange,
+  views,
+  owner,
+  pinned,
+  onPinnedChange,
+  onUpdate,
+  onDelete,
+  onExport,
+  onImport,
+}: ManageViewsDialogProps) {
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Saved Views</DialogTitle>
+          <DialogDescription>
+            Your private views and the views shared with the team. Only the owner can change or delete a view;
+            pins are yours alone.
+          </DialogDescription>
+        </DialogHeader>
+
+        {views.length === 0 ? (
+          <p className="py-6 text-center text-sm text-slate-500">No saved views yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Module</TableHead>
+                <TableHead>Visibility</TableHead>
+                <TableHead>Pinned</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {views.map(view => {
+                const own = view.owner === owner;
+                return (
+                  <TableRow key={view.id}>
+                    <TableCell>
+                      <Link
+                        to={viewPath(view)}
+                        onClick={() => {
+                          applyViewColumns(view);
+                          onOpenChange(false);
+                        }}
+                        className="text-blue-600 hover:underline"
+                      >
+                        {view.name}
+                      </Link>
+                      {!own && <p className="text-xs text-slate-500">{view.owner}</p>}
+                    </TableCell>
+                    <TableCell>{VIEW_MODULES[view.module] ?? view.module}</TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={!own}
+                        onClick={() => onUpdate(view, { visibility: view.visibility === 'shared' ? 'private' : 'shared' })}
+                        title={own ? 'Toggle visibility' : undefined}
+                      >
+                        {view.visibility === 'shared'
+                          ? <><Users className="h-4 w-4 mr-1" />Shared</>
+                          : <><Lock className="h-4 w-4 mr-1" />Private</>}
+                      </Button>
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={pinned.includes(view.id)}
+                        onCheckedChange={(checked) => onPinnedChange(view, checked)}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      {own && (
+                        <Button variant="ghost" size="sm" onClick={() => onDelete(view)} title="Delete view">
+                          <Trash2 className="h-4 w-4 text-red-600" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+
+        <DialogFooter>
+          <input
+            ref={fileInput}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onImport(file);
+              e.target.value = '';
+            }}
+          />
+          <Button variant="outline" onClick={() => fileInput.current?.click()}>
+            <Upload className="h-4 w-4 mr-2" />
+            Import JSON
+          </Button>
+          <Button variant="outline" onClick={onExport} disabled={views.length === 0}>
+            <Download className="h-4 w-4 mr-2" />
+            Export JSON
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,135 @@
+import { useState, useEffect } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import { CryptoPolicy, DEFAULT_CRYPTO_POLICY, validatePolicy } from '../../lib/policy';
+
+interface PolicySettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  policy: CryptoPolicy;
+  onSave: (policy: CryptoPolicy) => void;
+}
+
+type NumberField =
+  | 'minRsaBits'
+  | 'maxCertificateValidityDays'
+  | 'maxSshKeyAgeDays'
+  | 'sshCertificateExpiryWarningDays'
+  | 'maxSshCertificatePrincipals';
+
+const NUMBER_FIELDS: { key: NumberField; label: string }[] = [
+  { key: 'minRsaBits', label: 'Minimum RSA key size (bits)' },
+  { key: 'maxCertificateValidityDays', label: 'Maximum certificate validity (days)' },
+  { key: 'maxSshKeyAgeDays', label: 'Maximum SSH key age (days)' },
+  { key: 'sshCertificateExpiryWarningDays', label: 'Flag SSH certificates expiring within (days)' },
+  { key: 'maxSshCertificatePrincipals', label: 'Maximum principals per SSH certificate' },
+];
+
+const LIST_FIELDS: { key: 'bannedSshAlgorithms' | 'bannedCodeSigningAlgorithms' | 'hsmRequiredEnvironments'; label: string; placeholder: string }[] = [
+  { key: 'bannedSshAlgorithms', label: 'Banned SSH algorithms', placeholder: 'dsa, rsa-1024' },
+  { key: 'bannedCodeSigningAlgorithms', label: 'Banned code signing algorithms', placeholder: 'rsa-2048' },
+  { key: 'hsmRequiredEnvironments', label: 'Environments requiring HSM keys', placeholder: 'Production' },
+];
+
+type Draft = Record<string, string>;
+
+function toDraft(policy: CryptoPolicy): Draft {
+  const draft: Draft = {};
+  NUMBER_FIELDS.forEach(({ key }) => { draft[key] = String(policy[key]); });
+  LIST_FIELDS.forEach(({ key }) => { draft[key] = policy[key].join(', '); });
+  return draft;
+}
+
+const splitList = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+
+export function PolicySettingsDialog({ open, onOpenChange, policy, onSave }: PolicySettingsDialogProps) {
+  const [draft, setDraft] = useState<Draft>(() => toDraft(policy));
+  const [error, setError] = useState<string | null>(null);
+
+  // Start from the saved policy every time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setDraft(toDraft(policy));
+      setError(null);
+    }
+  }, [open, policy]);
+
+  const handleSave = () => {
+    const next: CryptoPolicy = {
+      ...policy,
+      minRsaBits: Number(draft.minRsaBits),
+      maxCertificateValidityDays: Number(draft.maxCertificateValidityDays),
+      maxSshKeyAgeDays: Number(draft.maxSshKeyAgeDays),
+      sshCertificateExpiryWarningDays: Number(draft.sshCertificateExpiryWarningDays),
+      maxSshCertificatePrincipals: Number(draft.maxSshCertificatePrincipals),
+      // Algorithms are matched in lower case; environment names as written
+      bannedSshAlgorithms: splitList(draft.bannedSshAlgorithms).map(a => a.toLowerCase()),
+      bannedCodeSigningAlgorithms: splitList(draft.bannedCodeSigningAlgorithms).map(a => a.toLowerCase()),
+      hsmRequiredEnvironments: splitList(draft.hsmRequiredEnvironments),
+    };
+    const problem = validatePolicy(next);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    onSave(next);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Edit Policy</DialogTitle>
+          <DialogDescription>Changes apply immediately and are recorded in the audit log.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {NUMBER_FIELDS.map(({ key, label }) => (
+            <div key={key} className="space-y-1">
+              <Label htmlFor={`policy-${key}`}>{label}</Label>
+              <Input
+                id={`policy-${key}`}
+                type="number"
+                min={1}
+                value={draft[key]}
+                onChange={(e) => setDraft({ ...draft, [key]: e.target.value })}
+              />
+            </div>
+          ))}
+          {LIST_FIELDS.map(({ key, label, placeholder }) => (
+            <div key={key} className="space-y-1">
+              <Label htmlFor={`policy-${key}`}>{label}</Label>
+              <Input
+                id={`policy-${key}`}
+                value={draft[key]}
+                placeholder={placeholder}
+                className="font-mono"
+                onChange={(e) => setDraft({ ...draft, [key]: e.target.value })}
+              />
+            </div>
+          ))}
+          <p className="text-xs text-slate-500">Lists are comma-separated.</p>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => setDraft(toDraft(DEFAULT_CRYPTO_POLICY))}>
+            Reset to defaults
+          </Button>
+          <Button onClick={handleSave}>Save</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,174 @@
+import { useMemo, KeyboardEvent } from 'react';
+import type { ServerAccess } from '../../lib/sshAccess';
+import { TRUST_LABELS, TRUST_LEVELS, TrustLevel, TrustScore } from '../../lib/sshTrust';
+import type { SSHKey } from '../../types/assets';
+
+const ROW_HEIGHT = 32;
+const WIDTH = 800;
+const KEY_X = 220;
+const SERVER_X = 580;
+const LABEL_LENGTH = 28;
+
+// Same colours as the trust chart on the overview page
+const TRUST_COLORS: Record<TrustLevel, string> = {
+  high: '#16a34a',
+  medium: '#ca8a04',
+  low: '#dc2626',
+};
+
+interface SSHAccessGraphProps {
+  servers: ServerAccess[];
+  scores: Map<string, TrustScore>;
+  selectedHost: string;
+  onSelectHost: (host: string) => void;
+  selectedKey: string;
+  onSelectKey: (id: string) => void;
+}
+
+const truncate = (label: string) => label.length > LABEL_LENGTH ? `${label.slice(0, LABEL_LENGTH - 1)}…` : label;
+
+// Keys ordered by the average position of the servers they reach, which keeps edges from crossing much
+function orderKeys(servers: ServerAccess[]) {
+  const positions = new Map<string, { key: SSHKey; total: number; count: number }>();
+  servers.forEach((server, index) => {
+    for (const { key } of server.logins) {
+      const entry = positions.get(key.id) ?? { key, total: 0, count: 0 };
+      entry.total += index;
+      entry.count++;
+      positions.set(key.id, entry);
+    }
+  });
+  return [...positions.values()]
+    .sort((a, b) => a.total / a.count - b.total / b.count)
+    .map(entry => entry.key);
+}
+
+/**
+ * Keys on the left, servers on the right, an edge for each login. Edges are
+ * coloured by the key's trust level and dashed when a CA grants the access.
+ * Selecting a server or key highlights its edges.
+ */
+export function SSHAccessGraph({ servers, scores, selectedHost, onSelectHost, selectedKey, onSelectKey }: SSHAccessGraphProps) {
+  const keys = useMemo(() => orderKeys(servers), [servers]);
+  const rows = Math.max(keys.length, servers.length, 1);
+  const height = rows * ROW_HEIGHT + ROW_HEIGHT;
+  // The shorter column is centred against the longer one
+  const keyY = (index: number) => (rows - keys.length) * ROW_HEIGHT / 2 + (index + 1) * ROW_HEIGHT;
+  const serverY = (index: number) => (rows - servers.length) * ROW_HEIGHT / 2 + (index + 1) * ROW_HEIGHT;
+  const keyIndex = new Map(keys.map((key, index) => [key.id, index]));
+
+  const selecting = !!selectedHost || !!selectedKey;
+  const isActive = (host: string, keyId: string) =>
+    (!selectedHost || selectedHost === host) && (!selectedKey || selectedKey === keyId);
+  const activeKeys = new Set(servers.flatMap(server =>
+    server.logins.filter(({ key }) => isActive(server.host, key.id)).map(({ key }) => key.id)
+  ));
+  const activeHosts = new Set(servers
+    .filter(server => server.logins.some(({ key }) => isActive(server.host, key.id)) || server.host === selectedHost)
+    .map(server => server.host));
+
+  const activate = (action: () => void) => ({
+    role: 'button',
+    tabIndex: 0,
+    onClick: action,
+    onKeyDown: (event: KeyboardEvent) => {
+      if (event.key === 'Enter' || event.key === ' ') {
+        event.preventDefault();
+        action();
+      }
+    },
+  });
+
+  if (servers.length === 0) {
+    return <p className="text-sm text-slate-500 py-8 text-center">No servers match.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="overflow-auto max-h-[640px]">
+        <svg viewBox={`0 0 ${WIDTH} ${height}`} width="100%" height={height} className="min-w-[640px]">
+          {servers.map((server, serverIdx) => server.logins.map(({ key, via }) => {
+            const y1 = keyY(keyIndex.get(key.id)!);
+            const y2 = serverY(serverIdx);
+            const mid = (KEY_X + SERVER_X) / 2;
+            const active = isActive(server.host, key.id);
+            return (
+              <path
+                key={`${server.host}:${key.id}`}
+                d={`M ${KEY_X} ${y1} C ${mid} ${y1}, ${mid} ${y2}, ${SERVER_X} ${y2}`}
+                fill="none"
+                stroke={TRUST_COLORS[scores.get(key.id)?.level ?? 'low']}
+                strokeWidth={selecting && active ? 2 : 1.25}
+                strokeDasharray={via ? '4 3' : undefined}
+                opacity={!selecting || active ? 0.85 : 0.1}
+              />
+            );
+          }))}
+
+          {keys.map((key, index) => {
+            const y = keyY(index);
+            const trust = scores.get(key.id);
+            const dimmed = selecting && !activeKeys.has(key.id);
+            return (
+              <g
+                key={key.id}
+                {...activate(() => onSelectKey(selectedKey === key.id ? '' : key.id))}
+                className="cursor-pointer outline-none"
+                opacity={dimmed ? 0.3 : 1}
+              >
+                <title>{`${key.keyOwner}${trust ? ` · trust ${trust.score}` : ''}${key.disabledAt ? ' · disabled' : ''}`}</title>
+                <circle cx={KEY_X} cy={y} r={selectedKey === key.id ? 7 : 5} fill={TRUST_COLORS[trust?.level ?? 'low']} />
+                <text
+                  x={KEY_X - 12}
+                  y={y}
+                  textAnchor="end"
+                  dominantBaseline="middle"
+                  className={`text-xs fill-slate-700 dark:fill-slate-200 ${key.disabledAt ? 'line-through' : ''}`}
+                >
+                  {truncate(key.keyOwner)}
+                </text>
+              </g>
+            );
+          })}
+
+          {servers.map((server, index) => {
+            const y = serverY(index);
+            const selected = selectedHost === server.host;
+            return (
+              <g
+                key={server.host}
+                {...activate(() => onSelectHost(selected ? '' : server.host))}
+                className="cursor-pointer outline-none"
+                opacity={selecting && !activeHosts.has(server.host) ? 0.3 : 1}
+              >
+                <title>{`${server.host} · ${server.logins.length} key${server.logins.length === 1 ? '' : 's'}`}</title>
+                <rect x={SERVER_X - 6} y={y - 6} width={12} height={12} rx={2} className={selected ? 'fill-blue-600' : 'fill-slate-500'} />
+                <text
+                  x={SERVER_X + 14}
+                  y={y}
+                  dominantBaseline="middle"
+                  className={`text-xs font-mono ${selected ? 'fill-blue-600' : 'fill-slate-700 dark:fill-slate-200'}`}
+                >
+                  {truncate(server.host)}
+                </text>
+              </g>
+            );
+          })}
+        </svg>
+      </div>
+      <div className="flex flex-wrap items-center gap-4 text-xs text-slate-500">
+        {TRUST_LEVELS.map(level => (
+          <span key={level} className="flex items-center gap-1">
+            <span className="inline-block h-0.5 w-4" style={{ backgroundColor: TRUST_COLORS[level] }} />
+            {TRUST_LABELS[level]} trust
+          </span>
+        ))}
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-4 border-t border-dashed border-slate-500" />
+          Through a user CA
+        </span>
+        <span>Click a server or key to highlight its access</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import { AlertTriangle } from 'lucide-react';
+import { Badge } from './ui/badge';
+import type { SSHCertificate, SSHKey } from '../../types/assets';
+
+interface SSHCertificateDetailsProps {
+  certificate: SSHCertificate;
+  // The CA key, when it is in the inventory
+  signingCa?: SSHKey;
+  onOpenCa?: (id: string) => void;
+  // Policy problems with the certificate, e.g. broad principals
+  warnings: string[];
+}
+
+const formatDate = (value: string) => new Date(value).toLocaleString();
+
+export function SSHCertificateDetails({ certificate, signingCa, onOpenCa, warnings }: SSHCertificateDetailsProps) {
+  const criticalOptions = Object.entries(certificate.criticalOptions);
+  return (
+    <div className="space-y-3 pt-2 border-t border-slate-200 dark:border-slate-700">
+      <p className="text-sm text-slate-500">
+        {certificate.type === 'user' ? 'User' : 'Host'} certificate
+      </p>
+      {warnings.map(warning => (
+        <div key={warning} className="flex items-center gap-2 text-sm text-red-600">
+          <AlertTriangle className="h-4 w-4" />
+          {warning}
+        </div>
+      ))}
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+        <div>
+          <p className="text-xs text-slate-500">Key ID</p>
+          <p className="font-mono text-xs mt-1">{certificate.keyId || '—'}</p>
+        </div>
+        <div>
+          <p className="text-xs text-slate-500">Serial</p>
+          <p className="font-mono text-xs mt-1">{certificate.serial}</p>
+        </div>
+        <div>
+          <p className="text-xs text-slate-500">Valid</p>
+          <p className="text-sm mt-1">
+            {formatDate(certificate.validAfter)} to {certificate.validBefore ? formatDate(certificate.validBefore) : 'forever'}
+          </p>
+        </div>
+        <div className="col-span-2 md:col-span-3">
+          <p className="text-xs text-slate-500">Signing CA</p>
+          {signingCa ? (
+            <button
+              type="button"
+              className="text-sm mt-1 text-blue-600 hover:underline"
+              onClick={() => onOpenCa?.(signingCa.id)}
+            >
+              {signingCa.keyOwner}
+            </button>
+          ) : (
+            <p className="text-xs text-slate-500 mt-1">Not in the inventory</p>
+          )}
+          <p className="font-mono text-xs mt-1">{certificate.signingCaFingerprint}</p>
+        </div>
+        <div>
+          <p className="text-xs text-slate-500">Principals</p>
+          <div className="flex flex-wrap gap-1 mt-1">
+            {certificate.principals.length > 0
+              ? certificate.principals.map(principal => (
+                <Badge key={principal} variant="secondary" className="font-mono">{principal}</Badge>
+              ))
+              : <span className="text-sm">Any {certificate.type}</span>}
+          </div>
+        </div>
+        <div>
+          <p className="text-xs text-slate-500">Critical Options</p>
+          {criticalOptions.length > 0
+            ? criticalOptions.map(([name, value]) => (
+              <p key={name} className="font-mono text-xs mt-1">{value ? `${name} ${value}` : name}</p>
+            ))
+            : <p className="text-sm mt-1">None</p>}
+        </div>
+        <div>
+          <p className="text-xs text-slate-500">Extensions</p>
+          <div className="flex flex-wrap gap-1 mt-1">
+            {certificate.extensions.length > 0
+              ? certificate.extensions.map(extension => (
+                <Badge key={extension} variant="outline" className="font-mono">{extension}</Badge>
+              ))
+              : <span className="text-sm">None</span>}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
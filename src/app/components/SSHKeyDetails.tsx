@@ -0,0 +1,103 @@
+import { Link } from 'react-router-dom';
+import { Server } from 'lucide-react';
+import { Badge } from './ui/badge';
+import { SSHCertificateDetails } from './SSHCertificateDetails';
+import { SSHTrustBreakdown } from './SSHTrustBreakdown';
+import { isSha256Fingerprint } from '../../lib/openssh';
+import type { TrustScore, TrustThresholds } from '../../lib/sshTrust';
+import type { SSHKey } from '../../types/assets';
+
+interface SSHKeyDetailsProps {
+  sshKey: SSHKey;
+  // The whole inventory, to find the key's CA and the certificates a CA signed
+  keys: SSHKey[];
+  trust?: TrustScore;
+  thresholds: TrustThresholds;
+  certificateWarnings: string[];
+  onOpenCa?: (id: string) => void;
+}
+
+// Servers, fingerprints, trust breakdown and certificate of one SSH key
+export function SSHKeyDetails({ sshKey: key, keys, trust, thresholds, certificateWarnings, onOpenCa }: SSHKeyDetailsProps) {
+  return (
+    <div className="space-y-3">
+      <div>
+        <p className="text-sm text-slate-500 mb-2 flex items-center gap-2">
+          <Server className="h-4 w-4" />
+          Associated Servers ({key.associatedServers.length})
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+          {key.associatedServers.map((server, idx) => (
+            <Link
+              key={idx}
+              to={`/servers?host=${encodeURIComponent(server)}`}
+              title="See every key that can log into this server"
+              className="bg-white dark:bg-slate-800 rounded px-3 py-2 text-sm font-mono border border-slate-200 dark:border-slate-700 hover:border-blue-600"
+            >
+              {server}
+            </Link>
+          ))}
+        </div>
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-4 pt-2 border-t border-slate-200 dark:border-slate-700">
+        <div>
+          <p className="text-xs text-slate-500">Full Fingerprint</p>
+          <p className="font-mono text-xs mt-1">{key.fingerprint}</p>
+          {key.fingerprintMd5 && <p className="font-mono text-xs text-slate-500">{key.fingerprintMd5}</p>}
+          <p className={`text-xs mt-1 ${isSha256Fingerprint(key.fingerprint) ? 'text-slate-500' : 'text-red-600'}`}>
+            {!isSha256Fingerprint(key.fingerprint)
+              ? 'Not a valid SHA256 fingerprint'
+              : key.publicKey ? 'Computed from the imported public key' : 'Entered by hand; import the key to verify it'}
+          </p>
+        </div>
+        <div>
+          <p className="text-xs text-slate-500">Created</p>
+          <p className="text-sm mt-1">{new Date(key.createdAt).toLocaleDateString()}</p>
+        </div>
+        <div>
+          <p className="text-xs text-slate-500">Algorithm</p>
+          <p className="text-sm mt-1">{key.algorithm}</p>
+        </div>
+        {key.comment && (
+          <div>
+            <p className="text-xs text-slate-500">Comment</p>
+            <p className="font-mono text-xs mt-1">{key.comment}</p>
+          </div>
+        )}
+        {key.options && key.options.length > 0 && (
+          <div className="col-span-2">
+            <p className="text-xs text-slate-500">authorized_keys Options</p>
+            <div className="flex flex-wrap gap-1 mt-1">
+              {key.options.map((option, idx) => (
+                <Badge key={idx} variant="secondary" className="font-mono">{option}</Badge>
+              ))}
+            </div>
+          </div>
+        )}
+        {key.certificateAuthority && (
+          <div>
+            <p className="text-xs text-slate-500">Certificates Signed</p>
+            <p className="text-sm mt-1">
+              {keys.filter(k => k.certificate?.signingCaFingerprint === key.fingerprint).length} in the inventory
+            </p>
+          </div>
+        )}
+      </div>
+      {key.notes && (
+        <div className="pt-2 border-t border-slate-200 dark:border-slate-700">
+          <p className="text-xs text-slate-500">Notes</p>
+          <p className="text-sm mt-1 whitespace-pre-wrap">{key.notes}</p>
+        </div>
+      )}
+      {trust && <SSHTrustBreakdown trust={trust} thresholds={thresholds} />}
+      {key.certificate && (
+        <SSHCertificateDetails
+          certificate={key.certificate}
+          signingCa={keys.find(k => k.fingerprint === key.certificate!.signingCaFingerprint)}
+          onOpenCa={onOpenCa}
+          warnings={certificateWarnings}
+        />
+      )}
+    </div>
+  );
+}
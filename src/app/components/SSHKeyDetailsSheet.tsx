@@ -0,0 +1,143 @@
+import { useCallback } from 'react';
+import { Bookmark, BookmarkCheck, Edit } from 'lucide-react';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from './ui/sheet';
+import { ChangeHistory } from './ChangeHistory';
+import { SSHKeyDetails } from './SSHKeyDetails';
+import { TagList } from './TagList';
+import { isAuditForSshKey } from '../../lib/audit';
+import { TRUST_LABELS, TrustScore, TrustThresholds } from '../../lib/sshTrust';
+import type { AuditLog, SSHKey } from '../../types/assets';
+
+interface SSHKeyDetailsSheetProps {
+  sshKey: SSHKey | null;
+  keys: SSHKey[];
+  trust?: TrustScore;
+  thresholds: TrustThresholds;
+  certificateWarnings: string[];
+  auditLogs: AuditLog[];
+  watched: boolean;
+  onToggleWatched: (id: string) => void;
+  onEdit: (key: SSHKey) => void;
+  onOpenCa: (id: string) => void;
+  onOpenChange: (open: boolean) => void;
+}
+
+const formatDate = (value?: string) => value ? new Date(value).toLocaleString() : '—';
+
+export function SSHKeyDetailsSheet({
+  sshKey,
+  keys,
+  trust,
+  thresholds,
+  certificateWarnings,
+  auditLogs,
+  watched,
+  onToggleWatched,
+  onEdit,
+  onOpenCa,
+  onOpenChange,
+}: SSHKeyDetailsSheetProps) {
+  const matchesKey = useCallback((log: AuditLog) => !!sshKey && isAuditForSshKey(log, sshKey), [sshKey]);
+
+  return (
+    <Sheet open={!!sshKey} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-2xl overflow-y-auto">
+        {sshKey && (
+          <>
+            <SheetHeader>
+              <SheetTitle>{sshKey.keyOwner}</SheetTitle>
+              <SheetDescription className="font-mono break-all">
+                {sshKey.algorithm} · {sshKey.fingerprint}
+              </SheetDescription>
+              <div className="flex flex-wrap gap-1 pt-1">
+                {trust && (
+                  <Badge variant="outline">
+                    {TRUST_LABELS[trust.level]} trust · {trust.score}{trust.overridden && ' (set by hand)'}
+                  </Badge>
+                )}
+                {sshKey.disabledAt && <Badge variant="outline" className="text-red-600 border-red-600">Disabled</Badge>}
+                {watched && <Badge className="bg-blue-600">Watched</Badge>}
+              </div>
+              <div className="flex gap-2 pt-2">
+                <Button variant="outline" size="sm" onClick={() => onEdit(sshKey)}>
+                  <Edit className="h-4 w-4 mr-2" />
+                  Edit
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => onToggleWatched(sshKey.id)}>
+                  {watched ? <BookmarkCheck className="h-4 w-4 mr-2" /> : <Bookmark className="h-4 w-4 mr-2" />}
+                  {watched ? 'Unwatch' : 'Watch'}
+                </Button>
+              </div>
+            </SheetHeader>
+            <Tabs defaultValue="details" className="px-4 pb-4">
+              <TabsList>
+                <TabsTrigger value="details">Details</TabsTrigger>
+                <TabsTrigger value="history">History</TabsTrigger>
+              </TabsList>
+              <TabsContent value="details" className="space-y-4 pt-2">
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <p className="text-xs text-slate-500">Last Used</p>
+                    <p className="text-sm mt-1">{sshKey.lastUsed ?? 'Never'}</p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-slate-500">Assigned Owner</p>
+                    <p className="text-sm mt-1">{sshKey.owner ?? '—'}</p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-slate-500">Last Reviewed</p>
+                    <p className="text-sm mt-1">
+                      {formatDate(sshKey.reviewedAt)}{sshKey.reviewedBy && ` by ${sshKey.reviewedBy}`}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-slate-500">Rotation Requested</p>
+                    <p className="text-sm mt-1">{formatDate(sshKey.rotationRequestedAt)}</p>
+                  </div>
+                  {sshKey.disabledAt && (
+                    <div>
+                      <p className="text-xs text-slate-500">Disabled</p>
+                      <p className="text-sm mt-1">{formatDate(sshKey.disabledAt)}</p>
+                    </div>
+                  )}
+                  {sshKey.tags && sshKey.tags.length > 0 && (
+                    <div>
+                      <p className="text-xs text-slate-500">Tags</p>
+                      <div className="mt-1"><TagList tags={sshKey.tags} /></div>
+                    </div>
+                  )}
+                </div>
+                <SSHKeyDetails
+                  sshKey={sshKey}
+                  keys={keys}
+                  trust={trust}
+                  thresholds={thresholds}
+                  certificateWarnings={certificateWarnings}
+                  onOpenCa={onOpenCa}
+                />
+                {sshKey.publicKey && (
+                  <div className="pt-2 border-t border-slate-200 dark:border-slate-700">
+                    <p className="text-xs text-slate-500">Public Key</p>
+                    <p className="font-mono text-xs mt-1 break-all">{sshKey.publicKey}</p>
+                  </div>
+                )}
+              </TabsContent>
+              <TabsContent value="history" className="pt-2">
+                <ChangeHistory logs={auditLogs} resourcePath={`/ssh/keys/${sshKey.id}`} matches={matchesKey} />
+              </TabsContent>
+            </Tabs>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,183 @@
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Textarea } from './ui/textarea';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from './ui/form';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+} from './ui/sheet';
+import { splitServerList, validateServerList } from '../../lib/sshAccess';
+import { TRUST_LABELS, TRUST_LEVELS, TrustLevel, TrustScore } from '../../lib/sshTrust';
+import type { SSHKey } from '../../types/assets';
+
+const MAX_OWNER_LENGTH = 100;
+const MAX_NOTES_LENGTH = 2000;
+
+export type SSHKeyEdit = Pick<SSHKey, 'owner' | 'trustOverride' | 'associatedServers' | 'notes'>;
+
+interface SSHKeyEditValues {
+  owner: string;
+  // "computed" leaves the trust level to the score
+  trustOverride: TrustLevel | 'computed';
+  servers: string;
+  notes: string;
+}
+
+const toValues = (key: SSHKey): SSHKeyEditValues => ({
+  owner: key.owner ?? '',
+  trustOverride: key.trustOverride ?? 'computed',
+  servers: key.associatedServers.join('\n'),
+  notes: key.notes ?? '',
+});
+
+interface SSHKeyEditSheetProps {
+  sshKey: SSHKey | null;
+  trust?: TrustScore;
+  // Owners already in use, offered as suggestions
+  owners: string[];
+  onOpenChange: (open: boolean) => void;
+  onSave: (key: SSHKey, edit: SSHKeyEdit) => Promise<void>;
+}
+
+export function SSHKeyEditSheet({ sshKey, trust, owners, onOpenChange, onSave }: SSHKeyEditSheetProps) {
+  const form = useForm<SSHKeyEditValues>({
+    defaultValues: { owner: '', trustOverride: 'computed', servers: '', notes: '' },
+    mode: 'onBlur',
+  });
+  const { reset } = form;
+
+  useEffect(() => {
+    if (sshKey) reset(toValues(sshKey));
+  }, [sshKey, reset]);
+
+  const submit = async (values: SSHKeyEditValues) => {
+    if (!sshKey) return;
+    await onSave(sshKey, {
+      owner: values.owner.trim() || undefined,
+      trustOverride: values.trustOverride === 'computed' ? undefined : values.trustOverride,
+      associatedServers: splitServerList(values.servers),
+      notes: values.notes.trim() || undefined,
+    });
+  };
+
+  return (
+    <Sheet open={!!sshKey} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-md overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Edit SSH Key</SheetTitle>
+          <SheetDescription>
+            {sshKey?.keyOwner}. Each save is recorded in the audit log.
+          </SheetDescription>
+        </SheetHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(submit)} className="flex flex-1 flex-col">
+            <div className="space-y-4 px-4">
+              <FormField
+                control={form.control}
+                name="owner"
+                rules={{
+                  maxLength: { value: MAX_OWNER_LENGTH, message: `At most ${MAX_OWNER_LENGTH} characters` },
+                }}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Assigned owner</FormLabel>
+                    <FormControl>
+                      <Input {...field} list="ssh-key-owners" placeholder="Team or person responsible" />
+                    </FormControl>
+                    <datalist id="ssh-key-owners">
+                      {owners.map(owner => <option key={owner} value={owner} />)}
+                    </datalist>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="trustOverride"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Trust level</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger className="w-full">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="computed">
+                          From the score{trust && ` (${TRUST_LABELS[trust.scoredLevel]}, ${trust.score})`}
+                        </SelectItem>
+                        {TRUST_LEVELS.map(level => (
+                          <SelectItem key={level} value={level}>{TRUST_LABELS[level]}, set by hand</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>Overrides replace the computed level in filters and counts.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="servers"
+                rules={{ validate: value => validateServerList(splitServerList(value)) ?? true }}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Associated servers</FormLabel>
+                    <FormControl>
+                      <Textarea {...field} rows={5} className="font-mono text-xs" placeholder="prod-api-01.example.com" />
+                    </FormControl>
+                    <FormDescription>One host per line.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="notes"
+                rules={{
+                  maxLength: { value: MAX_NOTES_LENGTH, message: `At most ${MAX_NOTES_LENGTH} characters` },
+                }}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Notes</FormLabel>
+                    <FormControl>
+                      <Textarea {...field} rows={4} placeholder="Why the key exists, who to ask before removing it..." />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <SheetFooter>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting ? 'Saving...' : 'Save Changes'}
+              </Button>
+            </SheetFooter>
+          </form>
+        </Form>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,255 @@
+import { useState, useRef } from 'react';
+import { Upload, FileText, AlertCircle } from 'lucide-react';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Input } from './ui/input';
+import { Textarea } from './ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import { parseSshKeys, sshKeyServers, ParsedSshKey, SshKeyLineError } from '../../lib/openssh';
+
+interface ImportSource {
+  label: string;
+  // Host the file was collected from; authorized_keys and .pub keys are associated with it
+  host: string;
+  keys: ParsedSshKey[];
+  lineErrors: SshKeyLineError[];
+  error?: string;
+}
+
+export interface SshKeyImport {
+  key: ParsedSshKey;
+  servers: string[];
+  // File (and host) the key came from
+  source: string;
+}
+
+interface SSHKeyImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Returns the id of the inventory record a parsed key would update, if any
+  findExisting: (parsed: ParsedSshKey) => string | undefined;
+  onImport: (keys: SshKeyImport[]) => Promise<void>;
+}
+
+// Key files are often named after the host they came from, e.g. web-01_authorized_keys
+function guessHost(fileName: string) {
+  const match = fileName.match(/^(.+?)[_-](authorized_keys2?|known_hosts)$/);
+  return match?.[1] ?? '';
+}
+
+async function parseSource(label: string, text: string, host = ''): Promise<ImportSource> {
+  try {
+    const { keys, errors } = await parseSshKeys(text);
+    return { label, host, keys, lineErrors: errors };
+  } catch (err) {
+    return { label, host, keys: [], lineErrors: [], error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+const describeSource = (source: ImportSource) => source.host ? `${source.label} on ${source.host}` : source.label;
+
+export function SSHKeyImportDialog({ open, onOpenChange, findExisting, onImport }: SSHKeyImportDialogProps) {
+  const [keyText, setKeyText] = useState('');
+  const [sources, setSources] = useState<ImportSource[]>([]);
+  const [dragging, setDragging] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const close = () => {
+    setKeyText('');
+    setSources([]);
+    setImporting(false);
+    onOpenChange(false);
+  };
+
+  const addFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    const parsed = await Promise.all(Array.from(files).map(async file =>
+      parseSource(file.name, await file.text(), guessHost(file.name))
+    ));
+    setSources(prev => [...prev, ...parsed]);
+  };
+
+  const parsePasted = async () => {
+    if (!keyText.trim()) return;
+    const parsed = await parseSource('Pasted keys', keyText);
+    setSources(prev => [...prev, parsed]);
+    if (!parsed.error) setKeyText('');
+  };
+
+  const setHost = (index: number, host: string) =>
+    setSources(prev => prev.map((source, i) => i === index ? { ...source, host } : source));
+
+  const imports: SshKeyImport[] = sources.flatMap(source => source.keys.map(key => ({
+    key,
+    servers: sshKeyServers(key, source.host.trim()),
+    source: describeSource(source),
+  })));
+
+  const handleImport = async () => {
+    setImporting(true);
+    await onImport(imports);
+    close();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => (next ? onOpenChange(true) : close())}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import SSH Keys</DialogTitle>
+          <DialogDescription>
+            Drop authorized_keys, known_hosts, .pub or -cert.pub files, or paste their contents. Fingerprints are computed from the keys themselves.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div
+          onDragOver={(e) => {
+            e.preventDefault();
+            setDragging(true);
+          }}
+          onDragLeave={() => setDragging(false)}
+          onDrop={(e) => {
+            e.preventDefault();
+            setDragging(false);
+            addFiles(e.dataTransfer.files);
+          }}
+          onClick={() => fileInput.current?.click()}
+          className={`flex flex-col items-center justify-center gap-2 rounded-lg border-2 border-dashed p-6 cursor-pointer transition-colors ${
+            dragging
+              ? 'border-blue-600 bg-blue-50 dark:bg-blue-950/30'
+              : 'border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-700/50'
+          }`}
+        >
+          <Upload className="h-6 w-6 text-slate-400" />
+          <p className="text-sm text-slate-500">Drop key files here or click to browse</p>
+          <input
+            ref={fileInput}
+            type="file"
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              addFiles(e.target.files);
+              e.target.value = '';
+            }}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Textarea
+            value={keyText}
+            onChange={(e) => setKeyText(e.target.value)}
+            placeholder="ssh-ed25519 AAAA... user@host"
+            className="font-mono text-xs max-h-40"
+          />
+          <Button variant="outline" size="sm" onClick={parsePasted} disabled={!keyText.trim()}>
+            <FileText className="h-4 w-4 mr-2" />
+            Parse pasted keys
+          </Button>
+        </div>
+
+        {sources.length > 0 && (
+          <div className="space-y-3 max-h-80 overflow-y-auto">
+            {sources.map((source, sourceIdx) => (
+              <div key={sourceIdx} className="space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-xs text-slate-500">{source.label}</p>
+                  {source.keys.some(key => key.hosts.length === 0 && key.hashedHosts === 0) && (
+                    <Input
+                      value={source.host}
+                      onChange={(e) => setHost(sourceIdx, e.target.value)}
+                      placeholder="Host this file came from"
+                      aria-label={`Host for ${source.label}`}
+                      className="h-8 w-64 font-mono text-xs"
+                    />
+                  )}
+                </div>
+                {source.error && (
+                  <div className="flex items-center gap-2 text-sm text-red-600">
+                    <AlertCircle className="h-4 w-4" />
+                    {source.error}
+                  </div>
+                )}
+                {source.lineErrors.map(lineError => (
+                  <div key={lineError.line} className="flex items-center gap-2 text-xs text-red-600">
+                    <AlertCircle className="h-3 w-3" />
+                    Line {lineError.line}: {lineError.message}
+                  </div>
+                ))}
+                {source.keys.map(key => {
+                  const servers = sshKeyServers(key, source.host.trim());
+                  return (
+                    <div
+                      key={key.line}
+                      className="rounded-lg border border-slate-200 dark:border-slate-700 p-3 text-sm"
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <p className="font-mono truncate">{key.comment || key.hosts[0] || `Line ${key.line}`}</p>
+                        <div className="flex gap-1 shrink-0">
+                          {key.marker === 'cert-authority' && <Badge className="bg-indigo-600">Host CA</Badge>}
+                          {key.options.some(option => option.name.toLowerCase() === 'cert-authority') && (
+                            <Badge className="bg-indigo-600">User CA</Badge>
+                          )}
+                          {key.certificate && (
+                            <Badge className="bg-blue-600">{key.certificate.type === 'user' ? 'User' : 'Host'} cert</Badge>
+                          )}
+                          {key.marker === 'revoked' && <Badge variant="destructive">Revoked</Badge>}
+                          {findExisting(key)
+                            ? <Badge variant="outline">Updates existing</Badge>
+                            : <Badge className="bg-green-600">New</Badge>}
+                        </div>
+                      </div>
+                      <p className="text-xs text-slate-500 mt-1 font-mono truncate">
+                        {key.algorithm} · {key.fingerprints.sha256}
+                      </p>
+                      <p className="text-xs text-slate-500 font-mono truncate">{key.fingerprints.md5}</p>
+                      {key.certificate && (
+                        <p className="text-xs text-slate-500 mt-1 truncate">
+                          {key.certificate.principals.length > 0
+                            ? `Principals: ${key.certificate.principals.join(', ')}`
+                            : `Any ${key.certificate.type}`}
+                          {' · '}
+                          {key.certificate.validBefore
+                            ? `valid until ${new Date(key.certificate.validBefore).toLocaleDateString()}`
+                            : 'never expires'}
+                        </p>
+                      )}
+                      {key.options.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-2">
+                          {key.options.map((option, idx) => (
+                            <Badge key={idx} variant="secondary" className="font-mono max-w-full truncate">
+                              {option.value === undefined ? option.name : `${option.name}=${option.value}`}
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
+                      <p className="text-xs text-slate-500 mt-1">
+                        {servers.length > 0 ? `Servers: ${servers.join(', ')}` : 'No servers'}
+                        {key.hashedHosts > 0 && ` (${key.hashedHosts} hashed host name${key.hashedHosts === 1 ? '' : 's'} skipped)`}
+                      </p>
+                    </div>
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={close}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={imports.length === 0 || importing}>
+            {importing ? 'Importing...' : `Import ${imports.length} key${imports.length === 1 ? '' : 's'}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
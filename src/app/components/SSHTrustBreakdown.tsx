@@ -0,0 +1,39 @@
+import { ShieldCheck } from 'lucide-react';
+import { Progress } from './ui/progress';
+import { TRUST_LABELS, TrustScore, TrustThresholds } from '../../lib/sshTrust';
+
+interface SSHTrustBreakdownProps {
+  trust: TrustScore;
+  thresholds: TrustThresholds;
+}
+
+export function SSHTrustBreakdown({ trust, thresholds }: SSHTrustBreakdownProps) {
+  return (
+    <div className="space-y-3 pt-2 border-t border-slate-200 dark:border-slate-700">
+      <p className="text-sm text-slate-500 flex items-center gap-2">
+        <ShieldCheck className="h-4 w-4" />
+        Trust score {trust.score}/100 · {TRUST_LABELS[trust.level]}
+        <span className="text-xs">
+          (high from {thresholds.high}, medium from {thresholds.medium})
+        </span>
+      </p>
+      {trust.overridden && (
+        <p className="text-xs text-orange-600">
+          Set to {TRUST_LABELS[trust.level]} by hand; the score alone gives {TRUST_LABELS[trust.scoredLevel]}
+        </p>
+      )}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-3">
+        {trust.factors.map(factor => (
+          <div key={factor.id}>
+            <div className="flex items-center justify-between text-xs">
+              <span className="text-slate-500">{factor.label}</span>
+              <span className="font-mono">{factor.points}/{factor.max}</span>
+            </div>
+            <Progress value={factor.points / factor.max * 100} className="h-1.5 mt-1" />
+            <p className="text-xs mt-1">{factor.detail}</p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
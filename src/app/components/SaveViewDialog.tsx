@@ -0,0 +1,115 @@
+import { useState, useEffect } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Switch } from './ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import type { SavedView } from '../../types/assets';
+
+export interface ViewDraft {
+  name: string;
+  visibility: SavedView['visibility'];
+  pinned: boolean;
+}
+
+interface SaveViewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  moduleLabel: string;
+  // Normalized query string being saved
+  query: string;
+  // Names of the user's existing views on this module, which get replaced
+  existingNames: string[];
+  onSave: (draft: ViewDraft) => Promise<void>;
+}
+
+export function SaveViewDialog({ open, onOpenChange, moduleLabel, query, existingNames, onSave }: SaveViewDialogProps) {
+  const [draft, setDraft] = useState<ViewDraft>({ name: '', visibility: 'private', pinned: true });
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) setDraft({ name: '', visibility: 'private', pinned: true });
+  }, [open]);
+
+  const name = draft.name.trim();
+  const replaces = existingNames.includes(name);
+
+  const handleSave = async () => {
+    setSaving(true);
+    await onSave({ ...draft, name });
+    setSaving(false);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Save View</DialogTitle>
+          <DialogDescription>Saves the current {moduleLabel} search, filters, sort and table columns under a name.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label htmlFor="view-name">Name</Label>
+            <Input
+              id="view-name"
+              value={draft.name}
+              placeholder="Expiring DigiCert certificates"
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && name && !saving) handleSave();
+              }}
+            />
+            {replaces && <p className="text-xs text-orange-600">Replaces your existing view with this name.</p>}
+          </div>
+          <div className="space-y-1">
+            <Label>Visibility</Label>
+            <Select
+              value={draft.visibility}
+              onValueChange={(value) => setDraft({ ...draft, visibility: value as SavedView['visibility'] })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="private">Private (only you)</SelectItem>
+                <SelectItem value="shared">Shared with the team</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="view-pinned">Pin in sidebar</Label>
+            <Switch
+              id="view-pinned"
+              checked={draft.pinned}
+              onCheckedChange={(pinned) => setDraft({ ...draft, pinned })}
+            />
+          </div>
+          <p className="text-xs text-slate-500 font-mono break-all">{query || 'No filters (default list)'}</p>
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={!name || saving}>
+            {saving ? 'Saving...' : 'Save view'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
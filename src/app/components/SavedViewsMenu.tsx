@@ -0,0 +1,168 @@
+import { useState } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { toast } from 'sonner';
+import { Bookmark, Check, Lock, Pin, Save, Settings2 } from 'lucide-react';
+import { Button } from './ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from './ui/dropdown-menu';
+import { SaveViewDialog, ViewDraft } from './SaveViewDialog';
+import { ManageViewsDialog } from './ManageViewsDialog';
+import { useAssetData } from '../../hooks/useAssetData';
+import { applyViewColumns, readColumnConfig } from '../../hooks/useColumnConfig';
+import { useDashboard } from '../../contexts/DashboardContext';
+import { CURRENT_USER } from '../../lib/currentUser';
+import { downloadFile } from '../../lib/download';
+import {
+  exportViews,
+  isViewActive,
+  parseViewImport,
+  viewPath,
+  viewQuery,
+  visibleViews,
+  VIEW_MODULES,
+  VIEW_TABLES,
+} from '../../lib/savedViews';
+import type { SavedView } from '../../types/assets';
+
+// Saved views for the current module page, shown next to its cache status
+export function SavedViewsMenu() {
+  const { pathname, search } = useLocation();
+  const navigate = useNavigate();
+  const { data, create, update, remove } = useAssetData('savedViews');
+  const { invalidateCache, pinnedViews, setViewPinned } = useDashboard();
+  const [saving, setSaving] = useState(false);
+  const [managing, setManaging] = useState(false);
+
+  const views = visibleViews(data, CURRENT_USER.email);
+  const moduleViews = views.filter(view => view.module === pathname);
+  const ownModuleViews = moduleViews.filter(view => view.owner === CURRENT_USER.email);
+  const query = viewQuery(search);
+
+  // Other lists of views, like the sidebar's, reload from the source
+  const changed = () => invalidateCache('savedViews');
+
+  const saveView = async ({ pinned, ...draft }: ViewDraft) => {
+    const existing = ownModuleViews.find(view => view.name === draft.name);
+    const tableId = VIEW_TABLES[pathname];
+    const columns = tableId ? readColumnConfig(tableId, query) : undefined;
+    const saved = existing
+      ? await update(existing.id, { ...draft, query, columns })
+      : await create({
+        ...draft,
+        module: pathname,
+        query,
+        columns,
+        owner: CURRENT_USER.email,
+        createdAt: new Date().toISOString(),
+      });
+    if (saved) {
+      setViewPinned(saved.id, pinned);
+      toast.success(`Saved view "${saved.name}"`);
+      changed();
+    }
+  };
+
+  const updateView = async (view: SavedView, patch: Partial<SavedView>) => {
+    if (await update(view.id, patch)) changed();
+  };
+
+  const deleteView = async (view: SavedView) => {
+    if (await remove(view.id)) {
+      setViewPinned(view.id, false);
+      toast.success(`Deleted view "${view.name}"`);
+      changed();
+    }
+  };
+
+  const exportAll = () => {
+    downloadFile(`saved-views-${new Date().toISOString().split('T')[0]}.json`, exportViews(views, pinnedViews), 'application/json');
+  };
+
+  const importFile = async (file: File) => {
+    let imported;
+    try {
+      imported = parseViewImport(await file.text(), CURRENT_USER.email);
+    } catch (err) {
+      toast.error('Could not import views', { description: err instanceof Error ? err.message : undefined });
+      return;
+    }
+    let created = 0;
+    for (const { view, pinned } of imported) {
+      const saved = await create(view);
+      if (!saved) continue;
+      created++;
+      if (pinned) setViewPinned(saved.id, true);
+    }
+    toast.success(`Imported ${created} of ${imported.length} view${imported.length === 1 ? '' : 's'}`);
+    if (created > 0) changed();
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm">
+            <Bookmark className="h-4 w-4 mr-2" />
+            Views
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-64">
+          <DropdownMenuLabel>Saved views</DropdownMenuLabel>
+          {moduleViews.length === 0 ? (
+            <p className="px-2 py-1.5 text-sm text-slate-500">None for this page yet.</p>
+          ) : (
+            moduleViews.map(view => (
+              <DropdownMenuItem key={view.id} onClick={() => {
+                applyViewColumns(view);
+                navigate(viewPath(view));
+              }}>
+                {isViewActive(view, pathname, search)
+                  ? <Check className="h-4 w-4" />
+                  : <span className="w-4" />}
+                <span className="flex-1 truncate">{view.name}</span>
+                {view.visibility === 'private' && <Lock className="h-3 w-3 text-slate-400" />}
+                {pinnedViews.includes(view.id) && <Pin className="h-3 w-3 text-slate-400" />}
+              </DropdownMenuItem>
+            ))
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => setSaving(true)}>
+            <Save className="h-4 w-4" />
+            Save current view...
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => setManaging(true)}>
+            <Settings2 className="h-4 w-4" />
+            Manage views...
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <SaveViewDialog
+        open={saving}
+        onOpenChange={setSaving}
+        moduleLabel={VIEW_MODULES[pathname] ?? 'page'}
+        query={query}
+        existingNames={ownModuleViews.map(view => view.name)}
+        onSave={saveView}
+      />
+      <ManageViewsDialog
+        open={managing}
+        onOpenChange={setManaging}
+        views={views}
+        owner={CURRENT_USER.email}
+        pinned={pinnedViews}
+        onPinnedChange={(view, pinned) => setViewPinned(view.id, pinned)}
+        onUpdate={updateView}
+        onDelete={deleteView}
+        onExport={exportAll}
+        onImport={importFile}
+      />
+    </>
+  );
+}
@@ -0,0 +1,239 @@
+import { useState, useEffect } from 'react';
+import { toast } from 'sonner';
+import { useDashboard } from '../../contexts/DashboardContext';
+import { validateThresholds, DEFAULT_EXPIRY_THRESHOLDS } from '../../lib/certStatus';
+import { DEFAULT_ACME_DIRECTORY_URL } from '../../lib/acme';
+import { DEFAULT_REVOCATION_RESPONDERS, validateRevocationResponders } from '../../lib/revocation';
+import { DEFAULT_TRUST_THRESHOLDS, TrustThresholds, validateTrustThresholds } from '../../lib/sshTrust';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+
+const TRUST_FIELDS: { key: keyof TrustThresholds; label: string }[] = [
+  { key: 'high', label: 'High trust from score' },
+  { key: 'medium', label: 'Medium trust from score' },
+  { key: 'staleAfterDays', label: 'Stale after (days unused)' },
+  { key: 'maxServers', label: 'Wide access above (servers)' },
+  { key: 'loginWindowDays', label: 'Recent logins within (days)' },
+];
+
+type TrustDraft = Record<keyof TrustThresholds, string>;
+
+const toTrustDraft = (thresholds: TrustThresholds) =>
+  Object.fromEntries(TRUST_FIELDS.map(({ key }) => [key, String(thresholds[key])])) as TrustDraft;
+
+interface SettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function SettingsDialog({ open, onOpenChange }: SettingsDialogProps) {
+  const {
+    expiryThresholds,
+    setExpiryThresholds,
+    acmeDirectoryUrl,
+    setAcmeDirectoryUrl,
+    revocationResponders,
+    setRevocationResponders,
+    trustThresholds,
+    setTrustThresholds,
+  } = useDashboard();
+  const [critical, setCritical] = useState(String(expiryThresholds.critical));
+  const [warning, setWarning] = useState(String(expiryThresholds.warning));
+  const [directoryUrl, setDirectoryUrl] = useState(acmeDirectoryUrl);
+  const [revocationIssuer, setRevocationIssuer] = useState(revocationResponders.issuer);
+  const [ocspUrl, setOcspUrl] = useState(revocationResponders.ocspUrl);
+  const [crlUrl, setCrlUrl] = useState(revocationResponders.crlUrl);
+  const [trust, setTrust] = useState(() => toTrustDraft(trustThresholds));
+  const [error, setError] = useState<string | null>(null);
+
+  // Start from the saved values every time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setCritical(String(expiryThresholds.critical));
+      setWarning(String(expiryThresholds.warning));
+      setDirectoryUrl(acmeDirectoryUrl);
+      setRevocationIssuer(revocationResponders.issuer);
+      setOcspUrl(revocationResponders.ocspUrl);
+      setCrlUrl(revocationResponders.crlUrl);
+      setTrust(toTrustDraft(trustThresholds));
+      setError(null);
+    }
+  }, [open, expiryThresholds, acmeDirectoryUrl, revocationResponders, trustThresholds]);
+
+  const handleSave = () => {
+    const next = { critical: Number(critical), warning: Number(warning) };
+    const problem = validateThresholds(next);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    if (!directoryUrl.trim()) {
+      setError('ACME directory URL is required');
+      return;
+    }
+    const nextResponders = { issuer: revocationIssuer.trim(), ocspUrl: ocspUrl.trim(), crlUrl: crlUrl.trim() };
+    const respondersProblem = validateRevocationResponders(nextResponders);
+    if (respondersProblem) {
+      setError(respondersProblem);
+      return;
+    }
+    const nextTrust: TrustThresholds = {
+      high: Number(trust.high),
+      medium: Number(trust.medium),
+      staleAfterDays: Number(trust.staleAfterDays),
+      maxServers: Number(trust.maxServers),
+      loginWindowDays: Number(trust.loginWindowDays),
+    };
+    const trustProblem = validateTrustThresholds(nextTrust);
+    if (trustProblem) {
+      setError(trustProblem);
+      return;
+    }
+    setExpiryThresholds(next);
+    setAcmeDirectoryUrl(directoryUrl.trim());
+    setRevocationResponders(nextResponders);
+    setTrustThresholds(nextTrust);
+    toast.success('Settings saved');
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Settings</DialogTitle>
+          <DialogDescription>Preferences are saved in this browser.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <p className="text-sm mb-1">Certificate expiry thresholds</p>
+            <p className="text-xs text-slate-500 mb-3">
+              Status badges, stats, filters and exports all use these values.
+            </p>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="threshold-critical">Critical (days or fewer)</Label>
+                <Input
+                  id="threshold-critical"
+                  type="number"
+                  min={0}
+                  value={critical}
+                  onChange={(e) => setCritical(e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="threshold-warning">Warning (days or fewer)</Label>
+                <Input
+                  id="threshold-warning"
+                  type="number"
+                  min={1}
+                  value={warning}
+                  onChange={(e) => setWarning(e.target.value)}
+                />
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="acme-directory">ACME directory URL</Label>
+            <Input
+              id="acme-directory"
+              value={directoryUrl}
+              onChange={(e) => setDirectoryUrl(e.target.value)}
+              placeholder={DEFAULT_ACME_DIRECTORY_URL}
+            />
+            <p className="text-xs text-slate-500">Used by the Renew action on certificates.</p>
+          </div>
+
+          <div>
+            <p className="text-sm mb-1">Revocation responders</p>
+            <p className="text-xs text-slate-500 mb-3">
+              Check one CA's certificates against these instead of the OCSP and CRL URLs they embed.
+              Other certificates, and blank fields, use the certificate's own.
+            </p>
+            <div className="space-y-3">
+              <div className="space-y-1">
+                <Label htmlFor="revocation-issuer">Issuing CA</Label>
+                <Input
+                  id="revocation-issuer"
+                  value={revocationIssuer}
+                  onChange={(e) => setRevocationIssuer(e.target.value)}
+                  placeholder="Issuer as listed on the certificates"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="ocsp-url">OCSP responder URL</Label>
+                <Input
+                  id="ocsp-url"
+                  value={ocspUrl}
+                  onChange={(e) => setOcspUrl(e.target.value)}
+                  placeholder="From certificate"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="crl-url">CRL URL</Label>
+                <Input
+                  id="crl-url"
+                  value={crlUrl}
+                  onChange={(e) => setCrlUrl(e.target.value)}
+                  placeholder="From certificate"
+                />
+              </div>
+            </div>
+          </div>
+
+          <div>
+            <p className="text-sm mb-1">SSH key trust scoring</p>
+            <p className="text-xs text-slate-500 mb-3">
+              Keys score 0-100 from algorithm, age, recent use, server access, owner and audited logins.
+            </p>
+            <div className="grid grid-cols-2 gap-4">
+              {TRUST_FIELDS.map(({ key, label }) => (
+                <div key={key} className="space-y-1">
+                  <Label htmlFor={`trust-${key}`}>{label}</Label>
+                  <Input
+                    id={`trust-${key}`}
+                    type="number"
+                    min={1}
+                    value={trust[key]}
+                    onChange={(e) => setTrust({ ...trust, [key]: e.target.value })}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="ghost"
+            onClick={() => {
+              setCritical(String(DEFAULT_EXPIRY_THRESHOLDS.critical));
+              setWarning(String(DEFAULT_EXPIRY_THRESHOLDS.warning));
+              setDirectoryUrl(DEFAULT_ACME_DIRECTORY_URL);
+              setRevocationIssuer(DEFAULT_REVOCATION_RESPONDERS.issuer);
+              setOcspUrl(DEFAULT_REVOCATION_RESPONDERS.ocspUrl);
+              setCrlUrl(DEFAULT_REVOCATION_RESPONDERS.crlUrl);
+              setTrust(toTrustDraft(DEFAULT_TRUST_THRESHOLDS));
+            }}
+          >
+            Reset to defaults
+          </Button>
+          <Button onClick={handleSave}>Save</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,13 @@
+import { Badge } from './ui/badge';
+import { SEVERITY_LABELS, Severity } from '../../lib/policy';
+
+const SEVERITY_CLASSES: Record<Severity, string> = {
+  critical: 'bg-red-600',
+  high: 'bg-orange-500',
+  medium: 'bg-yellow-500',
+  low: 'bg-slate-500',
+};
+
+export function SeverityBadge({ severity }: { severity: Severity }) {
+  return <Badge className={SEVERITY_CLASSES[severity]}>{SEVERITY_LABELS[severity]}</Badge>;
+}
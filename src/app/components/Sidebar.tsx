@@ -1,13 +1,29 @@
-import { NavLink } from 'react-router-dom';
-import { Shield, Key, FileKey, ScrollText } from 'lucide-react';
+import { Fragment } from 'react';
+import { Link, NavLink, useLocation } from 'react-router-dom';
+import { LayoutDashboard, Shield, Network, Key, Server, FileKey, ScrollText, ClipboardCheck, Lock } from 'lucide-react';
+import { useAssetData } from '../../hooks/useAssetData';
+import { applyViewColumns } from '../../hooks/useColumnConfig';
+import { useDashboard } from '../../contexts/DashboardContext';
+import { CURRENT_USER } from '../../lib/currentUser';
+import { isViewActive, viewPath, visibleViews } from '../../lib/savedViews';
+
+// Also offered as "go to" actions in the command palette
+export const NAV_ITEMS = [
+  { path: '/', icon: LayoutDashboard, label: 'Overview' },
+  { path: '/certificates', icon: Shield, label: 'Certificates' },
+  { path: '/issuers', icon: Network, label: 'Issuer Hierarchy' },
+  { path: '/ssh-keys', icon: Key, label: 'SSH Keys' },
+  { path: '/servers', icon: Server, label: 'Servers' },
+  { path: '/code-signing', icon: FileKey, label: 'Code Signing' },
+  { path: '/policies', icon: ClipboardCheck, label: 'Policies' },
+  { path: '/audit-logs', icon: ScrollText, label: 'Audit Logs' },
+];
 
 export function Sidebar() {
-  const navItems = [
-    { path: '/certificates', icon: Shield, label: 'Certificates' },
-    { path: '/ssh-keys', icon: Key, label: 'SSH Keys' },
-    { path: '/code-signing', icon: FileKey, label: 'Code Signing' },
-    { path: '/audit-logs', icon: ScrollText, label: 'Audit Logs' },
-  ];
+  const { pathname, search } = useLocation();
+  const { data: savedViews } = useAssetData('savedViews');
+  const { pinnedViews: pinnedIds } = useDashboard();
+  const pinnedViews = visibleViews(savedViews, CURRENT_USER.email).filter(view => pinnedIds.includes(view.id));
 
   return (
     <div className="w-64 bg-white dark:bg-slate-950 text-slate-900 dark:text-white min-h-screen flex flex-col border-r border-slate-200 dark:border-slate-800">
@@ -27,23 +43,41 @@ export function Sidebar() {
         <div className="mb-4">
           <p className="text-xs text-slate-500 dark:text-slate-500 uppercase tracking-wider mb-2 px-3">Modules</p>
           <div className="space-y-1">
-            {navItems.map((item) => {
+            {NAV_ITEMS.map((item) => {
               const Icon = item.icon;
+              const views = pinnedViews.filter(view => view.module === item.path);
               return (
-                <NavLink
-                  key={item.path}
-                  to={item.path}
-                  className={({ isActive }) =>
-                    `flex items-center gap-3 px-3 py-2 rounded-lg transition-colors ${
-                      isActive
-                        ? 'bg-blue-600 text-white'
-                        : 'text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 hover:text-slate-900 dark:hover:text-white'
-                    }`
-                  }
-                >
-                  <Icon className="w-5 h-5" />
-                  <span>{item.label}</span>
-                </NavLink>
+                <Fragment key={item.path}>
+                  <NavLink
+                    to={item.path}
+                    end={item.path === '/'}
+                    className={({ isActive }) =>
+                      `flex items-center gap-3 px-3 py-2 rounded-lg transition-colors ${
+                        isActive
+                          ? 'bg-blue-600 text-white'
+                          : 'text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 hover:text-slate-900 dark:hover:text-white'
+                      }`
+                    }
+                  >
+                    <Icon className="w-5 h-5" />
+                    <span>{item.label}</span>
+                  </NavLink>
+                  {views.map(view => (
+                    <Link
+                      key={view.id}
+                      to={viewPath(view)}
+                      onClick={() => applyViewColumns(view)}
+                      className={`flex items-center gap-2 ml-8 px-3 py-1 rounded-lg text-sm transition-colors ${
+                        isViewActive(view, pathname, search)
+                          ? 'bg-blue-50 text-blue-700 dark:bg-blue-950 dark:text-blue-300'
+                          : 'text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800 hover:text-slate-900 dark:hover:text-white'
+                      }`}
+                    >
+                      <span className="truncate">{view.name}</span>
+                      {view.visibility === 'private' && <Lock className="w-3 h-3 shrink-0" />}
+                    </Link>
+                  ))}
+                </Fragment>
               );
             })}
           </div>
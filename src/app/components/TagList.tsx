@@ -0,0 +1,10 @@
+import { Badge } from './ui/badge';
+
+export function TagList({ tags }: { tags?: string[] }) {
+  if (!tags || tags.length === 0) return <span className="text-slate-400">—</span>;
+  return (
+    <div className="flex flex-wrap gap-1">
+      {tags.map(tag => <Badge key={tag} variant="secondary">{tag}</Badge>)}
+    </div>
+  );
+}
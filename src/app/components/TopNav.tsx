@@ -1,5 +1,10 @@
-import { Moon, Sun, User, ChevronDown } from 'lucide-react';
+import { useState } from 'react';
+import { Moon, Sun, User, ChevronDown, Search } from 'lucide-react';
+import { toast } from 'sonner';
 import { useDashboard } from '../../contexts/DashboardContext';
+import { clearCache } from '../../lib/cache';
+import { ASSET_COLLECTIONS } from '../../types/assets';
+import { CURRENT_USER } from '../../lib/currentUser';
 import { Button } from './ui/button';
 import {
   DropdownMenu,
@@ -10,17 +15,40 @@ import {
   DropdownMenuTrigger,
 } from './ui/dropdown-menu';
 import { Avatar, AvatarFallback } from './ui/avatar';
+import { SettingsDialog } from './SettingsDialog';
+import { CommandPalette } from './CommandPalette';
+import { WatchlistActivity } from './WatchlistActivity';
+
+const SHORTCUT_LABEL = /Mac|iPhone|iPad/.test(navigator.userAgent) ? '⌘K' : 'Ctrl K';
 
 export function TopNav() {
-  const { darkMode, toggleDarkMode } = useDashboard();
+  const { darkMode, toggleDarkMode, invalidateCache } = useDashboard();
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const [paletteOpen, setPaletteOpen] = useState(false);
+
+  const handleClearCache = () => {
+    clearCache();
+    invalidateCache(ASSET_COLLECTIONS);
+    toast.success('Cached data cleared');
+  };
 
   return (
     <div className="h-16 bg-white dark:bg-slate-900 border-b border-slate-200 dark:border-slate-800 flex items-center justify-between px-6">
       <div className="flex items-center gap-4">
         <h2 className="text-xl">Dashboard</h2>
+        <Button
+          variant="outline"
+          className="hidden md:flex w-72 justify-start text-slate-500"
+          onClick={() => setPaletteOpen(true)}
+        >
+          <Search className="h-4 w-4 mr-2" />
+          Search assets...
+          <kbd className="ml-auto rounded border border-slate-200 dark:border-slate-700 px-1.5 text-xs">{SHORTCUT_LABEL}</kbd>
+        </Button>
       </div>
 
       <div className="flex items-center gap-4">
+        <WatchlistActivity />
         <Button
           variant="ghost"
           size="icon"
@@ -34,11 +62,11 @@ export function TopNav() {
           <DropdownMenuTrigger asChild>
             <Button variant="ghost" className="flex items-center gap-2">
               <Avatar className="h-8 w-8">
-                <AvatarFallback className="bg-blue-600 text-white">KV</AvatarFallback>
+                <AvatarFallback className="bg-blue-600 text-white">{CURRENT_USER.initials}</AvatarFallback>
               </Avatar>
               <div className="text-left hidden sm:block">
-                <p className="text-sm">Kunal Verma</p>
-                <p className="text-xs text-slate-500">Network Admin</p>
+                <p className="text-sm">{CURRENT_USER.name}</p>
+                <p className="text-xs text-slate-500">{CURRENT_USER.role}</p>
               </div>
               <ChevronDown className="h-4 w-4 text-slate-500" />
             </Button>
@@ -47,12 +75,15 @@ export function TopNav() {
             <DropdownMenuLabel>My Account</DropdownMenuLabel>
             <DropdownMenuSeparator />
             <DropdownMenuItem>Profile</DropdownMenuItem>
-            <DropdownMenuItem>Settings</DropdownMenuItem>
+            <DropdownMenuItem onClick={() => setSettingsOpen(true)}>Settings</DropdownMenuItem>
+            <DropdownMenuItem onClick={handleClearCache}>Clear cached data</DropdownMenuItem>
             <DropdownMenuSeparator />
             <DropdownMenuItem>Sign out</DropdownMenuItem>
           </DropdownMenuContent>
         </DropdownMenu>
       </div>
+      <SettingsDialog open={settingsOpen} onOpenChange={setSettingsOpen} />
+      <CommandPalette open={paletteOpen} onOpenChange={setPaletteOpen} />
     </div>
   );
 }
\ No newline at end of file
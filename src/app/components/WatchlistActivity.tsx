@@ -0,0 +1,165 @@
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Bell } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAssetData } from '../../hooks/useAssetData';
+import { usePersistentState } from '../../hooks/usePersistentState';
+import { useDashboard } from '../../contexts/DashboardContext';
+import { CACHE_TTL_MS } from '../../lib/cache';
+import { parseAuditTimestamp, sshKeyMatcher } from '../../lib/audit';
+import { CURRENT_USER } from '../../lib/currentUser';
+import type { AuditLog, SSHKey } from '../../types/assets';
+import { Button } from './ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
+
+// When the user last opened the list; later events count as unread
+const SEEN_KEY = `watchlistSeen:${CURRENT_USER.email}`;
+const MAX_EVENTS = 20;
+// More new events than this at once are summarised in one toast
+const MAX_TOASTS = 3;
+
+const isTimestamp = (saved: unknown) => typeof saved === 'number' && saved > 0 ? saved : null;
+
+interface WatchedEvent {
+  log: AuditLog;
+  key: SSHKey;
+}
+
+function describeEvent({ log }: WatchedEvent) {
+  if (log.actionType === 'SSH_LOGIN') {
+    const { target_server, source_ip } = log.metadata;
+    return `Login${target_server ? ` to ${target_server}` : ''} from ${source_ip}`;
+  }
+  return `${log.actionType.replace(/_/g, ' ').toLowerCase()} by ${log.actor}`;
+}
+
+interface WatchlistPopoverProps {
+  watchedCount: number;
+  events: WatchedEvent[];
+  seenAt: number;
+  onOpenEvent: (event: WatchedEvent) => void;
+  onSeen: () => void;
+}
+
+function WatchlistPopover({ watchedCount, events, seenAt, onOpenEvent, onSeen }: WatchlistPopoverProps) {
+  const unread = events.filter(({ log }) => parseAuditTimestamp(log.timestamp) > seenAt).length;
+
+  return (
+    <Popover onOpenChange={next => !next && onSeen()}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="rounded-full relative" aria-label="Watched key activity">
+          <Bell className="h-5 w-5" />
+          {unread > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-red-600 text-white text-[10px] leading-4">
+              {unread > 9 ? '9+' : unread}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="px-4 py-3 border-b border-slate-200 dark:border-slate-700">
+          <p className="text-sm">Watched SSH keys</p>
+          <p className="text-xs text-slate-500">
+            {watchedCount === 0
+              ? 'Bookmark keys on the SSH Keys page to follow their logins and changes'
+              : `${watchedCount} watched key${watchedCount === 1 ? '' : 's'}`}
+          </p>
+        </div>
+        <div className="max-h-96 overflow-y-auto">
+          {watchedCount > 0 && events.length === 0 && (
+            <p className="px-4 py-6 text-sm text-slate-500 text-center">No activity recorded yet.</p>
+          )}
+          {events.slice(0, MAX_EVENTS).map(event => (
+            <button
+              key={event.log.id}
+              type="button"
+              onClick={() => onOpenEvent(event)}
+              className="w-full text-left px-4 py-2 border-b border-slate-200 dark:border-slate-700 last:border-0 hover:bg-slate-50 dark:hover:bg-slate-800"
+            >
+              <div className="flex items-center gap-2">
+                {parseAuditTimestamp(event.log.timestamp) > seenAt && (
+                  <span className="h-2 w-2 rounded-full bg-blue-600 shrink-0" aria-label="Unread" />
+                )}
+                <span className="text-sm truncate">{event.key.keyOwner}</span>
+              </div>
+              <p className="text-xs text-slate-500 truncate">{describeEvent(event)}</p>
+              <p className="text-xs text-slate-400">{event.log.timestamp}</p>
+            </button>
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+// Mounted only while keys are watched, so the collections load only then
+function WatchlistFeed({ watchedSshKeys, seenAt, onSeen }: { watchedSshKeys: string[]; seenAt: number; onSeen: () => void }) {
+  const navigate = useNavigate();
+  const { data: keys } = useAssetData('sshKeys');
+  // Polled so entries made elsewhere arrive without a manual refresh
+  const { data: logs, loading } = useAssetData('auditLogs', { pollMs: CACHE_TTL_MS.auditLogs });
+  // Audit entry ids already loaded, so only entries arriving later are announced
+  const known = useRef<Set<string> | null>(null);
+
+  const events = useMemo(() => {
+    const watched = keys.filter(key => watchedSshKeys.includes(key.id));
+    if (watched.length === 0) return [];
+    const keyOf = sshKeyMatcher(watched);
+    return logs
+      .flatMap(log => {
+        const key = keyOf(log);
+        return key ? [{ log, key }] : [];
+      })
+      .sort((a, b) => parseAuditTimestamp(b.log.timestamp) - parseAuditTimestamp(a.log.timestamp));
+  }, [keys, logs, watchedSshKeys]);
+
+  const openEvent = useCallback(
+    (event: WatchedEvent) => navigate(`/ssh-keys?open=${encodeURIComponent(event.key.id)}`),
+    [navigate]
+  );
+
+  useEffect(() => {
+    if (loading && logs.length === 0) return;
+    if (!known.current) {
+      known.current = new Set(logs.map(log => log.id));
+      return;
+    }
+    const seen = known.current;
+    const fresh = events.filter(({ log }) => !seen.has(log.id) && log.email !== CURRENT_USER.email);
+    logs.forEach(log => seen.add(log.id));
+    if (fresh.length > MAX_TOASTS) {
+      toast.info(`${fresh.length} new events on watched SSH keys`);
+      return;
+    }
+    fresh.forEach(event => toast.info(`Watched key ${event.key.keyOwner}`, {
+      description: describeEvent(event),
+      action: { label: 'View', onClick: () => openEvent(event) },
+    }));
+  }, [logs, events, loading, openEvent]);
+
+  return (
+    <WatchlistPopover
+      watchedCount={watchedSshKeys.length}
+      events={events}
+      seenAt={seenAt}
+      onOpenEvent={openEvent}
+      onSeen={onSeen}
+    />
+  );
+}
+
+/**
+ * Audit activity on the SSH keys the user watches: logins with them and
+ * changes to them. New entries that someone else caused also show a toast.
+ */
+export function WatchlistActivity() {
+  const { watchedSshKeys } = useDashboard();
+  const [seenAt, setSeenAt] = usePersistentState(SEEN_KEY, 0, isTimestamp);
+
+  const markSeen = () => setSeenAt(Date.now());
+
+  if (watchedSshKeys.length === 0) {
+    return <WatchlistPopover watchedCount={0} events={[]} seenAt={seenAt} onOpenEvent={() => {}} onSeen={markSeen} />;
+  }
+  return <WatchlistFeed watchedSshKeys={watchedSshKeys} seenAt={seenAt} onSeen={markSeen} />;
+}
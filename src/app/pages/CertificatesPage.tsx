@@ -1,12 +1,43 @@
-import { useState, useEffect, useMemo } from 'react';
+import { useState, useMemo, useCallback } from 'react';
 import { motion } from 'motion/react';
-import { Eye, Edit, Search, ChevronDown } from 'lucide-react';
+import { toast } from 'sonner';
+import { Eye, Edit, Search, ChevronDown, Upload, Download, RefreshCw, ShieldCheck, FilePlus2 } from 'lucide-react';
+import { useAssetData } from '../../hooks/useAssetData';
+import { useQueryState, useTableQueryState } from '../../hooks/useQueryState';
+import { useListQuery } from '../../hooks/useListQuery';
+import { useRowSelection } from '../../hooks/useRowSelection';
+import { buildAuditEntry, diffFields } from '../../lib/audit';
+import { ParsedCertificate, toCertificateRecord, uniqueCertificates } from '../../lib/x509';
+import { buildChain } from '../../lib/certChain';
+import {
+  getCertificateHealth,
+  daysUntilExpiry,
+  countByHealth,
+  HEALTH_LABELS,
+  HEALTH_ORDER,
+} from '../../lib/certStatus';
+import { downloadCsv } from '../../lib/csv';
+import { createRevocationChecker } from '../../lib/revocation';
 import { useDashboard } from '../../contexts/DashboardContext';
+import type { Certificate, CertificateRequest, NewRecord, RevocationState } from '../../types/assets';
 import { TableSkeleton } from '../components/LoadingSkeleton';
 import { ErrorDisplay } from '../components/ErrorDisplay';
+import { CacheStatus } from '../components/CacheStatus';
+import { SavedViewsMenu } from '../components/SavedViewsMenu';
+import { DataQualityPanel } from '../components/DataQualityPanel';
+import { ChangeHistory } from '../components/ChangeHistory';
+import { CertificateImportDialog } from '../components/CertificateImportDialog';
+import { CertificateChainView } from '../components/CertificateChainView';
+import { CertificateStatusBadge } from '../components/CertificateStatusBadge';
+import { CertificateExpiryTimeline } from '../components/CertificateExpiryTimeline';
+import { CertificateRenewDialog, RenewalDetails } from '../components/CertificateRenewDialog';
+import { CertificateRevocationBadge, describeRevocation } from '../components/CertificateRevocationBadge';
+import { CertificateRequestDialog } from '../components/CertificateRequestDialog';
+import { CertificateRequestList } from '../components/CertificateRequestList';
 import { Button } from '../components/ui/button';
 import { Input } from '../components/ui/input';
 import { Badge } from '../components/ui/badge';
+import { Progress } from '../components/ui/progress';
 import {
   Select,
   SelectContent,
@@ -21,6 +52,12 @@ import {
   DialogHeader,
   DialogTitle,
 } from '../components/ui/dialog';
+import {
+  Tabs,
+  TabsContent,
+  TabsList,
+  TabsTrigger,
+} from '../components/ui/tabs';
 import {
   Sheet,
   SheetContent,
@@ -28,151 +65,409 @@ import {
   SheetHeader,
   SheetTitle,
 } from '../components/ui/sheet';
-import {
-  Table,
-  TableBody,
-  TableCell,
-  TableHead,
-  TableHeader,
-  TableRow,
-} from '../components/ui/table';
-import certificatesData from '../../data/certificates.json';
-
-interface Certificate {
-  id: string;
-  name: string;
-  domain: string;
-  issuer: string;
-  status: 'active' | 'expired' | 'expiring_soon';
-  expiryDate: string;
-  commonName: string;
-  serialNumber: string;
-  algorithm: string;
-  createdAt: string;
-}
+import { AssetTable, AssetColumn } from '../components/AssetTable';
+import { BulkActionBar } from '../components/BulkActionBar';
+import { TagList } from '../components/TagList';
 
-const ITEMS_PER_PAGE = 10;
+// Revocation lookups in flight at once during a bulk check
+const REVOCATION_CONCURRENCY = 4;
+
+// Fields the edit drawer can change; everything else comes from the certificate itself
+const EDITABLE_FIELDS: (keyof Certificate)[] = ['name'];
 
 export function CertificatesPage() {
-  const { cachedData, setCachedData } = useDashboard();
-  const [certificates, setCertificates] = useState<Certificate[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState(false);
-  const [filterDomain, setFilterDomain] = useState('all');
-  const [sortBy, setSortBy] = useState('expiryDate');
-  const [currentPage, setCurrentPage] = useState(1);
-  const [selectedCert, setSelectedCert] = useState<Certificate | null>(null);
+  const { data: certificates, create: createCertificate, update: updateCertificate, updateMany: updateCertificates, recordAuditEntries, loading, refreshing, error, lastUpdated, quarantined, refresh } = useAssetData('certificates');
+  const { expiryThresholds, revocationResponders } = useDashboard();
+  const [filterDomain, setFilterDomain] = useQueryState('domain', 'all', { resets: ['page'] });
+  const [filterStatus, setFilterStatus] = useQueryState('status', 'all', { resets: ['page'] });
+  const table = useTableQueryState('expiryDate', 10);
+  const [searchTerm, setSearchTerm] = useQueryState('q', '', { replace: true, resets: ['page'] });
+  const [activeTab, setActiveTab] = useQueryState('tab', 'table');
+  // The certificate open in the details dialog; ?open=<id> links straight to it
+  const [openId, setOpenId] = useQueryState('open', '');
   const [editingCert, setEditingCert] = useState<Certificate | null>(null);
-  const [searchTerm, setSearchTerm] = useState('');
-
-  useEffect(() => {
-    loadData();
-  }, []);
-
-  const loadData = async () => {
-    try {
-      // Load from cache immediately
-      const cached = localStorage.getItem('cache_certificates');
-      if (cached) {
-        const { data } = JSON.parse(cached);
-        setCertificates(data);
-        setLoading(false);
-      }
+  const [saving, setSaving] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
+  const [renewingCert, setRenewingCert] = useState<Certificate | null>(null);
+  const [requestOpen, setRequestOpen] = useState(false);
+  const [revocationProgress, setRevocationProgress] = useState<{ done: number; total: number } | null>(null);
+  const { data: auditLogs } = useAssetData('auditLogs');
+  const { data: requests, create: createRequest, update: updateRequest } = useAssetData('certificateRequests');
 
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 800));
-      
-      setCertificates(certificatesData);
-      setCachedData('certificates', certificatesData);
-      setLoading(false);
-      setError(false);
-    } catch (err) {
-      setError(true);
-      setLoading(false);
-    }
-  };
+  const selectedCert = useMemo(() => certificates.find(c => c.id === openId) ?? null, [certificates, openId]);
+  const setSelectedCert = useCallback((cert: Certificate | null) => setOpenId(cert?.id ?? ''), [setOpenId]);
+
+  const owners = useMemo(
+    () => [...new Set(certificates.flatMap(c => c.owner ? [c.owner] : []))].sort(),
+    [certificates]
+  );
 
   const domains = useMemo(() => {
     const uniqueDomains = [...new Set(certificates.map(c => c.domain))];
     return uniqueDomains;
   }, [certificates]);
 
-  const filteredAndSorted = useMemo(() => {
-    let result = [...certificates];
+  const { rows: filtered, pending: filtering } = useListQuery('certificates', certificates, {
+    domain: filterDomain,
+    status: filterStatus,
+    search: searchTerm,
+    thresholds: expiryThresholds,
+    sort: table.sort,
+  });
+  const selection = useRowSelection(filtered, cert => cert.id);
+
+  const columns = useMemo<AssetColumn<Certificate>[]>(() => [
+    { id: 'name', header: 'Certificate Name', cell: cert => cert.name, sortable: true },
+    {
+      id: 'domain',
+      header: 'Domain',
+      cell: cert => cert.domain,
+      sortable: true,
+      className: 'font-mono text-sm',
+    },
+    { id: 'issuer', header: 'Issuer', cell: cert => cert.issuer, sortable: true },
+    {
+      id: 'status',
+      header: 'Status',
+      cell: cert => <CertificateStatusBadge expiryDate={cert.expiryDate} />,
+      sortable: true,
+    },
+    {
+      id: 'revocation',
+      header: 'Revocation',
+      cell: cert => <CertificateRevocationBadge revocation={cert.revocation} />,
+      sortable: true,
+    },
+    {
+      id: 'expiryDate',
+      header: 'Expiry Date',
+      cell: cert => new Date(cert.expiryDate).toLocaleDateString(),
+      sortable: true,
+    },
+    { id: 'algorithm', header: 'Algorithm', cell: cert => cert.algorithm, sortable: true, defaultHidden: true },
+    {
+      id: 'serialNumber',
+      header: 'Serial Number',
+      cell: cert => cert.serialNumber,
+      sortable: true,
+      className: 'font-mono text-xs',
+      defaultHidden: true,
+    },
+    { id: 'owner', header: 'Owner', cell: cert => cert.owner ?? '—', defaultHidden: true },
+    { id: 'tags', header: 'Tags', cell: cert => <TagList tags={cert.tags} />, defaultHidden: true },
+    {
+      id: 'actions',
+      header: 'Actions',
+      fixed: true,
+      cell: cert => (
+        <div className="flex gap-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setSelectedCert(cert)}
+          >
+            <Eye className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setEditingCert(cert)}
+          >
+            <Edit className="h-4 w-4" />
+          </Button>
+          {!cert.isCA && (
+            <Button
+              variant="ghost"
+              size="sm"
+              title="Renew"
+              onClick={() => setRenewingCert(cert)}
+            >
+              <RefreshCw className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      ),
+    },
+  ], [setSelectedCert]);
+
+  const saveCertificate = async (draft: Certificate) => {
+    const original = certificates.find(c => c.id === draft.id);
+    if (!original) return;
 
-    // Filter by domain
-    if (filterDomain !== 'all') {
-      result = result.filter(c => c.domain === filterDomain);
+    const patch: Partial<Certificate> = {};
+    EDITABLE_FIELDS.forEach(field => {
+      if (draft[field] !== original[field]) {
+        Object.assign(patch, { [field]: draft[field] });
+      }
+    });
+    if (Object.keys(patch).length === 0) {
+      setEditingCert(null);
+      return;
     }
 
-    // Filter by search term
-    if (searchTerm) {
-      result = result.filter(c => 
-        c.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        c.domain.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        c.issuer.toLowerCase().includes(searchTerm.toLowerCase())
+    setSaving(true);
+    const saved = await updateCertificate(draft.id, patch, {
+      audit: (before, after) => buildAuditEntry(
+        'CERT_UPDATED',
+        { targetResource: `Certificate ${after.domain}`, resourcePath: `/certificates/${after.id}` },
+        { changes: diffFields(before, after, EDITABLE_FIELDS) }
+      ),
+    });
+    setSaving(false);
+    if (saved) {
+      setEditingCert(null);
+      toast.success('Certificate updated');
+    }
+  };
+
+  const exportToCSV = (rows: Certificate[]) => {
+    const headers = ['Name', 'Domain', 'Issuer', 'Status', 'Revocation', 'Days Until Expiry', 'Expiry Date', 'Algorithm', 'Serial Number', 'Owner', 'Tags'];
+    downloadCsv('certificates', headers, rows.map(cert => [
+      cert.name,
+      cert.domain,
+      cert.issuer,
+      HEALTH_LABELS[getCertificateHealth(cert.expiryDate, expiryThresholds)],
+      cert.revocation?.status ?? 'not checked',
+      daysUntilExpiry(cert.expiryDate),
+      cert.expiryDate,
+      cert.algorithm,
+      cert.serialNumber,
+      cert.owner ?? '',
+      (cert.tags ?? []).join(' ')
+    ]));
+  };
+
+  // `known` defaults to the loaded inventory; imports add what they save
+  const findExistingCertificate = (parsed: ParsedCertificate, known: Certificate[] = certificates) => {
+    const { issuer } = toCertificateRecord(parsed);
+    return known.find(c =>
+      c.fingerprints?.sha256 === parsed.fingerprints.sha256 ||
+      (c.serialNumber.toUpperCase() === parsed.serialNumber && c.issuer === issuer)
+    )?.id;
+  };
+
+  // A pending request is fulfilled by the certificate issued for its key
+  const findPendingRequest = (parsed: ParsedCertificate, completed: Set<string> = new Set()) =>
+    requests.find(r =>
+      r.status === 'pending' && !completed.has(r.id) && r.publicKeySha256 === parsed.publicKeySha256
+    );
+
+  const completeRequest = (request: CertificateRequest, cert: ParsedCertificate, saved: Certificate) =>
+    updateRequest(request.id, { status: 'issued', certificateId: saved.id, issuedAt: new Date().toISOString() }, {
+      audit: () => buildAuditEntry(
+        'CERT_ISSUED',
+        { targetResource: `Certificate ${saved.domain}`, resourcePath: `/certificates/${saved.id}` },
+        {
+          subject: cert.subject.text,
+          issuer: cert.issuer.text,
+          validity: `${saved.createdAt} to ${saved.expiryDate}`,
+          request_id: request.id,
+        }
+      ),
+    });
+
+  const importCertificates = async (parsed: ParsedCertificate[], source: string) => {
+    let imported = 0;
+    // Records and requests saved by this import, which `certificates` and
+    // `requests` won't include until the next render
+    const saved: Certificate[] = [];
+    const completed = new Set<string>();
+    for (const cert of uniqueCertificates(parsed)) {
+      const record = toCertificateRecord(cert);
+      const existingId = findExistingCertificate(cert, [...saved, ...certificates]);
+      const request = findPendingRequest(cert, completed);
+      const audit = (saved: Certificate) => buildAuditEntry(
+        'CERT_IMPORTED',
+        { targetResource: `Certificate ${saved.domain}`, resourcePath: `/certificates/${saved.id}` },
+        { source, fingerprint_sha256: cert.fingerprints.sha256, replaced_existing: !!existingId }
       );
+
+      // Keep the display name someone may have given the existing record
+      const { name, ...details } = record;
+      const result = existingId
+        ? await updateCertificate(existingId, details, { audit: (_, after) => audit(after) })
+        : await createCertificate(record, { audit });
+      if (!result) continue;
+      imported++;
+      saved.push(result);
+      if (request && await completeRequest(request, cert, result)) completed.add(request.id);
+    }
+    const fulfilled = completed.size;
+    if (imported > 0) {
+      const completed = fulfilled > 0 ? `, completing ${fulfilled} request${fulfilled === 1 ? '' : 's'}` : '';
+      toast.success(`Imported ${imported} certificate${imported === 1 ? '' : 's'}${completed}`);
     }
+  };
 
-    // Sort
-    result.sort((a, b) => {
-      if (sortBy === 'expiryDate') {
-        return new Date(a.expiryDate).getTime() - new Date(b.expiryDate).getTime();
-      }
-      return a.name.localeCompare(b.name);
+  const submitRequest = async (record: NewRecord<CertificateRequest>) => {
+    const saved = await createRequest(record, {
+      audit: created => buildAuditEntry(
+        'CERT_REQUESTED',
+        { targetResource: `Certificate ${created.commonName}`, resourcePath: `/certificates/requests/${created.id}` },
+        {
+          domains: created.dnsNames,
+          certificate_type: 'CSR',
+          key_algorithm: created.keyAlgorithm,
+          request_id: created.id,
+        }
+      ),
     });
+    if (saved) toast.success(`Request ${saved.id} created for ${saved.commonName}`);
+    return saved;
+  };
 
-    return result;
-  }, [certificates, filterDomain, sortBy, searchTerm]);
+  const cancelRequest = async (request: CertificateRequest) => {
+    const saved = await updateRequest(request.id, { status: 'cancelled' }, {
+      audit: (before, after) => buildAuditEntry(
+        'CERT_UPDATED',
+        { targetResource: `Certificate ${after.commonName}`, resourcePath: `/certificates/requests/${after.id}` },
+        { changes: diffFields(before, after, ['status']) }
+      ),
+    });
+    if (saved) toast.success(`Request ${saved.id} cancelled`);
+  };
+
+  const renewCertificate = async (cert: Certificate, renewed: ParsedCertificate, details: RenewalDetails) => {
+    // The renewal replaces the record in place, keeping its id and display name
+    const { name, ...record } = toCertificateRecord(renewed);
+    const saved = await updateCertificate(cert.id, record, {
+      audit: (before, after) => buildAuditEntry(
+        'CERT_RENEWED',
+        { targetResource: `Certificate ${after.domain}`, resourcePath: `/certificates/${after.id}` },
+        {
+          renewal_method: 'acme',
+          previous_expiry: before.expiryDate,
+          new_expiry: after.expiryDate,
+          issuer: after.issuer,
+          previous_serial: before.serialNumber,
+          new_serial: after.serialNumber,
+          acme_directory: details.directoryUrl,
+          order_url: details.orderUrl,
+        }
+      ),
+    });
+    if (saved) {
+      toast.success(`Renewed ${cert.name} until ${record.expiryDate}`);
+    }
+    return !!saved;
+  };
+
+  // Saves the result on the record; only a newly detected revocation is audited
+  const saveRevocation = (cert: Certificate, revocation: RevocationState) =>
+    updateCertificate(cert.id, { revocation }, {
+      audit: (before, after) => revocation.status === 'revoked' && before.revocation?.status !== 'revoked'
+        ? buildAuditEntry(
+          'CERT_REVOKED',
+          { targetResource: `Certificate ${after.domain}`, resourcePath: `/certificates/${after.id}` },
+          { reason: revocation.reason ?? 'unspecified', revocation_date: revocation.revokedAt }
+        )
+        : null,
+    });
 
-  const paginatedData = useMemo(() => {
-    const start = (currentPage - 1) * ITEMS_PER_PAGE;
-    const end = start + ITEMS_PER_PAGE;
-    return filteredAndSorted.slice(start, end);
-  }, [filteredAndSorted, currentPage]);
+  const checkRevocation = async (targets: Certificate[]) => {
+    if (targets.length === 0 || revocationProgress) return;
+    const check = createRevocationChecker(revocationResponders, certificates);
+    const counts: Record<RevocationState['status'], number> = { good: 0, revoked: 0, unknown: 0 };
+    let next = 0;
+    let done = 0;
+    setRevocationProgress({ done, total: targets.length });
 
-  const totalPages = Math.ceil(filteredAndSorted.length / ITEMS_PER_PAGE);
+    const worker = async () => {
+      while (next < targets.length) {
+        const cert = targets[next++];
+        const revocation = await check(cert);
+        counts[revocation.status]++;
+        await saveRevocation(cert, revocation);
+        setRevocationProgress({ done: ++done, total: targets.length });
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(REVOCATION_CONCURRENCY, targets.length) }, worker));
+    setRevocationProgress(null);
 
-  const getStatusBadge = (status: string, expiryDate: string) => {
-    const daysUntilExpiry = Math.ceil((new Date(expiryDate).getTime() - Date.now()) / (1000 * 60 * 60 * 24));
-    
-    if (status === 'expired') {
-      return <Badge variant="destructive">Expired</Badge>;
-    } else if (status === 'expiring_soon' || daysUntilExpiry < 30) {
-      return <Badge className="bg-orange-500">Expiring Soon</Badge>;
+    const summary = targets.length === 1
+      ? `${targets[0].name}: ${counts.good ? 'good' : counts.revoked ? 'revoked' : 'unknown'}`
+      : `${counts.good} good, ${counts.revoked} revoked, ${counts.unknown} unknown`;
+    if (counts.revoked > 0) {
+      toast.error(`Revocation check finished: ${summary}`);
+    } else if (counts.unknown > 0) {
+      toast.warning(`Revocation check finished: ${summary}`);
+    } else {
+      toast.success(`Revocation check finished: ${summary}`);
     }
-    return <Badge className="bg-green-600">Active</Badge>;
   };
 
   if (loading && certificates.length === 0) return <TableSkeleton rows={10} />;
-  if (error) return <ErrorDisplay onRetry={loadData} />;
+  if (error) return <ErrorDisplay message={error.message} onRetry={refresh} />;
 
+  const health = countByHealth(certificates, expiryThresholds);
   const stats = {
     total: certificates.length,
-    expiringSoon: certificates.filter(c => c.status === 'expiring_soon').length,
-    expired: certificates.filter(c => c.status === 'expired').length
+    expired: health.expired,
+    critical: health.critical,
+    expiringSoon: health.warning,
   };
+  const pendingRequests = requests.filter(r => r.status === 'pending').length;
 
   return (
     <div className="p-6 space-y-6">
       {/* Header */}
-      <div>
-        <h1 className="text-2xl mb-2">Certificates</h1>
-        <p className="text-slate-500">Manage TLS certificates across your fleet.</p>
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl mb-2">Certificates</h1>
+          <p className="text-slate-500">Manage TLS certificates across your fleet.</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <SavedViewsMenu />
+          <CacheStatus lastUpdated={lastUpdated} refreshing={refreshing} onRefresh={refresh} />
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={!!revocationProgress || certificates.length === 0}
+            onClick={() => checkRevocation(certificates)}
+          >
+            <ShieldCheck className="h-4 w-4 mr-2" />
+            Check revocation
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setRequestOpen(true)}>
+            <FilePlus2 className="h-4 w-4 mr-2" />
+            Request
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setImportOpen(true)}>
+            <Upload className="h-4 w-4 mr-2" />
+            Import
+          </Button>
+        </div>
       </div>
 
+      {revocationProgress && (
+        <div className="bg-white dark:bg-slate-800 rounded-lg p-4 border border-slate-200 dark:border-slate-700 space-y-2">
+          <p className="text-sm text-slate-500">
+            Checking revocation status: {revocationProgress.done} of {revocationProgress.total}
+          </p>
+          <Progress value={revocationProgress.done / revocationProgress.total * 100} />
+        </div>
+      )}
+
+      <DataQualityPanel records={quarantined} />
+
       {/* Stats */}
       <motion.div
         initial={{ opacity: 0, y: 20 }}
         animate={{ opacity: 1, y: 0 }}
-        className="grid grid-cols-1 md:grid-cols-3 gap-4"
+        className="grid grid-cols-1 md:grid-cols-4 gap-4"
       >
         <div className="bg-white dark:bg-slate-800 rounded-lg p-4 border border-slate-200 dark:border-slate-700">
           <p className="text-sm text-slate-500">Total Certificates</p>
           <p className="text-2xl">{stats.total} certificates</p>
         </div>
         <div className="bg-white dark:bg-slate-800 rounded-lg p-4 border border-slate-200 dark:border-slate-700">
-          <p className="text-sm text-slate-500">Expiring Soon</p>
+          <p className="text-sm text-slate-500">Critical ({expiryThresholds.critical} days or fewer)</p>
+          <p className="text-2xl text-red-500">{stats.critical} certificates</p>
+        </div>
+        <div className="bg-white dark:bg-slate-800 rounded-lg p-4 border border-slate-200 dark:border-slate-700">
+          <p className="text-sm text-slate-500">
+            Expiring Soon ({expiryThresholds.critical + 1}–{expiryThresholds.warning} days)
+          </p>
           <p className="text-2xl text-orange-500">{stats.expiringSoon} certificates</p>
         </div>
         <div className="bg-white dark:bg-slate-800 rounded-lg p-4 border border-slate-200 dark:border-slate-700">
@@ -209,115 +504,83 @@ export function CertificatesPage() {
               ))}
             </SelectContent>
           </Select>
-          <Select value={sortBy} onValueChange={setSortBy}>
-            <SelectTrigger className="w-full md:w-64">
-              <SelectValue placeholder="Sort by" />
+          <Select value={filterStatus} onValueChange={setFilterStatus}>
+            <SelectTrigger className="w-full md:w-48">
+              <SelectValue placeholder="Filter by status" />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="expiryDate">Expiry Date (soonest)</SelectItem>
-              <SelectItem value="name">Name</SelectItem>
+              <SelectItem value="all">All statuses</SelectItem>
+              {HEALTH_ORDER.map(status => (
+                <SelectItem key={status} value={status}>{HEALTH_LABELS[status]}</SelectItem>
+              ))}
             </SelectContent>
           </Select>
         </div>
-        <div className="mt-3 text-sm text-slate-500">
-          Showing {filteredAndSorted.length} of {stats.total} certificates
+        <div className="mt-3 flex items-center justify-between text-sm text-slate-500">
+          <span>Showing {filtered.length} of {stats.total} certificates</span>
+          <Button variant="outline" size="sm" onClick={() => exportToCSV(filtered)}>
+            <Download className="h-4 w-4 mr-2" />
+            Export CSV
+          </Button>
         </div>
       </motion.div>
 
-      {/* Table */}
-      <motion.div
-        initial={{ opacity: 0, y: 20 }}
-        animate={{ opacity: 1, y: 0 }}
-        transition={{ delay: 0.2 }}
-        className="bg-white dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700 overflow-hidden"
-      >
-        <Table>
-          <TableHeader>
-            <TableRow>
-              <TableHead>Certificate Name</TableHead>
-              <TableHead>Domain</TableHead>
-              <TableHead>Issuer</TableHead>
-              <TableHead>Status</TableHead>
-              <TableHead>Expiry Date</TableHead>
-              <TableHead>Actions</TableHead>
-            </TableRow>
-          </TableHeader>
-          <TableBody>
-            {paginatedData.map((cert) => (
-              <TableRow key={cert.id}>
-                <TableCell>{cert.name}</TableCell>
-                <TableCell className="font-mono text-sm">{cert.domain}</TableCell>
-                <TableCell>{cert.issuer}</TableCell>
-                <TableCell>{getStatusBadge(cert.status, cert.expiryDate)}</TableCell>
-                <TableCell>{new Date(cert.expiryDate).toLocaleDateString()}</TableCell>
-                <TableCell>
-                  <div className="flex gap-2">
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => setSelectedCert(cert)}
-                    >
-                      <Eye className="h-4 w-4" />
-                    </Button>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => setEditingCert(cert)}
-                    >
-                      <Edit className="h-4 w-4" />
-                    </Button>
-                  </div>
-                </TableCell>
-              </TableRow>
-            ))}
-          </TableBody>
-        </Table>
-
-        {/* Pagination */}
-        {totalPages > 1 && (
-          <div className="flex items-center justify-between p-4 border-t border-slate-200 dark:border-slate-700">
-            <div className="text-sm text-slate-500">
-              Showing {((currentPage - 1) * ITEMS_PER_PAGE) + 1} to {Math.min(currentPage * ITEMS_PER_PAGE, filteredAndSorted.length)} of {filteredAndSorted.length}
-            </div>
-            <div className="flex gap-2">
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={() => setCurrentPage(p => Math.max(1, p - 1))}
-                disabled={currentPage === 1}
-              >
-                Previous
-              </Button>
-              {Array.from({ length: Math.min(totalPages, 3) }, (_, i) => {
-                const page = currentPage <= 2 ? i + 1 : currentPage + i - 1;
-                if (page > totalPages) return null;
-                return (
-                  <Button
-                    key={page}
-                    variant={currentPage === page ? 'default' : 'outline'}
-                    size="sm"
-                    onClick={() => setCurrentPage(page)}
-                  >
-                    {page}
-                  </Button>
-                );
-              })}
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={() => setCurrentPage(p => Math.min(totalPages, p + 1))}
-                disabled={currentPage === totalPages}
-              >
-                Next
-              </Button>
-            </div>
-          </div>
-        )}
-      </motion.div>
+      <Tabs value={activeTab} onValueChange={setActiveTab} className="gap-4">
+        <TabsList>
+          <TabsTrigger value="table">Table</TabsTrigger>
+          <TabsTrigger value="timeline">Timeline</TabsTrigger>
+          <TabsTrigger value="requests">
+            Requests
+            {pendingRequests > 0 && <Badge className="ml-1 bg-orange-500">{pendingRequests}</Badge>}
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="table">
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.2 }}
+            className="space-y-4"
+          >
+            <BulkActionBar
+              collection="certificates"
+              selected={selection.selectedRows}
+              updateMany={updateCertificates}
+              recordAuditEntries={recordAuditEntries}
+              onExport={exportToCSV}
+              onClear={selection.clear}
+              owners={owners}
+            />
+            <AssetTable
+              tableId="certificates"
+              columns={columns}
+              rows={filtered}
+              getRowId={cert => cert.id}
+              busy={filtering}
+              selected={selection.selected}
+              onSelectedChange={selection.setSelected}
+              {...table}
+            />
+          </motion.div>
+        </TabsContent>
+
+        <TabsContent value="timeline">
+          <CertificateExpiryTimeline certificates={filtered} onSelect={setSelectedCert} />
+        </TabsContent>
+
+        <TabsContent value="requests">
+          <CertificateRequestList
+            requests={requests}
+            certificates={certificates}
+            onCancel={cancelRequest}
+            onSelectCertificate={setSelectedCert}
+          />
+        </TabsContent>
+      </Tabs>
 
       {/* View Modal */}
       <Dialog open={!!selectedCert} onOpenChange={() => setSelectedCert(null)}>
-        <DialogContent>
+        <DialogContent className="max-h-[85vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Certificate Details</DialogTitle>
             <DialogDescription>
@@ -325,47 +588,130 @@ export function CertificatesPage() {
             </DialogDescription>
           </DialogHeader>
           {selectedCert && (
-            <div className="space-y-4">
-              <div>
-                <p className="text-sm text-slate-500">Certificate Name</p>
-                <p className="font-mono">{selectedCert.name}</p>
-              </div>
-              <div>
-                <p className="text-sm text-slate-500">Common Name</p>
-                <p className="font-mono">{selectedCert.commonName}</p>
-              </div>
-              <div>
-                <p className="text-sm text-slate-500">Serial Number</p>
-                <p className="font-mono text-sm">{selectedCert.serialNumber}</p>
-              </div>
-              <div>
-                <p className="text-sm text-slate-500">Algorithm</p>
-                <p>{selectedCert.algorithm}</p>
-              </div>
-              <div>
-                <p className="text-sm text-slate-500">Issuer</p>
-                <p>{selectedCert.issuer}</p>
-              </div>
-              <div>
-                <p className="text-sm text-slate-500">Created</p>
-                <p>{new Date(selectedCert.createdAt).toLocaleDateString()}</p>
-              </div>
-              <div>
-                <p className="text-sm text-slate-500">Expires</p>
-                <p>{new Date(selectedCert.expiryDate).toLocaleDateString()}</p>
-              </div>
-            </div>
+            <Tabs defaultValue="details">
+              <TabsList>
+                <TabsTrigger value="details">Details</TabsTrigger>
+                <TabsTrigger value="chain">Chain</TabsTrigger>
+                <TabsTrigger value="history">History</TabsTrigger>
+              </TabsList>
+              <TabsContent value="details" className="space-y-4 pt-2">
+                <div>
+                  <p className="text-sm text-slate-500">Certificate Name</p>
+                  <p className="font-mono">{selectedCert.name}</p>
+                </div>
+                <div>
+                  <p className="text-sm text-slate-500">Common Name</p>
+                  <p className="font-mono">{selectedCert.commonName}</p>
+                </div>
+                <div>
+                  <p className="text-sm text-slate-500">Serial Number</p>
+                  <p className="font-mono text-sm">{selectedCert.serialNumber}</p>
+                </div>
+                <div>
+                  <p className="text-sm text-slate-500">Algorithm</p>
+                  <p>{selectedCert.algorithm}</p>
+                </div>
+                <div>
+                  <p className="text-sm text-slate-500">Issuer</p>
+                  <p>{selectedCert.issuer}</p>
+                </div>
+                <div>
+                  <p className="text-sm text-slate-500">Revocation</p>
+                  <div className="flex items-center gap-2 mt-1">
+                    <CertificateRevocationBadge revocation={selectedCert.revocation} />
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={!!revocationProgress}
+                      onClick={() => checkRevocation([selectedCert])}
+                    >
+                      {revocationProgress ? 'Checking...' : 'Check now'}
+                    </Button>
+                  </div>
+                  {selectedCert.revocation && (
+                    <p className="text-xs text-slate-500 mt-1 break-all">
+                      {describeRevocation(selectedCert.revocation)}
+                      {selectedCert.revocation.source && ` (${selectedCert.revocation.source})`}
+                    </p>
+                  )}
+                </div>
+                <div>
+                  <p className="text-sm text-slate-500">Created</p>
+                  <p>{new Date(selectedCert.createdAt).toLocaleDateString()}</p>
+                </div>
+                <div>
+                  <p className="text-sm text-slate-500">Expires</p>
+                  <p>{new Date(selectedCert.expiryDate).toLocaleDateString()}</p>
+                </div>
+                {selectedCert.subjectAltNames && selectedCert.subjectAltNames.length > 0 && (
+                  <div>
+                    <p className="text-sm text-slate-500">Subject Alternative Names</p>
+                    <p className="font-mono text-sm">{selectedCert.subjectAltNames.join(', ')}</p>
+                  </div>
+                )}
+                {(selectedCert.keyUsage?.length || selectedCert.extendedKeyUsage?.length) ? (
+                  <div>
+                    <p className="text-sm text-slate-500">Key Usage</p>
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {[...(selectedCert.keyUsage ?? []), ...(selectedCert.extendedKeyUsage ?? [])].map(usage => (
+                        <Badge key={usage} variant="outline">{usage}</Badge>
+                      ))}
+                    </div>
+                  </div>
+                ) : null}
+                {selectedCert.isCA !== undefined && (
+                  <div>
+                    <p className="text-sm text-slate-500">Certificate Authority</p>
+                    <p>{selectedCert.isCA ? 'Yes (CA:TRUE)' : 'No'}</p>
+                  </div>
+                )}
+                {selectedCert.fingerprints && (
+                  <div>
+                    <p className="text-sm text-slate-500">SHA-256 Fingerprint</p>
+                    <p className="font-mono text-xs break-all">{selectedCert.fingerprints.sha256}</p>
+                    <p className="text-sm text-slate-500 mt-2">SHA-1 Fingerprint</p>
+                    <p className="font-mono text-xs break-all">{selectedCert.fingerprints.sha1}</p>
+                  </div>
+                )}
+              </TabsContent>
+              <TabsContent value="chain" className="pt-2">
+                <CertificateChainView chain={buildChain(selectedCert, certificates)} />
+              </TabsContent>
+              <TabsContent value="history" className="pt-2">
+                <ChangeHistory logs={auditLogs} resourcePath={`/certificates/${selectedCert.id}`} />
+              </TabsContent>
+            </Tabs>
           )}
         </DialogContent>
       </Dialog>
 
+      <CertificateImportDialog
+        open={importOpen}
+        onOpenChange={setImportOpen}
+        findExisting={findExistingCertificate}
+        findRequest={findPendingRequest}
+        onImport={importCertificates}
+      />
+
+      <CertificateRequestDialog
+        open={requestOpen}
+        onOpenChange={setRequestOpen}
+        onRequested={submitRequest}
+      />
+
+      <CertificateRenewDialog
+        certificate={renewingCert}
+        onOpenChange={() => setRenewingCert(null)}
+        onRenewed={renewCertificate}
+      />
+
       {/* Edit Drawer */}
       <Sheet open={!!editingCert} onOpenChange={() => setEditingCert(null)}>
         <SheetContent>
           <SheetHeader>
             <SheetTitle>Edit Certificate</SheetTitle>
             <SheetDescription>
-              Update editable fields (changes are local only)
+              Update editable fields. Each save is recorded in the audit log.
             </SheetDescription>
           </SheetHeader>
           {editingCert && (
@@ -391,15 +737,10 @@ export function CertificatesPage() {
               </div>
               <Button
                 className="w-full mt-4"
-                onClick={() => {
-                  // Update local state only
-                  setCertificates(certs =>
-                    certs.map(c => c.id === editingCert.id ? editingCert : c)
-                  );
-                  setEditingCert(null);
-                }}
+                disabled={saving}
+                onClick={() => saveCertificate(editingCert)}
               >
-                Save Changes (Local Only)
+                {saving ? 'Saving...' : 'Save Changes'}
               </Button>
             </div>
           )}
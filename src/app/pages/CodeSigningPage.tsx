@@ -1,9 +1,20 @@
-import { useState, useEffect, useMemo } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { motion } from 'motion/react';
 import { Search, LayoutGrid, LayoutList, Shield, HardDrive, Eye, RotateCw } from 'lucide-react';
-import { useDashboard } from '../../contexts/DashboardContext';
+import { useAssetData } from '../../hooks/useAssetData';
+import { useQueryState, useTableQueryState } from '../../hooks/useQueryState';
+import { useListQuery } from '../../hooks/useListQuery';
+import { useVirtualList } from '../../hooks/useVirtualList';
+import { useRowSelection } from '../../hooks/useRowSelection';
+import { downloadCsv } from '../../lib/csv';
 import { TableSkeleton, CardSkeleton } from '../components/LoadingSkeleton';
 import { ErrorDisplay } from '../components/ErrorDisplay';
+import { CacheStatus } from '../components/CacheStatus';
+import { SavedViewsMenu } from '../components/SavedViewsMenu';
+import { DataQualityPanel } from '../components/DataQualityPanel';
+import { AssetTable, AssetColumn } from '../components/AssetTable';
+import { BulkActionBar } from '../components/BulkActionBar';
+import { TagList } from '../components/TagList';
 import { Input } from '../components/ui/input';
 import { Badge } from '../components/ui/badge';
 import { Button } from '../components/ui/button';
@@ -14,93 +25,142 @@ import {
   SelectTrigger,
   SelectValue,
 } from '../components/ui/select';
-import {
-  Table,
-  TableBody,
-  TableCell,
-  TableHead,
-  TableHeader,
-  TableRow,
-} from '../components/ui/table';
-import codeSigningData from '../../data/codeSigningKeys.json';
+import type { CodeSigningKey } from '../../types/assets';
 
-interface CodeSigningKey {
-  id: string;
-  keyAlias: string;
-  description: string;
-  algorithm: string;
-  protectionLevel: 'HSM' | 'Soft';
-  createdAt: string;
-  lastUsed: string;
-  rotationPolicy: string;
-  environment: string;
-  owner: string;
-}
+// One row of cards plus the gap below it; only used until rows are measured
+const ESTIMATED_CARD_ROW_HEIGHT = 380;
 
-export function CodeSigningPage() {
-  const { setCachedData } = useDashboard();
-  const [keys, setKeys] = useState<CodeSigningKey[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState(false);
-  const [searchTerm, setSearchTerm] = useState('');
-  const [viewMode, setViewMode] = useState<'grid' | 'table'>('table');
-  const [filterProtection, setFilterProtection] = useState('all');
-  const [sortBy, setSortBy] = useState('lastUsed');
+// Cards per grid row at Tailwind's md and lg breakpoints, as in the grid classes
+function gridColumnsFor(width: number) {
+  if (width >= 1024) return 3;
+  if (width >= 768) return 2;
+  return 1;
+}
 
+function useGridColumns() {
+  const [columns, setColumns] = useState(() => gridColumnsFor(window.innerWidth));
   useEffect(() => {
-    loadData();
+    const update = () => setColumns(gridColumnsFor(window.innerWidth));
+    window.addEventListener('resize', update);
+    return () => window.removeEventListener('resize', update);
   }, []);
+  return columns;
+}
 
-  const loadData = async () => {
-    try {
-      const cached = localStorage.getItem('cache_codeSigningKeys');
-      if (cached) {
-        const { data } = JSON.parse(cached);
-        setKeys(data);
-        setLoading(false);
-      }
-
-      await new Promise(resolve => setTimeout(resolve, 700));
-      
-      setKeys(codeSigningData);
-      setCachedData('codeSigningKeys', codeSigningData);
-      setLoading(false);
-      setError(false);
-    } catch (err) {
-      setError(true);
-      setLoading(false);
-    }
-  };
+function chunk<T>(items: T[], size: number) {
+  const rows: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    rows.push(items.slice(i, i + size));
+  }
+  return rows;
+}
 
-  const filteredAndSorted = useMemo(() => {
-    let result = [...keys];
+export function CodeSigningPage() {
+  const { data: keys, updateMany, recordAuditEntries, loading, refreshing, error, lastUpdated, quarantined, refresh } = useAssetData('codeSigningKeys');
+  const [searchTerm, setSearchTerm] = useQueryState('q', '', { replace: true, resets: ['page'] });
+  const [view, setViewMode] = useQueryState('view', 'table');
+  const viewMode = view === 'grid' ? 'grid' : 'table';
+  const [filterProtection, setFilterProtection] = useQueryState('protection', 'all', { resets: ['page'] });
+  const [filterEnvironment, setFilterEnvironment] = useQueryState('environment', 'all', { resets: ['page'] });
+  const [filterRotation, setFilterRotation] = useQueryState('rotation', 'all', { resets: ['page'] });
+  const table = useTableQueryState('-lastUsed');
+  // ?open=<id> expands that key's row, e.g. from the command palette
+  const [openId] = useQueryState('open', '');
 
-    if (filterProtection !== 'all') {
-      result = result.filter(k => k.protectionLevel === filterProtection);
-    }
+  const environments = useMemo(() => [...new Set(keys.map(k => k.environment))].sort(), [keys]);
+  const owners = useMemo(() => [...new Set(keys.map(k => k.owner))].sort(), [keys]);
 
-    if (searchTerm) {
-      result = result.filter(k => 
-        k.keyAlias.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        k.description.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        k.algorithm.toLowerCase().includes(searchTerm.toLowerCase())
-      );
-    }
+  const { rows: filtered, pending: filtering } = useListQuery('codeSigningKeys', keys, {
+    protection: filterProtection,
+    environment: filterEnvironment,
+    rotation: filterRotation,
+    search: searchTerm,
+    sort: table.sort,
+  });
+  const selection = useRowSelection(filtered, key => key.id);
+  const gridColumns = useGridColumns();
+  const gridRows = useMemo(() => chunk(filtered, gridColumns), [filtered, gridColumns]);
+  const grid = useVirtualList({ items: gridRows, getKey: row => row[0].id, estimateSize: ESTIMATED_CARD_ROW_HEIGHT });
 
-    result.sort((a, b) => {
-      if (sortBy === 'lastUsed') {
-        return new Date(b.lastUsed).getTime() - new Date(a.lastUsed).getTime();
-      }
-      return a.keyAlias.localeCompare(b.keyAlias);
-    });
+  const columns = useMemo<AssetColumn<CodeSigningKey>[]>(() => [
+    {
+      id: 'alias',
+      header: 'Key Alias',
+      cell: key => (
+        <div>
+          <p className="font-mono flex items-center gap-2">
+            {key.keyAlias}
+            {key.disabledAt && <Badge variant="outline" className="text-red-600 border-red-600 font-sans">Disabled</Badge>}
+          </p>
+          <p className="text-xs text-slate-500">{key.description}</p>
+        </div>
+      ),
+      sortable: true,
+    },
+    { id: 'algorithm', header: 'Algorithm', cell: key => key.algorithm, sortable: true },
+    {
+      id: 'protection',
+      header: 'Protection Level',
+      cell: key => key.protectionLevel === 'HSM' ? (
+        <Badge className="bg-blue-600 flex items-center gap-1 w-fit">
+          <Shield className="h-3 w-3" />
+          HSM-backed
+        </Badge>
+      ) : (
+        <Badge className="bg-orange-600 flex items-center gap-1 w-fit">
+          <HardDrive className="h-3 w-3" />
+          Soft token
+        </Badge>
+      ),
+      sortable: true,
+    },
+    { id: 'environment', header: 'Environment', cell: key => key.environment, sortable: true, defaultHidden: true },
+    { id: 'owner', header: 'Owner', cell: key => key.owner, sortable: true, defaultHidden: true },
+    {
+      id: 'createdAt',
+      header: 'Created At',
+      cell: key => new Date(key.createdAt).toLocaleDateString(),
+      sortable: true,
+    },
+    { id: 'lastUsed', header: 'Last Used', cell: key => key.lastUsed, sortable: true },
+    { id: 'tags', header: 'Tags', cell: key => <TagList tags={key.tags} />, defaultHidden: true },
+    {
+      id: 'actions',
+      header: 'Actions',
+      fixed: true,
+      cell: () => (
+        <div className="flex gap-2">
+          <Button variant="ghost" size="sm">
+            <Eye className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="sm">
+            <RotateCw className="h-4 w-4" />
+          </Button>
+        </div>
+      ),
+    },
+  ], []);
 
-    return result;
-  }, [keys, searchTerm, filterProtection, sortBy]);
+  const exportToCSV = (rows: CodeSigningKey[]) => {
+    const headers = ['Key Alias', 'Algorithm', 'Protection Level', 'Environment', 'Owner', 'Rotation Policy', 'Created At', 'Last Used', 'Tags', 'Disabled At'];
+    downloadCsv('code-signing-keys', headers, rows.map(key => [
+      key.keyAlias,
+      key.algorithm,
+      key.protectionLevel,
+      key.environment,
+      key.owner,
+      key.rotationPolicy,
+      key.createdAt,
+      key.lastUsed,
+      (key.tags ?? []).join(' '),
+      key.disabledAt ?? ''
+    ]));
+  };
 
   if (loading && keys.length === 0) {
     return viewMode === 'grid' ? <CardSkeleton count={9} /> : <TableSkeleton rows={9} />;
   }
-  if (error) return <ErrorDisplay onRetry={loadData} />;
+  if (error) return <ErrorDisplay message={error.message} onRetry={refresh} />;
 
   const stats = {
     total: keys.length,
@@ -110,11 +170,19 @@ export function CodeSigningPage() {
 
   return (
     <div className="p-6 space-y-6">
-      <div>
-        <h1 className="text-2xl mb-2">Code Signing Keys</h1>
-        <p className="text-slate-500">Manage signing identities for binaries, containers, and artifacts.</p>
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl mb-2">Code Signing Keys</h1>
+          <p className="text-slate-500">Manage signing identities for binaries, containers, and artifacts.</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <SavedViewsMenu />
+          <CacheStatus lastUpdated={lastUpdated} refreshing={refreshing} onRefresh={refresh} />
+        </div>
       </div>
 
+      <DataQualityPanel records={quarantined} />
+
       <motion.div
         initial={{ opacity: 0, y: 20 }}
         animate={{ opacity: 1, y: 0 }}
@@ -150,15 +218,18 @@ export function CodeSigningPage() {
               className="pl-10"
             />
           </div>
-          <Select value={sortBy} onValueChange={setSortBy}>
-            <SelectTrigger className="w-full md:w-52">
-              <SelectValue placeholder="Sort" />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="lastUsed">Last used (recent first)</SelectItem>
-              <SelectItem value="alias">Alias</SelectItem>
-            </SelectContent>
-          </Select>
+          {/* The table sorts from its headers; the grid has no headers to click */}
+          {viewMode === 'grid' && (
+            <Select value={table.sort} onValueChange={table.onSortChange}>
+              <SelectTrigger className="w-full md:w-52">
+                <SelectValue placeholder="Sort" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="-lastUsed">Last used (recent first)</SelectItem>
+                <SelectItem value="alias">Alias</SelectItem>
+              </SelectContent>
+            </Select>
+          )}
           <Select value={filterProtection} onValueChange={setFilterProtection}>
             <SelectTrigger className="w-full md:w-52">
               <SelectValue placeholder="Protection" />
@@ -169,6 +240,26 @@ export function CodeSigningPage() {
               <SelectItem value="Soft">Software only</SelectItem>
             </SelectContent>
           </Select>
+          <Select value={filterEnvironment} onValueChange={setFilterEnvironment}>
+            <SelectTrigger className="w-full md:w-52">
+              <SelectValue placeholder="Environment" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All environments</SelectItem>
+              {environments.map(environment => (
+                <SelectItem key={environment} value={environment}>{environment}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={filterRotation} onValueChange={setFilterRotation}>
+            <SelectTrigger className="w-full md:w-52">
+              <SelectValue placeholder="Rotation" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Any rotation state</SelectItem>
+              <SelectItem value="overdue">Rotation overdue</SelectItem>
+            </SelectContent>
+          </Select>
           <div className="flex gap-2 border rounded-lg p-1">
             <Button
               variant={viewMode === 'table' ? 'default' : 'ghost'}
@@ -187,7 +278,7 @@ export function CodeSigningPage() {
           </div>
         </div>
         <div className="mt-3 text-sm text-slate-500">
-          {filteredAndSorted.length} keys - HSM and software-backed - table and grid views
+          {filtered.length} keys - HSM and software-backed - table and grid views
         </div>
       </motion.div>
 
@@ -196,121 +287,133 @@ export function CodeSigningPage() {
           initial={{ opacity: 0, y: 20 }}
           animate={{ opacity: 1, y: 0 }}
           transition={{ delay: 0.2 }}
-          className="bg-white dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700 overflow-hidden"
+          className="space-y-4"
         >
-          <Table>
-            <TableHeader>
-              <TableRow>
-                <TableHead>Key Alias</TableHead>
-                <TableHead>Algorithm</TableHead>
-                <TableHead>Protection Level</TableHead>
-                <TableHead>Created At</TableHead>
-                <TableHead>Last Used</TableHead>
-                <TableHead>Actions</TableHead>
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              {filteredAndSorted.map((key) => (
-                <TableRow key={key.id}>
-                  <TableCell>
-                    <div>
-                      <p className="font-mono">{key.keyAlias}</p>
-                      <p className="text-xs text-slate-500">{key.description}</p>
-                    </div>
-                  </TableCell>
-                  <TableCell>{key.algorithm}</TableCell>
-                  <TableCell>
-                    {key.protectionLevel === 'HSM' ? (
-                      <Badge className="bg-blue-600 flex items-center gap-1 w-fit">
-                        <Shield className="h-3 w-3" />
-                        HSM-backed
-                      </Badge>
-                    ) : (
-                      <Badge className="bg-orange-600 flex items-center gap-1 w-fit">
-                        <HardDrive className="h-3 w-3" />
-                        Soft token
-                      </Badge>
-                    )}
-                  </TableCell>
-                  <TableCell>{new Date(key.createdAt).toLocaleDateString()}</TableCell>
-                  <TableCell>{key.lastUsed}</TableCell>
-                  <TableCell>
-                    <div className="flex gap-2">
-                      <Button variant="ghost" size="sm">
-                        <Eye className="h-4 w-4" />
-                      </Button>
-                      <Button variant="ghost" size="sm">
-                        <RotateCw className="h-4 w-4" />
-                      </Button>
-                    </div>
-                  </TableCell>
-                </TableRow>
-              ))}
-            </TableBody>
-          </Table>
+          <BulkActionBar
+            collection="codeSigningKeys"
+            selected={selection.selectedRows}
+            updateMany={updateMany}
+            recordAuditEntries={recordAuditEntries}
+            onExport={exportToCSV}
+            onClear={selection.clear}
+            owners={owners}
+          />
+          <AssetTable
+            tableId="code-signing-keys"
+            columns={columns}
+            rows={filtered}
+            getRowId={key => key.id}
+            busy={filtering}
+            selected={selection.selected}
+            onSelectedChange={selection.setSelected}
+            openRowId={openId}
+            {...table}
+            renderExpanded={key => (
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 py-2 px-4">
+                <div>
+                  <p className="text-xs text-slate-500">Environment</p>
+                  <p className="text-sm mt-1">{key.environment}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-slate-500">Owner</p>
+                  <p className="text-sm mt-1">{key.owner}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-slate-500">Rotation Policy</p>
+                  <p className="text-sm mt-1">{key.rotationPolicy}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-slate-500">Algorithm</p>
+                  <p className="text-sm mt-1">{key.algorithm}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-slate-500">Rotation Requested</p>
+                  <p className="text-sm mt-1">{key.rotationRequestedAt ? new Date(key.rotationRequestedAt).toLocaleString() : '—'}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-slate-500">Last Reviewed</p>
+                  <p className="text-sm mt-1">
+                    {key.reviewedAt ? `${new Date(key.reviewedAt).toLocaleDateString()}${key.reviewedBy ? ` by ${key.reviewedBy}` : ''}` : '—'}
+                  </p>
+                </div>
+                <div className="col-span-2">
+                  <p className="text-xs text-slate-500 mb-1">Tags</p>
+                  <TagList tags={key.tags} />
+                </div>
+              </div>
+            )}
+          />
         </motion.div>
       ) : (
         <motion.div
+          ref={grid.listRef}
           initial={{ opacity: 0, y: 20 }}
           animate={{ opacity: 1, y: 0 }}
           transition={{ delay: 0.2 }}
-          className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4"
+          style={{ paddingTop: grid.paddingTop, paddingBottom: grid.paddingBottom }}
         >
-          {filteredAndSorted.map((key, idx) => (
-            <motion.div
-              key={key.id}
-              initial={{ opacity: 0, y: 20 }}
-              animate={{ opacity: 1, y: 0 }}
-              transition={{ delay: idx * 0.05 }}
-              className="bg-white dark:bg-slate-800 rounded-lg p-5 border border-slate-200 dark:border-slate-700 hover:shadow-lg transition-shadow"
+          {/* Only the rows of cards on screen are rendered */}
+          {grid.items.map(({ index, item: row, key: rowKey }) => (
+            <div
+              key={rowKey}
+              data-index={index}
+              ref={grid.measureElement}
+              className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 pb-4"
             >
-              <div className="flex items-start justify-between mb-3">
-                <div className="p-3 rounded-lg bg-slate-100 dark:bg-slate-700">
-                  {key.protectionLevel === 'HSM' ? (
-                    <Shield className="h-6 w-6 text-blue-600" />
-                  ) : (
-                    <HardDrive className="h-6 w-6 text-orange-600" />
-                  )}
-                </div>
-                {key.protectionLevel === 'HSM' ? (
-                  <Badge className="bg-blue-600">HSM</Badge>
-                ) : (
-                  <Badge className="bg-orange-600">Soft</Badge>
-                )}
-              </div>
-              <h3 className="font-mono mb-1">{key.keyAlias}</h3>
-              <p className="text-sm text-slate-500 mb-3">{key.description}</p>
-              <div className="space-y-2 text-sm">
-                <div className="flex justify-between">
-                  <span className="text-slate-500">Algorithm</span>
-                  <span className="font-mono">{key.algorithm}</span>
-                </div>
-                <div className="flex justify-between">
-                  <span className="text-slate-500">Environment</span>
-                  <span>{key.environment}</span>
-                </div>
-                <div className="flex justify-between">
-                  <span className="text-slate-500">Owner</span>
-                  <span>{key.owner}</span>
-                </div>
-                <div className="flex justify-between">
-                  <span className="text-slate-500">Created</span>
-                  <span>{new Date(key.createdAt).toLocaleDateString()}</span>
-                </div>
-                <div className="flex justify-between border-t border-slate-200 dark:border-slate-700 pt-2 mt-2">
-                  <span className="text-slate-500">Last used</span>
-                  <span>{key.lastUsed}</span>
-                </div>
-              </div>
-              <div className="mt-3 pt-3 border-t border-slate-200 dark:border-slate-700">
-                <div className="flex items-center justify-between text-xs text-slate-500">
-                  <span>Rotation: {key.rotationPolicy}</span>
-                  <Button variant="ghost" size="sm" className="h-7">
-                    View
-                  </Button>
+              {row.map(key => (
+                <div
+                  key={key.id}
+                  className="bg-white dark:bg-slate-800 rounded-lg p-5 border border-slate-200 dark:border-slate-700 hover:shadow-lg transition-shadow"
+                >
+                  <div className="flex items-start justify-between mb-3">
+                    <div className="p-3 rounded-lg bg-slate-100 dark:bg-slate-700">
+                      {key.protectionLevel === 'HSM' ? (
+                        <Shield className="h-6 w-6 text-blue-600" />
+                      ) : (
+                        <HardDrive className="h-6 w-6 text-orange-600" />
+                      )}
+                    </div>
+                    {key.protectionLevel === 'HSM' ? (
+                      <Badge className="bg-blue-600">HSM</Badge>
+                    ) : (
+                      <Badge className="bg-orange-600">Soft</Badge>
+                    )}
+                  </div>
+                  <h3 className="font-mono mb-1">{key.keyAlias}</h3>
+                  <p className="text-sm text-slate-500 mb-3">{key.description}</p>
+                  <div className="space-y-2 text-sm">
+                    <div className="flex justify-between">
+                      <span className="text-slate-500">Algorithm</span>
+                      <span className="font-mono">{key.algorithm}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-slate-500">Environment</span>
+                      <span>{key.environment}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-slate-500">Owner</span>
+                      <span>{key.owner}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-slate-500">Created</span>
+                      <span>{new Date(key.createdAt).toLocaleDateString()}</span>
+                    </div>
+                    <div className="flex justify-between border-t border-slate-200 dark:border-slate-700 pt-2 mt-2">
+                      <span className="text-slate-500">Last used</span>
+                      <span>{key.lastUsed}</span>
+                    </div>
+                  </div>
+                  <div className="mt-3 pt-3 border-t border-slate-200 dark:border-slate-700">
+                    <div className="flex items-center justify-between text-xs text-slate-500">
+                      <span>Rotation: {key.rotationPolicy}</span>
+                      <Button variant="ghost" size="sm" className="h-7">
+                        View
+                      </Button>
+                    </div>
+                  </div>
                 </div>
-              </div>
-            </motion.div>
+              ))}
+            </div>
           ))}
         </motion.div>
       )}
@@ -0,0 +1,149 @@
+import { useState, useMemo } from 'react';
+import { motion } from 'motion/react';
+import { ChevronDown, ChevronRight, ShieldCheck, ShieldQuestion, Building2, Search } from 'lucide-react';
+import { useAssetData } from '../../hooks/useAssetData';
+import { useQueryState } from '../../hooks/useQueryState';
+import { buildIssuerTree, buildChain, countDependents, IssuerNode } from '../../lib/certChain';
+import { TableSkeleton } from '../components/LoadingSkeleton';
+import { ErrorDisplay } from '../components/ErrorDisplay';
+import { CacheStatus } from '../components/CacheStatus';
+import { SavedViewsMenu } from '../components/SavedViewsMenu';
+import { Input } from '../components/ui/input';
+import { Badge } from '../components/ui/badge';
+import { Button } from '../components/ui/button';
+
+function matchesSearch(node: IssuerNode, term: string): boolean {
+  return node.name.toLowerCase().includes(term) ||
+    node.certificates.some(c => c.name.toLowerCase().includes(term) || c.domain.toLowerCase().includes(term)) ||
+    node.children.some(child => matchesSearch(child, term));
+}
+
+function IssuerTreeNode({ node, depth, searchTerm }: { node: IssuerNode; depth: number; searchTerm: string }) {
+  const [expanded, setExpanded] = useState(depth < 2);
+  const dependents = countDependents(node);
+  const Icon = node.source === 'missing' ? ShieldQuestion : node.trusted ? ShieldCheck : Building2;
+
+  if (searchTerm && !matchesSearch(node, searchTerm)) return null;
+  // Searching reveals matches even inside collapsed branches
+  const open = expanded || !!searchTerm;
+
+  return (
+    <div className={depth > 0 ? 'ml-6 border-l border-slate-200 dark:border-slate-700 pl-4' : ''}>
+      <div className="flex items-center gap-2 py-2">
+        <Button variant="ghost" size="sm" onClick={() => setExpanded(!expanded)}>
+          {open ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+        </Button>
+        <Icon
+          className={`h-5 w-5 ${
+            node.source === 'missing' ? 'text-orange-500' : node.trusted ? 'text-green-600' : 'text-blue-600'
+          }`}
+        />
+        <span>{node.name}</span>
+        {node.trusted && <Badge className="bg-green-600">Trusted root</Badge>}
+        {node.source === 'missing' && <Badge className="bg-orange-500">Unknown issuer</Badge>}
+        {node.source === 'trust-store' && !node.trusted && <Badge variant="outline">Not in inventory</Badge>}
+        <span className="text-sm text-slate-500 ml-auto">
+          {dependents} {dependents === 1 ? 'certificate' : 'certificates'}
+        </span>
+      </div>
+      {open && (
+        <div>
+          {node.children.map(child => (
+            <IssuerTreeNode key={child.name} node={child} depth={depth + 1} searchTerm={searchTerm} />
+          ))}
+          {node.certificates.length > 0 && (
+            <div className="ml-6 border-l border-slate-200 dark:border-slate-700 pl-4 space-y-1 pb-2">
+              {node.certificates.map(cert => (
+                <div
+                  key={cert.id}
+                  className="flex items-center justify-between bg-slate-50 dark:bg-slate-900/50 rounded px-3 py-2 text-sm"
+                >
+                  <div>
+                    <p>{cert.name}</p>
+                    <p className="font-mono text-xs text-slate-500">{cert.domain}</p>
+                  </div>
+                  <span className="text-xs text-slate-500">
+                    Expires {new Date(cert.expiryDate).toLocaleDateString()}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function IssuersPage() {
+  const { data: certificates, loading, refreshing, error, lastUpdated, refresh } = useAssetData('certificates');
+  const [searchTerm, setSearchTerm] = useQueryState('q', '', { replace: true });
+
+  const tree = useMemo(() => buildIssuerTree(certificates), [certificates]);
+
+  const stats = useMemo(() => {
+    const chains = certificates.map(cert => buildChain(cert, certificates));
+    return {
+      roots: tree.length,
+      trusted: chains.filter(chain => chain.status === 'trusted').length,
+      broken: chains.filter(chain => chain.status !== 'trusted').length,
+    };
+  }, [certificates, tree]);
+
+  if (loading && certificates.length === 0) return <TableSkeleton rows={8} />;
+  if (error) return <ErrorDisplay message={error.message} onRetry={refresh} />;
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl mb-2">Issuer Hierarchy</h1>
+          <p className="text-slate-500">See which certificates depend on each certificate authority.</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <SavedViewsMenu />
+          <CacheStatus lastUpdated={lastUpdated} refreshing={refreshing} onRefresh={refresh} />
+        </div>
+      </div>
+
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="grid grid-cols-1 md:grid-cols-3 gap-4"
+      >
+        <div className="bg-white dark:bg-slate-800 rounded-lg p-4 border border-slate-200 dark:border-slate-700">
+          <p className="text-sm text-slate-500">Root CAs</p>
+          <p className="text-2xl">{stats.roots}</p>
+        </div>
+        <div className="bg-white dark:bg-slate-800 rounded-lg p-4 border border-slate-200 dark:border-slate-700">
+          <p className="text-sm text-slate-500">Trusted Chains</p>
+          <p className="text-2xl text-green-600">{stats.trusted}</p>
+        </div>
+        <div className="bg-white dark:bg-slate-800 rounded-lg p-4 border border-slate-200 dark:border-slate-700">
+          <p className="text-sm text-slate-500">Broken or Untrusted Chains</p>
+          <p className="text-2xl text-orange-500">{stats.broken}</p>
+        </div>
+      </motion.div>
+
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.1 }}
+        className="bg-white dark:bg-slate-800 rounded-lg p-4 border border-slate-200 dark:border-slate-700"
+      >
+        <div className="relative mb-4">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-slate-400" />
+          <Input
+            placeholder="Search CAs, certificates or domains..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="pl-10"
+          />
+        </div>
+        {tree.map(node => (
+          <IssuerTreeNode key={node.name} node={node} depth={0} searchTerm={searchTerm.toLowerCase()} />
+        ))}
+      </motion.div>
+    </div>
+  );
+}
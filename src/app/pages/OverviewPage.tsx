@@ -0,0 +1,332 @@
+import { useMemo, ReactNode } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { motion } from 'motion/react';
+import { Bar, BarChart, CartesianGrid, Cell, Pie, PieChart, XAxis, YAxis } from 'recharts';
+import { useAssetData } from '../../hooks/useAssetData';
+import { useSshTrust } from '../../hooks/useSshTrust';
+import { useDashboard } from '../../contexts/DashboardContext';
+import { countByHealth, HEALTH_LABELS, HEALTH_ORDER } from '../../lib/certStatus';
+import { evaluatePolicies, countBySeverity } from '../../lib/policy';
+import { TRUST_LEVELS } from '../../lib/sshTrust';
+import {
+  buildAuditActivity,
+  protectionByEnvironment,
+  summarizeRotations,
+  ACTIVITY_CATEGORIES,
+  RotationSummary,
+} from '../../lib/overview';
+import { TableSkeleton } from '../components/LoadingSkeleton';
+import { ErrorDisplay } from '../components/ErrorDisplay';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from '../components/ui/chart';
+
+// The environment the soft-key KPI watches
+const PRODUCTION = 'Production';
+
+const healthConfig: ChartConfig = {
+  expired: { label: HEALTH_LABELS.expired, color: '#991b1b' },
+  critical: { label: HEALTH_LABELS.critical, color: '#ef4444' },
+  warning: { label: HEALTH_LABELS.warning, color: '#f97316' },
+  healthy: { label: HEALTH_LABELS.healthy, color: '#16a34a' },
+};
+
+const trustConfig: ChartConfig = {
+  high: { label: 'High', color: '#16a34a' },
+  medium: { label: 'Medium', color: '#ca8a04' },
+  low: { label: 'Low', color: '#dc2626' },
+};
+
+const protectionConfig: ChartConfig = {
+  HSM: { label: 'HSM', color: '#2563eb' },
+  Soft: { label: 'Software', color: '#ea580c' },
+};
+
+const rotationConfig: ChartConfig = {
+  overdue: { label: 'Overdue', color: '#dc2626' },
+  onSchedule: { label: 'On schedule', color: '#94a3b8' },
+};
+
+const activityConfig: ChartConfig = {
+  certificates: { label: 'Certificates', color: 'var(--chart-1)' },
+  ssh: { label: 'SSH keys', color: 'var(--chart-2)' },
+  keys: { label: 'Signing keys', color: 'var(--chart-3)' },
+  other: { label: 'Other', color: 'var(--chart-4)' },
+};
+
+const ROTATION_PATHS: Record<RotationSummary['assetType'], string> = {
+  sshKey: '/ssh-keys',
+  codeSigningKey: '/code-signing',
+};
+
+interface KpiLink {
+  label: string;
+  to: string;
+}
+
+function Kpi({ title, value, tone, links }: { title: string; value: number; tone: string; links: KpiLink[] }) {
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-lg p-4 border border-slate-200 dark:border-slate-700">
+      <p className="text-sm text-slate-500">{title}</p>
+      <p className={`text-2xl ${value > 0 ? tone : ''}`}>{value}</p>
+      <div className="mt-1 flex flex-wrap gap-x-3 text-xs">
+        {links.map(link => (
+          <Link key={link.to} to={link.to} className="text-blue-600 hover:underline">{link.label}</Link>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function Widget({ title, description, children }: { title: string; description: string; children: ReactNode }) {
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700 p-4">
+      <h3>{title}</h3>
+      <p className="text-sm text-slate-500 mb-4">{description}</p>
+      {children}
+    </div>
+  );
+}
+
+export function OverviewPage() {
+  const navigate = useNavigate();
+  const certificates = useAssetData('certificates');
+  const sshKeys = useAssetData('sshKeys');
+  const codeSigningKeys = useAssetData('codeSigningKeys');
+  const auditLogs = useAssetData('auditLogs');
+  const { expiryThresholds, cryptoPolicy } = useDashboard();
+
+  const health = useMemo(
+    () => countByHealth(certificates.data, expiryThresholds),
+    [certificates.data, expiryThresholds]
+  );
+  const { scores: trustScores } = useSshTrust(sshKeys.data);
+  const environments = useMemo(() => protectionByEnvironment(codeSigningKeys.data), [codeSigningKeys.data]);
+  const rotations = useMemo(
+    () => summarizeRotations(sshKeys.data, codeSigningKeys.data, cryptoPolicy),
+    [sshKeys.data, codeSigningKeys.data, cryptoPolicy]
+  );
+  const activity = useMemo(() => buildAuditActivity(auditLogs.data), [auditLogs.data]);
+  const findings = useMemo(() => countBySeverity(evaluatePolicies({
+    certificates: certificates.data,
+    sshKeys: sshKeys.data,
+    codeSigningKeys: codeSigningKeys.data,
+  }, cryptoPolicy)), [certificates.data, sshKeys.data, codeSigningKeys.data, cryptoPolicy]);
+
+  const sources = [certificates, sshKeys, codeSigningKeys, auditLogs];
+  const loading = sources.some(s => s.loading && s.data.length === 0);
+  const error = sources.find(s => s.error)?.error;
+
+  if (loading) return <TableSkeleton rows={8} />;
+  if (error) return <ErrorDisplay message={error.message} onRetry={() => sources.forEach(s => s.refresh())} />;
+
+  const healthData = HEALTH_ORDER.map(status => ({ status, label: HEALTH_LABELS[status], count: health[status] }));
+  const trustData = TRUST_LEVELS.map(level => ({
+    level,
+    count: sshKeys.data.filter(k => trustScores.get(k.id)?.level === level).length,
+  }));
+  const activityData = activity.map(day => ({ date: day.date, label: day.label, ...day.counts }));
+  const activityTotal = activity.reduce((sum, day) => sum + day.total, 0);
+  const softProduction = environments.find(e => e.environment === PRODUCTION)?.Soft ?? 0;
+  const [sshRotation, signingRotation] = rotations;
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-2xl mb-2">Overview</h1>
+        <p className="text-slate-500">Security posture across certificates, SSH keys, code signing keys and audit activity.</p>
+      </div>
+
+      {/* KPIs */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="grid grid-cols-1 md:grid-cols-5 gap-4"
+      >
+        <Kpi
+          title={`Certificates expiring within ${expiryThresholds.warning} days`}
+          value={health.critical + health.warning}
+          tone="text-orange-500"
+          links={[
+            { label: `${health.critical} critical`, to: '/certificates?status=critical' },
+            { label: `${health.warning} expiring soon`, to: '/certificates?status=warning' },
+          ]}
+        />
+        <Kpi
+          title="Low-trust SSH keys"
+          value={trustData.find(t => t.level === 'low')?.count ?? 0}
+          tone="text-red-600"
+          links={[{ label: 'Review keys', to: '/ssh-keys?trust=low' }]}
+        />
+        <Kpi
+          title={`Software-protected ${PRODUCTION.toLowerCase()} signing keys`}
+          value={softProduction}
+          tone="text-red-600"
+          links={[{ label: 'Review keys', to: `/code-signing?environment=${PRODUCTION}&protection=Soft` }]}
+        />
+        <Kpi
+          title="Overdue rotations"
+          value={sshRotation.overdue + signingRotation.overdue}
+          tone="text-orange-500"
+          links={[
+            { label: `${sshRotation.overdue} SSH`, to: '/ssh-keys?rotation=overdue' },
+            { label: `${signingRotation.overdue} signing`, to: '/code-signing?rotation=overdue' },
+          ]}
+        />
+        <Kpi
+          title="Critical policy findings"
+          value={findings.critical}
+          tone="text-red-600"
+          links={[
+            { label: 'Review findings', to: '/policies?severity=critical' },
+            { label: `${findings.high} high`, to: '/policies?severity=high' },
+          ]}
+        />
+      </motion.div>
+
+      {/* Widgets */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.1 }}
+        className="grid grid-cols-1 lg:grid-cols-2 gap-4"
+      >
+        <Widget title="Certificate health" description="Certificates by expiry status. Click a bar to list them.">
+          <ChartContainer config={healthConfig} className="aspect-auto h-64 w-full">
+            <BarChart data={healthData}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="label" tickLine={false} axisLine={false} />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+              <ChartTooltip content={<ChartTooltipContent hideLabel nameKey="status" />} />
+              <Bar
+                dataKey="count"
+                radius={4}
+                className="cursor-pointer"
+                onClick={(_, index) => navigate(`/certificates?status=${healthData[index].status}`)}
+              >
+                {healthData.map(entry => (
+                  <Cell key={entry.status} fill={`var(--color-${entry.status})`} />
+                ))}
+              </Bar>
+            </BarChart>
+          </ChartContainer>
+        </Widget>
+
+        <Widget title="SSH key trust" description="Keys by trust level. Click a segment to list them.">
+          <ChartContainer config={trustConfig} className="aspect-auto h-64 w-full">
+            <PieChart>
+              <ChartTooltip content={<ChartTooltipContent hideLabel nameKey="level" />} />
+              <Pie
+                data={trustData}
+                dataKey="count"
+                nameKey="level"
+                innerRadius={55}
+                strokeWidth={4}
+                className="cursor-pointer"
+                onClick={(_, index) => navigate(`/ssh-keys?trust=${trustData[index].level}`)}
+              >
+                {trustData.map(entry => (
+                  <Cell key={entry.level} fill={`var(--color-${entry.level})`} />
+                ))}
+              </Pie>
+              <ChartLegend content={<ChartLegendContent nameKey="level" />} />
+            </PieChart>
+          </ChartContainer>
+        </Widget>
+
+        <Widget title="Signing key protection" description="Code signing keys per environment, HSM versus software. Click a bar to list them.">
+          <ChartContainer config={protectionConfig} className="aspect-auto h-64 w-full">
+            <BarChart data={environments}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="environment" tickLine={false} axisLine={false} />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              {(['HSM', 'Soft'] as const).map(protection => (
+                <Bar
+                  key={protection}
+                  dataKey={protection}
+                  stackId="protection"
+                  fill={`var(--color-${protection})`}
+                  className="cursor-pointer"
+                  onClick={(_, index) => navigate(
+                    `/code-signing?environment=${encodeURIComponent(environments[index].environment)}&protection=${protection}`
+                  )}
+                />
+              ))}
+            </BarChart>
+          </ChartContainer>
+        </Widget>
+
+        <Widget title="Key rotation" description="Keys past their rotation deadline. Click a bar to list them.">
+          <ChartContainer config={rotationConfig} className="aspect-auto h-64 w-full">
+            <BarChart data={rotations} layout="vertical">
+              <CartesianGrid horizontal={false} />
+              <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+              <YAxis type="category" dataKey="label" tickLine={false} axisLine={false} width={90} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Bar
+                dataKey="overdue"
+                stackId="rotation"
+                fill="var(--color-overdue)"
+                className="cursor-pointer"
+                onClick={(_, index) => navigate(`${ROTATION_PATHS[rotations[index].assetType]}?rotation=overdue`)}
+              />
+              <Bar
+                dataKey="onSchedule"
+                stackId="rotation"
+                fill="var(--color-onSchedule)"
+                className="cursor-pointer"
+                onClick={(_, index) => navigate(ROTATION_PATHS[rotations[index].assetType])}
+              />
+            </BarChart>
+          </ChartContainer>
+        </Widget>
+      </motion.div>
+
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.2 }}
+      >
+        <Widget
+          title="Audit activity"
+          description={`${activityTotal} entries over the 30 days up to the latest one. Click a day to see its entries.`}
+        >
+          {activityData.length === 0 ? (
+            <p className="py-8 text-center text-sm text-slate-500">No audit entries yet.</p>
+          ) : (
+            <ChartContainer config={activityConfig} className="aspect-auto h-72 w-full">
+              <BarChart data={activityData}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+                <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                {ACTIVITY_CATEGORIES.map(category => (
+                  <Bar
+                    key={category}
+                    dataKey={category}
+                    stackId="activity"
+                    fill={`var(--color-${category})`}
+                    className="cursor-pointer"
+                    onClick={(_, index) => {
+                      const { date } = activityData[index];
+                      navigate(`/audit-logs?from=${date}&to=${date}`);
+                    }}
+                  />
+                ))}
+              </BarChart>
+            </ChartContainer>
+          )}
+        </Widget>
+      </motion.div>
+    </div>
+  );
+}
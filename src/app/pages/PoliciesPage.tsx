@@ -0,0 +1,266 @@
+import { useState, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { motion } from 'motion/react';
+import { toast } from 'sonner';
+import { Download, SlidersHorizontal } from 'lucide-react';
+import { useAssetData } from '../../hooks/useAssetData';
+import { useQueryState } from '../../hooks/useQueryState';
+import { useDashboard } from '../../contexts/DashboardContext';
+import { buildAuditEntry } from '../../lib/audit';
+import { downloadCsv } from '../../lib/csv';
+import {
+  evaluatePolicies,
+  countBySeverity,
+  describePolicyChanges,
+  CryptoPolicy,
+  POLICY_RULES,
+  SEVERITY_ORDER,
+  SEVERITY_LABELS,
+  ASSET_TYPE_LABELS,
+  PolicyAssetType,
+  Severity,
+} from '../../lib/policy';
+import { TableSkeleton } from '../components/LoadingSkeleton';
+import { ErrorDisplay } from '../components/ErrorDisplay';
+import { SeverityBadge } from '../components/SeverityBadge';
+import { PolicySettingsDialog } from '../components/PolicySettingsDialog';
+import { SavedViewsMenu } from '../components/SavedViewsMenu';
+import { Button } from '../components/ui/button';
+import { Switch } from '../components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '../components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '../components/ui/table';
+
+const SEVERITY_TEXT: Record<Severity, string> = {
+  critical: 'text-red-600',
+  high: 'text-orange-500',
+  medium: 'text-yellow-600',
+  low: 'text-slate-500',
+};
+
+export function PoliciesPage() {
+  const certificates = useAssetData('certificates');
+  const sshKeys = useAssetData('sshKeys');
+  const codeSigningKeys = useAssetData('codeSigningKeys');
+  const { create: createAuditLog } = useAssetData('auditLogs');
+  const { cryptoPolicy, setCryptoPolicy } = useDashboard();
+  const [filterSeverity, setFilterSeverity] = useQueryState('severity', 'all');
+  const [filterType, setFilterType] = useQueryState('type', 'all');
+  const [editing, setEditing] = useState(false);
+
+  const findings = useMemo(() => evaluatePolicies({
+    certificates: certificates.data,
+    sshKeys: sshKeys.data,
+    codeSigningKeys: codeSigningKeys.data,
+  }, cryptoPolicy), [certificates.data, sshKeys.data, codeSigningKeys.data, cryptoPolicy]);
+
+  const filteredFindings = useMemo(() => findings.filter(f =>
+    (filterSeverity === 'all' || f.severity === filterSeverity) &&
+    (filterType === 'all' || f.assetType === filterType)
+  ), [findings, filterSeverity, filterType]);
+
+  const violationsByRule = useMemo(() => {
+    const counts = new Map<string, number>();
+    findings.forEach(f => counts.set(f.ruleId, (counts.get(f.ruleId) ?? 0) + 1));
+    return counts;
+  }, [findings]);
+
+  const sources = [certificates, sshKeys, codeSigningKeys];
+  const loading = sources.some(s => s.loading && s.data.length === 0);
+  const error = sources.find(s => s.error)?.error;
+
+  const savePolicy = async (next: CryptoPolicy) => {
+    const changes = describePolicyChanges(cryptoPolicy, next);
+    if (Object.keys(changes).length === 0) return;
+    setCryptoPolicy(next);
+    toast.success('Policy updated');
+    await createAuditLog(buildAuditEntry(
+      'POLICY_UPDATED',
+      { targetResource: 'Cryptographic policy', resourcePath: '/policies/crypto' },
+      { policy_type: 'crypto', changes, effective_date: new Date().toISOString().slice(0, 10) }
+    ));
+  };
+
+  const toggleRule = (ruleId: string, enabled: boolean) => savePolicy({
+    ...cryptoPolicy,
+    disabledRules: enabled
+      ? cryptoPolicy.disabledRules.filter(id => id !== ruleId)
+      : [...cryptoPolicy.disabledRules, ruleId],
+  });
+
+  const exportFindings = () => {
+    const headers = ['Severity', 'Asset Type', 'Asset', 'Rule', 'Finding'];
+    downloadCsv('policy-findings', headers, filteredFindings.map(f => [
+      SEVERITY_LABELS[f.severity],
+      ASSET_TYPE_LABELS[f.assetType],
+      f.assetName,
+      f.ruleTitle,
+      f.message,
+    ]));
+  };
+
+  if (loading) return <TableSkeleton rows={10} />;
+  if (error) return <ErrorDisplay message={error.message} onRetry={() => sources.forEach(s => s.refresh())} />;
+
+  const counts = countBySeverity(findings);
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl mb-2">Policies</h1>
+          <p className="text-slate-500">Compliance of certificates, SSH keys and code signing keys with the cryptographic policy.</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <SavedViewsMenu />
+          <Button variant="outline" size="sm" onClick={() => setEditing(true)}>
+            <SlidersHorizontal className="h-4 w-4 mr-2" />
+            Edit policy
+          </Button>
+        </div>
+      </div>
+
+      {/* Stats */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="grid grid-cols-1 md:grid-cols-4 gap-4"
+      >
+        {SEVERITY_ORDER.map(severity => (
+          <div key={severity} className="bg-white dark:bg-slate-800 rounded-lg p-4 border border-slate-200 dark:border-slate-700">
+            <p className="text-sm text-slate-500">{SEVERITY_LABELS[severity]}</p>
+            <p className={`text-2xl ${SEVERITY_TEXT[severity]}`}>{counts[severity]} findings</p>
+          </div>
+        ))}
+      </motion.div>
+
+      {/* Rules */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.1 }}
+        className="bg-white dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700 overflow-hidden"
+      >
+        <div className="p-4 border-b border-slate-200 dark:border-slate-700">
+          <h2 className="text-lg">Rules</h2>
+        </div>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Enabled</TableHead>
+              <TableHead>Rule</TableHead>
+              <TableHead>Applies To</TableHead>
+              <TableHead>Severity</TableHead>
+              <TableHead>Violations</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {POLICY_RULES.map(rule => {
+              const enabled = !cryptoPolicy.disabledRules.includes(rule.id);
+              return (
+                <TableRow key={rule.id} className={enabled ? '' : 'opacity-50'}>
+                  <TableCell>
+                    <Switch checked={enabled} onCheckedChange={checked => toggleRule(rule.id, checked)} />
+                  </TableCell>
+                  <TableCell>
+                    <p>{rule.title}</p>
+                    <p className="text-xs text-slate-500">{rule.describe(cryptoPolicy)}</p>
+                  </TableCell>
+                  <TableCell>{ASSET_TYPE_LABELS[rule.assetType]}</TableCell>
+                  <TableCell><SeverityBadge severity={rule.severity} /></TableCell>
+                  <TableCell>{enabled ? violationsByRule.get(rule.id) ?? 0 : '-'}</TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </motion.div>
+
+      {/* Findings */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.2 }}
+        className="bg-white dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700 overflow-hidden"
+      >
+        <div className="p-4 border-b border-slate-200 dark:border-slate-700 flex flex-col md:flex-row md:items-center gap-4">
+          <h2 className="text-lg flex-1">Findings</h2>
+          <Select value={filterSeverity} onValueChange={setFilterSeverity}>
+            <SelectTrigger className="w-full md:w-48">
+              <SelectValue placeholder="Filter by severity" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All severities</SelectItem>
+              {SEVERITY_ORDER.map(severity => (
+                <SelectItem key={severity} value={severity}>{SEVERITY_LABELS[severity]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={filterType} onValueChange={setFilterType}>
+            <SelectTrigger className="w-full md:w-56">
+              <SelectValue placeholder="Filter by asset type" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All asset types</SelectItem>
+              {(Object.keys(ASSET_TYPE_LABELS) as PolicyAssetType[]).map(type => (
+                <SelectItem key={type} value={type}>{ASSET_TYPE_LABELS[type]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" onClick={exportFindings} disabled={filteredFindings.length === 0}>
+            <Download className="h-4 w-4 mr-2" />
+            Export CSV
+          </Button>
+        </div>
+        {filteredFindings.length === 0 ? (
+          <p className="p-8 text-center text-sm text-slate-500">No findings. Everything in scope complies with the policy.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Severity</TableHead>
+                <TableHead>Asset</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Rule</TableHead>
+                <TableHead>Finding</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filteredFindings.map(finding => (
+                <TableRow key={`${finding.ruleId}:${finding.assetId}`}>
+                  <TableCell><SeverityBadge severity={finding.severity} /></TableCell>
+                  <TableCell>
+                    <Link to={finding.path} className="text-blue-600 hover:underline">{finding.assetName}</Link>
+                  </TableCell>
+                  <TableCell>{ASSET_TYPE_LABELS[finding.assetType]}</TableCell>
+                  <TableCell>{finding.ruleTitle}</TableCell>
+                  <TableCell className="text-sm text-slate-600 dark:text-slate-300">{finding.message}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </motion.div>
+
+      <PolicySettingsDialog
+        open={editing}
+        onOpenChange={setEditing}
+        policy={cryptoPolicy}
+        onSave={savePolicy}
+      />
+    </div>
+  );
+}
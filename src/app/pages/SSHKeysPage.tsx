@@ -1,9 +1,30 @@
 import { useState, useEffect, useMemo } from 'react';
-import { motion, AnimatePresence } from 'motion/react';
-import { Search, ChevronDown, ChevronUp, Server, Eye, Edit, Bookmark, Download } from 'lucide-react';
+import { motion } from 'motion/react';
+import { toast } from 'sonner';
+import { Search, Eye, Edit, Bookmark, BookmarkCheck, Download, Upload, AlertTriangle } from 'lucide-react';
+import { useAssetData } from '../../hooks/useAssetData';
+import { useQueryState, useTableQueryState } from '../../hooks/useQueryState';
+import { useListQuery } from '../../hooks/useListQuery';
+import { useRowSelection } from '../../hooks/useRowSelection';
+import { useSshTrust } from '../../hooks/useSshTrust';
+import { downloadCsv } from '../../lib/csv';
+import { buildAuditEntry, diffFields } from '../../lib/audit';
+import { isSha256Fingerprint, toSshKeyRecord, ParsedSshKey } from '../../lib/openssh';
+import { broadSshPrincipals, isSshCertificateExpiring, sshCertificateDaysLeft } from '../../lib/policy';
+import { TRUST_LABELS, TrustLevel } from '../../lib/sshTrust';
 import { useDashboard } from '../../contexts/DashboardContext';
 import { TableSkeleton } from '../components/LoadingSkeleton';
 import { ErrorDisplay } from '../components/ErrorDisplay';
+import { CacheStatus } from '../components/CacheStatus';
+import { SavedViewsMenu } from '../components/SavedViewsMenu';
+import { DataQualityPanel } from '../components/DataQualityPanel';
+import { AssetTable, AssetColumn } from '../components/AssetTable';
+import { BulkActionBar } from '../components/BulkActionBar';
+import { TagList } from '../components/TagList';
+import { SSHKeyImportDialog, SshKeyImport } from '../components/SSHKeyImportDialog';
+import { SSHKeyDetails } from '../components/SSHKeyDetails';
+import { SSHKeyDetailsSheet } from '../components/SSHKeyDetailsSheet';
+import { SSHKeyEditSheet, SSHKeyEdit } from '../components/SSHKeyEditSheet';
 import { Input } from '../components/ui/input';
 import { Badge } from '../components/ui/badge';
 import {
@@ -13,37 +34,29 @@ import {
   SelectTrigger,
   SelectValue,
 } from '../components/ui/select';
-import {
-  Table,
-  TableBody,
-  TableCell,
-  TableHead,
-  TableHeader,
-  TableRow,
-} from '../components/ui/table';
 import { Button } from '../components/ui/button';
-import sshKeysData from '../../data/sshKeys.json';
+import type { SSHKey } from '../../types/assets';
 
-interface SSHKey {
-  id: string;
-  keyOwner: string;
-  fingerprint: string;
-  lastUsed: string;
-  trustLevel: 'high' | 'medium' | 'low';
-  algorithm: string;
-  createdAt: string;
-  associatedServers: string[];
-}
+const EDITABLE_FIELDS: (keyof SSHKeyEdit)[] = ['owner', 'trustOverride', 'associatedServers', 'notes'];
 
 export function SSHKeysPage() {
-  const { setCachedData } = useDashboard();
-  const [keys, setKeys] = useState<SSHKey[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState(false);
-  const [searchTerm, setSearchTerm] = useState('');
-  const [sortBy, setSortBy] = useState('trustLevel');
-  const [expandedRows, setExpandedRows] = useState<Set<string>>(new Set());
-  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const { data: keys, create: createKey, update: updateKey, updateMany, recordAuditEntries, loading, refreshing, error, lastUpdated, quarantined, refresh } = useAssetData('sshKeys');
+  const { data: auditLogs } = useAssetData('auditLogs');
+  const { cryptoPolicy, watchedSshKeys, toggleWatchedSshKey } = useDashboard();
+  const { context: trust, scores } = useSshTrust(keys);
+  const [searchTerm, setSearchTerm] = useQueryState('q', '', { replace: true, resets: ['page'] });
+  const [filterTrust, setFilterTrust] = useQueryState('trust', 'all', { resets: ['page'] });
+  const [filterRotation, setFilterRotation] = useQueryState('rotation', 'all', { resets: ['page'] });
+  const [filterKind, setFilterKind] = useQueryState('kind', 'all', { resets: ['page'] });
+  const [filterWatch, setFilterWatch] = useQueryState('watch', 'all', { resets: ['page'] });
+  const table = useTableQueryState('-trustLevel');
+  // ?open=<id> expands that key's row, e.g. from the command palette
+  const [openId, setOpenId] = useQueryState('open', '');
+  const [debouncedSearch, setDebouncedSearch] = useState(searchTerm);
+  const [importOpen, setImportOpen] = useState(false);
+  const [viewingId, setViewingId] = useState('');
+  const [editingKey, setEditingKey] = useState<SSHKey | null>(null);
+  const viewingKey = keys.find(key => key.id === viewingId) ?? null;
 
   useEffect(() => {
     const timer = setTimeout(() => {
@@ -52,123 +65,269 @@ export function SSHKeysPage() {
     return () => clearTimeout(timer);
   }, [searchTerm]);
 
-  useEffect(() => {
-    loadData();
-  }, []);
-
-  const loadData = async () => {
-    try {
-      const cached = localStorage.getItem('cache_sshKeys');
-      if (cached) {
-        const { data } = JSON.parse(cached);
-        setKeys(data);
-        setLoading(false);
-      }
-
-      await new Promise(resolve => setTimeout(resolve, 600));
-      
-      setKeys(sshKeysData);
-      setCachedData('sshKeys', sshKeysData);
-      setLoading(false);
-      setError(false);
-    } catch (err) {
-      setError(true);
-      setLoading(false);
-    }
-  };
-
-  const toggleRow = (id: string) => {
-    setExpandedRows(prev => {
-      const newSet = new Set(prev);
-      if (newSet.has(id)) {
-        newSet.delete(id);
-      } else {
-        newSet.add(id);
-      }
-      return newSet;
-    });
-  };
-
-  const getTrustLevelBadge = (level: string) => {
+  const getTrustLevelBadge = (level: TrustLevel, score: number) => {
     const colors = {
       high: 'bg-green-600',
       medium: 'bg-yellow-600',
       low: 'bg-red-600',
     };
     return (
-      <Badge className={colors[level as keyof typeof colors]}>
-        {level.charAt(0).toUpperCase() + level.slice(1)}
+      <Badge className={colors[level]} title={`Trust score ${score}/100`}>
+        {TRUST_LABELS[level]} · {score}
       </Badge>
     );
   };
 
-  const getTrustLevelValue = (level: string) => {
-    const values = { high: 3, medium: 2, low: 1 };
-    return values[level as keyof typeof values];
-  };
+  const { rows: filtered, pending: filtering } = useListQuery('sshKeys', keys, {
+    trust: filterTrust,
+    rotation: filterRotation,
+    kind: filterKind,
+    search: debouncedSearch,
+    policy: cryptoPolicy,
+    trustThresholds: trust.thresholds,
+    logins: trust.logins,
+    watched: filterWatch === 'watched' ? watchedSshKeys : null,
+    sort: table.sort,
+  });
+  const selection = useRowSelection(filtered, key => key.id);
+
+  const owners = useMemo(
+    () => [...new Set(keys.flatMap(k => k.owner ? [k.owner] : []))].sort(),
+    [keys]
+  );
+
+  const columns = useMemo<AssetColumn<SSHKey>[]>(() => [
+    {
+      id: 'owner',
+      header: 'Key Owner',
+      cell: key => (
+        <span className="flex items-center gap-2">
+          {key.keyOwner}
+          {key.disabledAt && <Badge variant="outline" className="text-red-600 border-red-600">Disabled</Badge>}
+        </span>
+      ),
+      sortable: true,
+    },
+    {
+      id: 'kind',
+      header: 'Type',
+      cell: key => {
+        const daysLeft = sshCertificateDaysLeft(key);
+        const broad = broadSshPrincipals(key, cryptoPolicy);
+        return (
+          <div className="flex flex-wrap gap-1">
+            {key.certificateAuthority
+              ? <Badge className="bg-indigo-600">{key.certificateAuthority === 'user' ? 'User CA' : 'Host CA'}</Badge>
+              : key.certificate
+                ? <Badge className="bg-blue-600">{key.certificate.type === 'user' ? 'User cert' : 'Host cert'}</Badge>
+                : <Badge variant="outline">Bare key</Badge>}
+            {isSshCertificateExpiring(key, cryptoPolicy) && (
+              <Badge variant="outline" className="text-red-600 border-red-600">
+                {daysLeft! < 0 ? 'Expired' : `Expires in ${daysLeft}d`}
+              </Badge>
+            )}
+            {broad && (
+              <Badge variant="outline" className="text-orange-600 border-orange-600" title={broad}>
+                Broad principals
+              </Badge>
+            )}
+          </div>
+        );
+      },
+      sortable: true,
+    },
+    {
+      id: 'fingerprint',
+      header: 'Fingerprint',
+      cell: key => (
+        <span className="flex items-center gap-1">
+          {`${key.fingerprint.substring(0, 40)}...`}
+          {!isSha256Fingerprint(key.fingerprint) && (
+            <AlertTriangle className="h-3 w-3 text-red-600" aria-label="Not a valid SHA256 fingerprint" />
+          )}
+        </span>
+      ),
+      sortable: true,
+      className: 'font-mono text-xs',
+    },
+    { id: 'lastUsed', header: 'Last Used', cell: key => key.lastUsed ?? 'Never', sortable: true, className: 'text-sm' },
+    {
+      id: 'trustLevel',
+      header: 'Trust Level',
+      cell: key => {
+        const { level, score } = scores.get(key.id)!;
+        return getTrustLevelBadge(level, score);
+      },
+      sortable: true,
+    },
+    { id: 'algorithm', header: 'Algorithm', cell: key => key.algorithm, sortable: true, defaultHidden: true },
+    {
+      id: 'createdAt',
+      header: 'Created',
+      cell: key => new Date(key.createdAt).toLocaleDateString(),
+      sortable: true,
+      defaultHidden: true,
+      className: 'text-sm',
+    },
+    { id: 'assignedOwner', header: 'Assigned Owner', cell: key => key.owner ?? '—', defaultHidden: true },
+    { id: 'tags', header: 'Tags', cell: key => <TagList tags={key.tags} />, defaultHidden: true },
+    {
+      id: 'actions',
+      header: 'Actions',
+      fixed: true,
+      cell: key => {
+        const watched = watchedSshKeys.includes(key.id);
+        return (
+          <div className="flex gap-2">
+            <Button variant="ghost" size="sm" title="Details" onClick={() => setViewingId(key.id)}>
+              <Eye className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="sm" title="Edit" onClick={() => setEditingKey(key)}>
+              <Edit className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              title={watched ? 'Stop watching' : 'Watch for logins and changes'}
+              aria-pressed={watched}
+              onClick={() => toggleWatchedSshKey(key.id)}
+            >
+              {watched ? <BookmarkCheck className="h-4 w-4 text-blue-600" /> : <Bookmark className="h-4 w-4" />}
+            </Button>
+          </div>
+        );
+      },
+    },
+  ], [cryptoPolicy, scores, watchedSshKeys, toggleWatchedSshKey]);
 
-  const filteredAndSorted = useMemo(() => {
-    let result = [...keys];
+  const exportToCSV = (rows: SSHKey[]) => {
+    const headers = ['Key Owner', 'Type', 'Fingerprint', 'Last Used', 'Trust Level', 'Trust Score', 'Algorithm', 'Created At', 'Assigned Owner', 'Tags', 'Disabled At', 'Principals', 'Certificate Valid Until'];
+    downloadCsv('ssh-keys', headers, rows.map(key => [
+      key.keyOwner,
+      key.certificateAuthority ? `${key.certificateAuthority} CA` : key.certificate ? `${key.certificate.type} certificate` : 'bare key',
+      key.fingerprint,
+      key.lastUsed ?? '',
+      scores.get(key.id)?.level ?? '',
+      scores.get(key.id)?.score ?? '',
+      key.algorithm,
+      key.createdAt,
+      key.owner ?? '',
+      (key.tags ?? []).join(' '),
+      key.disabledAt ?? '',
+      key.certificate?.principals.join(' ') ?? '',
+      key.certificate ? key.certificate.validBefore ?? 'forever' : ''
+    ]));
+  };
 
-    if (debouncedSearch) {
-      result = result.filter(k => 
-        k.keyOwner.toLowerCase().includes(debouncedSearch.toLowerCase()) ||
-        k.fingerprint.toLowerCase().includes(debouncedSearch.toLowerCase())
-      );
+  // The ssh-cert-* policy findings for a CA-signed key
+  const certificateWarnings = (key: SSHKey) => {
+    const warnings: string[] = [];
+    if (isSshCertificateExpiring(key, cryptoPolicy)) {
+      const daysLeft = sshCertificateDaysLeft(key)!;
+      warnings.push(daysLeft < 0 ? 'Certificate has expired' : `Certificate expires in ${daysLeft} days`);
     }
+    const broad = broadSshPrincipals(key, cryptoPolicy);
+    if (broad) warnings.push(broad);
+    return warnings;
+  };
 
-    result.sort((a, b) => {
-      if (sortBy === 'trustLevel') {
-        return getTrustLevelValue(b.trustLevel) - getTrustLevelValue(a.trustLevel);
-      }
-      return a.keyOwner.localeCompare(b.keyOwner);
+  const saveKey = async (original: SSHKey, edit: SSHKeyEdit) => {
+    const changes = diffFields<SSHKeyEdit>(original, edit, EDITABLE_FIELDS);
+    if (Object.keys(changes).length === 0) {
+      setEditingKey(null);
+      return;
+    }
+    const saved = await updateKey(original.id, edit, {
+      audit: (_, after) => buildAuditEntry(
+        'SSH_KEY_UPDATED',
+        { targetResource: `SSH key ${after.keyOwner}`, resourcePath: `/ssh/keys/${after.id}` },
+        { changes }
+      ),
     });
+    if (saved) {
+      setEditingKey(null);
+      toast.success('SSH key updated');
+    }
+  };
+
+  const findExistingKey = (parsed: ParsedSshKey) =>
+    keys.find(k => k.fingerprint === parsed.fingerprints.sha256);
 
-    return result;
-  }, [keys, debouncedSearch, sortBy]);
+  const importKeys = async (imports: SshKeyImport[]) => {
+    // The same key usually turns up in several hosts' files; each becomes one record
+    const byFingerprint = new Map<string, { key: ParsedSshKey; servers: Set<string>; sources: Set<string> }>();
+    for (const { key, servers, source } of imports) {
+      const entry = byFingerprint.get(key.fingerprints.sha256) ?? { key, servers: new Set(), sources: new Set() };
+      servers.forEach(server => entry.servers.add(server));
+      entry.sources.add(source);
+      byFingerprint.set(key.fingerprints.sha256, entry);
+    }
 
-  const exportToCSV = () => {
-    const headers = ['Key Owner', 'Fingerprint', 'Last Used', 'Trust Level', 'Algorithm', 'Created At'];
-    const csvContent = [
-      headers.join(','),
-      ...filteredAndSorted.map(key => [
-        key.keyOwner,
-        key.fingerprint,
-        key.lastUsed,
-        key.trustLevel,
-        key.algorithm,
-        key.createdAt
-      ].join(','))
-    ].join('\n');
+    // Keys that signed a certificate, here or already on record, are CAs of that certificate's type
+    const signers = new Map<string, 'user' | 'host'>();
+    [...keys.map(k => k.certificate), ...imports.map(({ key }) => key.certificate)].forEach(cert => {
+      if (cert) signers.set(cert.signingCaFingerprint, cert.type);
+    });
 
-    const blob = new Blob([csvContent], { type: 'text/csv' });
-    const url = window.URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `ssh-keys-${new Date().toISOString().split('T')[0]}.csv`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    window.URL.revokeObjectURL(url);
+    let imported = 0;
+    for (const { key, servers, sources } of byFingerprint.values()) {
+      const existing = findExistingKey(key);
+      const audit = (saved: SSHKey) => buildAuditEntry(
+        'KEY_IMPORTED',
+        { targetResource: `SSH key ${saved.keyOwner}`, resourcePath: `/ssh/keys/${saved.id}` },
+        {
+          import_source: [...sources].join(', '),
+          key_type: key.algorithm,
+          fingerprint_sha256: key.fingerprints.sha256,
+          replaced_existing: !!existing,
+        }
+      );
+      const record = toSshKeyRecord(key, [...servers]);
+      const signs = signers.get(record.fingerprint);
+      if (signs && !record.certificateAuthority) record.certificateAuthority = signs;
+      // Keep the owner and dates already on record; servers accumulate
+      const { keyOwner, lastUsed, createdAt, associatedServers, ...details } = record;
+      const saved = existing
+        ? await updateKey(existing.id, {
+          ...details,
+          certificateAuthority: details.certificateAuthority ?? existing.certificateAuthority,
+          associatedServers: [...new Set([...existing.associatedServers, ...associatedServers])],
+        }, { audit: (_, after) => audit(after) })
+        : await createKey(record, { audit });
+      if (saved) imported++;
+    }
+    if (imported > 0) {
+      toast.success(`Imported ${imported} SSH key${imported === 1 ? '' : 's'}`);
+    }
   };
 
   if (loading && keys.length === 0) return <TableSkeleton rows={8} />;
-  if (error) return <ErrorDisplay onRetry={loadData} />;
+  if (error) return <ErrorDisplay message={error.message} onRetry={refresh} />;
 
   const stats = {
     total: keys.length,
-    high: keys.filter(k => k.trustLevel === 'high').length,
-    medium: keys.filter(k => k.trustLevel === 'medium').length,
-    low: keys.filter(k => k.trustLevel === 'low').length,
+    high: keys.filter(k => scores.get(k.id)?.level === 'high').length,
+    medium: keys.filter(k => scores.get(k.id)?.level === 'medium').length,
+    low: keys.filter(k => scores.get(k.id)?.level === 'low').length,
+    signed: keys.filter(k => k.certificate).length,
+    authorities: keys.filter(k => k.certificateAuthority).length,
   };
 
   return (
     <div className="p-6 space-y-6">
-      <div>
-        <h1 className="text-2xl mb-2">SSH Keys</h1>
-        <p className="text-slate-500">Manage SSH keys and server access.</p>
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl mb-2">SSH Keys</h1>
+          <p className="text-slate-500">Manage SSH keys and server access.</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <SavedViewsMenu />
+          <CacheStatus lastUpdated={lastUpdated} refreshing={refreshing} onRefresh={refresh} />
+        </div>
       </div>
 
+      <DataQualityPanel records={quarantined} />
+
       <motion.div
         initial={{ opacity: 0, y: 20 }}
         animate={{ opacity: 1, y: 0 }}
@@ -177,6 +336,9 @@ export function SSHKeysPage() {
         <div className="bg-white dark:bg-slate-800 rounded-lg p-4 border border-slate-200 dark:border-slate-700">
           <p className="text-sm text-slate-500">Total Keys</p>
           <p className="text-2xl">{stats.total} keys</p>
+          <p className="text-xs text-slate-500 mt-1">
+            {stats.signed} CA-signed · {stats.total - stats.signed - stats.authorities} bare · {stats.authorities} CAs
+          </p>
         </div>
         <div className="bg-white dark:bg-slate-800 rounded-lg p-4 border border-slate-200 dark:border-slate-700">
           <p className="text-sm text-slate-500">High Trust</p>
@@ -202,24 +364,56 @@ export function SSHKeysPage() {
           <div className="flex-1 relative">
             <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-slate-400" />
             <Input
-              placeholder="Search by owner or fingerprint..."
+              placeholder="Search by owner, fingerprint, key ID or principal..."
               value={searchTerm}
               onChange={(e) => setSearchTerm(e.target.value)}
               className="pl-10"
             />
           </div>
-          <Select value={sortBy} onValueChange={setSortBy}>
-            <SelectTrigger className="w-full md:w-64">
-              <SelectValue placeholder="Sort by" />
+          <Select value={filterTrust} onValueChange={setFilterTrust}>
+            <SelectTrigger className="w-full md:w-48">
+              <SelectValue placeholder="Filter by trust" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All trust levels</SelectItem>
+              <SelectItem value="high">High</SelectItem>
+              <SelectItem value="medium">Medium</SelectItem>
+              <SelectItem value="low">Low</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={filterRotation} onValueChange={setFilterRotation}>
+            <SelectTrigger className="w-full md:w-48">
+              <SelectValue placeholder="Rotation" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Any rotation state</SelectItem>
+              <SelectItem value="overdue">Rotation overdue</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={filterKind} onValueChange={setFilterKind}>
+            <SelectTrigger className="w-full md:w-48">
+              <SelectValue placeholder="Key type" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All key types</SelectItem>
+              <SelectItem value="signed">CA-signed</SelectItem>
+              <SelectItem value="bare">Bare keys</SelectItem>
+              <SelectItem value="ca">Certificate authorities</SelectItem>
+              <SelectItem value="flagged">Certificates needing attention</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={filterWatch} onValueChange={setFilterWatch}>
+            <SelectTrigger className="w-full md:w-40">
+              <SelectValue placeholder="Watchlist" />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="trustLevel">Trust Level</SelectItem>
-              <SelectItem value="owner">Owner</SelectItem>
+              <SelectItem value="all">All keys</SelectItem>
+              <SelectItem value="watched">Watched ({watchedSshKeys.length})</SelectItem>
             </SelectContent>
           </Select>
         </div>
         <div className="mt-3 text-sm text-slate-500">
-          Showing {filteredAndSorted.length} keys
+          Showing {filtered.length} keys
           {searchTerm && ` matching "${debouncedSearch}"`}
         </div>
       </motion.div>
@@ -228,120 +422,91 @@ export function SSHKeysPage() {
         initial={{ opacity: 0, y: 20 }}
         animate={{ opacity: 1, y: 0 }}
         transition={{ delay: 0.2 }}
-        className="bg-white dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700 overflow-hidden"
+        className="space-y-4"
       >
-        <div className="flex items-center justify-between p-4 border-b border-slate-200 dark:border-slate-700">
-          <div>
-            <h3 className="text-lg">SSH Keys</h3>
-          </div>
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={exportToCSV}
-          >
-            <Download className="h-4 w-4 mr-2" />
-            Export CSV
-          </Button>
-        </div>
-        <Table>
-          <TableHeader>
-            <TableRow>
-              <TableHead className="w-12"></TableHead>
-              <TableHead>Key Owner</TableHead>
-              <TableHead>Fingerprint</TableHead>
-              <TableHead>Last Used</TableHead>
-              <TableHead>Trust Level</TableHead>
-              <TableHead>Actions</TableHead>
-            </TableRow>
-          </TableHeader>
-          <TableBody>
-            {filteredAndSorted.map((key) => (
-              <>
-                <TableRow key={key.id} className="cursor-pointer hover:bg-slate-50 dark:hover:bg-slate-700/50">
-                  <TableCell>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => toggleRow(key.id)}
-                    >
-                      {expandedRows.has(key.id) ? (
-                        <ChevronUp className="h-4 w-4" />
-                      ) : (
-                        <ChevronDown className="h-4 w-4" />
-                      )}
-                    </Button>
-                  </TableCell>
-                  <TableCell>{key.keyOwner}</TableCell>
-                  <TableCell className="font-mono text-xs">{key.fingerprint.substring(0, 40)}...</TableCell>
-                  <TableCell className="text-sm">{key.lastUsed}</TableCell>
-                  <TableCell>{getTrustLevelBadge(key.trustLevel)}</TableCell>
-                  <TableCell>
-                    <div className="flex gap-2">
-                      <Button variant="ghost" size="sm">
-                        <Eye className="h-4 w-4" />
-                      </Button>
-                      <Button variant="ghost" size="sm">
-                        <Edit className="h-4 w-4" />
-                      </Button>
-                      <Button variant="ghost" size="sm">
-                        <Bookmark className="h-4 w-4" />
-                      </Button>
-                    </div>
-                  </TableCell>
-                </TableRow>
-                <AnimatePresence>
-                  {expandedRows.has(key.id) && (
-                    <TableRow key={`${key.id}-expanded`}>
-                      <TableCell colSpan={6} className="bg-slate-50 dark:bg-slate-900/50">
-                        <motion.div
-                          initial={{ height: 0, opacity: 0 }}
-                          animate={{ height: 'auto', opacity: 1 }}
-                          exit={{ height: 0, opacity: 0 }}
-                          transition={{ duration: 0.2 }}
-                          className="py-4 px-4"
-                        >
-                          <div className="space-y-3">
-                            <div>
-                              <p className="text-sm text-slate-500 mb-2 flex items-center gap-2">
-                                <Server className="h-4 w-4" />
-                                Associated Servers ({key.associatedServers.length})
-                              </p>
-                              <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
-                                {key.associatedServers.map((server, idx) => (
-                                  <div
-                                    key={idx}
-                                    className="bg-white dark:bg-slate-800 rounded px-3 py-2 text-sm font-mono border border-slate-200 dark:border-slate-700"
-                                  >
-                                    {server}
-                                  </div>
-                                ))}
-                              </div>
-                            </div>
-                            <div className="grid grid-cols-2 md:grid-cols-3 gap-4 pt-2 border-t border-slate-200 dark:border-slate-700">
-                              <div>
-                                <p className="text-xs text-slate-500">Full Fingerprint</p>
-                                <p className="font-mono text-xs mt-1">{key.fingerprint}</p>
-                              </div>
-                              <div>
-                                <p className="text-xs text-slate-500">Created</p>
-                                <p className="text-sm mt-1">{new Date(key.createdAt).toLocaleDateString()}</p>
-                              </div>
-                              <div>
-                                <p className="text-xs text-slate-500">Algorithm</p>
-                                <p className="text-sm mt-1">{key.algorithm}</p>
-                              </div>
-                            </div>
-                          </div>
-                        </motion.div>
-                      </TableCell>
-                    </TableRow>
-                  )}
-                </AnimatePresence>
-              </>
-            ))}
-          </TableBody>
-        </Table>
+        <BulkActionBar
+          collection="sshKeys"
+          selected={selection.selectedRows}
+          updateMany={updateMany}
+          recordAuditEntries={recordAuditEntries}
+          onExport={exportToCSV}
+          onClear={selection.clear}
+          owners={owners}
+        />
+        <AssetTable
+          tableId="ssh-keys"
+          title="SSH Keys"
+          columns={columns}
+          rows={filtered}
+          getRowId={key => key.id}
+          busy={filtering}
+          selected={selection.selected}
+          onSelectedChange={selection.setSelected}
+          openRowId={openId}
+          {...table}
+          actions={
+            <>
+              <Button variant="outline" size="sm" onClick={() => setImportOpen(true)}>
+                <Upload className="h-4 w-4 mr-2" />
+                Import
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => exportToCSV(filtered)}>
+                <Download className="h-4 w-4 mr-2" />
+                Export CSV
+              </Button>
+            </>
+          }
+          renderExpanded={key => (
+            <motion.div
+              initial={{ height: 0, opacity: 0 }}
+              animate={{ height: 'auto', opacity: 1 }}
+              transition={{ duration: 0.2 }}
+              className="py-4 px-4"
+            >
+              <SSHKeyDetails
+                sshKey={key}
+                keys={keys}
+                trust={scores.get(key.id)}
+                thresholds={trust.thresholds}
+                certificateWarnings={certificateWarnings(key)}
+                onOpenCa={setOpenId}
+              />
+            </motion.div>
+          )}
+        />
       </motion.div>
+
+      <SSHKeyImportDialog
+        open={importOpen}
+        onOpenChange={setImportOpen}
+        findExisting={parsed => findExistingKey(parsed)?.id}
+        onImport={importKeys}
+      />
+
+      <SSHKeyDetailsSheet
+        sshKey={viewingKey}
+        keys={keys}
+        trust={viewingKey ? scores.get(viewingKey.id) : undefined}
+        thresholds={trust.thresholds}
+        certificateWarnings={viewingKey ? certificateWarnings(viewingKey) : []}
+        auditLogs={auditLogs}
+        watched={!!viewingKey && watchedSshKeys.includes(viewingKey.id)}
+        onToggleWatched={toggleWatchedSshKey}
+        onEdit={key => {
+          setViewingId('');
+          setEditingKey(key);
+        }}
+        onOpenCa={setViewingId}
+        onOpenChange={open => !open && setViewingId('')}
+      />
+
+      <SSHKeyEditSheet
+        sshKey={editingKey}
+        trust={editingKey ? scores.get(editingKey.id) : undefined}
+        owners={owners}
+        onOpenChange={open => !open && setEditingKey(null)}
+        onSave={saveKey}
+      />
     </div>
   );
 }
\ No newline at end of file
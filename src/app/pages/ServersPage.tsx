@@ -0,0 +1,272 @@
+import { useState, useMemo, useDeferredValue } from 'react';
+import { Link } from 'react-router-dom';
+import { motion } from 'motion/react';
+import { Search, Server, KeyRound, X } from 'lucide-react';
+import { useAssetData } from '../../hooks/useAssetData';
+import { useQueryState } from '../../hooks/useQueryState';
+import { useSshTrust } from '../../hooks/useSshTrust';
+import { useVirtualList } from '../../hooks/useVirtualList';
+import { buildServerAccess, loginOwner, matchesServerSearch, ServerAccess } from '../../lib/sshAccess';
+import { TRUST_LABELS, TrustScore } from '../../lib/sshTrust';
+import { TableSkeleton } from '../components/LoadingSkeleton';
+import { ErrorDisplay } from '../components/ErrorDisplay';
+import { CacheStatus } from '../components/CacheStatus';
+import { SavedViewsMenu } from '../components/SavedViewsMenu';
+import { SSHAccessGraph } from '../components/SSHAccessGraph';
+import { Input } from '../components/ui/input';
+import { Badge } from '../components/ui/badge';
+import { Button } from '../components/ui/button';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '../components/ui/tabs';
+
+// Server rows are one line of text plus a line of badges
+const ESTIMATED_SERVER_HEIGHT = 64;
+// Past this many servers the graph is too dense to read; search narrows it
+const MAX_GRAPH_SERVERS = 50;
+
+const getTrustBadge = (trust: TrustScore | undefined) => {
+  if (!trust) return null;
+  const colors = {
+    high: 'bg-green-600',
+    medium: 'bg-yellow-600',
+    low: 'bg-red-600',
+  };
+  return <Badge className={colors[trust.level]}>{TRUST_LABELS[trust.level]} · {trust.score}</Badge>;
+};
+
+function ServerAccessPanel({ server, scores, onClose }: { server: ServerAccess; scores: Map<string, TrustScore>; onClose: () => void }) {
+  // Least trusted first, since those are the logins to look at during an incident
+  const logins = [...server.logins].sort((a, b) => (scores.get(a.key.id)?.score ?? 0) - (scores.get(b.key.id)?.score ?? 0));
+  const owners = [...new Set(server.logins.map(({ key }) => loginOwner(key)))].sort();
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <p className="font-mono break-all">{server.host}</p>
+          <p className="text-sm text-slate-500">
+            {logins.length} key{logins.length === 1 ? '' : 's'} can log in · {owners.length} owner{owners.length === 1 ? '' : 's'}
+          </p>
+        </div>
+        <Button variant="ghost" size="sm" onClick={onClose} aria-label="Close server details">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {owners.length > 0 && (
+        <div>
+          <p className="text-xs text-slate-500 mb-1">Owners</p>
+          <div className="flex flex-wrap gap-1">
+            {owners.map(owner => <Badge key={owner} variant="secondary">{owner}</Badge>)}
+          </div>
+        </div>
+      )}
+
+      <div>
+        <p className="text-xs text-slate-500 mb-1">Keys that can log in</p>
+        {logins.length === 0 && <p className="text-sm">None in the inventory</p>}
+        <div className="space-y-2">
+          {logins.map(({ key, via }) => (
+            <div key={key.id} className="rounded border border-slate-200 dark:border-slate-700 px-3 py-2 text-sm">
+              <div className="flex items-center justify-between gap-2">
+                <Link to={`/ssh-keys?open=${encodeURIComponent(key.id)}`} className="text-blue-600 hover:underline truncate">
+                  {key.keyOwner}
+                </Link>
+                <div className="flex gap-1 shrink-0">
+                  {key.disabledAt && <Badge variant="outline" className="text-red-600 border-red-600">Disabled</Badge>}
+                  {getTrustBadge(scores.get(key.id))}
+                </div>
+              </div>
+              <p className="text-xs text-slate-500 mt-1">
+                {key.algorithm} · last used {key.lastUsed ?? 'never'}
+                {key.owner && ` · owned by ${key.owner}`}
+              </p>
+              {via && <p className="text-xs text-slate-500">Certificate trusted through {via.keyOwner}</p>}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {server.authorities.length > 0 && (
+        <div>
+          <p className="text-xs text-slate-500 mb-1">Trusted user CAs</p>
+          {server.authorities.map(ca => (
+            <Link key={ca.id} to={`/ssh-keys?open=${encodeURIComponent(ca.id)}`} className="block text-sm text-blue-600 hover:underline">
+              {ca.keyOwner}
+            </Link>
+          ))}
+        </div>
+      )}
+
+      {server.hostKeys.length > 0 && (
+        <div>
+          <p className="text-xs text-slate-500 mb-1">Host keys</p>
+          {server.hostKeys.map(key => (
+            <Link key={key.id} to={`/ssh-keys?open=${encodeURIComponent(key.id)}`} className="block text-sm text-blue-600 hover:underline">
+              {key.keyOwner}
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function ServersPage() {
+  const { data: keys, loading, refreshing, error, lastUpdated, refresh } = useAssetData('sshKeys');
+  const { scores } = useSshTrust(keys);
+  const [searchTerm, setSearchTerm] = useQueryState('q', '', { replace: true });
+  const [view, setView] = useQueryState('view', 'list');
+  // ?host=<name> shows who can log into that server
+  const [selectedHost, setSelectedHost] = useQueryState('host', '');
+  const [selectedKey, setSelectedKey] = useState('');
+  const term = useDeferredValue(searchTerm);
+
+  const servers = useMemo(() => buildServerAccess(keys), [keys]);
+  const filtered = useMemo(() => servers.filter(server => matchesServerSearch(server, term)), [servers, term]);
+  const graphServers = useMemo(() => filtered.slice(0, MAX_GRAPH_SERVERS), [filtered]);
+  const selected = servers.find(server => server.host === selectedHost);
+  const list = useVirtualList({ items: filtered, getKey: server => server.host, estimateSize: ESTIMATED_SERVER_HEIGHT });
+
+  const stats = useMemo(() => ({
+    servers: servers.length,
+    lowTrust: servers.filter(server => server.logins.some(({ key }) => scores.get(key.id)?.level === 'low')).length,
+    throughCa: servers.filter(server => server.authorities.length > 0).length,
+  }), [servers, scores]);
+
+  if (loading && keys.length === 0) return <TableSkeleton rows={8} />;
+  if (error) return <ErrorDisplay message={error.message} onRetry={refresh} />;
+
+  const details = (
+    <div className="bg-white dark:bg-slate-800 rounded-lg p-4 border border-slate-200 dark:border-slate-700 lg:sticky lg:top-4">
+      {selected ? (
+        <ServerAccessPanel server={selected} scores={scores} onClose={() => setSelectedHost('')} />
+      ) : (
+        <div className="flex flex-col items-center gap-2 py-8 text-sm text-slate-500 text-center">
+          <Server className="h-6 w-6" />
+          {selectedHost ? `No keys are associated with ${selectedHost}` : 'Select a server to see who can log into it'}
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl mb-2">Servers</h1>
+          <p className="text-slate-500">See which SSH keys, and whose, can log into each server.</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <SavedViewsMenu />
+          <CacheStatus lastUpdated={lastUpdated} refreshing={refreshing} onRefresh={refresh} />
+        </div>
+      </div>
+
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="grid grid-cols-1 md:grid-cols-3 gap-4"
+      >
+        <div className="bg-white dark:bg-slate-800 rounded-lg p-4 border border-slate-200 dark:border-slate-700">
+          <p className="text-sm text-slate-500">Servers</p>
+          <p className="text-2xl">{stats.servers}</p>
+        </div>
+        <div className="bg-white dark:bg-slate-800 rounded-lg p-4 border border-slate-200 dark:border-slate-700">
+          <p className="text-sm text-slate-500">Reachable by Low Trust Keys</p>
+          <p className="text-2xl text-red-600">{stats.lowTrust}</p>
+        </div>
+        <div className="bg-white dark:bg-slate-800 rounded-lg p-4 border border-slate-200 dark:border-slate-700">
+          <p className="text-sm text-slate-500">Trusting a User CA</p>
+          <p className="text-2xl">{stats.throughCa}</p>
+        </div>
+      </motion.div>
+
+      <Tabs value={view} onValueChange={setView} className="gap-4">
+        <div className="flex flex-col md:flex-row gap-4">
+          <div className="flex-1 relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-slate-400" />
+            <Input
+              placeholder="Search servers or key owners..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+          <TabsList>
+            <TabsTrigger value="list">List</TabsTrigger>
+            <TabsTrigger value="graph">Graph</TabsTrigger>
+          </TabsList>
+        </div>
+
+        <TabsContent value="list">
+          <div className="grid grid-cols-1 lg:grid-cols-[1fr_400px] gap-4 items-start">
+            <div className="bg-white dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700 overflow-y-auto max-h-[640px]">
+              {filtered.length === 0 && <p className="text-sm text-slate-500 py-8 text-center">No servers match.</p>}
+              <div ref={list.listRef} style={{ paddingTop: list.paddingTop, paddingBottom: list.paddingBottom }}>
+                {list.items.map(({ index, item: server }) => {
+                  const owners = [...new Set(server.logins.map(({ key }) => loginOwner(key)))];
+                  const low = server.logins.filter(({ key }) => scores.get(key.id)?.level === 'low').length;
+                  return (
+                    <button
+                      key={server.host}
+                      type="button"
+                      data-index={index}
+                      ref={list.measureElement}
+                      onClick={() => setSelectedHost(server.host === selectedHost ? '' : server.host)}
+                      className={`w-full text-left px-4 py-3 border-b border-slate-200 dark:border-slate-700 transition-colors ${
+                        server.host === selectedHost
+                          ? 'bg-blue-50 dark:bg-blue-950/30'
+                          : 'hover:bg-slate-50 dark:hover:bg-slate-700/50'
+                      }`}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-mono text-sm truncate">{server.host}</span>
+                        <div className="flex gap-1 shrink-0">
+                          {low > 0 && <Badge className="bg-red-600">{low} low trust</Badge>}
+                          {server.authorities.length > 0 && <Badge className="bg-indigo-600">User CA</Badge>}
+                          <Badge variant="outline">
+                            <KeyRound className="h-3 w-3" />
+                            {server.logins.length}
+                          </Badge>
+                        </div>
+                      </div>
+                      <p className="text-xs text-slate-500 mt-1 truncate">
+                        {owners.length > 0 ? owners.join(', ') : 'No login keys'}
+                      </p>
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+            {details}
+          </div>
+        </TabsContent>
+
+        <TabsContent value="graph">
+          <div className="grid grid-cols-1 lg:grid-cols-[1fr_400px] gap-4 items-start">
+            <div className="bg-white dark:bg-slate-800 rounded-lg p-4 border border-slate-200 dark:border-slate-700 space-y-2">
+              {filtered.length > graphServers.length && (
+                <p className="text-sm text-slate-500">
+                  Showing the first {graphServers.length} of {filtered.length} servers; search to narrow the graph.
+                </p>
+              )}
+              <SSHAccessGraph
+                servers={graphServers}
+                scores={scores}
+                selectedHost={selectedHost}
+                onSelectHost={setSelectedHost}
+                selectedKey={selectedKey}
+                onSelectKey={setSelectedKey}
+              />
+            </div>
+            {details}
+          </div>
+        </TabsContent>
+      </Tabs>
+
+      <div className="text-sm text-slate-500">
+        Showing {filtered.length} of {servers.length} servers
+      </div>
+    </div>
+  );
+}
@@ -1,24 +1,112 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import {
+  CacheEntry,
+  ensureCacheSchema,
+  readCacheEntry,
+  writeCacheEntry,
+  removeCacheEntry,
+} from '../lib/cache';
+import { ExpiryThresholds, DEFAULT_EXPIRY_THRESHOLDS, validateThresholds } from '../lib/certStatus';
+import { DEFAULT_ACME_DIRECTORY_URL } from '../lib/acme';
+import { RevocationResponders, DEFAULT_REVOCATION_RESPONDERS, validateRevocationResponders } from '../lib/revocation';
+import { CryptoPolicy, DEFAULT_CRYPTO_POLICY, validatePolicy } from '../lib/policy';
+import { TrustThresholds, DEFAULT_TRUST_THRESHOLDS, validateTrustThresholds } from '../lib/sshTrust';
+import { usePersistentState } from '../hooks/usePersistentState';
+import { CURRENT_USER } from '../lib/currentUser';
+
+// The watchlist and view pins belong to the signed-in user rather than the browser
+const WATCHLIST_KEY = `watchlist:${CURRENT_USER.email}:sshKeys`;
+const PINNED_VIEWS_KEY = `pinnedViews:${CURRENT_USER.email}`;
 
 interface DashboardContextType {
   darkMode: boolean;
   toggleDarkMode: () => void;
-  cachedData: Record<string, any>;
-  setCachedData: (key: string, data: any) => void;
+  getCachedData: (key: string) => CacheEntry<unknown> | null;
+  setCachedData: (key: string, data: unknown) => void;
+  invalidateCache: (keys: string | string[]) => void;
+  cacheRevisions: Record<string, number>;
+  expiryThresholds: ExpiryThresholds;
+  setExpiryThresholds: (thresholds: ExpiryThresholds) => void;
+  acmeDirectoryUrl: string;
+  setAcmeDirectoryUrl: (url: string) => void;
+  revocationResponders: RevocationResponders;
+  setRevocationResponders: (responders: RevocationResponders) => void;
+  cryptoPolicy: CryptoPolicy;
+  setCryptoPolicy: (policy: CryptoPolicy) => void;
+  trustThresholds: TrustThresholds;
+  setTrustThresholds: (thresholds: TrustThresholds) => void;
+  // Ids of the SSH keys the user watches
+  watchedSshKeys: string[];
+  toggleWatchedSshKey: (id: string) => void;
+  // Ids of the saved views the user pinned in the sidebar
+  pinnedViews: string[];
+  setViewPinned: (id: string, pinned: boolean) => void;
 }
 
 const DashboardContext = createContext<DashboardContextType | undefined>(undefined);
 
+// Validators for the saved settings: objects are completed from the defaults,
+// and anything that no longer validates falls back to them
+
+const isBoolean = (saved: unknown) => typeof saved === 'boolean' ? saved : null;
+
+const nonEmptyString = (saved: unknown) => typeof saved === 'string' && saved ? saved : null;
+
+const stringList = (saved: unknown) =>
+  Array.isArray(saved) ? saved.filter((item): item is string => typeof item === 'string') : null;
+
+const isRecord = (saved: unknown): saved is Record<string, unknown> =>
+  typeof saved === 'object' && saved !== null && !Array.isArray(saved);
+
+function savedExpiryThresholds(saved: unknown): ExpiryThresholds | null {
+  if (!isRecord(saved)) return null;
+  const thresholds = { ...DEFAULT_EXPIRY_THRESHOLDS, ...saved };
+  return validateThresholds(thresholds) ? null : thresholds;
+}
+
+function savedRevocationResponders(saved: unknown): RevocationResponders | null {
+  if (!isRecord(saved)) return null;
+  const responders = { ...DEFAULT_REVOCATION_RESPONDERS, ...saved };
+  const allStrings = Object.values(responders).every(value => typeof value === 'string');
+  return allStrings && !validateRevocationResponders(responders) ? responders : null;
+}
+
+function savedCryptoPolicy(saved: unknown): CryptoPolicy | null {
+  if (!isRecord(saved)) return null;
+  const policy = { ...DEFAULT_CRYPTO_POLICY, ...saved };
+  return validatePolicy(policy) ? null : policy;
+}
+
+function savedTrustThresholds(saved: unknown): TrustThresholds | null {
+  if (!isRecord(saved)) return null;
+  const thresholds = { ...DEFAULT_TRUST_THRESHOLDS, ...saved };
+  return validateTrustThresholds(thresholds) ? null : thresholds;
+}
+
 export function DashboardProvider({ children }: { children: ReactNode }) {
-  const [darkMode, setDarkMode] = useState(() => {
-    const saved = localStorage.getItem('darkMode');
-    return saved ? JSON.parse(saved) : false;
-  });
+  const [darkMode, setDarkMode] = usePersistentState('darkMode', false, isBoolean);
+  const [expiryThresholds, setExpiryThresholds] = usePersistentState('expiryThresholds', DEFAULT_EXPIRY_THRESHOLDS, savedExpiryThresholds);
+  const [acmeDirectoryUrl, setAcmeDirectoryUrl] = usePersistentState('acmeDirectoryUrl', DEFAULT_ACME_DIRECTORY_URL, nonEmptyString);
+  const [revocationResponders, setRevocationResponders] = usePersistentState(
+    'revocationResponders',
+    DEFAULT_REVOCATION_RESPONDERS,
+    savedRevocationResponders
+  );
+  const [cryptoPolicy, setCryptoPolicy] = usePersistentState('cryptoPolicy', DEFAULT_CRYPTO_POLICY, savedCryptoPolicy);
+  const [trustThresholds, setTrustThresholds] = usePersistentState('trustThresholds', DEFAULT_TRUST_THRESHOLDS, savedTrustThresholds);
+  const [watchedSshKeys, setWatchedSshKeys] = usePersistentState<string[]>(WATCHLIST_KEY, [], stringList);
+  const [pinnedViews, setPinnedViews] = usePersistentState<string[]>(PINNED_VIEWS_KEY, [], stringList);
 
-  const [cachedData, setCachedDataState] = useState<Record<string, any>>({});
+  // In-memory copy of the cache. Updated in place rather than held as state,
+  // since consumers read it through getCachedData and must not re-render on writes.
+  const [memoryCache] = useState(() => {
+    ensureCacheSchema();
+    return new Map<string, CacheEntry<unknown>>();
+  });
+  // Bumped on invalidation so mounted consumers of a key revalidate
+  const [cacheRevisions, setCacheRevisions] = useState<Record<string, number>>({});
 
   useEffect(() => {
-    localStorage.setItem('darkMode', JSON.stringify(darkMode));
     if (darkMode) {
       document.documentElement.classList.add('dark');
     } else {
@@ -27,19 +115,73 @@ export function DashboardProvider({ children }: { children: ReactNode }) {
   }, [darkMode]);
 
   const toggleDarkMode = () => {
-    setDarkMode(!darkMode);
+    setDarkMode(prev => !prev);
   };
 
-  const setCachedData = (key: string, data: any) => {
-    setCachedDataState(prev => ({ ...prev, [key]: data }));
-    localStorage.setItem(`cache_${key}`, JSON.stringify({
-      data,
-      timestamp: Date.now()
-    }));
-  };
+  const toggleWatchedSshKey = useCallback((id: string) => {
+    setWatchedSshKeys(prev => prev.includes(id) ? prev.filter(watched => watched !== id) : [...prev, id]);
+  }, [setWatchedSshKeys]);
+
+  const setViewPinned = useCallback((id: string, pinned: boolean) => {
+    setPinnedViews(prev => {
+      const others = prev.filter(pinnedId => pinnedId !== id);
+      return pinned ? [...others, id] : others;
+    });
+  }, [setPinnedViews]);
+
+  // Memory first, then localStorage (which also covers other tabs and reloads)
+  const getCachedData = useCallback((key: string) => {
+    return memoryCache.get(key) ?? readCacheEntry(key);
+  }, [memoryCache]);
+
+  const setCachedData = useCallback((key: string, data: unknown) => {
+    const entry = { data, timestamp: Date.now() };
+    memoryCache.set(key, entry);
+    writeCacheEntry(key, entry);
+  }, [memoryCache]);
+
+  const invalidateCache = useCallback((keys: string | string[]) => {
+    const list = Array.isArray(keys) ? keys : [keys];
+    if (list.length === 0) return;
+
+    list.forEach(key => {
+      memoryCache.delete(key);
+      removeCacheEntry(key);
+    });
+    setCacheRevisions(prev => {
+      const next = { ...prev };
+      list.forEach(key => {
+        next[key] = (next[key] ?? 0) + 1;
+      });
+      return next;
+    });
+  }, [memoryCache]);
 
   return (
-    <DashboardContext.Provider value={{ darkMode, toggleDarkMode, cachedData, setCachedData }}>
+    <DashboardContext.Provider
+      value={{
+        darkMode,
+        toggleDarkMode,
+        getCachedData,
+        setCachedData,
+        invalidateCache,
+        cacheRevisions,
+        expiryThresholds,
+        setExpiryThresholds,
+        acmeDirectoryUrl,
+        setAcmeDirectoryUrl,
+        revocationResponders,
+        setRevocationResponders,
+        cryptoPolicy,
+        setCryptoPolicy,
+        trustThresholds,
+        setTrustThresholds,
+        watchedSshKeys,
+        toggleWatchedSshKey,
+        pinnedViews,
+        setViewPinned,
+      }}
+    >
       {children}
     </DashboardContext.Provider>
   );
@@ -0,0 +1,277 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { toast } from 'sonner';
+import { useDashboard } from '../contexts/DashboardContext';
+import { getDataSource } from '../api';
+import { isExpired, CACHE_DEPENDENTS } from '../lib/cache';
+import { validateCollection, QuarantinedRecord } from '../lib/validation';
+import type { AuditEntryInput } from '../lib/audit';
+import type { AssetCollection, AssetRecordMap, NewRecord } from '../types/assets';
+
+interface UpdateOptions<T> {
+  // Audit entry to record once the update is saved, or null to skip
+  audit?: (before: T, after: T) => AuditEntryInput | null;
+}
+
+interface CreateOptions<T> {
+  // Audit entry to record once the record is created, or null to skip
+  audit?: (created: T) => AuditEntryInput | null;
+}
+
+interface RemoveOptions<T> {
+  // Audit entry to record once the record is deleted, or null to skip
+  audit?: (removed: T) => AuditEntryInput | null;
+}
+
+interface UpdateManyOptions<T> extends UpdateOptions<T> {
+  // Called as each save settles, for progress bars
+  onProgress?: (done: number, total: number) => void;
+}
+
+// Saves in flight at once during updateMany and recordAuditEntries
+const BULK_CONCURRENCY = 4;
+
+async function forEachConcurrently<T>(items: T[], task: (item: T) => Promise<void>) {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      await task(items[next++]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(BULK_CONCURRENCY, items.length) }, worker));
+}
+
+// Records many entries with a single notice for any that fail
+async function recordAuditBatch(entries: AuditEntryInput[], onProgress?: (done: number, total: number) => void) {
+  let failures = 0;
+  let done = 0;
+  await forEachConcurrently(entries, async entry => {
+    try {
+      await getDataSource().create('auditLogs', entry);
+    } catch {
+      failures++;
+    }
+    onProgress?.(++done, entries.length);
+  });
+  if (failures > 0) {
+    toast.error(`${failures} audit ${failures === 1 ? 'entry' : 'entries'} could not be recorded`);
+  }
+}
+
+async function recordAudit(entry: AuditEntryInput | null | undefined) {
+  if (!entry) return;
+  try {
+    await getDataSource().create('auditLogs', entry);
+  } catch (err) {
+    toast.error('Saved, but the audit entry could not be recorded', {
+      description: err instanceof Error ? err.message : undefined,
+    });
+  }
+}
+
+/**
+ * Stale-while-revalidate loader for one collection. Cached data is shown
+ * immediately and only refetched once its TTL has passed, on refresh(),
+ * or when the key is invalidated. Records that fail validation, from either
+ * the cache or the source, are withheld and reported in `quarantined`.
+ * With `pollMs`, it also refetches on that interval while the tab is
+ * visible, without a toast when a poll fails.
+ */
+export function useAssetData<K extends AssetCollection>(collection: K, { pollMs }: { pollMs?: number } = {}) {
+  type Item = AssetRecordMap[K];
+  const { getCachedData, setCachedData, invalidateCache, cacheRevisions } = useDashboard();
+  const revision = cacheRevisions[collection] ?? 0;
+  const [data, setData] = useState<Item[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+  const [lastUpdated, setLastUpdated] = useState<number | null>(null);
+  const [quarantined, setQuarantined] = useState<QuarantinedRecord[]>([]);
+  const requestId = useRef(0);
+  const dataRef = useRef(data);
+  dataRef.current = data;
+
+  const applyPayload = useCallback((payload: unknown) => {
+    const { valid, quarantined } = validateCollection(collection, payload);
+    setData(valid);
+    setQuarantined(quarantined);
+  }, [collection]);
+
+  const load = useCallback(async (force = false, quiet = false) => {
+    const id = ++requestId.current;
+    setError(null);
+
+    const cached = getCachedData(collection);
+    if (cached) {
+      applyPayload(cached.data);
+      setLastUpdated(cached.timestamp);
+      setLoading(false);
+      if (!force && !isExpired(collection, cached.timestamp)) return;
+    }
+
+    setRefreshing(true);
+    try {
+      const fresh = await getDataSource().list(collection);
+      // A newer load (refresh or unmount) superseded this one
+      if (id !== requestId.current) return;
+
+      applyPayload(fresh);
+      setCachedData(collection, fresh);
+      setLastUpdated(Date.now());
+    } catch (err) {
+      if (id !== requestId.current) return;
+      const failure = err instanceof Error ? err : new Error('Failed to load data');
+      // Keep showing stale data rather than replacing it with an error
+      if (cached) {
+        if (!quiet) toast.error(`Could not refresh ${collection}`, { description: failure.message });
+      } else {
+        setError(failure);
+      }
+    } finally {
+      if (id === requestId.current) {
+        setLoading(false);
+        setRefreshing(false);
+      }
+    }
+  }, [collection, applyPayload, getCachedData, setCachedData]);
+
+  useEffect(() => {
+    load();
+    return () => {
+      requestId.current++;
+    };
+  }, [load, revision]);
+
+  const refresh = useCallback(() => load(true), [load]);
+
+  useEffect(() => {
+    if (!pollMs) return;
+    const timer = setInterval(() => {
+      if (!document.hidden) load(true, true);
+    }, pollMs);
+    return () => clearInterval(timer);
+  }, [load, pollMs]);
+
+  // Replaces the local data and writes it through to the cache
+  const applyLocal = useCallback((updater: (prev: Item[]) => Item[]) => {
+    const next = updater(dataRef.current);
+    dataRef.current = next;
+    setData(next);
+    setCachedData(collection, next);
+  }, [collection, setCachedData]);
+
+  // Applies a local edit and marks collections derived from it as stale
+  const mutate = useCallback((updater: (prev: Item[]) => Item[]) => {
+    applyLocal(updater);
+    invalidateCache(CACHE_DEPENDENTS[collection]);
+  }, [collection, applyLocal, invalidateCache]);
+
+  /**
+   * Optimistically applies `patch`, saves it through the data source and
+   * rolls the record back if the save fails. Resolves to the saved record,
+   * or null on failure (the user is notified).
+   */
+  const update = useCallback(async (id: string, patch: Partial<Item>, options: UpdateOptions<Item> = {}) => {
+    const before = dataRef.current.find(record => record.id === id);
+    if (!before) return null;
+
+    const replace = (record: Item) =>
+      applyLocal(prev => prev.map(r => r.id === id ? record : r));
+
+    replace({ ...before, ...patch });
+    try {
+      const saved = await getDataSource().update(collection, id, patch);
+      replace(saved);
+      await recordAudit(options.audit?.(before, saved));
+      invalidateCache(CACHE_DEPENDENTS[collection]);
+      return saved;
+    } catch (err) {
+      replace(before);
+      toast.error('Changes could not be saved', {
+        description: err instanceof Error ? err.message : undefined,
+      });
+      return null;
+    }
+  }, [collection, applyLocal, invalidateCache]);
+
+  /**
+   * Applies a patch to each of many records like update(), a few saves at a
+   * time, then records one audit entry per saved record. Failed saves are
+   * rolled back and returned rather than reported, so the caller can
+   * summarise them.
+   */
+  const updateMany = useCallback(async (changes: { id: string; patch: Partial<Item> }[], options: UpdateManyOptions<Item> = {}) => {
+    const patches = new Map(changes.map(change => [change.id, change.patch]));
+    const originals = new Map<string, Item>();
+    dataRef.current.forEach(record => {
+      if (patches.has(record.id)) originals.set(record.id, record);
+    });
+    const saved = new Map<string, Item>();
+    const failed: { id: string; error: string }[] = [];
+    let done = 0;
+
+    // One local write for the whole batch rather than one per record
+    applyLocal(prev => prev.map(r => patches.has(r.id) ? { ...r, ...patches.get(r.id) } : r));
+    await forEachConcurrently(changes, async ({ id, patch }) => {
+      if (!originals.has(id)) {
+        failed.push({ id, error: 'Record no longer exists' });
+      } else {
+        try {
+          saved.set(id, await getDataSource().update(collection, id, patch));
+        } catch (err) {
+          failed.push({ id, error: err instanceof Error ? err.message : 'Save failed' });
+        }
+      }
+      options.onProgress?.(++done, changes.length);
+    });
+    applyLocal(prev => prev.map(r => saved.get(r.id) ?? (patches.has(r.id) ? originals.get(r.id) ?? r : r)));
+
+    const entries = [...saved.values()].flatMap(after => options.audit?.(originals.get(after.id)!, after) ?? []);
+    await recordAuditBatch(entries);
+    if (saved.size > 0) invalidateCache(CACHE_DEPENDENTS[collection]);
+    return { saved: [...saved.values()], failed };
+  }, [collection, applyLocal, invalidateCache]);
+
+  // Records audit entries for actions that change no record, such as exports
+  const recordAuditEntries = useCallback(async (entries: AuditEntryInput[], onProgress?: (done: number, total: number) => void) => {
+    await recordAuditBatch(entries, onProgress);
+    invalidateCache('auditLogs');
+  }, [invalidateCache]);
+
+  // Saves a new record through the data source and appends it locally
+  const create = useCallback(async (record: NewRecord<Item>, options: CreateOptions<Item> = {}) => {
+    try {
+      const created = await getDataSource().create(collection, record);
+      applyLocal(prev => [...prev, created]);
+      await recordAudit(options.audit?.(created));
+      invalidateCache(CACHE_DEPENDENTS[collection]);
+      return created;
+    } catch (err) {
+      toast.error('Record could not be created', {
+        description: err instanceof Error ? err.message : undefined,
+      });
+      return null;
+    }
+  }, [collection, applyLocal, invalidateCache]);
+
+  // Optimistically drops the record and restores it if the delete fails
+  const remove = useCallback(async (id: string, options: RemoveOptions<Item> = {}) => {
+    const removed = dataRef.current.find(record => record.id === id);
+    if (!removed) return false;
+
+    applyLocal(prev => prev.filter(r => r.id !== id));
+    try {
+      await getDataSource().remove(collection, id);
+      await recordAudit(options.audit?.(removed));
+      invalidateCache(CACHE_DEPENDENTS[collection]);
+      return true;
+    } catch (err) {
+      applyLocal(prev => [...prev, removed]);
+      toast.error('Record could not be deleted', {
+        description: err instanceof Error ? err.message : undefined,
+      });
+      return false;
+    }
+  }, [collection, applyLocal, invalidateCache]);
+
+  return { data, mutate, create, update, updateMany, remove, recordAuditEntries, loading, refreshing, error, lastUpdated, quarantined, refresh };
+}
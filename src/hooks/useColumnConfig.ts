@@ -0,0 +1,133 @@
+import { useCallback, useMemo, useRef } from 'react';
+import { useLocation } from 'react-router-dom';
+import { CURRENT_USER } from '../lib/currentUser';
+import { isColumnConfig, viewQuery, VIEW_TABLES } from '../lib/savedViews';
+import { readPersistentState, usePersistentState, writePersistentState } from './usePersistentState';
+import type { ColumnConfig, SavedView } from '../types/assets';
+
+export type { ColumnConfig };
+
+interface ColumnDefaults {
+  id: string;
+  defaultHidden?: boolean;
+}
+
+const storageKey = (tableId: string) => `tableColumns:${CURRENT_USER.email}:${tableId}`;
+
+const defaultConfig = (columns: ColumnDefaults[]): ColumnConfig => ({
+  order: columns.map(column => column.id),
+  hidden: columns.filter(column => column.defaultHidden).map(column => column.id),
+  widths: {},
+});
+
+// Drops columns that no longer exist and appends new ones in definition order
+function completeColumnConfig(saved: unknown, defaults: ColumnConfig): ColumnConfig | null {
+  if (typeof saved !== 'object' || saved === null) return null;
+  const parsed = saved as Partial<ColumnConfig>;
+  const known = new Set(defaults.order);
+  const order = Array.isArray(parsed.order) ? parsed.order.filter(id => known.has(id)) : [];
+  return {
+    order: [...order, ...defaults.order.filter(id => !order.includes(id))],
+    hidden: Array.isArray(parsed.hidden) ? parsed.hidden.filter(id => known.has(id)) : defaults.hidden,
+    widths: typeof parsed.widths === 'object' && parsed.widths !== null ? parsed.widths : {},
+  };
+}
+
+// The layout of the saved view last opened on a table, shown while the page
+// still shows that view's query. Kept apart from the user's own layout, which
+// opening a view leaves as it was.
+interface ViewColumns {
+  query: string;
+  columns: ColumnConfig;
+}
+
+const viewStorageKey = (tableId: string) => `viewColumns:${CURRENT_USER.email}:${tableId}`;
+
+const savedViewColumns = (saved: unknown): ViewColumns | null => {
+  const parsed = saved as ViewColumns | null;
+  return typeof parsed === 'object' && parsed !== null && typeof parsed.query === 'string' && isColumnConfig(parsed.columns)
+    ? parsed
+    : null;
+};
+
+const shownViewColumns = (viewColumns: ViewColumns | null, query: string) =>
+  viewColumns && viewColumns.query === query ? viewColumns.columns : undefined;
+
+// The layout a table shows for `query`: an open view's, else the user's own
+// if they have changed it. Undefined while it is the default.
+export function readColumnConfig(tableId: string, query: string): ColumnConfig | undefined {
+  return shownViewColumns(readPersistentState(viewStorageKey(tableId), savedViewColumns), query) ??
+    readPersistentState(storageKey(tableId), saved => isColumnConfig(saved) ? saved : null) ??
+    undefined;
+}
+
+// Shows the layout saved with a view on its table once the page opens the
+// view; a view without one shows the user's own. Call it before navigating.
+export function applyViewColumns(view: Pick<SavedView, 'module' | 'query' | 'columns'>) {
+  const tableId = VIEW_TABLES[view.module];
+  if (!tableId) return;
+  writePersistentState(viewStorageKey(tableId), view.columns ? { query: view.query, columns: view.columns } : null);
+}
+
+/**
+ * Column layout for a table, saved in localStorage per user. Columns added
+ * since the layout was saved are appended in definition order. While a saved
+ * view with a layout is open, its layout is shown instead; changing a column
+ * then starts the user's own layout from it.
+ */
+export function useColumnConfig(tableId: string, columns: ColumnDefaults[]) {
+  const { search } = useLocation();
+  const defaults = useMemo(() => defaultConfig(columns), [columns]);
+  const [ownConfig, setOwnConfig] = usePersistentState(
+    storageKey(tableId),
+    defaults,
+    saved => completeColumnConfig(saved, defaults)
+  );
+  const [viewColumns, setViewColumns] = usePersistentState<ViewColumns | null>(viewStorageKey(tableId), null, savedViewColumns);
+
+  const viewColumnsShown = shownViewColumns(viewColumns, viewQuery(search));
+  const viewConfig = useMemo(
+    () => viewColumnsShown ? completeColumnConfig(viewColumnsShown, defaults) : null,
+    [viewColumnsShown, defaults]
+  );
+  // Read by changes made before the next render, so only the first one copies the view's layout
+  const viewConfigRef = useRef(viewConfig);
+  viewConfigRef.current = viewConfig;
+
+  const setConfig = useCallback((change: (prev: ColumnConfig) => ColumnConfig) => {
+    const base = viewConfigRef.current;
+    if (!base) {
+      setOwnConfig(change);
+      return;
+    }
+    viewConfigRef.current = null;
+    setOwnConfig(change(base));
+    setViewColumns(null);
+  }, [setOwnConfig, setViewColumns]);
+  const toggleHidden = useCallback((id: string) => {
+    setConfig(prev => ({
+      ...prev,
+      hidden: prev.hidden.includes(id) ? prev.hidden.filter(h => h !== id) : [...prev.hidden, id],
+    }));
+  }, [setConfig]);
+
+  // Moves a column one place left (-1) or right (1)
+  const move = useCallback((id: string, offset: -1 | 1) => {
+    setConfig(prev => {
+      const from = prev.order.indexOf(id);
+      const to = from + offset;
+      if (from < 0 || to < 0 || to >= prev.order.length) return prev;
+      const order = [...prev.order];
+      [order[from], order[to]] = [order[to], order[from]];
+      return { ...prev, order };
+    });
+  }, [setConfig]);
+
+  const resize = useCallback((id: string, width: number) => {
+    setConfig(prev => ({ ...prev, widths: { ...prev.widths, [id]: width } }));
+  }, [setConfig]);
+
+  const reset = useCallback(() => setConfig(() => defaults), [setConfig, defaults]);
+
+  return { config: viewConfig ?? ownConfig, toggleHidden, move, resize, reset };
+}
@@ -0,0 +1,103 @@
+import { useEffect, useMemo, useState } from 'react';
+import { runListQuery, ListCollection, ListQuery } from '../lib/listQuery';
+import type { ListWorkerRequest, ListWorkerResponse } from '../lib/listQuery.worker';
+import type { AssetRecordMap } from '../types/assets';
+
+// Below this many records the query runs in place: copying the records to
+// the worker would take longer than filtering them
+const WORKER_MIN_ROWS = 5000;
+
+// undefined until first needed, null when workers are unavailable or crashed
+let worker: Worker | null | undefined;
+let nextRequestId = 0;
+const waiting = new Map<number, (response: ListWorkerResponse) => void>();
+// Dataset version the worker currently holds, per collection
+const loadedVersions = new Map<ListCollection, number>();
+const versions = new WeakMap<object, number>();
+let nextVersion = 0;
+
+function getWorker() {
+  if (worker !== undefined) return worker;
+  try {
+    worker = new Worker(new URL('../lib/listQuery.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<ListWorkerResponse>) => {
+      waiting.get(event.data.id)?.(event.data);
+      waiting.delete(event.data.id);
+    };
+    worker.onerror = () => {
+      worker?.terminate();
+      worker = null;
+      waiting.forEach((settle, id) => settle({ id, error: 'List worker failed' }));
+      waiting.clear();
+    };
+  } catch {
+    worker = null;
+  }
+  return worker;
+}
+
+function versionOf(records: object) {
+  let version = versions.get(records);
+  if (version === undefined) {
+    version = ++nextVersion;
+    versions.set(records, version);
+  }
+  return version;
+}
+
+// Falls back to running in place if the worker is missing or fails
+function queryInWorker<C extends ListCollection>(collection: C, records: AssetRecordMap[C][], query: ListQuery<C>) {
+  const target = getWorker();
+  if (!target) return Promise.resolve(runListQuery(collection, records, query));
+
+  const version = versionOf(records);
+  if (loadedVersions.get(collection) !== version) {
+    target.postMessage({ type: 'load', collection, version, records } satisfies ListWorkerRequest);
+    loadedVersions.set(collection, version);
+  }
+
+  const id = ++nextRequestId;
+  return new Promise<ArrayLike<number>>(resolve => {
+    waiting.set(id, response => {
+      resolve('indices' in response ? response.indices : runListQuery(collection, records, query));
+    });
+    target.postMessage({ type: 'query', id, collection, version, query } satisfies ListWorkerRequest);
+  });
+}
+
+const pick = <T>(records: T[], indices: ArrayLike<number>) => Array.from(indices, index => records[index]);
+
+/**
+ * Filtered and sorted records for a list page. Large lists are queried in a
+ * web worker; until its answer arrives the previous rows stay on screen and
+ * `pending` is true.
+ */
+export function useListQuery<C extends ListCollection>(collection: C, records: AssetRecordMap[C][], query: ListQuery<C>) {
+  type Item = AssetRecordMap[C];
+  // Pages build a new query object every render; compare by value
+  const queryKey = JSON.stringify(query);
+  const inPlace = records.length < WORKER_MIN_ROWS;
+  const [result, setResult] = useState<{ records: Item[]; queryKey: string; rows: Item[] } | null>(null);
+
+  const immediate = useMemo(
+    () => inPlace ? pick(records, runListQuery(collection, records, JSON.parse(queryKey))) : null,
+    [collection, records, queryKey, inPlace]
+  );
+
+  useEffect(() => {
+    if (inPlace) return;
+    let cancelled = false;
+    queryInWorker(collection, records, JSON.parse(queryKey)).then(indices => {
+      if (!cancelled) setResult({ records, queryKey, rows: pick(records, indices) });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [collection, records, queryKey, inPlace]);
+
+  if (immediate) return { rows: immediate, pending: false };
+  return {
+    rows: result?.rows ?? [],
+    pending: result?.records !== records || result.queryKey !== queryKey,
+  };
+}
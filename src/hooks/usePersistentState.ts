@@ -0,0 +1,96 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+
+// Tells other hooks on the same key about a write; the storage event only
+// reaches other tabs
+const CHANGE_EVENT = 'persistentstatechange';
+
+interface ChangeDetail {
+  key: string;
+  value: unknown;
+}
+
+// Turns the stored JSON into a value, or null to use the default instead
+export type PersistentStateValidator<T> = (saved: unknown) => T | null;
+
+function readStored<T>(key: string, defaultValue: T, validate: PersistentStateValidator<T>): T {
+  const raw = localStorage.getItem(key);
+  if (raw === null) return defaultValue;
+  let saved: unknown;
+  try {
+    saved = JSON.parse(raw);
+  } catch {
+    // Plain strings stored before values were saved as JSON
+    saved = raw;
+  }
+  return validate(saved) ?? defaultValue;
+}
+
+// The validated value stored under `key`, or null if there is none
+export function readPersistentState<T>(key: string, validate: PersistentStateValidator<T>): T | null {
+  return readStored<T | null>(key, null, validate);
+}
+
+/**
+ * Saves `value` under `key` and updates every mounted usePersistentState
+ * hook on that key, e.g. to apply settings from outside the component that
+ * owns them.
+ */
+export function writePersistentState(key: string, value: unknown) {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch {
+    // Out of quota: the value still applies until reload
+  }
+  window.dispatchEvent(new CustomEvent<ChangeDetail>(CHANGE_EVENT, { detail: { key, value } }));
+}
+
+/**
+ * useState saved in localStorage under `key`. Stored values go through
+ * `validate`, so an outdated or hand-edited entry falls back to
+ * `defaultValue` instead of reaching the UI. Hooks on the same key, in this
+ * tab or another, stay in sync.
+ */
+export function usePersistentState<T>(key: string, defaultValue: T, validate: PersistentStateValidator<T>) {
+  const [state, setState] = useState(() => ({ key, value: readStored(key, defaultValue, validate) }));
+  // Read from the latest render, so callers can pass inline defaults and validators
+  const latest = useRef({ defaultValue, validate });
+  latest.current = { defaultValue, validate };
+
+  // A new key starts from what is stored under it
+  let current = state;
+  if (state.key !== key) {
+    current = { key, value: readStored(key, defaultValue, validate) };
+    setState(current);
+  }
+  const valueRef = useRef(current.value);
+  valueRef.current = current.value;
+
+  useEffect(() => {
+    // Written values are validated too, as they may come from elsewhere, like a saved view
+    const onChange = (event: Event) => {
+      const { detail } = event as CustomEvent<ChangeDetail>;
+      if (detail.key !== key) return;
+      const { defaultValue, validate } = latest.current;
+      setState({ key, value: validate(detail.value) ?? defaultValue });
+    };
+    const onStorage = (event: StorageEvent) => {
+      if (event.key !== key) return;
+      const { defaultValue, validate } = latest.current;
+      setState({ key, value: readStored(key, defaultValue, validate) });
+    };
+    window.addEventListener(CHANGE_EVENT, onChange);
+    window.addEventListener('storage', onStorage);
+    return () => {
+      window.removeEventListener(CHANGE_EVENT, onChange);
+      window.removeEventListener('storage', onStorage);
+    };
+  }, [key]);
+
+  const setValue = useCallback((next: T | ((prev: T) => T)) => {
+    const value = typeof next === 'function' ? (next as (prev: T) => T)(valueRef.current) : next;
+    valueRef.current = value;
+    writePersistentState(key, value);
+  }, [key]);
+
+  return [current.value, setValue] as const;
+}
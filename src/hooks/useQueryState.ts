@@ -0,0 +1,66 @@
+import { useCallback } from 'react';
+import { useSearchParams } from 'react-router-dom';
+
+interface QueryStateOptions {
+  // Replace the history entry instead of pushing one, e.g. while typing
+  replace?: boolean;
+  // Params cleared whenever this one changes, e.g. the page when a filter does
+  resets?: string[];
+}
+
+type Updater<T> = T | ((current: T) => T);
+
+/**
+ * useState backed by a query parameter, so list state survives a reload,
+ * can be shared as a link and is restored by back/forward. The default value
+ * is left out of the URL; values that don't parse as the default's type fall
+ * back to it.
+ */
+export function useQueryState(key: string, defaultValue: string, options?: QueryStateOptions): [string, (next: Updater<string>) => void];
+export function useQueryState(key: string, defaultValue: number, options?: QueryStateOptions): [number, (next: Updater<number>) => void];
+export function useQueryState<T extends string | number>(
+  key: string,
+  defaultValue: T,
+  { replace = false, resets = [] }: QueryStateOptions = {}
+): [T, (next: Updater<T>) => void] {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const value = parseParam(searchParams.get(key), defaultValue);
+  // Joined so callers can pass a fresh array literal on every render
+  const resetKeys = resets.join(',');
+
+  const setValue = useCallback((next: Updater<T>) => {
+    setSearchParams(current => {
+      const params = new URLSearchParams(current);
+      const resolved = typeof next === 'function' ? next(parseParam(params.get(key), defaultValue)) : next;
+      if (resolved === defaultValue) {
+        params.delete(key);
+      } else {
+        params.set(key, String(resolved));
+      }
+      resetKeys.split(',').filter(Boolean).forEach(param => params.delete(param));
+      return params;
+    }, { replace });
+  }, [key, defaultValue, replace, resetKeys, setSearchParams]);
+
+  return [value, setValue];
+}
+
+function parseParam<T extends string | number>(raw: string | null, defaultValue: T): T {
+  if (raw === null) return defaultValue;
+  if (typeof defaultValue === 'number') {
+    const parsed = Number(raw);
+    return (Number.isFinite(parsed) ? parsed : defaultValue) as T;
+  }
+  return raw as T;
+}
+
+/**
+ * Sort and paging for an AssetTable, kept in the query string. Changing the
+ * sort or page size goes back to the first page.
+ */
+export function useTableQueryState(defaultSort: string, defaultPageSize = 25) {
+  const [sort, onSortChange] = useQueryState('sort', defaultSort, { resets: ['page'] });
+  const [page, onPageChange] = useQueryState('page', 1);
+  const [pageSize, onPageSizeChange] = useQueryState('pageSize', defaultPageSize, { resets: ['page'] });
+  return { sort, onSortChange, page, onPageChange, pageSize, onPageSizeChange };
+}
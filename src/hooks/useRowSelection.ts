@@ -0,0 +1,21 @@
+import { useCallback, useMemo, useRef, useState } from 'react';
+
+/**
+ * Selected row ids for a table. Selection survives paging and re-sorting;
+ * `selectedRows` only holds the selected rows that are still in `rows`, so
+ * narrowing the filters narrows what a bulk action applies to.
+ */
+export function useRowSelection<T>(rows: T[], getRowId: (row: T) => string) {
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const getRowIdRef = useRef(getRowId);
+  getRowIdRef.current = getRowId;
+
+  const selectedRows = useMemo(
+    () => selected.size === 0 ? [] : rows.filter(row => selected.has(getRowIdRef.current(row))),
+    [rows, selected]
+  );
+
+  const clear = useCallback(() => setSelected(new Set()), []);
+
+  return { selected, setSelected, selectedRows, clear };
+}
@@ -0,0 +1,28 @@
+import { useMemo } from 'react';
+import { useAssetData } from './useAssetData';
+import { useDashboard } from '../contexts/DashboardContext';
+import { scoreSshKey, summarizeSshLogins, TrustContext, TrustScore } from '../lib/sshTrust';
+import type { SSHKey } from '../types/assets';
+
+/**
+ * Trust scores for SSH keys, from the current thresholds, crypto policy and
+ * the SSH logins in the audit log. `context` is what list queries need to
+ * score the same way.
+ */
+export function useSshTrust(keys: SSHKey[]) {
+  const { trustThresholds, cryptoPolicy } = useDashboard();
+  const { data: logs } = useAssetData('auditLogs');
+
+  const context = useMemo<TrustContext>(() => ({
+    thresholds: trustThresholds,
+    policy: cryptoPolicy,
+    logins: summarizeSshLogins(logs, keys, trustThresholds.loginWindowDays),
+  }), [logs, keys, trustThresholds, cryptoPolicy]);
+
+  const scores = useMemo(
+    () => new Map<string, TrustScore>(keys.map(key => [key.id, scoreSshKey(key, context)])),
+    [keys, context]
+  );
+
+  return { context, scores };
+}
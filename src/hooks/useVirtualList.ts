@@ -0,0 +1,173 @@
+import { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+
+interface VirtualListOptions<T> {
+  items: T[];
+  // Identifies an item across re-sorts, so its measured height follows it
+  getKey: (item: T) => string;
+  // Height of an item before it has been measured, in px. The closer this is
+  // to the real height, the less work measuring does.
+  estimateSize: number;
+  // Items rendered past each edge of the viewport
+  overscan?: number;
+}
+
+export interface VirtualItem<T> {
+  index: number;
+  item: T;
+  key: string;
+}
+
+interface Range {
+  start: number;
+  end: number;
+}
+
+// The element that scrolls the list, or null when the window does. Wrappers
+// with only horizontal scrolling (like a table container) compute as
+// overflow-y: auto too, so they must also be taller inside than outside.
+function scrollParent(element: HTMLElement) {
+  for (let node = element.parentElement; node; node = node.parentElement) {
+    const { overflowY } = getComputedStyle(node);
+    if ((overflowY === 'auto' || overflowY === 'scroll') && node.scrollHeight > node.clientHeight) return node;
+  }
+  return null;
+}
+
+// Items overlapping [top, bottom), widened by `overscan` on each side
+function visibleRange(offsets: Float64Array, top: number, bottom: number, overscan: number): Range {
+  const count = offsets.length - 1;
+  let low = 0;
+  let high = count;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (offsets[mid + 1] <= top) low = mid + 1;
+    else high = mid;
+  }
+  let end = low;
+  while (end < count && offsets[end] < bottom) end++;
+  return { start: Math.max(0, low - overscan), end: Math.min(count, end + overscan) };
+}
+
+/**
+ * Renders only the items of a long list that are on screen. Attach `listRef`
+ * to the element holding the items, put `paddingTop`/`paddingBottom` spacers
+ * around them, and pass each rendered item element (with `data-index`) to
+ * `measureElement` so items of differing heights are laid out correctly.
+ * The list scrolls with its nearest scrolling ancestor, which
+ * `scrollToIndex` moves.
+ */
+export function useVirtualList<T>({ items, getKey, estimateSize, overscan = 6 }: VirtualListOptions<T>) {
+  const [list, setList] = useState<HTMLElement | null>(null);
+  const [range, setRange] = useState<Range>({ start: 0, end: 0 });
+  // Heights that differ from the estimate, by item key
+  const sizes = useRef(new Map<string, number>());
+  const [sizesVersion, setSizesVersion] = useState(0);
+  const itemsRef = useRef(items);
+  itemsRef.current = items;
+  const getKeyRef = useRef(getKey);
+  getKeyRef.current = getKey;
+
+  // offsets[i] is where item i starts; the last entry is the total height
+  const offsets = useMemo(() => {
+    const measured = sizes.current;
+    const result = new Float64Array(items.length + 1);
+    for (let i = 0; i < items.length; i++) {
+      const size = measured.size === 0 ? estimateSize : measured.get(getKeyRef.current(items[i])) ?? estimateSize;
+      result[i + 1] = result[i] + size;
+    }
+    return result;
+  }, [items, estimateSize, sizesVersion]);
+  const offsetsRef = useRef(offsets);
+  offsetsRef.current = offsets;
+
+  const [observer] = useState(() => new ResizeObserver(entries => {
+    let changed = false;
+    for (const entry of entries) {
+      const element = entry.target as HTMLElement;
+      if (!element.isConnected) {
+        observer.unobserve(element);
+        continue;
+      }
+      const item = itemsRef.current[Number(element.dataset.index)];
+      if (item === undefined) continue;
+      const key = getKeyRef.current(item);
+      const size = element.getBoundingClientRect().height;
+      const known = sizes.current.get(key) ?? estimateSize;
+      if (Math.abs(size - known) < 0.5) continue;
+      if (Math.abs(size - estimateSize) < 0.5) sizes.current.delete(key);
+      else sizes.current.set(key, size);
+      changed = true;
+    }
+    if (changed) setSizesVersion(version => version + 1);
+  }));
+
+  useEffect(() => () => observer.disconnect(), [observer]);
+
+  const measureElement = useCallback((element: HTMLElement | null) => {
+    if (element) observer.observe(element);
+  }, [observer]);
+
+  const updateRange = useCallback(() => {
+    if (!list) return;
+    const scroller = scrollParent(list);
+    const viewTop = scroller ? scroller.getBoundingClientRect().top : 0;
+    const viewHeight = scroller ? scroller.clientHeight : window.innerHeight;
+    const top = viewTop - list.getBoundingClientRect().top;
+    const next = visibleRange(offsetsRef.current, top, top + viewHeight, overscan);
+    setRange(prev => prev.start === next.start && prev.end === next.end ? prev : next);
+  }, [list, overscan]);
+
+  // Layout changed: new items, new measurements or a new list element.
+  // Before paint, so a fresh list never flashes empty.
+  useLayoutEffect(updateRange, [updateRange, offsets]);
+
+  useEffect(() => {
+    if (!list) return;
+    let frame = 0;
+    const schedule = () => {
+      if (!frame) {
+        frame = requestAnimationFrame(() => {
+          frame = 0;
+          updateRange();
+        });
+      }
+    };
+    // Scroll events don't bubble, but capturing sees them from any scroller,
+    // including one that only starts scrolling once the list grows
+    document.addEventListener('scroll', schedule, { capture: true, passive: true });
+    window.addEventListener('resize', schedule);
+    return () => {
+      cancelAnimationFrame(frame);
+      document.removeEventListener('scroll', schedule, { capture: true });
+      window.removeEventListener('resize', schedule);
+    };
+  }, [list, updateRange]);
+
+  // Scrolls so item `index` starts at the top of the viewport. False while
+  // the list element isn't mounted yet.
+  const scrollToIndex = useCallback((index: number) => {
+    if (!list) return false;
+    const scroller = scrollParent(list);
+    const viewTop = scroller ? scroller.getBoundingClientRect().top : 0;
+    const delta = list.getBoundingClientRect().top - viewTop + offsetsRef.current[Math.min(index, items.length)];
+    if (scroller) scroller.scrollTop += delta;
+    else window.scrollBy(0, delta);
+    return true;
+  }, [list, items.length]);
+
+  const start = Math.min(range.start, items.length);
+  const end = Math.min(range.end, items.length);
+  const virtualItems: VirtualItem<T>[] = [];
+  for (let index = start; index < end; index++) {
+    virtualItems.push({ index, item: items[index], key: getKey(items[index]) });
+  }
+
+  return {
+    listRef: setList,
+    items: virtualItems,
+    paddingTop: offsets[start],
+    paddingBottom: offsets[items.length] - offsets[end],
+    measureElement,
+    scrollToIndex,
+  };
+}
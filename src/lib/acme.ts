@@ -0,0 +1,293 @@
+import { bytesToBase64 } from './x509';
+
+// Minimal ACME (RFC 8555) client: one account key per directory, ES256 JWS,
+// http-01 challenges. Enough to drive Pebble or Let's Encrypt staging.
+
+export type AcmeStep = 'directory' | 'account' | 'order' | 'challenge' | 'finalize' | 'certificate';
+
+export const ACME_STEPS: { step: AcmeStep; label: string }[] = [
+  { step: 'directory', label: 'Fetch directory' },
+  { step: 'account', label: 'Register account' },
+  { step: 'order', label: 'Create order' },
+  { step: 'challenge', label: 'Complete challenges' },
+  { step: 'finalize', label: 'Finalize order' },
+  { step: 'certificate', label: 'Download certificate' },
+];
+
+export class AcmeError extends Error {
+  status: number;
+  type?: string;
+
+  constructor(message: string, status: number, type?: string) {
+    super(message);
+    this.name = 'AcmeError';
+    this.status = status;
+    this.type = type;
+  }
+}
+
+interface AcmeDirectory {
+  newNonce: string;
+  newAccount: string;
+  newOrder: string;
+  meta?: { termsOfService?: string };
+}
+
+interface AcmeProblem {
+  type?: string;
+  detail?: string;
+}
+
+interface AcmeChallenge {
+  type: string;
+  url: string;
+  token: string;
+  status: string;
+  error?: AcmeProblem;
+}
+
+interface AcmeAuthorization {
+  status: string;
+  identifier: { type: string; value: string };
+  challenges: AcmeChallenge[];
+}
+
+interface AcmeOrder {
+  status: string;
+  authorizations: string[];
+  finalize: string;
+  certificate?: string;
+  error?: AcmeProblem;
+}
+
+interface AcmeAccount {
+  keyPair: CryptoKeyPair;
+  jwk: JsonWebKey;
+  kid: string;
+}
+
+export const DEFAULT_ACME_DIRECTORY_URL = import.meta.env.VITE_ACME_DIRECTORY_URL || '/acme/directory';
+
+const POLL_INTERVAL_MS = 1000;
+const MAX_POLLS = 30;
+
+// Account keys live for the session; a reload registers a fresh account
+const accounts = new Map<string, Promise<AcmeAccount>>();
+
+function base64Url(input: Uint8Array | string): string {
+  const bytes = typeof input === 'string' ? new TextEncoder().encode(input) : input;
+  return bytesToBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+// RFC 7638 thumbprint: SHA-256 over the required members in lexicographic order
+async function jwkThumbprint(jwk: JsonWebKey): Promise<string> {
+  const canonical = JSON.stringify({ crv: jwk.crv, kty: jwk.kty, x: jwk.x, y: jwk.y });
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(canonical));
+  return base64Url(new Uint8Array(digest));
+}
+
+export async function keyAuthorization(token: string, jwk: JsonWebKey): Promise<string> {
+  return `${token}.${await jwkThumbprint(jwk)}`;
+}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function toAbsoluteUrl(url: string): string {
+  return new URL(url, globalThis.location?.href).toString();
+}
+
+interface AcmeResponse<T> {
+  body: T;
+  location: string | null;
+}
+
+function createSession(directoryUrl: string) {
+  let directory: AcmeDirectory | null = null;
+  let nonce: string | null = null;
+
+  async function getDirectory(): Promise<AcmeDirectory> {
+    if (directory) return directory;
+    const response = await fetch(directoryUrl);
+    if (!response.ok) {
+      throw new AcmeError(`Could not load ACME directory (${response.status})`, response.status);
+    }
+    directory = await response.json();
+    return directory!;
+  }
+
+  async function getNonce(): Promise<string> {
+    if (nonce) {
+      const current = nonce;
+      nonce = null;
+      return current;
+    }
+    const response = await fetch((await getDirectory()).newNonce, { method: 'HEAD' });
+    const fresh = response.headers.get('Replay-Nonce');
+    if (!fresh) throw new AcmeError('Server did not return a nonce', response.status);
+    return fresh;
+  }
+
+  async function signedRequest<T>(
+    url: string,
+    payload: unknown,
+    signer: { keyPair: CryptoKeyPair; jwk: JsonWebKey; kid?: string },
+    accept = 'application/json',
+    retried = false
+  ): Promise<AcmeResponse<T>> {
+    const header = {
+      alg: 'ES256',
+      nonce: await getNonce(),
+      url,
+      ...(signer.kid ? { kid: signer.kid } : { jwk: signer.jwk }),
+    };
+    const encodedHeader = base64Url(JSON.stringify(header));
+    // POST-as-GET sends an empty payload
+    const encodedPayload = payload === undefined ? '' : base64Url(JSON.stringify(payload));
+    const signature = await crypto.subtle.sign(
+      { name: 'ECDSA', hash: 'SHA-256' },
+      signer.keyPair.privateKey,
+      new TextEncoder().encode(`${encodedHeader}.${encodedPayload}`)
+    );
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/jose+json', Accept: accept },
+      body: JSON.stringify({
+        protected: encodedHeader,
+        payload: encodedPayload,
+        signature: base64Url(new Uint8Array(signature)),
+      }),
+    });
+    nonce = response.headers.get('Replay-Nonce') ?? nonce;
+
+    if (!response.ok) {
+      const problem: AcmeProblem = await response.json().catch(() => ({}));
+      // Servers may reject a nonce at any time; one retry is expected behaviour
+      if (problem.type === 'urn:ietf:params:acme:error:badNonce' && !retried) {
+        return signedRequest(url, payload, signer, accept, true);
+      }
+      throw new AcmeError(problem.detail ?? `ACME request failed (${response.status})`, response.status, problem.type);
+    }
+
+    const body = accept === 'application/json' ? await response.json() : await response.text();
+    return { body, location: response.headers.get('Location') };
+  }
+
+  async function getAccount(): Promise<AcmeAccount> {
+    const existing = accounts.get(directoryUrl);
+    if (existing) return existing;
+
+    const pending = (async () => {
+      const keyPair = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify']);
+      const { kty, crv, x, y } = await crypto.subtle.exportKey('jwk', keyPair.publicKey);
+      const jwk = { kty, crv, x, y };
+      const { location } = await signedRequest(
+        (await getDirectory()).newAccount,
+        { termsOfServiceAgreed: true },
+        { keyPair, jwk }
+      );
+      if (!location) throw new AcmeError('Server did not return an account URL', 0);
+      return { keyPair, jwk, kid: location };
+    })();
+
+    accounts.set(directoryUrl, pending);
+    pending.catch(() => accounts.delete(directoryUrl));
+    return pending;
+  }
+
+  return { getDirectory, getAccount, signedRequest };
+}
+
+async function pollUntil<T extends { status: string }>(
+  fetchResource: () => Promise<T>,
+  isDone: (resource: T) => boolean,
+  what: string,
+  intervalMs: number
+): Promise<T> {
+  for (let attempt = 0; attempt < MAX_POLLS; attempt++) {
+    const resource = await fetchResource();
+    if (resource.status === 'invalid') {
+      throw new AcmeError(`${what} is invalid`, 0);
+    }
+    if (isDone(resource)) return resource;
+    await delay(intervalMs);
+  }
+  throw new AcmeError(`Timed out waiting for ${what}`, 0);
+}
+
+export interface AcmeOrderOptions {
+  directoryUrl: string;
+  dnsNames: string[];
+  // DER-encoded PKCS#10 request covering exactly `dnsNames`
+  csr: Uint8Array;
+  onProgress?: (step: AcmeStep, detail?: string) => void;
+  pollIntervalMs?: number;
+}
+
+export interface AcmeOrderResult {
+  // Leaf first, followed by the issuing chain
+  pemChain: string;
+  orderUrl: string;
+}
+
+/**
+ * Runs a complete ACME order: account, order, http-01 challenges, finalize
+ * and certificate download. Progress is reported before each step starts.
+ */
+export async function requestCertificate({
+  directoryUrl,
+  dnsNames,
+  csr,
+  onProgress,
+  pollIntervalMs = POLL_INTERVAL_MS,
+}: AcmeOrderOptions): Promise<AcmeOrderResult> {
+  if (dnsNames.length === 0) throw new AcmeError('At least one DNS name is required', 0);
+  const session = createSession(toAbsoluteUrl(directoryUrl));
+
+  onProgress?.('directory');
+  const directory = await session.getDirectory();
+
+  onProgress?.('account');
+  const account = await session.getAccount();
+
+  onProgress?.('order');
+  const { body: order, location: orderUrl } = await session.signedRequest<AcmeOrder>(
+    directory.newOrder,
+    { identifiers: dnsNames.map(value => ({ type: 'dns', value })) },
+    account
+  );
+  if (!orderUrl) throw new AcmeError('Server did not return an order URL', 0);
+  const fetchOrder = async () => (await session.signedRequest<AcmeOrder>(orderUrl, undefined, account)).body;
+
+  onProgress?.('challenge');
+  for (const authzUrl of order.authorizations) {
+    const fetchAuthz = async () => (await session.signedRequest<AcmeAuthorization>(authzUrl, undefined, account)).body;
+    const authz = await fetchAuthz();
+    if (authz.status === 'valid') continue;
+
+    const challenge = authz.challenges.find(c => c.type === 'http-01');
+    if (!challenge) {
+      throw new AcmeError(`No http-01 challenge offered for ${authz.identifier.value}`, 0);
+    }
+    const keyAuth = await keyAuthorization(challenge.token, account.jwk);
+    onProgress?.('challenge', `http://${authz.identifier.value}/.well-known/acme-challenge/${challenge.token} → ${keyAuth}`);
+
+    await session.signedRequest(challenge.url, {}, account);
+    await pollUntil(fetchAuthz, a => a.status === 'valid', `authorization for ${authz.identifier.value}`, pollIntervalMs);
+  }
+
+  onProgress?.('finalize');
+  await pollUntil(fetchOrder, o => o.status === 'ready' || o.status === 'valid', 'order', pollIntervalMs);
+  await session.signedRequest(order.finalize, { csr: base64Url(csr) }, account);
+  const issued = await pollUntil(fetchOrder, o => o.status === 'valid' && !!o.certificate, 'certificate issuance', pollIntervalMs);
+
+  onProgress?.('certificate');
+  const { body: pemChain } = await session.signedRequest<string>(
+    issued.certificate!,
+    undefined,
+    account,
+    'application/pem-certificate-chain'
+  );
+
+  return { pemChain, orderUrl };
+}
@@ -0,0 +1,333 @@
+// Minimal DER decoder: enough of ASN.1 to read X.509 certificates and
+// related PKI structures in the browser without a third-party library.
+
+export const TAG = {
+  BOOLEAN: 1,
+  INTEGER: 2,
+  BIT_STRING: 3,
+  OCTET_STRING: 4,
+  NULL: 5,
+  OID: 6,
+  ENUMERATED: 10,
+  UTF8_STRING: 12,
+  SEQUENCE: 16,
+  SET: 17,
+  PRINTABLE_STRING: 19,
+  T61_STRING: 20,
+  IA5_STRING: 22,
+  UTC_TIME: 23,
+  GENERALIZED_TIME: 24,
+  UNIVERSAL_STRING: 28,
+  BMP_STRING: 30,
+} as const;
+
+export const TAG_CLASS = {
+  UNIVERSAL: 0,
+  APPLICATION: 1,
+  CONTEXT: 2,
+  PRIVATE: 3,
+} as const;
+
+export interface Asn1Node {
+  tagClass: number;
+  tagNumber: number;
+  constructed: boolean;
+  // Complete encoding (header and contents)
+  bytes: Uint8Array;
+  // Contents only
+  value: Uint8Array;
+  children: Asn1Node[];
+}
+
+export class Asn1Error extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'Asn1Error';
+  }
+}
+
+function decodeNode(bytes: Uint8Array, offset: number): Asn1Node {
+  let pos = offset;
+  if (pos >= bytes.length) throw new Asn1Error('Unexpected end of data');
+
+  const first = bytes[pos++];
+  const tagClass = first >> 6;
+  const constructed = (first & 0x20) !== 0;
+  let tagNumber = first & 0x1f;
+  if (tagNumber === 0x1f) {
+    tagNumber = 0;
+    let b: number;
+    do {
+      if (pos >= bytes.length) throw new Asn1Error('Truncated tag');
+      b = bytes[pos++];
+      tagNumber = (tagNumber << 7) | (b & 0x7f);
+    } while (b & 0x80);
+  }
+
+  if (pos >= bytes.length) throw new Asn1Error('Truncated length');
+  let length = bytes[pos++];
+  if (length === 0x80) throw new Asn1Error('Indefinite lengths are not allowed in DER');
+  if (length & 0x80) {
+    const count = length & 0x7f;
+    if (count > 4) throw new Asn1Error('Length too large');
+    length = 0;
+    for (let i = 0; i < count; i++) {
+      if (pos >= bytes.length) throw new Asn1Error('Truncated length');
+      length = length * 256 + bytes[pos++];
+    }
+  }
+
+  const end = pos + length;
+  if (end > bytes.length) throw new Asn1Error('Value extends past end of data');
+
+  const value = bytes.subarray(pos, end);
+  const children: Asn1Node[] = [];
+  if (constructed) {
+    let childOffset = 0;
+    while (childOffset < value.length) {
+      const child = decodeNode(value, childOffset);
+      children.push(child);
+      childOffset += child.bytes.length;
+    }
+  }
+
+  return { tagClass, tagNumber, constructed, bytes: bytes.subarray(offset, end), value, children };
+}
+
+// Decodes a single DER element that must span the whole input
+export function decodeDer(bytes: Uint8Array): Asn1Node {
+  const node = decodeNode(bytes, 0);
+  if (node.bytes.length !== bytes.length) {
+    throw new Asn1Error('Trailing data after DER element');
+  }
+  return node;
+}
+
+export function isUniversal(node: Asn1Node | undefined, tagNumber: number): node is Asn1Node {
+  return !!node && node.tagClass === TAG_CLASS.UNIVERSAL && node.tagNumber === tagNumber;
+}
+
+export function isContext(node: Asn1Node | undefined, tagNumber: number): node is Asn1Node {
+  return !!node && node.tagClass === TAG_CLASS.CONTEXT && node.tagNumber === tagNumber;
+}
+
+export function expectUniversal(node: Asn1Node | undefined, tagNumber: number, what: string): Asn1Node {
+  if (!isUniversal(node, tagNumber)) {
+    throw new Asn1Error(`Expected ${what}`);
+  }
+  return node;
+}
+
+export function decodeOid(value: Uint8Array): string {
+  if (value.length === 0) throw new Asn1Error('Empty OID');
+  const parts: number[] = [];
+  let n = 0;
+  for (const b of value) {
+    n = n * 128 + (b & 0x7f);
+    if (!(b & 0x80)) {
+      parts.push(n);
+      n = 0;
+    }
+  }
+  const first = parts.shift()!;
+  const head = first < 80 ? [Math.floor(first / 40), first % 40] : [2, first - 80];
+  return [...head, ...parts].join('.');
+}
+
+export function decodeBoolean(node: Asn1Node): boolean {
+  return node.value.length > 0 && node.value[0] !== 0;
+}
+
+// Small integers only; use toHex for serial numbers and key material
+export function decodeSmallInteger(node: Asn1Node): number {
+  return node.value.reduce((n, b) => n * 256 + b, 0);
+}
+
+// BIT STRING contents without the leading unused-bits byte
+export function bitStringBytes(node: Asn1Node): Uint8Array {
+  return node.value.subarray(1);
+}
+
+export function decodeString(node: Asn1Node): string {
+  switch (node.tagNumber) {
+    case TAG.BMP_STRING: {
+      let s = '';
+      for (let i = 0; i + 1 < node.value.length; i += 2) {
+        s += String.fromCharCode((node.value[i] << 8) | node.value[i + 1]);
+      }
+      return s;
+    }
+    case TAG.UNIVERSAL_STRING: {
+      let s = '';
+      for (let i = 0; i + 3 < node.value.length; i += 4) {
+        s += String.fromCodePoint(
+          (node.value[i] << 24) | (node.value[i + 1] << 16) | (node.value[i + 2] << 8) | node.value[i + 3]
+        );
+      }
+      return s;
+    }
+    case TAG.T61_STRING:
+      return Array.from(node.value, b => String.fromCharCode(b)).join('');
+    default:
+      return new TextDecoder().decode(node.value);
+  }
+}
+
+export function decodeTime(node: Asn1Node): Date {
+  const text = new TextDecoder().decode(node.value);
+  const match = node.tagNumber === TAG.UTC_TIME
+    ? /^(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})?Z$/.exec(text)
+    : /^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})?(?:\.\d+)?Z$/.exec(text);
+  if (!match) throw new Asn1Error(`Unsupported time value "${text}"`);
+
+  let year = Number(match[1]);
+  if (node.tagNumber === TAG.UTC_TIME) {
+    // RFC 5280: YY >= 50 means 19YY
+    year += year >= 50 ? 1900 : 2000;
+  }
+  return new Date(Date.UTC(
+    year,
+    Number(match[2]) - 1,
+    Number(match[3]),
+    Number(match[4]),
+    Number(match[5]),
+    Number(match[6] ?? 0)
+  ));
+}
+
+export function toHex(bytes: Uint8Array, separator = ''): string {
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0').toUpperCase()).join(separator);
+}
+
+// DER encoding. Each helper returns a complete element (header and contents)
+// so structures are built by nesting calls.
+
+function encodeLength(length: number): number[] {
+  if (length < 0x80) return [length];
+  const bytes: number[] = [];
+  for (let n = length; n > 0; n = Math.floor(n / 256)) {
+    bytes.unshift(n & 0xff);
+  }
+  return [0x80 | bytes.length, ...bytes];
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, part) => n + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    out.set(part, offset);
+    offset += part.length;
+  });
+  return out;
+}
+
+// Low-tag-number form only (tag numbers below 31), which covers everything we write
+export function encodeElement(tagClass: number, constructed: boolean, tagNumber: number, contents: Uint8Array): Uint8Array {
+  const identifier = (tagClass << 6) | (constructed ? 0x20 : 0) | tagNumber;
+  return concatBytes([Uint8Array.from([identifier, ...encodeLength(contents.length)]), contents]);
+}
+
+export function encodeSequence(...children: Uint8Array[]): Uint8Array {
+  return encodeElement(TAG_CLASS.UNIVERSAL, true, TAG.SEQUENCE, concatBytes(children));
+}
+
+// DER requires SET OF members in ascending order of their encodings
+function sortSetMembers(children: Uint8Array[]): Uint8Array[] {
+  return [...children].sort((a, b) => {
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+      if (a[i] !== b[i]) return a[i] - b[i];
+    }
+    return a.length - b.length;
+  });
+}
+
+export function encodeSet(...children: Uint8Array[]): Uint8Array {
+  return encodeElement(TAG_CLASS.UNIVERSAL, true, TAG.SET, concatBytes(sortSetMembers(children)));
+}
+
+// Unsigned big-endian magnitude, or a small non-negative number
+export function encodeInteger(value: number | Uint8Array): Uint8Array {
+  let bytes: number[];
+  if (typeof value === 'number') {
+    bytes = [];
+    for (let n = value; n > 0; n = Math.floor(n / 256)) bytes.unshift(n & 0xff);
+    if (bytes.length === 0) bytes = [0];
+  } else {
+    let start = 0;
+    while (start < value.length - 1 && value[start] === 0) start++;
+    bytes = Array.from(value.subarray(start));
+    if (bytes.length === 0) bytes = [0];
+  }
+  // Keep the value positive
+  if (bytes[0] & 0x80) bytes.unshift(0);
+  return encodeElement(TAG_CLASS.UNIVERSAL, false, TAG.INTEGER, Uint8Array.from(bytes));
+}
+
+export function encodeBoolean(value: boolean): Uint8Array {
+  return encodeElement(TAG_CLASS.UNIVERSAL, false, TAG.BOOLEAN, Uint8Array.from([value ? 0xff : 0]));
+}
+
+export function encodeNull(): Uint8Array {
+  return encodeElement(TAG_CLASS.UNIVERSAL, false, TAG.NULL, new Uint8Array(0));
+}
+
+export function encodeOid(oid: string): Uint8Array {
+  const parts = oid.split('.').map(Number);
+  if (parts.length < 2 || parts.some(n => !Number.isInteger(n) || n < 0)) {
+    throw new Asn1Error(`Invalid OID "${oid}"`);
+  }
+  const bytes: number[] = [];
+  [parts[0] * 40 + parts[1], ...parts.slice(2)].forEach(n => {
+    const chunk = [n & 0x7f];
+    for (n = Math.floor(n / 128); n > 0; n = Math.floor(n / 128)) {
+      chunk.unshift(0x80 | (n & 0x7f));
+    }
+    bytes.push(...chunk);
+  });
+  return encodeElement(TAG_CLASS.UNIVERSAL, false, TAG.OID, Uint8Array.from(bytes));
+}
+
+// `unusedBits` trailing bits of the last byte are padding, as in a KeyUsage flag set
+export function encodeBitString(bytes: Uint8Array, unusedBits = 0): Uint8Array {
+  return encodeElement(TAG_CLASS.UNIVERSAL, false, TAG.BIT_STRING, concatBytes([Uint8Array.of(unusedBits), bytes]));
+}
+
+export function encodeOctetString(bytes: Uint8Array): Uint8Array {
+  return encodeElement(TAG_CLASS.UNIVERSAL, false, TAG.OCTET_STRING, bytes);
+}
+
+export function encodeString(value: string, tagNumber: number = TAG.UTF8_STRING): Uint8Array {
+  return encodeElement(TAG_CLASS.UNIVERSAL, false, tagNumber, new TextEncoder().encode(value));
+}
+
+export function encodeEnumerated(value: number): Uint8Array {
+  return encodeElement(TAG_CLASS.UNIVERSAL, false, TAG.ENUMERATED, Uint8Array.of(value));
+}
+
+export function encodeGeneralizedTime(date: Date): Uint8Array {
+  return encodeString(date.toISOString().slice(0, 19).replace(/[-:T]/g, '') + 'Z', TAG.GENERALIZED_TIME);
+}
+
+// UTCTime through 2049, GeneralizedTime after (RFC 5280 4.1.2.5)
+export function encodeTime(date: Date): Uint8Array {
+  const year = date.getUTCFullYear();
+  if (year >= 1950 && year < 2050) {
+    return encodeString(date.toISOString().slice(2, 19).replace(/[-:T]/g, '') + 'Z', TAG.UTC_TIME);
+  }
+  return encodeGeneralizedTime(date);
+}
+
+// [n] EXPLICIT wrapper around one or more complete elements
+export function encodeExplicit(tagNumber: number, ...children: Uint8Array[]): Uint8Array {
+  return encodeElement(TAG_CLASS.CONTEXT, true, tagNumber, concatBytes(children));
+}
+
+// [n] IMPLICIT primitive value, e.g. a dNSName in a GeneralName
+export function encodeImplicit(tagNumber: number, contents: Uint8Array): Uint8Array {
+  return encodeElement(TAG_CLASS.CONTEXT, false, tagNumber, contents);
+}
+
+// [n] IMPLICIT SET OF: the SET's tag replaced, its members still in DER order
+export function encodeImplicitSet(tagNumber: number, ...children: Uint8Array[]): Uint8Array {
+  return encodeElement(TAG_CLASS.CONTEXT, true, tagNumber, concatBytes(sortSetMembers(children)));
+}
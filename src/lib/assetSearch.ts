@@ -0,0 +1,70 @@
+import type { AssetRecordMap } from '../types/assets';
+
+// One definition of what each asset type is searched by, shared by the list
+// pages and the command palette so both find the same records.
+
+export type SearchCollection = 'certificates' | 'sshKeys' | 'codeSigningKeys' | 'auditLogs';
+
+export const SEARCH_FIELDS: { [C in SearchCollection]: (record: AssetRecordMap[C]) => string[] } = {
+  certificates: cert => [cert.name, cert.domain, cert.issuer],
+  sshKeys: key => [
+    key.keyOwner,
+    key.fingerprint,
+    ...(key.certificate ? [key.certificate.keyId, ...key.certificate.principals] : []),
+    ...(key.notes ? [key.notes] : []),
+  ],
+  codeSigningKeys: key => [key.keyAlias, key.description, key.algorithm],
+  auditLogs: log => [log.actor, log.email, log.targetResource, log.resourcePath, log.actionType],
+};
+
+// `term` must already be lowercased
+export function matchesSearch<C extends SearchCollection>(collection: C, record: AssetRecordMap[C], term: string) {
+  return SEARCH_FIELDS[collection](record).some(value => value.toLowerCase().includes(term));
+}
+
+// 0 for an exact match, 1 for a prefix, 2 anywhere else; -1 for no match
+function rank(values: string[], term: string) {
+  let best = -1;
+  for (const value of values) {
+    const index = value.toLowerCase().indexOf(term);
+    if (index === -1) continue;
+    const score = index > 0 ? 2 : value.length === term.length ? 0 : 1;
+    if (best === -1 || score < best) best = score;
+    if (best === 0) break;
+  }
+  return best;
+}
+
+export interface SearchHits<T> {
+  // Best matches first, at most `limit` of them
+  top: T[];
+  total: number;
+}
+
+/**
+ * Finds the records of one collection matching `query`, best first: exact
+ * matches, then prefixes, then matches anywhere, keeping the records' own
+ * order within each. Only the best `limit` are kept, so huge inventories
+ * don't have to be sorted.
+ */
+export function searchCollection<C extends SearchCollection>(
+  collection: C,
+  records: AssetRecordMap[C][],
+  query: string,
+  limit: number
+): SearchHits<AssetRecordMap[C]> {
+  const term = query.trim().toLowerCase();
+  if (!term) return { top: [], total: 0 };
+
+  const fields = SEARCH_FIELDS[collection];
+  // One bucket per rank, each capped at `limit`
+  const buckets: AssetRecordMap[C][][] = [[], [], []];
+  let total = 0;
+  for (const record of records) {
+    const score = rank(fields(record), term);
+    if (score === -1) continue;
+    total++;
+    if (buckets[score].length < limit) buckets[score].push(record);
+  }
+  return { top: buckets.flat().slice(0, limit), total };
+}
@@ -0,0 +1,69 @@
+import type { AuditActionType, AuditLog, AuditMetadataMap, FieldChange, NewRecord, SSHKey } from '../types/assets';
+import { CURRENT_USER } from './currentUser';
+
+export type AuditEntryInput = NewRecord<AuditLog>;
+
+// Matches the "2025-01-03 10:12:44 UTC" format used across the audit stream
+export function formatAuditTimestamp(date = new Date()) {
+  return `${date.toISOString().slice(0, 19).replace('T', ' ')} UTC`;
+}
+
+// Epoch ms of a timestamp in that format (NaN if it isn't one)
+export const parseAuditTimestamp = (value: string) =>
+  new Date(value.replace(' UTC', 'Z').replace(' ', 'T')).getTime();
+
+/**
+ * Builds an audit entry attributed to the signed-in user. Resource paths
+ * follow `/<module>/<record id>` so entries can be matched back to a record.
+ */
+export function buildAuditEntry<A extends AuditActionType>(
+  actionType: A,
+  target: { targetResource: string; resourcePath: string },
+  metadata: AuditMetadataMap[A]
+): AuditEntryInput {
+  return {
+    timestamp: formatAuditTimestamp(),
+    actor: CURRENT_USER.email,
+    email: CURRENT_USER.email,
+    actionType,
+    targetResource: target.targetResource,
+    resourcePath: target.resourcePath,
+    metadata,
+  } as AuditEntryInput;
+}
+
+const SSH_KEY_PATH = '/ssh/keys/';
+
+/**
+ * Finds the key among `keys` that an audit entry is about. Entries on a key
+ * name its record id in the resource path (/ssh/keys/<id>); logins may
+ * instead carry the key's id or fingerprint in their metadata. Owner labels
+ * are not unique, so they never identify a key.
+ */
+export function sshKeyMatcher<K extends Pick<SSHKey, 'id' | 'fingerprint'>>(keys: K[]) {
+  const byId = new Map(keys.map(key => [key.id, key]));
+  const byFingerprint = new Map(keys.map(key => [key.fingerprint, key]));
+  return (log: AuditLog): K | undefined => {
+    if (log.resourcePath.startsWith(SSH_KEY_PATH)) {
+      const key = byId.get(log.resourcePath.slice(SSH_KEY_PATH.length));
+      if (key) return key;
+    }
+    if (log.actionType !== 'SSH_LOGIN') return undefined;
+    const { key_id, key_fingerprint } = log.metadata;
+    return (key_id && byId.get(key_id)) || (key_fingerprint && byFingerprint.get(key_fingerprint)) || undefined;
+  };
+}
+
+export const isAuditForSshKey = (log: AuditLog, key: Pick<SSHKey, 'id' | 'fingerprint'>) =>
+  sshKeyMatcher([key])(log) !== undefined;
+
+// Lists the fields whose value differs between two versions of a record
+export function diffFields<T extends object>(before: T, after: T, fields: (keyof T)[]) {
+  const changes: Record<string, FieldChange> = {};
+  fields.forEach(field => {
+    if (JSON.stringify(before[field]) !== JSON.stringify(after[field])) {
+      changes[String(field)] = { before: before[field], after: after[field] };
+    }
+  });
+  return changes;
+}
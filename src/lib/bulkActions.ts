@@ -0,0 +1,213 @@
+import { buildAuditEntry, AuditEntryInput } from './audit';
+import { CURRENT_USER } from './currentUser';
+import type { AssetRecordMap } from '../types/assets';
+
+export type BulkActionId = 'export' | 'tag' | 'assignOwner' | 'revoke' | 'rotate' | 'review';
+
+export type BulkCollection = 'certificates' | 'sshKeys' | 'codeSigningKeys';
+
+// What the confirmation dialog collects; each action reads the field it needs
+export interface BulkActionInput {
+  tags: string[];
+  owner: string;
+  reason: string;
+}
+
+export interface BulkActionDefinition {
+  label: string;
+  // What confirming does, shown in the confirmation dialog
+  description: string;
+  // Past tense for the result summary, e.g. "Tagged" 12 certificates
+  done: string;
+  // Field the confirmation dialog asks for before running
+  input?: keyof BulkActionInput;
+  destructive?: boolean;
+}
+
+interface BulkTarget<T> {
+  noun: string;
+  plural: string;
+  // Revoking a certificate and disabling a key are the same bulk action
+  revokeLabel: string;
+  describe: (record: T) => { targetResource: string; resourcePath: string };
+  ownerOf: (record: T) => string | undefined;
+  revoke: (record: T, reason: string, now: string) => { patch: Partial<T>; audit: (batchId: string) => AuditEntryInput };
+}
+
+const targets: { [C in BulkCollection]: BulkTarget<AssetRecordMap[C]> } = {
+  certificates: {
+    noun: 'certificate',
+    plural: 'certificates',
+    revokeLabel: 'Revoke',
+    describe: cert => ({ targetResource: `Certificate ${cert.domain}`, resourcePath: `/certificates/${cert.id}` }),
+    ownerOf: cert => cert.owner,
+    revoke: (cert, reason, now) => ({
+      patch: { revocation: { status: 'revoked', checkedAt: now, revokedAt: now, reason } },
+      audit: batchId => buildAuditEntry(
+        'CERT_REVOKED',
+        targets.certificates.describe(cert),
+        { reason, revocation_date: now, batch_id: batchId }
+      ),
+    }),
+  },
+  sshKeys: {
+    noun: 'SSH key',
+    plural: 'SSH keys',
+    revokeLabel: 'Disable',
+    describe: key => ({ targetResource: `SSH key ${key.keyOwner}`, resourcePath: `/ssh/keys/${key.id}` }),
+    ownerOf: key => key.owner,
+    revoke: (key, reason, now) => ({
+      patch: { disabledAt: now },
+      audit: batchId => buildAuditEntry('SSH_KEY_DISABLED', targets.sshKeys.describe(key), { reason, batch_id: batchId }),
+    }),
+  },
+  codeSigningKeys: {
+    noun: 'code signing key',
+    plural: 'code signing keys',
+    revokeLabel: 'Disable',
+    describe: key => ({ targetResource: `Code signing key ${key.keyAlias}`, resourcePath: `/code-signing/keys/${key.id}` }),
+    ownerOf: key => key.owner,
+    revoke: (key, reason, now) => ({
+      patch: { disabledAt: now },
+      audit: batchId => buildAuditEntry('KEY_DISABLED', targets.codeSigningKeys.describe(key), { reason, batch_id: batchId }),
+    }),
+  },
+};
+
+export const BULK_ACTION_IDS: BulkActionId[] = ['export', 'tag', 'assignOwner', 'revoke', 'rotate', 'review'];
+
+export function bulkActionDefinition(collection: BulkCollection, action: BulkActionId): BulkActionDefinition {
+  const { noun, plural, revokeLabel } = targets[collection];
+  switch (action) {
+    case 'export':
+      return {
+        label: 'Export CSV',
+        description: `Downloads the selected ${plural} as CSV and logs the export of each one.`,
+        done: 'Exported',
+      };
+    case 'tag':
+      return {
+        label: 'Add tags',
+        description: `Adds the tags to each selected ${noun}; tags already there are kept.`,
+        done: 'Tagged',
+        input: 'tags',
+      };
+    case 'assignOwner':
+      return {
+        label: 'Assign owner',
+        description: `Makes one person or team the owner of every selected ${noun}.`,
+        done: 'Reassigned',
+        input: 'owner',
+      };
+    case 'revoke':
+      return {
+        label: revokeLabel,
+        description: collection === 'certificates'
+          ? 'Marks each certificate as revoked and logs the revocation. This cannot be undone from the dashboard.'
+          : 'Disables each key, marking it as no longer allowed for use.',
+        done: `${revokeLabel}d`,
+        input: 'reason',
+        destructive: true,
+      };
+    case 'rotate':
+      return {
+        label: 'Trigger rotation',
+        description: `Flags each selected ${noun} for rotation by its owner or automation.`,
+        done: 'Requested rotation for',
+      };
+    case 'review':
+      return {
+        label: 'Mark reviewed',
+        description: `Records that you reviewed each selected ${noun} today.`,
+        done: 'Reviewed',
+      };
+  }
+}
+
+export function describeCount(collection: BulkCollection, count: number) {
+  const { noun, plural } = targets[collection];
+  return `${count.toLocaleString()} ${count === 1 ? noun : plural}`;
+}
+
+// A short id shared by every audit entry of one bulk run
+export function createBatchId() {
+  return `bulk-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// Comma- or whitespace-separated tags, lowercased and without duplicates
+export function parseTags(text: string) {
+  return [...new Set(text.split(/[\s,]+/).map(tag => tag.trim().toLowerCase()).filter(Boolean))];
+}
+
+export interface BulkChange<T> {
+  id: string;
+  patch: Partial<T>;
+  audit: (before: T, after: T) => AuditEntryInput;
+}
+
+/**
+ * The change a bulk action makes to one record and the audit entry that goes
+ * with it. Returns null for actions that leave the record as it is (export),
+ * which are audited through `exportAuditEntry` instead.
+ */
+export function bulkChange<C extends BulkCollection>(
+  collection: C,
+  action: BulkActionId,
+  record: AssetRecordMap[C],
+  input: BulkActionInput,
+  batchId: string,
+  now = new Date().toISOString()
+): BulkChange<AssetRecordMap[C]> | null {
+  type T = AssetRecordMap[C];
+  const target = targets[collection] as BulkTarget<T>;
+  const describe = target.describe(record);
+
+  switch (action) {
+    case 'export':
+      return null;
+    case 'tag':
+      return {
+        id: record.id,
+        patch: { tags: [...new Set([...record.tags ?? [], ...input.tags])] } as Partial<T>,
+        audit: () => buildAuditEntry('ASSET_TAGGED', describe, { tags: input.tags, batch_id: batchId }),
+      };
+    case 'assignOwner': {
+      const previous = target.ownerOf(record);
+      return {
+        id: record.id,
+        patch: { owner: input.owner } as Partial<T>,
+        audit: () => buildAuditEntry('OWNER_ASSIGNED', describe, {
+          owner: input.owner,
+          ...(previous ? { previous_owner: previous } : {}),
+          batch_id: batchId,
+        }),
+      };
+    }
+    case 'revoke': {
+      const { patch, audit } = target.revoke(record, input.reason, now);
+      return { id: record.id, patch, audit: () => audit(batchId) };
+    }
+    case 'rotate':
+      return {
+        id: record.id,
+        patch: { rotationRequestedAt: now } as Partial<T>,
+        audit: () => buildAuditEntry('ROTATION_REQUESTED', describe, {
+          trigger: 'bulk',
+          ...('rotationPolicy' in record ? { rotation_policy: record.rotationPolicy } : {}),
+          batch_id: batchId,
+        }),
+      };
+    case 'review':
+      return {
+        id: record.id,
+        patch: { reviewedAt: now, reviewedBy: CURRENT_USER.email } as Partial<T>,
+        audit: () => buildAuditEntry('ASSET_REVIEWED', describe, { review_type: 'bulk', batch_id: batchId }),
+      };
+  }
+}
+
+// Audit entry for one record of a bulk export
+export function exportAuditEntry<C extends BulkCollection>(collection: C, record: AssetRecordMap[C], batchId: string) {
+  const target = targets[collection] as BulkTarget<AssetRecordMap[C]>;
+  return buildAuditEntry('ASSET_EXPORTED', target.describe(record), { export_format: 'csv', batch_id: batchId });
+}
@@ -0,0 +1,144 @@
+import type { AssetCollection } from '../types/assets';
+
+const KEY_PREFIX = 'cache_';
+const SCHEMA_VERSION_KEY = 'cache_schema_version';
+
+// Bump whenever the shape of a cached payload changes. Entries written
+// under another version are discarded instead of being fed to the UI.
+export const CACHE_SCHEMA_VERSION = 5;
+
+const DEFAULT_TTL_MS = 5 * 60 * 1000;
+
+// Larger payloads can't fit in any browser's localStorage, so they are only
+// kept in memory rather than evicting every other entry first
+const MAX_ENTRY_LENGTH = 4_000_000;
+
+// How long an entry is served without revalidating, per cache key
+export const CACHE_TTL_MS: Partial<Record<string, number>> = {
+  certificates: 5 * 60 * 1000,
+  certificateRequests: 5 * 60 * 1000,
+  sshKeys: 5 * 60 * 1000,
+  codeSigningKeys: 10 * 60 * 1000,
+  auditLogs: 60 * 1000,
+  savedViews: 5 * 60 * 1000,
+};
+
+// Editing an asset produces audit entries, so those caches go stale too
+export const CACHE_DEPENDENTS: Record<AssetCollection, AssetCollection[]> = {
+  certificates: ['auditLogs'],
+  certificateRequests: ['auditLogs'],
+  sshKeys: ['auditLogs'],
+  codeSigningKeys: ['auditLogs'],
+  auditLogs: [],
+  savedViews: [],
+};
+
+export interface CacheEntry<T = unknown> {
+  data: T;
+  timestamp: number;
+}
+
+interface StoredEntry<T> extends CacheEntry<T> {
+  version: number;
+}
+
+export function isExpired(key: string, timestamp: number, now = Date.now()) {
+  return now - timestamp > (CACHE_TTL_MS[key] ?? DEFAULT_TTL_MS);
+}
+
+function cacheKeys() {
+  const keys: string[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key && key.startsWith(KEY_PREFIX) && key !== SCHEMA_VERSION_KEY) {
+      keys.push(key);
+    }
+  }
+  return keys;
+}
+
+function storedTimestamp(storageKey: string) {
+  try {
+    const { timestamp } = JSON.parse(localStorage.getItem(storageKey) ?? '');
+    return typeof timestamp === 'number' ? timestamp : 0;
+  } catch {
+    return 0;
+  }
+}
+
+function isQuotaError(err: unknown) {
+  return err instanceof DOMException && (
+    err.name === 'QuotaExceededError' ||
+    err.name === 'NS_ERROR_DOM_QUOTA_REACHED'
+  );
+}
+
+export function clearCache() {
+  cacheKeys().forEach(key => localStorage.removeItem(key));
+}
+
+// Drops every persisted entry when the stored schema version is outdated
+export function ensureCacheSchema() {
+  if (localStorage.getItem(SCHEMA_VERSION_KEY) !== String(CACHE_SCHEMA_VERSION)) {
+    clearCache();
+    localStorage.setItem(SCHEMA_VERSION_KEY, String(CACHE_SCHEMA_VERSION));
+  }
+}
+
+/**
+ * Reads a persisted entry. Corrupted or outdated entries are removed and
+ * reported as a miss rather than thrown.
+ */
+export function readCacheEntry<T = unknown>(key: string): CacheEntry<T> | null {
+  const storageKey = KEY_PREFIX + key;
+  const raw = localStorage.getItem(storageKey);
+  if (!raw) return null;
+
+  try {
+    const entry: StoredEntry<T> = JSON.parse(raw);
+    if (entry.version !== CACHE_SCHEMA_VERSION || typeof entry.timestamp !== 'number' || !('data' in entry)) {
+      throw new Error('Outdated cache entry');
+    }
+    return { data: entry.data, timestamp: entry.timestamp };
+  } catch {
+    localStorage.removeItem(storageKey);
+    return null;
+  }
+}
+
+/**
+ * Persists an entry, evicting the least recently written entries when the
+ * storage quota is exhausted. Returns false if it still does not fit.
+ */
+export function writeCacheEntry<T>(key: string, entry: CacheEntry<T>) {
+  const storageKey = KEY_PREFIX + key;
+  const serialized = JSON.stringify({ ...entry, version: CACHE_SCHEMA_VERSION });
+  if (serialized.length > MAX_ENTRY_LENGTH) {
+    localStorage.removeItem(storageKey);
+    return false;
+  }
+
+  const evictable = cacheKeys()
+    .filter(k => k !== storageKey)
+    .sort((a, b) => storedTimestamp(a) - storedTimestamp(b));
+
+  for (;;) {
+    try {
+      localStorage.setItem(storageKey, serialized);
+      return true;
+    } catch (err) {
+      if (!isQuotaError(err)) throw err;
+      const victim = evictable.shift();
+      if (!victim) {
+        // Don't leave an older copy behind to be served as current
+        localStorage.removeItem(storageKey);
+        return false;
+      }
+      localStorage.removeItem(victim);
+    }
+  }
+}
+
+export function removeCacheEntry(key: string) {
+  localStorage.removeItem(KEY_PREFIX + key);
+}
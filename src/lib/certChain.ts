@@ -0,0 +1,160 @@
+import type { Certificate } from '../types/assets';
+import { KNOWN_INTERMEDIATES, isTrustedRoot } from './trustStore';
+
+const MAX_CHAIN_DEPTH = 10;
+
+export type ChainLinkSource = 'inventory' | 'trust-store' | 'missing';
+
+export interface ChainLink {
+  name: string;
+  role: 'leaf' | 'intermediate' | 'root';
+  source: ChainLinkSource;
+  certificate?: Certificate;
+}
+
+export type ChainStatus = 'trusted' | 'missing_intermediate' | 'self_signed_leaf' | 'untrusted_root';
+
+export interface CertificateChain {
+  // Ordered leaf first, root last
+  links: ChainLink[];
+  status: ChainStatus;
+  issues: string[];
+}
+
+export function isSelfSigned(cert: Certificate) {
+  if (cert.subjectKeyId && cert.authorityKeyId) {
+    return cert.subjectKeyId === cert.authorityKeyId;
+  }
+  return cert.issuer === cert.commonName;
+}
+
+// Prefers key-identifier matches and falls back to issuer name = subject CN
+function findIssuer(cert: Certificate, inventory: Certificate[]) {
+  const candidates = inventory.filter(c => c.id !== cert.id);
+  if (cert.authorityKeyId) {
+    const byKeyId = candidates.find(c => c.subjectKeyId === cert.authorityKeyId);
+    if (byKeyId) return byKeyId;
+  }
+  return candidates.find(c => c.commonName === cert.issuer && c.isCA !== false);
+}
+
+/**
+ * Walks from a certificate up to its root using the inventory first and the
+ * trust store's known intermediates second, and reports where it breaks.
+ */
+export function buildChain(leaf: Certificate, inventory: Certificate[]): CertificateChain {
+  const links: ChainLink[] = [{ name: leaf.commonName, role: 'leaf', source: 'inventory', certificate: leaf }];
+  const issues: string[] = [];
+
+  if (isSelfSigned(leaf)) {
+    links[0].role = 'root';
+    if (isTrustedRoot(leaf.commonName)) {
+      return { links, status: 'trusted', issues };
+    }
+    const status = leaf.isCA ? 'untrusted_root' : 'self_signed_leaf';
+    issues.push(leaf.isCA
+      ? `${leaf.commonName} is a self-signed root that is not in the trust store`
+      : `${leaf.commonName} is self-signed and not issued by any CA`);
+    return { links, status, issues };
+  }
+
+  const visited = new Set([leaf.id]);
+  let current: Certificate | null = leaf;
+  let issuerName = leaf.issuer;
+
+  for (let depth = 0; depth < MAX_CHAIN_DEPTH; depth++) {
+    const issuer: Certificate | undefined = current ? findIssuer(current, inventory) : undefined;
+
+    if (issuer && !visited.has(issuer.id)) {
+      visited.add(issuer.id);
+      const root = isSelfSigned(issuer);
+      links.push({ name: issuer.commonName, role: root ? 'root' : 'intermediate', source: 'inventory', certificate: issuer });
+      if (root) {
+        if (isTrustedRoot(issuer.commonName)) return { links, status: 'trusted', issues };
+        issues.push(`Chain ends at ${issuer.commonName}, which is not a trusted root`);
+        return { links, status: 'untrusted_root', issues };
+      }
+      current = issuer;
+      issuerName = issuer.issuer;
+      continue;
+    }
+
+    if (isTrustedRoot(issuerName)) {
+      links.push({ name: issuerName, role: 'root', source: 'trust-store' });
+      return { links, status: 'trusted', issues };
+    }
+
+    const parent = KNOWN_INTERMEDIATES[issuerName];
+    if (parent) {
+      links.push({ name: issuerName, role: 'intermediate', source: 'trust-store' });
+      current = null;
+      issuerName = parent;
+      continue;
+    }
+
+    links.push({ name: issuerName, role: 'intermediate', source: 'missing' });
+    issues.push(`Issuer ${issuerName} is not in the inventory or trust store`);
+    return { links, status: 'missing_intermediate', issues };
+  }
+
+  issues.push(`Chain is longer than ${MAX_CHAIN_DEPTH} certificates`);
+  return { links, status: 'missing_intermediate', issues };
+}
+
+export interface IssuerNode {
+  name: string;
+  source: ChainLinkSource;
+  trusted: boolean;
+  children: IssuerNode[];
+  // Certificates issued directly by this CA
+  certificates: Certificate[];
+}
+
+// Number of certificates issued by this CA or anything below it
+export function countDependents(node: IssuerNode): number {
+  return node.certificates.length + node.children.reduce((sum, child) => sum + countDependents(child), 0);
+}
+
+/**
+ * Groups the inventory by issuing CA. Every certificate hangs under the CA
+ * that issued it, and CAs nest under their own issuers up to the root.
+ */
+export function buildIssuerTree(inventory: Certificate[]): IssuerNode[] {
+  const roots: IssuerNode[] = [];
+
+  const childOf = (siblings: IssuerNode[], link: ChainLink) => {
+    let node = siblings.find(n => n.name === link.name);
+    if (!node) {
+      node = {
+        name: link.name,
+        source: link.source,
+        trusted: link.role === 'root' && isTrustedRoot(link.name),
+        children: [],
+        certificates: [],
+      };
+      siblings.push(node);
+    }
+    return node;
+  };
+
+  inventory.forEach(cert => {
+    const { links } = buildChain(cert, inventory);
+    // CAs from the top of the chain down to the direct issuer
+    const issuers = links.slice(1).reverse();
+    if (issuers.length === 0) {
+      // Self-signed: the certificate is its own group
+      childOf(roots, links[0]).certificates.push(cert);
+      return;
+    }
+
+    let siblings = roots;
+    let node: IssuerNode | null = null;
+    issuers.forEach(link => {
+      node = childOf(siblings, link);
+      siblings = node.children;
+    });
+    node!.certificates.push(cert);
+  });
+
+  return roots.sort((a, b) => countDependents(b) - countDependents(a));
+}
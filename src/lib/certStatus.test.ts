@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { daysUntilExpiry, expiryInstant, getCertificateHealth } from './certStatus';
+
+// `npm test` runs in America/Los_Angeles, where a UTC day boundary falls
+// mid-evening local time, so these also catch local-time date handling.
+
+const at = (iso: string) => new Date(iso);
+
+describe('expiryInstant', () => {
+  it('treats a date-only expiry as valid through the end of that UTC day', () => {
+    expect(expiryInstant('2025-03-18')).toBe(Date.UTC(2025, 2, 18, 23, 59, 59, 999));
+  });
+
+  it('keeps full timestamps as given', () => {
+    expect(expiryInstant('2025-03-18T00:00:00Z')).toBe(Date.UTC(2025, 2, 18));
+    expect(expiryInstant('2025-03-18T10:30:00+02:00')).toBe(Date.UTC(2025, 2, 18, 8, 30));
+  });
+
+  it('returns NaN for values that are not dates', () => {
+    expect(expiryInstant('soon')).toBeNaN();
+  });
+});
+
+describe('daysUntilExpiry', () => {
+  it('is 0 all through the day of expiry, from UTC midnight', () => {
+    expect(daysUntilExpiry('2025-03-18', at('2025-03-18T00:00:00Z'))).toBe(0);
+    expect(daysUntilExpiry('2025-03-18', at('2025-03-18T23:59:59.999Z'))).toBe(0);
+  });
+
+  it('changes at UTC midnight', () => {
+    expect(daysUntilExpiry('2025-03-18', at('2025-03-17T23:59:59.999Z'))).toBe(1);
+    expect(daysUntilExpiry('2025-03-18', at('2025-03-19T00:00:00Z'))).toBe(-1);
+  });
+
+  it('counts UTC days, not local ones', () => {
+    // 8pm on the 17th in Los Angeles is already the 18th in UTC
+    const evening = new Date(2025, 2, 17, 20, 0);
+    expect(evening.getTimezoneOffset()).not.toBe(0);
+    expect(daysUntilExpiry('2025-03-18', evening)).toBe(0);
+  });
+});
+
+describe('getCertificateHealth', () => {
+  const now = at('2025-03-01T12:00:00Z');
+  const thresholds = { critical: 7, warning: 30 };
+
+  it('is critical, not expired, on the day of expiry', () => {
+    expect(getCertificateHealth('2025-03-18', thresholds, at('2025-03-18T00:00:00Z'))).toBe('critical');
+    expect(getCertificateHealth('2025-03-18', thresholds, at('2025-03-18T23:59:59.999Z'))).toBe('critical');
+  });
+
+  it('is expired from the UTC midnight after the expiry day', () => {
+    expect(getCertificateHealth('2025-03-18', thresholds, at('2025-03-19T00:00:00Z'))).toBe('expired');
+  });
+
+  it('expires at the exact instant of a full timestamp', () => {
+    const expiry = '2025-03-18T10:00:00Z';
+    expect(getCertificateHealth(expiry, thresholds, at('2025-03-18T09:59:59.999Z'))).toBe('critical');
+    expect(getCertificateHealth(expiry, thresholds, at('2025-03-18T10:00:00.001Z'))).toBe('expired');
+  });
+
+  it('is critical up to the critical threshold and warning just after it', () => {
+    expect(getCertificateHealth('2025-03-08', thresholds, now)).toBe('critical');
+    expect(getCertificateHealth('2025-03-09', thresholds, now)).toBe('warning');
+  });
+
+  it('is warning up to the warning threshold and healthy just after it', () => {
+    expect(getCertificateHealth('2025-03-31', thresholds, now)).toBe('warning');
+    expect(getCertificateHealth('2025-04-01', thresholds, now)).toBe('healthy');
+  });
+
+  it('follows custom thresholds', () => {
+    const custom = { critical: 0, warning: 1 };
+    expect(getCertificateHealth('2025-03-01', custom, now)).toBe('critical');
+    expect(getCertificateHealth('2025-03-02', custom, now)).toBe('warning');
+    expect(getCertificateHealth('2025-03-03', custom, now)).toBe('healthy');
+  });
+
+  it('uses UTC days in a non-UTC timezone', () => {
+    // Local 8pm on Feb 28 is March 1 in UTC: 7 UTC days before March 8, 8 local ones
+    const evening = new Date(2025, 1, 28, 20, 0);
+    expect(getCertificateHealth('2025-03-08', thresholds, evening)).toBe('critical');
+    expect(getCertificateHealth('2025-03-09', thresholds, evening)).toBe('warning');
+  });
+
+  it('treats unparseable dates as expired', () => {
+    expect(getCertificateHealth('not a date', thresholds, now)).toBe('expired');
+  });
+});
@@ -0,0 +1,92 @@
+import type { Certificate } from '../types/assets';
+
+export type CertificateHealth = 'expired' | 'critical' | 'warning' | 'healthy';
+
+export interface ExpiryThresholds {
+  // A certificate is critical with this many days or fewer left
+  critical: number;
+  // ...and warning with this many days or fewer left
+  warning: number;
+}
+
+export const DEFAULT_EXPIRY_THRESHOLDS: ExpiryThresholds = {
+  critical: 7,
+  warning: 30,
+};
+
+export const HEALTH_ORDER: CertificateHealth[] = ['expired', 'critical', 'warning', 'healthy'];
+
+export const HEALTH_LABELS: Record<CertificateHealth, string> = {
+  expired: 'Expired',
+  critical: 'Critical',
+  warning: 'Expiring Soon',
+  healthy: 'Healthy',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_ONLY = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Returns the instant a certificate stops being valid. Date-only values
+ * ("2025-03-18") are valid through the end of that day in UTC, so the
+ * result doesn't depend on the viewer's timezone.
+ */
+export function expiryInstant(expiryDate: string): number {
+  const match = DATE_ONLY.exec(expiryDate);
+  if (match) {
+    return Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]) + 1) - 1;
+  }
+  return new Date(expiryDate).getTime();
+}
+
+function utcDay(ms: number) {
+  return Math.floor(ms / DAY_MS);
+}
+
+/**
+ * Whole UTC calendar days from `now` until the certificate's expiry day.
+ * 0 means it expires today, negative values mean it already expired.
+ */
+export function daysUntilExpiry(expiryDate: string, now: Date = new Date()): number {
+  return utcDay(expiryInstant(expiryDate)) - utcDay(now.getTime());
+}
+
+export function getCertificateHealth(
+  expiryDate: string,
+  thresholds: ExpiryThresholds = DEFAULT_EXPIRY_THRESHOLDS,
+  now: Date = new Date()
+): CertificateHealth {
+  const expiresAt = expiryInstant(expiryDate);
+  if (Number.isNaN(expiresAt) || expiresAt < now.getTime()) return 'expired';
+
+  const days = daysUntilExpiry(expiryDate, now);
+  if (days <= thresholds.critical) return 'critical';
+  if (days <= thresholds.warning) return 'warning';
+  return 'healthy';
+}
+
+export function countByHealth(
+  certificates: Certificate[],
+  thresholds: ExpiryThresholds = DEFAULT_EXPIRY_THRESHOLDS,
+  now: Date = new Date()
+): Record<CertificateHealth, number> {
+  const counts: Record<CertificateHealth, number> = { expired: 0, critical: 0, warning: 0, healthy: 0 };
+  certificates.forEach(cert => {
+    counts[getCertificateHealth(cert.expiryDate, thresholds, now)]++;
+  });
+  return counts;
+}
+
+// Maps onto the stored `status` field kept for older consumers of the data
+export function toStoredStatus(health: CertificateHealth): Certificate['status'] {
+  if (health === 'expired') return 'expired';
+  return health === 'healthy' ? 'active' : 'expiring_soon';
+}
+
+export function validateThresholds(thresholds: ExpiryThresholds): string | null {
+  const { critical, warning } = thresholds;
+  if (!Number.isInteger(critical) || !Number.isInteger(warning)) return 'Thresholds must be whole numbers of days';
+  if (critical < 0) return 'Critical threshold cannot be negative';
+  if (warning <= critical) return 'Warning threshold must be greater than the critical threshold';
+  return null;
+}
@@ -0,0 +1,172 @@
+import {
+  TAG,
+  encodeSequence,
+  encodeSet,
+  encodeInteger,
+  encodeNull,
+  encodeOid,
+  encodeBitString,
+  encodeOctetString,
+  encodeString,
+  encodeImplicit,
+  encodeImplicitSet,
+} from './asn1';
+import { derToPem, fingerprint } from './x509';
+
+// PKCS#10 certificate signing requests built with WebCrypto keys
+
+export type KeyAlgorithm = 'RSA-2048' | 'RSA-4096' | 'ECDSA-P256';
+
+export const KEY_ALGORITHMS: KeyAlgorithm[] = ['ECDSA-P256', 'RSA-2048', 'RSA-4096'];
+
+// Subject attributes we let people set, keyed the same way DistinguishedName prints them
+export interface CsrSubject {
+  CN: string;
+  O?: string;
+  OU?: string;
+  L?: string;
+  ST?: string;
+  C?: string;
+}
+
+const SUBJECT_OIDS: Record<keyof CsrSubject, string> = {
+  C: '2.5.4.6',
+  ST: '2.5.4.8',
+  L: '2.5.4.7',
+  O: '2.5.4.10',
+  OU: '2.5.4.11',
+  CN: '2.5.4.3',
+};
+
+// Most significant first, the conventional order for a subject
+const SUBJECT_ORDER: (keyof CsrSubject)[] = ['C', 'ST', 'L', 'O', 'OU', 'CN'];
+
+const OID = {
+  EXTENSION_REQUEST: '1.2.840.113549.1.9.14',
+  SUBJECT_ALT_NAME: '2.5.29.17',
+  SHA256_WITH_RSA: '1.2.840.113549.1.1.11',
+  ECDSA_WITH_SHA256: '1.2.840.10045.4.3.2',
+};
+
+export class CsrError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CsrError';
+  }
+}
+
+function signingParams(algorithm: KeyAlgorithm): RsaHashedKeyGenParams | EcKeyGenParams {
+  if (algorithm === 'ECDSA-P256') {
+    return { name: 'ECDSA', namedCurve: 'P-256' };
+  }
+  return {
+    name: 'RSASSA-PKCS1-v1_5',
+    modulusLength: algorithm === 'RSA-4096' ? 4096 : 2048,
+    publicExponent: new Uint8Array([1, 0, 1]),
+    hash: 'SHA-256',
+  };
+}
+
+/** Generates an extractable key pair so the private key can be exported afterwards. */
+export function generateKeyPair(algorithm: KeyAlgorithm): Promise<CryptoKeyPair> {
+  return crypto.subtle.generateKey(signingParams(algorithm), true, ['sign', 'verify']);
+}
+
+export function encodeName(subject: CsrSubject): Uint8Array {
+  const rdns = SUBJECT_ORDER
+    .filter(key => subject[key])
+    .map(key => encodeSet(encodeSequence(
+      encodeOid(SUBJECT_OIDS[key]),
+      // countryName is restricted to PrintableString
+      encodeString(subject[key]!, key === 'C' ? TAG.PRINTABLE_STRING : TAG.UTF8_STRING)
+    )));
+  return encodeSequence(...rdns);
+}
+
+// Same "C=US, O=Example, CN=www.example.com" form as a parsed certificate's subject
+export function formatSubject(subject: CsrSubject): string {
+  return SUBJECT_ORDER
+    .filter(key => subject[key])
+    .map(key => `${key}=${subject[key]}`)
+    .join(', ');
+}
+
+// Hostname with an optional leading wildcard label, e.g. *.example.com
+export function isDnsName(name: string): boolean {
+  return /^(\*\.)?([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/i.test(name) && name.length <= 253;
+}
+
+// SubjectAltName extension value with one dNSName per entry
+export function encodeDnsSubjectAltNames(dnsNames: string[]): Uint8Array {
+  return encodeSequence(...dnsNames.map(name => encodeImplicit(2, new TextEncoder().encode(name))));
+}
+
+// WebCrypto returns r || s for ECDSA; X.509 and PKCS#10 want ECDSA-Sig-Value
+export function ecdsaSignatureToDer(raw: Uint8Array): Uint8Array {
+  const half = raw.length / 2;
+  return encodeSequence(encodeInteger(raw.subarray(0, half)), encodeInteger(raw.subarray(half)));
+}
+
+function signatureAlgorithm(key: CryptoKey): Uint8Array {
+  return key.algorithm.name === 'ECDSA'
+    ? encodeSequence(encodeOid(OID.ECDSA_WITH_SHA256))
+    : encodeSequence(encodeOid(OID.SHA256_WITH_RSA), encodeNull());
+}
+
+async function sign(key: CryptoKey, data: Uint8Array): Promise<Uint8Array> {
+  if (key.algorithm.name === 'ECDSA') {
+    const raw = await crypto.subtle.sign({ name: 'ECDSA', hash: 'SHA-256' }, key, data.slice());
+    return ecdsaSignatureToDer(new Uint8Array(raw));
+  }
+  return new Uint8Array(await crypto.subtle.sign('RSASSA-PKCS1-v1_5', key, data.slice()));
+}
+
+export interface CsrOptions {
+  subject: CsrSubject;
+  // DNS names for the subjectAltName extension
+  dnsNames: string[];
+  keyPair: CryptoKeyPair;
+}
+
+/** Builds and signs a DER-encoded PKCS#10 request (RFC 2986). */
+export async function createCsr({ subject, dnsNames, keyPair }: CsrOptions): Promise<Uint8Array> {
+  if (!subject.CN.trim()) throw new CsrError('Common name is required');
+
+  const spki = new Uint8Array(await crypto.subtle.exportKey('spki', keyPair.publicKey));
+  const attributes = dnsNames.length > 0
+    ? [encodeSequence(
+        encodeOid(OID.EXTENSION_REQUEST),
+        encodeSet(encodeSequence(encodeSequence(
+          encodeOid(OID.SUBJECT_ALT_NAME),
+          encodeOctetString(encodeDnsSubjectAltNames(dnsNames))
+        )))
+      )]
+    : [];
+
+  const info = encodeSequence(
+    encodeInteger(0),
+    encodeName(subject),
+    spki,
+    // attributes [0] IMPLICIT SET OF Attribute
+    encodeImplicitSet(0, ...attributes)
+  );
+
+  return encodeSequence(
+    info,
+    signatureAlgorithm(keyPair.privateKey),
+    encodeBitString(await sign(keyPair.privateKey, info))
+  );
+}
+
+export function csrToPem(der: Uint8Array): string {
+  return derToPem(der, 'CERTIFICATE REQUEST');
+}
+
+// Same format as ParsedCertificate.publicKeySha256, so a CSR can be matched to its certificate
+export async function publicKeySha256(key: CryptoKey): Promise<string> {
+  return fingerprint('SHA-256', new Uint8Array(await crypto.subtle.exportKey('spki', key)));
+}
+
+export async function exportPrivateKeyPem(key: CryptoKey): Promise<string> {
+  return derToPem(new Uint8Array(await crypto.subtle.exportKey('pkcs8', key)), 'PRIVATE KEY');
+}
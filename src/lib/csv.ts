@@ -0,0 +1,15 @@
+import { downloadFile } from './download';
+
+function escapeCell(value: unknown) {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(headers: string[], rows: unknown[][]) {
+  return [headers, ...rows].map(row => row.map(escapeCell).join(',')).join('\n');
+}
+
+// Triggers a browser download named `<prefix>-<YYYY-MM-DD>.csv`
+export function downloadCsv(prefix: string, headers: string[], rows: unknown[][]) {
+  downloadFile(`${prefix}-${new Date().toISOString().split('T')[0]}.csv`, toCsv(headers, rows), 'text/csv');
+}
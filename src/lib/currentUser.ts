@@ -0,0 +1,7 @@
+// Signed-in user. There is no auth backend yet, so this is fixed.
+export const CURRENT_USER = {
+  name: 'Kunal Verma',
+  email: 'kunal.verma@example.com',
+  role: 'Network Admin',
+  initials: 'KV',
+};
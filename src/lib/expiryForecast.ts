@@ -0,0 +1,140 @@
+import type { Certificate } from '../types/assets';
+import {
+  getCertificateHealth,
+  expiryInstant,
+  CertificateHealth,
+  ExpiryThresholds,
+  DEFAULT_EXPIRY_THRESHOLDS,
+  HEALTH_ORDER,
+} from './certStatus';
+
+// Issuers beyond this many are folded into a single "Other" series
+const MAX_FORECAST_ISSUERS = 5;
+export const OTHER_ISSUER = 'Other';
+
+export interface ExpiryDay {
+  // YYYY-MM-DD (UTC), the same calendar day the status engine uses
+  date: string;
+  certificates: Certificate[];
+  // Most urgent status among the certificates expiring that day
+  health: CertificateHealth;
+}
+
+export interface ForecastMonth {
+  // YYYY-MM (UTC)
+  month: string;
+  label: string;
+  total: number;
+  // Count per series key, see ExpiryForecast.series
+  counts: Record<string, number>;
+}
+
+export interface ExpiryForecast {
+  months: ForecastMonth[];
+  // Stable, CSS-safe keys for each issuer series, in legend order
+  series: { key: string; issuer: string }[];
+  // Certificates that have already expired and so fall before the window
+  overdue: number;
+}
+
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+function utcDateKey(ms: number) {
+  return new Date(ms).toISOString().slice(0, 10);
+}
+
+export function expiryDayKey(expiryDate: string): string | null {
+  const ms = expiryInstant(expiryDate);
+  return Number.isNaN(ms) ? null : utcDateKey(ms);
+}
+
+/** Groups certificates by the UTC day they expire on. */
+export function groupByExpiryDay(
+  certificates: Certificate[],
+  thresholds: ExpiryThresholds = DEFAULT_EXPIRY_THRESHOLDS,
+  now: Date = new Date()
+): Map<string, ExpiryDay> {
+  const days = new Map<string, ExpiryDay>();
+  certificates.forEach(cert => {
+    const date = expiryDayKey(cert.expiryDate);
+    if (!date) return;
+
+    const health = getCertificateHealth(cert.expiryDate, thresholds, now);
+    const day = days.get(date);
+    if (!day) {
+      days.set(date, { date, certificates: [cert], health });
+      return;
+    }
+    day.certificates.push(cert);
+    if (HEALTH_ORDER.indexOf(health) < HEALTH_ORDER.indexOf(day.health)) {
+      day.health = health;
+    }
+  });
+  return days;
+}
+
+/**
+ * Counts expirations per month for the next `monthCount` months (starting
+ * with the current UTC month), split by issuer. The busiest issuers get
+ * their own series; the rest are grouped under "Other".
+ */
+export function buildExpiryForecast(
+  certificates: Certificate[],
+  monthCount = 12,
+  now: Date = new Date()
+): ExpiryForecast {
+  const startYear = now.getUTCFullYear();
+  const startMonth = now.getUTCMonth();
+  const windowStart = Date.UTC(startYear, startMonth, 1);
+  const windowEnd = Date.UTC(startYear, startMonth + monthCount, 1);
+
+  const months: ForecastMonth[] = Array.from({ length: monthCount }, (_, i) => {
+    const date = new Date(Date.UTC(startYear, startMonth + i, 1));
+    return {
+      month: date.toISOString().slice(0, 7),
+      label: `${MONTH_LABELS[date.getUTCMonth()]} ${date.getUTCFullYear()}`,
+      total: 0,
+      counts: {},
+    };
+  });
+
+  let overdue = 0;
+  const upcoming: { cert: Certificate; index: number }[] = [];
+  certificates.forEach(cert => {
+    const expiresAt = expiryInstant(cert.expiryDate);
+    if (Number.isNaN(expiresAt)) return;
+    if (expiresAt < now.getTime()) {
+      overdue++;
+      return;
+    }
+    if (expiresAt < windowStart || expiresAt >= windowEnd) return;
+
+    const expiry = new Date(expiresAt);
+    const index = (expiry.getUTCFullYear() - startYear) * 12 + expiry.getUTCMonth() - startMonth;
+    upcoming.push({ cert, index });
+  });
+
+  const issuerTotals = new Map<string, number>();
+  upcoming.forEach(({ cert }) => {
+    issuerTotals.set(cert.issuer, (issuerTotals.get(cert.issuer) ?? 0) + 1);
+  });
+  const ranked = [...issuerTotals.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([issuer]) => issuer);
+  const named = ranked.length > MAX_FORECAST_ISSUERS ? ranked.slice(0, MAX_FORECAST_ISSUERS - 1) : ranked;
+
+  const series = named.map((issuer, i) => ({ key: `issuer${i}`, issuer }));
+  if (named.length < ranked.length) {
+    series.push({ key: 'other', issuer: OTHER_ISSUER });
+  }
+  const keyByIssuer = new Map(series.map(s => [s.issuer, s.key]));
+
+  upcoming.forEach(({ cert, index }) => {
+    const key = keyByIssuer.get(cert.issuer) ?? 'other';
+    const month = months[index];
+    month.counts[key] = (month.counts[key] ?? 0) + 1;
+    month.total++;
+  });
+
+  return { months, series, overdue };
+}
@@ -0,0 +1,168 @@
+import type { AssetRecordMap } from '../types/assets';
+import { expiryInstant, getCertificateHealth, ExpiryThresholds, HEALTH_ORDER } from './certStatus';
+import {
+  broadSshPrincipals,
+  isSigningKeyRotationOverdue,
+  isSshCertificateExpiring,
+  isSshKeyRotationOverdue,
+  CryptoPolicy,
+} from './policy';
+import { parseSort, sortRows, SortValue } from './tableSort';
+import { matchesSearch } from './assetSearch';
+import { parseAuditTimestamp } from './audit';
+import { scoreSshKey, LoginActivity, TrustThresholds } from './sshTrust';
+
+// Filtering and sorting for the list pages. Everything here is plain data in,
+// plain data out, so it can run in the list worker as well as on the page.
+
+// Filter state per list page; "all" or "" means unfiltered
+export interface ListFilterMap {
+  certificates: { domain: string; status: string; search: string; thresholds: ExpiryThresholds };
+  // kind: "signed", "bare", "ca" or "flagged" (certificate expiring or too broad).
+  // Trust is scored from the thresholds, policy and recent logins. `watched`
+  // limits the list to those key ids; null shows every key.
+  sshKeys: {
+    trust: string;
+    rotation: string;
+    kind: string;
+    search: string;
+    policy: CryptoPolicy;
+    trustThresholds: TrustThresholds;
+    logins: LoginActivity;
+    watched: string[] | null;
+  };
+  codeSigningKeys: { protection: string; environment: string; rotation: string; search: string };
+  // from/to are epoch ms, both inclusive
+  auditLogs: { action: string; search: string; from?: number; to?: number };
+}
+
+export type ListCollection = keyof ListFilterMap;
+
+// `sort` uses column ids, e.g. "-trustLevel,owner"
+export type ListQuery<C extends ListCollection> = ListFilterMap[C] & { sort: string };
+
+type ListRecord<C extends ListCollection> = AssetRecordMap[C];
+
+interface ListDefinition<C extends ListCollection> {
+  matches: (filters: ListFilterMap[C], now: Date) => (record: ListRecord<C>) => boolean;
+  sortValues: (filters: ListFilterMap[C], now: Date) => Record<string, (record: ListRecord<C>) => SortValue>;
+}
+
+const timeOf = (value: string) => new Date(value).getTime();
+
+// CAs first, then CA-signed keys, then bare keys
+const sshKeyKind = (key: AssetRecordMap['sshKeys']) =>
+  key.certificateAuthority ? 'ca' : key.certificate ? 'signed' : 'bare';
+
+const SSH_KIND_ORDER = ['ca', 'signed', 'bare'];
+
+const LISTS: { [C in ListCollection]: ListDefinition<C> } = {
+  certificates: {
+    matches: ({ domain, status, search, thresholds }, now) => {
+      const term = search.toLowerCase();
+      return cert =>
+        (domain === 'all' || cert.domain === domain) &&
+        (status === 'all' || getCertificateHealth(cert.expiryDate, thresholds, now) === status) &&
+        (!term || matchesSearch('certificates', cert, term));
+    },
+    sortValues: ({ thresholds }, now) => ({
+      name: cert => cert.name,
+      domain: cert => cert.domain,
+      issuer: cert => cert.issuer,
+      status: cert => HEALTH_ORDER.indexOf(getCertificateHealth(cert.expiryDate, thresholds, now)),
+      revocation: cert => cert.revocation?.status ?? '',
+      expiryDate: cert => expiryInstant(cert.expiryDate),
+      algorithm: cert => cert.algorithm,
+      serialNumber: cert => cert.serialNumber,
+    }),
+  },
+
+  sshKeys: {
+    matches: ({ trust, rotation, kind, search, policy, trustThresholds, logins, watched }, now) => {
+      const term = search.toLowerCase();
+      const context = { thresholds: trustThresholds, policy, logins };
+      const watchedIds = watched && new Set(watched);
+      return key =>
+        (!watchedIds || watchedIds.has(key.id)) &&
+        (trust === 'all' || scoreSshKey(key, context, now).level === trust) &&
+        (rotation !== 'overdue' || isSshKeyRotationOverdue(key, policy, now)) &&
+        (kind === 'all' || (kind === 'flagged'
+          ? isSshCertificateExpiring(key, policy, now) || !!broadSshPrincipals(key, policy)
+          : sshKeyKind(key) === kind)) &&
+        (!term || matchesSearch('sshKeys', key, term));
+    },
+    sortValues: ({ policy, trustThresholds, logins }, now) => ({
+      owner: key => key.keyOwner,
+      fingerprint: key => key.fingerprint,
+      // Never-used keys sort as the least recently used
+      lastUsed: key => key.lastUsed ? parseAuditTimestamp(key.lastUsed) : 0,
+      trustLevel: key => scoreSshKey(key, { thresholds: trustThresholds, policy, logins }, now).score,
+      algorithm: key => key.algorithm,
+      createdAt: key => timeOf(key.createdAt),
+      kind: key => SSH_KIND_ORDER.indexOf(sshKeyKind(key)),
+    }),
+  },
+
+  codeSigningKeys: {
+    matches: ({ protection, environment, rotation, search }, now) => {
+      const term = search.toLowerCase();
+      return key =>
+        (protection === 'all' || key.protectionLevel === protection) &&
+        (environment === 'all' || key.environment === environment) &&
+        (rotation !== 'overdue' || isSigningKeyRotationOverdue(key, now)) &&
+        (!term || matchesSearch('codeSigningKeys', key, term));
+    },
+    sortValues: () => ({
+      alias: key => key.keyAlias,
+      algorithm: key => key.algorithm,
+      protection: key => key.protectionLevel,
+      environment: key => key.environment,
+      owner: key => key.owner,
+      createdAt: key => timeOf(key.createdAt),
+      lastUsed: key => parseAuditTimestamp(key.lastUsed),
+    }),
+  },
+
+  auditLogs: {
+    matches: ({ action, search, from, to }) => {
+      const term = search.toLowerCase();
+      return log => {
+        if (action !== 'all' && log.actionType !== action) return false;
+        if (term && !matchesSearch('auditLogs', log, term)) return false;
+        if (from === undefined && to === undefined) return true;
+        const time = parseAuditTimestamp(log.timestamp);
+        return (from === undefined || time >= from) && (to === undefined || time <= to);
+      };
+    },
+    sortValues: () => ({
+      timestamp: log => parseAuditTimestamp(log.timestamp),
+      actor: log => log.actor,
+      action: log => log.actionType,
+    }),
+  },
+};
+
+/**
+ * Filters and sorts a list page's records. Returns the positions of the
+ * matching records in `records`, in display order, so the caller keeps its
+ * own record objects.
+ */
+export function runListQuery<C extends ListCollection>(
+  collection: C,
+  records: ListRecord<C>[],
+  query: ListQuery<C>,
+  now: Date = new Date()
+): number[] {
+  const list = LISTS[collection] as ListDefinition<C>;
+  const matches = list.matches(query, now);
+  const indices: number[] = [];
+  for (let i = 0; i < records.length; i++) {
+    if (matches(records[i])) indices.push(i);
+  }
+
+  const accessors: Record<string, (index: number) => SortValue> = {};
+  for (const [id, value] of Object.entries(list.sortValues(query, now))) {
+    accessors[id] = index => value(records[index]);
+  }
+  return sortRows(indices, accessors, parseSort(query.sort));
+}
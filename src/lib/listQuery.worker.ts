@@ -0,0 +1,37 @@
+import { runListQuery, ListCollection, ListQuery } from './listQuery';
+
+// Runs list queries off the main thread. Records are sent once per dataset
+// version; queries then only carry filters and sort, and the answer is the
+// matching positions in display order.
+
+export type ListWorkerRequest =
+  | { type: 'load'; collection: ListCollection; version: number; records: unknown[] }
+  | { type: 'query'; id: number; collection: ListCollection; version: number; query: ListQuery<ListCollection> };
+
+export type ListWorkerResponse =
+  | { id: number; indices: Int32Array }
+  | { id: number; error: string };
+
+const datasets = new Map<ListCollection, { version: number; records: unknown[] }>();
+
+self.onmessage = (event: MessageEvent<ListWorkerRequest>) => {
+  const message = event.data;
+  if (message.type === 'load') {
+    datasets.set(message.collection, { version: message.version, records: message.records });
+    return;
+  }
+
+  const dataset = datasets.get(message.collection);
+  let response: ListWorkerResponse;
+  if (!dataset || dataset.version !== message.version) {
+    response = { id: message.id, error: `${message.collection} v${message.version} is not loaded` };
+  } else {
+    try {
+      const indices = Int32Array.from(runListQuery(message.collection, dataset.records as never[], message.query));
+      response = { id: message.id, indices };
+    } catch (err) {
+      response = { id: message.id, error: err instanceof Error ? err.message : 'List query failed' };
+    }
+  }
+  self.postMessage(response, { transfer: 'indices' in response ? [response.indices.buffer] : [] });
+};
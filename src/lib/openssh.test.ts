@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { parseSshKeys } from './openssh';
+
+// Keys made with ssh-keygen; the expected fingerprints are what
+// `ssh-keygen -l -E sha256` and `-E md5` print for them.
+
+const ED25519 = 'ssh-ed25519 AAAAC3NzaC1lZDI1NTE5AAAAID5dHUMeUjHmzsAemPNiD42NN0cnd6VTxFeGDXBVtY2J ed@test';
+const P256 = 'ecdsa-sha2-nistp256 AAAAE2VjZHNhLXNoYTItbmlzdHAyNTYAAAAIbmlzdHAyNTYAAABBBGKVO1hBHSx8Z2GiO0B6mfbME/LzeBBtat3BIt0UMEdLH+ac4DALmGsR84eR75C0uW/UyGr2EpywGH5GgFduIA0= p256@test';
+const P384 = 'ecdsa-sha2-nistp384 AAAAE2VjZHNhLXNoYTItbmlzdHAzODQAAAAIbmlzdHAzODQAAABhBOte8cSTAf2CQvAP4eCFcOTnoUOoG3bEkYR+S/GCYMKstmo1Z/jEWXIYG7K5jfrKSBnRHKkf0A35krqx5VrYsh4bFrxsHIg8VHaM25VKyKxPcoRqAYmaCgJdsrzgIkopMg== p384@test';
+const RSA_3072 = 'ssh-rsa AAAAB3NzaC1yc2EAAAADAQABAAABgQCtuelD4GXCJfENxp8kDBV37DnsNYFRId1BDqb/WSbqbeWTVDMM0gNtEfMwii1RrkZVWUo62WG52Acn2+OCxSMNy8M0yhNyCDmYTbBQh4wOZDETmNQ3w7fRsN/VgrmU88Ya0u7rv3jbS/Fkd9OXVbIZ+eVlNW2gI3X7rp9wG9pD/LwmVYOekgLhG5r0YurB/c/LPBgWyJiqnkyIuLnnJftPb8VJcRZT9Em72BUqVKZeS5TGJrMfHfY5isw78xRqa14SlB9vGIewuYyWZKlCHhA7AfiVY3EJ69IAfMzFFX09A3mCz7YcYGQZFsEq4xj8TmfAfdFP4M1zUcN3TE+ta6S+v3pcWuom6IJywyCoOg4Y2moUmEHRXFgksJWt3q6Nb6PHW2iwuha1tjbYqdxrUZ+zF03iQTz/U6IIcZZZlOzAEO0W1PhPktEMxcR9TT1bldONYCbIFPDSZdNn2AEhzcCYNfbjjpIlJS+BiJfEFpVmkzCTEgWU6+CpWQUNCJQzJ18= rsa@test';
+// ED25519 signed by CA_KEY: ssh-keygen -s ca -I user-cert -n alice -V 20250101:20260101
+const ED25519_CERT = 'ssh-ed25519-cert-v01@openssh.com AAAAIHNzaC1lZDI1NTE5LWNlcnQtdjAxQG9wZW5zc2guY29tAAAAIAb45Fpb1D8F7osVnsBP4Hgr1uquZ7lIuOBL10w12fFCAAAAID5dHUMeUjHmzsAemPNiD42NN0cnd6VTxFeGDXBVtY2JAAAAAAAAAAAAAAABAAAACXVzZXItY2VydAAAAAkAAAAFYWxpY2UAAAAAZ3SFgAAAAABpVbkAAAAAAAAAAIIAAAAVcGVybWl0LVgxMS1mb3J3YXJkaW5nAAAAAAAAABdwZXJtaXQtYWdlbnQtZm9yd2FyZGluZwAAAAAAAAAWcGVybWl0LXBvcnQtZm9yd2FyZGluZwAAAAAAAAAKcGVybWl0LXB0eQAAAAAAAAAOcGVybWl0LXVzZXItcmMAAAAAAAAAAAAAADMAAAALc3NoLWVkMjU1MTkAAAAgAjOhD+3TjhkG+dhNGqPl7WeKOFT/H04FAxSPmkWzzUIAAABTAAAAC3NzaC1lZDI1NTE5AAAAQA39ZTVUigzIYp9Q3npj3hOiCqag093myaxiDSf/irH7cd4SF8Xji08y9+2o8eFZR3JYYCQdik331AYhsH9l8Qc= ed@test';
+const CA_KEY = 'ssh-ed25519 AAAAC3NzaC1lZDI1NTE5AAAAIAIzoQ/t044ZBvnYTRqj5e1nijhU/x9OBQMUj5pFs81C ca';
+
+const parseOne = async (line: string) => {
+  const { keys, errors } = await parseSshKeys(line);
+  expect(errors).toEqual([]);
+  return keys[0];
+};
+
+// Base64 of SSH wire-format strings, for hand-built key blobs
+const wireBlob = (...fields: (string | Uint8Array)[]) => {
+  const parts = fields.map(field => typeof field === 'string' ? new TextEncoder().encode(field) : field);
+  const bytes = new Uint8Array(parts.reduce((total, part) => total + 4 + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    new DataView(bytes.buffer).setUint32(offset, part.length);
+    bytes.set(part, offset + 4);
+    offset += 4 + part.length;
+  }
+  return btoa(String.fromCharCode(...bytes));
+};
+
+describe('parseSshKeys fingerprints', () => {
+  it.each([
+    ['ed25519', ED25519, 'SHA256:nBPGIvoeymgeYT9GRh96Kvka72LZpEyTrRkxf9pE62M', 'MD5:53:26:a6:05:6b:7d:45:10:7e:8b:a7:87:87:00:62:9b'],
+    ['ecdsa-p256', P256, 'SHA256:6o/IrowYWdT14dwHJMgN7q15s6OgnNuo3DsoXWoDM4g', 'MD5:a1:48:77:0a:48:14:c7:0b:75:bd:57:6f:72:80:f2:58'],
+    ['ecdsa-p384', P384, 'SHA256:OkvNlsFh8oae5GI0PwHgRQfOsaJI3723WCPQU/oHFuI', 'MD5:f1:f2:b3:0a:d2:7d:71:64:81:4b:63:4d:4f:9f:0c:dc'],
+    ['rsa-3072', RSA_3072, 'SHA256:9eQiU9TWKM7qtbpMmRM763/UviByZkvJmnSH4Ohz0tU', 'MD5:91:ac:df:eb:69:69:f7:9f:e5:78:61:4c:83:86:d7:72'],
+  ])('matches ssh-keygen for %s', async (algorithm, line, sha256, md5) => {
+    const key = await parseOne(line);
+    expect(key.algorithm).toBe(algorithm);
+    expect(key.fingerprints).toEqual({ sha256, md5 });
+  });
+
+  it('fingerprints a certificate by its certified key, as ssh-keygen does', async () => {
+    const [plain, cert] = await Promise.all([parseOne(ED25519), parseOne(ED25519_CERT)]);
+    expect(cert.algorithm).toBe('ed25519');
+    expect(cert.fingerprints).toEqual(plain.fingerprints);
+    expect(cert.publicKey).toBe(plain.publicKey);
+  });
+});
+
+describe('parseSshKeys certificates', () => {
+  it('reads the certificate fields and the signing CA', async () => {
+    const { certificate } = await parseOne(ED25519_CERT);
+    const ca = await parseOne(CA_KEY);
+    expect(certificate).toMatchObject({
+      type: 'user',
+      keyId: 'user-cert',
+      principals: ['alice'],
+      signingCaFingerprint: ca.fingerprints.sha256,
+    });
+    expect(ca.fingerprints.sha256).toBe('SHA256:bh3ujZSCdQa1ybHYKcKrEEYKGa+niknZhmNkoYMoX/Q');
+    expect(certificate?.extensions).toContain('permit-pty');
+  });
+});
+
+describe('parseSshKeys errors', () => {
+  it('reports bad lines by number and keeps the good ones', async () => {
+    const { keys, errors } = await parseSshKeys(`# keys\n${ED25519}\nssh-ed25519 not-base64!\n${P256}`);
+    expect(keys.map(key => key.line)).toEqual([2, 4]);
+    expect(errors.map(error => error.line)).toEqual([3]);
+  });
+
+  it('rejects ECDSA data with an empty curve and point', async () => {
+    const { keys, errors } = await parseSshKeys(`ecdsa-sha2-nistp256 ${wireBlob('ecdsa-sha2-nistp256', '', '')}`);
+    expect(keys).toEqual([]);
+    expect(errors).toHaveLength(1);
+  });
+
+  it('rejects ECDSA data for another curve', async () => {
+    const point = new Uint8Array(65).fill(1);
+    point[0] = 0x04;
+    const { errors } = await parseSshKeys(`ecdsa-sha2-nistp384 ${wireBlob('ecdsa-sha2-nistp384', 'nistp256', point)}`);
+    expect(errors[0].message).toMatch(/nistp256/);
+  });
+
+  it('throws when the text has no keys', async () => {
+    await expect(parseSshKeys('# nothing here\n')).rejects.toThrow('No SSH public keys found');
+  });
+});
@@ -0,0 +1,502 @@
+import { base64ToBytes, bytesToBase64 } from './x509';
+import { toHex } from './asn1';
+import type { NewRecord, SSHCertificate, SSHKey } from '../types/assets';
+
+// OpenSSH public key and certificate lines, as found in authorized_keys,
+// known_hosts, .pub and -cert.pub files:
+//
+//   [options] keytype base64 [comment]           authorized_keys, .pub
+//   [@marker] hosts keytype base64 [comment]     known_hosts
+
+export class SshKeyParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SshKeyParseError';
+  }
+}
+
+// Wire key type to the algorithm name used by the inventory and the crypto policy
+const KEY_TYPES: Record<string, string> = {
+  'ssh-ed25519': 'ed25519',
+  'ssh-rsa': 'rsa',
+  'ssh-dss': 'dsa',
+  'ecdsa-sha2-nistp256': 'ecdsa-p256',
+  'ecdsa-sha2-nistp384': 'ecdsa-p384',
+  'ecdsa-sha2-nistp521': 'ecdsa-p521',
+  'sk-ssh-ed25519@openssh.com': 'ed25519-sk',
+  'sk-ecdsa-sha2-nistp256@openssh.com': 'ecdsa-p256-sk',
+};
+
+// Certificate types are the key type with this suffix, e.g. ssh-ed25519-cert-v01@openssh.com
+const CERT_SUFFIX = '-cert-v01@openssh.com';
+
+const isPlainKeyType = (value: string) => Object.prototype.hasOwnProperty.call(KEY_TYPES, value);
+
+const isKeyType = (value: string) =>
+  isPlainKeyType(value) || (value.endsWith(CERT_SUFFIX) && isPlainKeyType(value.slice(0, -CERT_SUFFIX.length)));
+
+// authorized_keys options, used to tell an options field from a known_hosts host list
+const OPTION_NAMES = new Set([
+  'agent-forwarding',
+  'cert-authority',
+  'command',
+  'environment',
+  'expiry-time',
+  'from',
+  'no-agent-forwarding',
+  'no-port-forwarding',
+  'no-pty',
+  'no-touch-required',
+  'no-user-rc',
+  'no-x11-forwarding',
+  'permitlisten',
+  'permitopen',
+  'port-forwarding',
+  'principals',
+  'pty',
+  'restrict',
+  'tunnel',
+  'user-rc',
+  'verify-required',
+  'x11-forwarding',
+]);
+
+export interface SshKeyOption {
+  name: string;
+  // Unquoted value; absent for flags like no-pty
+  value?: string;
+}
+
+export interface ParsedSshKey {
+  // As written on the line, so a certificate type for certificates
+  keyType: string;
+  algorithm: string;
+  // `keytype base64` of the plain key, enough to recompute the fingerprints
+  publicKey: string;
+  comment: string;
+  options: SshKeyOption[];
+  // known_hosts entries only; hashed names can't be recovered and are counted instead
+  hosts: string[];
+  hashedHosts: number;
+  marker?: 'cert-authority' | 'revoked';
+  certificate?: SSHCertificate;
+  fingerprints: { sha256: string; md5: string };
+  // 1-based line in the input
+  line: number;
+}
+
+export interface SshKeyLineError {
+  line: number;
+  message: string;
+}
+
+export interface SshKeyParseResult {
+  keys: ParsedSshKey[];
+  errors: SshKeyLineError[];
+}
+
+// Reads the length-prefixed fields of the SSH wire format (RFC 4251)
+function wireReader(bytes: Uint8Array) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 0;
+  const need = (length: number) => {
+    if (offset + length > bytes.length) throw new SshKeyParseError('Key data is truncated');
+  };
+  return {
+    get offset() {
+      return offset;
+    },
+    uint32() {
+      need(4);
+      const value = view.getUint32(offset);
+      offset += 4;
+      return value;
+    },
+    // Split in two because the values don't fit a JS number exactly
+    uint64() {
+      need(8);
+      const high = view.getUint32(offset);
+      const low = view.getUint32(offset + 4);
+      offset += 8;
+      return { high, low };
+    },
+    bytes() {
+      const length = this.uint32();
+      need(length);
+      const value = bytes.subarray(offset, offset + length);
+      offset += length;
+      return value;
+    },
+    string() {
+      return new TextDecoder().decode(this.bytes());
+    },
+  };
+}
+
+type WireReader = ReturnType<typeof wireReader>;
+
+function encodeString(value: string) {
+  const text = new TextEncoder().encode(value);
+  const out = new Uint8Array(4 + text.length);
+  new DataView(out.buffer).setUint32(0, text.length);
+  out.set(text, 4);
+  return out;
+}
+
+function mpintBits(value: Uint8Array) {
+  let start = 0;
+  while (start < value.length && value[start] === 0) start++;
+  if (start === value.length) return 0;
+  return (value.length - start) * 8 - (Math.clz32(value[start]) - 24);
+}
+
+// Uncompressed EC points: 0x04 followed by both coordinates
+const EC_POINT_LENGTHS: Record<string, number> = {
+  nistp256: 65,
+  nistp384: 97,
+  nistp521: 133,
+};
+
+// Reads the public key fields that follow the type and works out the algorithm
+function readKeyFields(reader: WireReader, keyType: string) {
+  switch (keyType) {
+    case 'ssh-rsa': {
+      reader.bytes();
+      return `rsa-${mpintBits(reader.bytes())}`;
+    }
+    case 'ssh-ed25519':
+    case 'sk-ssh-ed25519@openssh.com':
+      if (reader.bytes().length !== 32) throw new SshKeyParseError('Ed25519 keys must be 32 bytes');
+      if (keyType.startsWith('sk-')) reader.bytes();
+      return KEY_TYPES[keyType];
+    case 'ssh-dss':
+      for (let i = 0; i < 4; i++) reader.bytes();
+      return KEY_TYPES[keyType];
+    default: {
+      const expected = keyType.match(/ecdsa-sha2-(nistp\d+)/)![1];
+      const curve = reader.string();
+      if (curve !== expected) throw new SshKeyParseError(`Curve ${curve || '(none)'} doesn't match ${keyType}`);
+      const point = reader.bytes();
+      if (point.length !== EC_POINT_LENGTHS[curve] || point[0] !== 0x04) {
+        throw new SshKeyParseError(`Invalid ${curve} public point`);
+      }
+      if (keyType.startsWith('sk-')) reader.bytes();
+      return KEY_TYPES[keyType];
+    }
+  }
+}
+
+// Name/value pairs of a certificate's critical options or extensions
+function readCertificateOptions(data: Uint8Array) {
+  const reader = wireReader(data);
+  const options: Record<string, string> = {};
+  while (reader.offset < data.length) {
+    const name = reader.string();
+    const value = reader.bytes();
+    options[name] = value.length > 0 ? wireReader(value).string() : '';
+  }
+  return options;
+}
+
+const FOREVER = 0xffffffff;
+
+function readTime(reader: WireReader) {
+  const { high, low } = reader.uint64();
+  return { forever: high === FOREVER && low === FOREVER, date: new Date((high * 2 ** 32 + low) * 1000) };
+}
+
+// Certificate fields after the certified key (PROTOCOL.certkeys in OpenSSH)
+async function readCertificate(reader: WireReader): Promise<SSHCertificate> {
+  const { high, low } = reader.uint64();
+  const serial = (BigInt(high) * BigInt(2 ** 32) + BigInt(low)).toString();
+  const type = reader.uint32();
+  if (type !== 1 && type !== 2) throw new SshKeyParseError(`Unknown certificate type ${type}`);
+  const keyId = reader.string();
+  const principalData = reader.bytes();
+  const principalReader = wireReader(principalData);
+  const principals: string[] = [];
+  while (principalReader.offset < principalData.length) principals.push(principalReader.string());
+  const validAfter = readTime(reader);
+  const validBefore = readTime(reader);
+  const criticalOptions = readCertificateOptions(reader.bytes());
+  const extensions = Object.keys(readCertificateOptions(reader.bytes()));
+  reader.bytes();
+  const signingKey = reader.bytes();
+
+  return {
+    type: type === 1 ? 'user' : 'host',
+    keyId,
+    serial,
+    principals,
+    validAfter: validAfter.date.toISOString(),
+    ...(!validBefore.forever && { validBefore: validBefore.date.toISOString() }),
+    criticalOptions,
+    extensions,
+    signingCaFingerprint: (await sshFingerprints(signingKey)).sha256,
+  };
+}
+
+/**
+ * Checks the key blob against its declared type. Certificates are split into
+ * the certified key, which the fingerprints are computed over as ssh-keygen
+ * does, and the certificate itself.
+ */
+async function describeBlob(keyType: string, blob: Uint8Array) {
+  const reader = wireReader(blob);
+  const embedded = reader.string();
+  if (embedded !== keyType) {
+    throw new SshKeyParseError(`Key data is for ${embedded || 'an unknown type'}, not ${keyType}`);
+  }
+  if (!keyType.endsWith(CERT_SUFFIX)) {
+    return { algorithm: readKeyFields(reader, keyType), keyBlob: blob };
+  }
+
+  const plainType = keyType.slice(0, -CERT_SUFFIX.length);
+  reader.bytes();
+  const start = reader.offset;
+  const algorithm = readKeyFields(reader, plainType);
+  const fields = blob.subarray(start, reader.offset);
+  const prefix = encodeString(plainType);
+  const keyBlob = new Uint8Array(prefix.length + fields.length);
+  keyBlob.set(prefix);
+  keyBlob.set(fields, prefix.length);
+  return { algorithm, keyBlob, certificate: await readCertificate(reader) };
+}
+
+// Reads one whitespace-separated field starting at `from`, keeping quoted spaces
+function nextField(line: string, from: number) {
+  let start = from;
+  while (start < line.length && /\s/.test(line[start])) start++;
+  let end = start;
+  let quoted = false;
+  while (end < line.length && (quoted || !/\s/.test(line[end]))) {
+    if (line[end] === '\\' && quoted) end++;
+    else if (line[end] === '"') quoted = !quoted;
+    end++;
+  }
+  if (quoted) throw new SshKeyParseError('Unterminated quote in key options');
+  return { value: line.slice(start, end), end };
+}
+
+function splitOutsideQuotes(value: string, separator: string) {
+  const parts: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let i = 0; i < value.length; i++) {
+    const ch = value[i];
+    if (ch === '\\' && quoted && i + 1 < value.length) {
+      current += ch + value[++i];
+      continue;
+    }
+    if (ch === '"') quoted = !quoted;
+    if (ch === separator && !quoted) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+function parseOptions(field: string): SshKeyOption[] | null {
+  const options = splitOutsideQuotes(field, ',').map(option => {
+    const equals = option.indexOf('=');
+    if (equals === -1) return { name: option };
+    const raw = option.slice(equals + 1);
+    const value = raw.startsWith('"') && raw.endsWith('"') ? raw.slice(1, -1).replace(/\\"/g, '"') : raw;
+    return { name: option.slice(0, equals), value };
+  });
+  return options.every(option => OPTION_NAMES.has(option.name.toLowerCase())) ? options : null;
+}
+
+// known_hosts host list: drops ports and negations, counts hashed entries
+function parseHosts(field: string) {
+  const hosts: string[] = [];
+  let hashed = 0;
+  for (const pattern of field.split(',')) {
+    if (pattern.startsWith('|1|')) {
+      hashed++;
+    } else if (pattern && !pattern.startsWith('!')) {
+      hosts.push(pattern.replace(/^\[([^\]]+)\]:\d+$/, '$1'));
+    }
+  }
+  return { hosts, hashed };
+}
+
+export function formatSshKeyOption(option: SshKeyOption) {
+  return option.value === undefined ? option.name : `${option.name}="${option.value.replace(/"/g, '\\"')}"`;
+}
+
+// MD5 only survives here for OpenSSH's legacy fingerprint format, so a small
+// local implementation beats pulling in a dependency. Web Crypto has no MD5.
+const MD5_SHIFTS = [7, 12, 17, 22, 5, 9, 14, 20, 4, 11, 16, 23, 6, 10, 15, 21];
+const MD5_CONSTANTS = Array.from({ length: 64 }, (_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 2 ** 32) >>> 0);
+
+function md5(bytes: Uint8Array): Uint8Array {
+  const padded = new Uint8Array(Math.ceil((bytes.length + 9) / 64) * 64);
+  padded.set(bytes);
+  padded[bytes.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  const bits = bytes.length * 8;
+  view.setUint32(padded.length - 8, bits >>> 0, true);
+  view.setUint32(padded.length - 4, Math.floor(bits / 2 ** 32), true);
+
+  const state = [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476];
+  for (let block = 0; block < padded.length; block += 64) {
+    let [a, b, c, d] = state;
+    for (let i = 0; i < 64; i++) {
+      const round = i >> 4;
+      const f = round === 0 ? (b & c) | (~b & d)
+        : round === 1 ? (d & b) | (~d & c)
+          : round === 2 ? b ^ c ^ d
+            : c ^ (b | ~d);
+      const word = round === 0 ? i : round === 1 ? (5 * i + 1) % 16 : round === 2 ? (3 * i + 5) % 16 : (7 * i) % 16;
+      const shift = MD5_SHIFTS[round * 4 + (i % 4)];
+      const sum = (a + f + MD5_CONSTANTS[i] + view.getUint32(block + word * 4, true)) | 0;
+      a = d;
+      d = c;
+      c = b;
+      b = (b + ((sum << shift) | (sum >>> (32 - shift)))) | 0;
+    }
+    state[0] = (state[0] + a) | 0;
+    state[1] = (state[1] + b) | 0;
+    state[2] = (state[2] + c) | 0;
+    state[3] = (state[3] + d) | 0;
+  }
+
+  const digest = new Uint8Array(16);
+  const out = new DataView(digest.buffer);
+  state.forEach((word, i) => out.setUint32(i * 4, word, true));
+  return digest;
+}
+
+/**
+ * The fingerprints `ssh-keygen -l` prints for a key blob: SHA256 as unpadded
+ * base64 and the legacy MD5 as colon-separated hex.
+ */
+export async function sshFingerprints(blob: Uint8Array) {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', blob.slice()));
+  return {
+    sha256: `SHA256:${bytesToBase64(digest).replace(/=+$/, '')}`,
+    md5: `MD5:${toHex(md5(blob), ':').toLowerCase()}`,
+  };
+}
+
+const SHA256_FINGERPRINT = /^SHA256:[A-Za-z0-9+/]{43}$/;
+
+// Whether a stored fingerprint has the shape ssh-keygen produces
+export function isSha256Fingerprint(value: string) {
+  return SHA256_FINGERPRINT.test(value);
+}
+
+async function parseLine(text: string, line: number): Promise<ParsedSshKey> {
+  const prefix: string[] = [];
+  let field = nextField(text, 0);
+  while (field.value && !isKeyType(field.value)) {
+    prefix.push(field.value);
+    if (prefix.length > 2) throw new SshKeyParseError('No supported key type found');
+    field = nextField(text, field.end);
+  }
+  if (!field.value) throw new SshKeyParseError('No supported key type found');
+
+  const keyType = field.value;
+  const data = nextField(text, field.end);
+  if (!data.value) throw new SshKeyParseError(`Missing key data after ${keyType}`);
+  let blob: Uint8Array;
+  try {
+    blob = base64ToBytes(data.value);
+  } catch {
+    throw new SshKeyParseError('Key data is not valid base64');
+  }
+
+  let marker: ParsedSshKey['marker'];
+  if (prefix[0]?.startsWith('@')) {
+    const name = prefix.shift()!.slice(1);
+    if (name !== 'cert-authority' && name !== 'revoked') throw new SshKeyParseError(`Unknown marker @${name}`);
+    marker = name;
+  }
+  if (prefix.length > 1) throw new SshKeyParseError('Unexpected text before the key type');
+
+  const options = prefix.length === 1 && !marker ? parseOptions(prefix[0]) : null;
+  const { hosts, hashed } = prefix.length === 1 && !options ? parseHosts(prefix[0]) : { hosts: [], hashed: 0 };
+  const { algorithm, keyBlob, certificate } = await describeBlob(keyType, blob);
+
+  return {
+    keyType,
+    algorithm,
+    publicKey: `${keyType.replace(CERT_SUFFIX, '')} ${bytesToBase64(keyBlob)}`,
+    comment: text.slice(data.end).trim(),
+    options: options ?? [],
+    hosts,
+    hashedHosts: hashed,
+    marker,
+    certificate,
+    fingerprints: await sshFingerprints(keyBlob),
+    line,
+  };
+}
+
+/**
+ * Parses every key in the text of an authorized_keys, known_hosts or .pub
+ * file. Blank lines and comments are skipped; lines that can't be parsed are
+ * reported with their line number rather than failing the whole file.
+ */
+export async function parseSshKeys(text: string): Promise<SshKeyParseResult> {
+  const keys: ParsedSshKey[] = [];
+  const errors: SshKeyLineError[] = [];
+  const lines = text.split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    const content = lines[i].trim();
+    if (!content || content.startsWith('#')) continue;
+    try {
+      keys.push(await parseLine(content, i + 1));
+    } catch (err) {
+      errors.push({ line: i + 1, message: err instanceof Error ? err.message : String(err) });
+    }
+  }
+  if (keys.length === 0 && errors.length === 0) {
+    throw new SshKeyParseError('No SSH public keys found');
+  }
+  return { keys, errors };
+}
+
+// Servers a key grants access to (authorized_keys, .pub) or identifies
+// (known_hosts, host certificates)
+export function sshKeyServers(parsed: ParsedSshKey, sourceHost: string) {
+  if (parsed.hosts.length > 0 || parsed.hashedHosts > 0) return parsed.hosts;
+  if (parsed.certificate?.type === 'host') {
+    const named = parsed.certificate.principals.filter(principal => !/[*?]/.test(principal));
+    if (named.length > 0) return named;
+  }
+  return sourceHost ? [sourceHost] : [];
+}
+
+// CA keys are marked @cert-authority in known_hosts and cert-authority in authorized_keys
+export function sshKeyAuthority(parsed: ParsedSshKey): SSHKey['certificateAuthority'] {
+  if (parsed.marker === 'cert-authority') return 'host';
+  if (parsed.options.some(option => option.name.toLowerCase() === 'cert-authority')) return 'user';
+  return undefined;
+}
+
+/**
+ * Maps a parsed key onto the inventory record shape. Key files don't say
+ * when a key was last used, so `lastUsed` is left unset.
+ */
+export function toSshKeyRecord(parsed: ParsedSshKey, servers: string[], now = new Date()): NewRecord<SSHKey> {
+  const authority = sshKeyAuthority(parsed);
+  return {
+    keyOwner: parsed.comment || parsed.certificate?.keyId || parsed.hosts[0] || `${parsed.algorithm} key ${parsed.fingerprints.sha256.slice(7, 15)}`,
+    fingerprint: parsed.fingerprints.sha256,
+    fingerprintMd5: parsed.fingerprints.md5,
+    publicKey: parsed.publicKey,
+    algorithm: parsed.algorithm,
+    createdAt: now.toISOString().slice(0, 10),
+    associatedServers: servers,
+    ...(parsed.comment && { comment: parsed.comment }),
+    ...(parsed.options.length > 0 && { options: parsed.options.map(formatSshKeyOption) }),
+    ...(authority && { certificateAuthority: authority }),
+    ...(parsed.certificate && { certificate: parsed.certificate }),
+  };
+}
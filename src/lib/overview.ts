@@ -0,0 +1,95 @@
+import type { AuditLog, CodeSigningKey, SSHKey } from '../types/assets';
+import { parseAuditTimestamp } from './audit';
+import { CryptoPolicy, DEFAULT_CRYPTO_POLICY, isSshKeyRotationOverdue, isSigningKeyRotationOverdue } from './policy';
+
+// Aggregations behind the Overview page widgets
+
+export type ActivityCategory = 'certificates' | 'ssh' | 'keys' | 'other';
+
+export const ACTIVITY_CATEGORIES: ActivityCategory[] = ['certificates', 'ssh', 'keys', 'other'];
+
+export interface ActivityDay {
+  // YYYY-MM-DD (UTC)
+  date: string;
+  label: string;
+  total: number;
+  counts: Record<ActivityCategory, number>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+export function activityCategory(actionType: string): ActivityCategory {
+  if (actionType.startsWith('CERT_')) return 'certificates';
+  if (actionType.startsWith('SSH_')) return 'ssh';
+  if (actionType.startsWith('KEY_')) return 'keys';
+  return 'other';
+}
+
+/**
+ * Daily audit entry counts by category over `days` days. The window ends at
+ * the most recent entry rather than today, so an idle stream still shows
+ * its last burst of activity.
+ */
+export function buildAuditActivity(logs: AuditLog[], days = 30): ActivityDay[] {
+  const times = logs.map(log => parseAuditTimestamp(log.timestamp)).filter(t => !Number.isNaN(t));
+  if (times.length === 0) return [];
+
+  // Not Math.max(...times): spreading a large log overflows the call stack
+  const latest = times.reduce((max, t) => (t > max ? t : max), -Infinity);
+  const lastDay = Math.floor(latest / DAY_MS);
+  const window: ActivityDay[] = Array.from({ length: days }, (_, i) => {
+    const date = new Date((lastDay - days + 1 + i) * DAY_MS);
+    return {
+      date: date.toISOString().slice(0, 10),
+      label: `${MONTH_LABELS[date.getUTCMonth()]} ${date.getUTCDate()}`,
+      total: 0,
+      counts: { certificates: 0, ssh: 0, keys: 0, other: 0 },
+    };
+  });
+
+  logs.forEach(log => {
+    const index = Math.floor(parseAuditTimestamp(log.timestamp) / DAY_MS) - (lastDay - days + 1);
+    if (index < 0 || index >= days) return;
+    window[index].counts[activityCategory(log.actionType)]++;
+    window[index].total++;
+  });
+  return window;
+}
+
+export interface EnvironmentProtection {
+  environment: string;
+  HSM: number;
+  Soft: number;
+}
+
+export function protectionByEnvironment(keys: CodeSigningKey[]): EnvironmentProtection[] {
+  const byEnvironment = new Map<string, EnvironmentProtection>();
+  keys.forEach(key => {
+    const entry = byEnvironment.get(key.environment) ?? { environment: key.environment, HSM: 0, Soft: 0 };
+    entry[key.protectionLevel]++;
+    byEnvironment.set(key.environment, entry);
+  });
+  return [...byEnvironment.values()].sort((a, b) => a.environment.localeCompare(b.environment));
+}
+
+export interface RotationSummary {
+  assetType: 'sshKey' | 'codeSigningKey';
+  label: string;
+  overdue: number;
+  onSchedule: number;
+}
+
+export function summarizeRotations(
+  sshKeys: SSHKey[],
+  codeSigningKeys: CodeSigningKey[],
+  policy: CryptoPolicy = DEFAULT_CRYPTO_POLICY,
+  now: Date = new Date()
+): RotationSummary[] {
+  const sshOverdue = sshKeys.filter(key => isSshKeyRotationOverdue(key, policy, now)).length;
+  const signingOverdue = codeSigningKeys.filter(key => isSigningKeyRotationOverdue(key, now)).length;
+  return [
+    { assetType: 'sshKey', label: 'SSH keys', overdue: sshOverdue, onSchedule: sshKeys.length - sshOverdue },
+    { assetType: 'codeSigningKey', label: 'Signing keys', overdue: signingOverdue, onSchedule: codeSigningKeys.length - signingOverdue },
+  ];
+}
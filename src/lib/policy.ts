@@ -0,0 +1,360 @@
+import type { Certificate, SSHKey, CodeSigningKey } from '../types/assets';
+import { expiryInstant } from './certStatus';
+
+export type Severity = 'critical' | 'high' | 'medium' | 'low';
+
+export const SEVERITY_ORDER: Severity[] = ['critical', 'high', 'medium', 'low'];
+
+export const SEVERITY_LABELS: Record<Severity, string> = {
+  critical: 'Critical',
+  high: 'High',
+  medium: 'Medium',
+  low: 'Low',
+};
+
+export type PolicyAssetType = 'certificate' | 'sshKey' | 'codeSigningKey';
+
+export const ASSET_TYPE_LABELS: Record<PolicyAssetType, string> = {
+  certificate: 'Certificate',
+  sshKey: 'SSH Key',
+  codeSigningKey: 'Code Signing Key',
+};
+
+// Tunable limits the rules check against
+export interface CryptoPolicy {
+  minRsaBits: number;
+  maxCertificateValidityDays: number;
+  maxSshKeyAgeDays: number;
+  // SSH certificates expiring within this many days are flagged
+  sshCertificateExpiryWarningDays: number;
+  maxSshCertificatePrincipals: number;
+  // Lower-case inventory notation, e.g. "rsa-2048"
+  bannedSshAlgorithms: string[];
+  bannedCodeSigningAlgorithms: string[];
+  // Environments whose signing keys must live in an HSM
+  hsmRequiredEnvironments: string[];
+  disabledRules: string[];
+}
+
+export const DEFAULT_CRYPTO_POLICY: CryptoPolicy = {
+  minRsaBits: 2048,
+  // CA/Browser Forum limit for publicly trusted TLS certificates
+  maxCertificateValidityDays: 398,
+  maxSshKeyAgeDays: 365,
+  sshCertificateExpiryWarningDays: 14,
+  maxSshCertificatePrincipals: 10,
+  bannedSshAlgorithms: ['dsa', 'rsa-1024'],
+  bannedCodeSigningAlgorithms: ['rsa-2048'],
+  hsmRequiredEnvironments: ['Production'],
+  disabledRules: [],
+};
+
+interface AssetTypeMap {
+  certificate: Certificate;
+  sshKey: SSHKey;
+  codeSigningKey: CodeSigningKey;
+}
+
+interface RuleDefinition<T extends PolicyAssetType> {
+  id: string;
+  assetType: T;
+  severity: Severity;
+  title: string;
+  // Describes the rule with the current limits filled in
+  describe: (policy: CryptoPolicy) => string;
+  // Returns why the asset violates the rule, or null if it complies
+  check: (asset: AssetTypeMap[T], policy: CryptoPolicy, now: Date) => string | null;
+}
+
+export type PolicyRule = { [T in PolicyAssetType]: RuleDefinition<T> }[PolicyAssetType];
+
+export interface Finding {
+  ruleId: string;
+  ruleTitle: string;
+  severity: Severity;
+  assetType: PolicyAssetType;
+  assetId: string;
+  assetName: string;
+  message: string;
+  // Page that lists the asset
+  path: string;
+}
+
+export interface PolicyAssets {
+  certificates: Certificate[];
+  sshKeys: SSHKey[];
+  codeSigningKeys: CodeSigningKey[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// "RSA-2048", "rsa-4096" -> bits; null for non-RSA keys
+export function rsaKeyBits(algorithm: string): number | null {
+  const match = /^rsa[-\s]?(\d+)$/i.exec(algorithm.trim());
+  return match ? Number(match[1]) : null;
+}
+
+// Rotation policies are written as "90d"; anything else is ignored
+export function parseRotationDays(rotationPolicy: string): number | null {
+  const match = /^(\d+)\s*d$/i.exec(rotationPolicy.trim());
+  return match ? Number(match[1]) : null;
+}
+
+export const ageInDays = (date: string, now: Date = new Date()) =>
+  Math.floor((now.getTime() - new Date(date).getTime()) / DAY_MS);
+
+export function isSshKeyRotationOverdue(key: SSHKey, policy: CryptoPolicy = DEFAULT_CRYPTO_POLICY, now: Date = new Date()) {
+  return ageInDays(key.createdAt, now) > policy.maxSshKeyAgeDays;
+}
+
+// Days until a CA-signed key's certificate expires, negative once expired;
+// null for bare keys and certificates that never expire
+export function sshCertificateDaysLeft(key: SSHKey, now: Date = new Date()) {
+  const validBefore = key.certificate?.validBefore;
+  return validBefore ? Math.floor((new Date(validBefore).getTime() - now.getTime()) / DAY_MS) : null;
+}
+
+export function isSshCertificateExpiring(key: SSHKey, policy: CryptoPolicy = DEFAULT_CRYPTO_POLICY, now: Date = new Date()) {
+  const days = sshCertificateDaysLeft(key, now);
+  return days !== null && days <= policy.sshCertificateExpiryWarningDays;
+}
+
+/**
+ * Why a certificate's principals are too broad: none at all (valid for any
+ * user or host), wildcards, root logins or more names than the policy allows.
+ * Null for bare keys and narrowly scoped certificates.
+ */
+export function broadSshPrincipals(key: SSHKey, policy: CryptoPolicy = DEFAULT_CRYPTO_POLICY) {
+  const cert = key.certificate;
+  if (!cert) return null;
+  if (cert.principals.length === 0) return `Valid for any ${cert.type}`;
+  const wildcard = cert.principals.find(principal => /[*?]/.test(principal));
+  if (wildcard) return `Wildcard principal ${wildcard}`;
+  if (cert.type === 'user' && cert.principals.includes('root')) return 'Allows logging in as root';
+  return cert.principals.length > policy.maxSshCertificatePrincipals
+    ? `${cert.principals.length} principals, over the limit of ${policy.maxSshCertificatePrincipals}`
+    : null;
+}
+
+// Keys without a parseable rotation policy are never overdue
+export function isSigningKeyRotationOverdue(key: CodeSigningKey, now: Date = new Date()) {
+  const limit = parseRotationDays(key.rotationPolicy);
+  return limit !== null && ageInDays(key.createdAt, now) > limit;
+}
+
+const normalizeAlgorithm = (algorithm: string) => algorithm.trim().toLowerCase().replace(/\s+/g, '-');
+
+function weakRsa(algorithm: string, policy: CryptoPolicy) {
+  const bits = rsaKeyBits(algorithm);
+  return bits !== null && bits < policy.minRsaBits ? `${bits}-bit RSA key is below the ${policy.minRsaBits}-bit minimum` : null;
+}
+
+// Keeps each rule's check typed against its own asset type
+const rule = <R extends PolicyRule>(definition: R): PolicyRule => definition;
+
+export const POLICY_RULES: PolicyRule[] = [
+  rule({
+    id: 'cert-min-rsa',
+    assetType: 'certificate',
+    severity: 'high',
+    title: 'Minimum RSA key size',
+    describe: policy => `RSA keys must be at least ${policy.minRsaBits} bits`,
+    check: (cert, policy) => weakRsa(cert.algorithm, policy),
+  }),
+  rule({
+    id: 'cert-max-validity',
+    assetType: 'certificate',
+    severity: 'low',
+    title: 'Maximum certificate validity',
+    describe: policy => `Certificates may be valid for at most ${policy.maxCertificateValidityDays} days`,
+    check: (cert, policy) => {
+      const days = Math.round((expiryInstant(cert.expiryDate) - new Date(cert.createdAt).getTime()) / DAY_MS);
+      return days > policy.maxCertificateValidityDays
+        ? `Valid for ${days} days, over the ${policy.maxCertificateValidityDays}-day limit`
+        : null;
+    },
+  }),
+  rule({
+    id: 'cert-expired',
+    assetType: 'certificate',
+    severity: 'high',
+    title: 'No expired certificates',
+    describe: () => 'Expired certificates must be renewed or removed',
+    check: (cert, _, now) => expiryInstant(cert.expiryDate) < now.getTime() ? `Expired on ${cert.expiryDate}` : null,
+  }),
+  rule({
+    id: 'cert-revoked',
+    assetType: 'certificate',
+    severity: 'critical',
+    title: 'No revoked certificates',
+    describe: () => 'Certificates reported revoked by OCSP or CRL must be replaced',
+    check: cert => cert.revocation?.status === 'revoked'
+      ? `Revoked (${cert.revocation.reason ?? 'unspecified'})`
+      : null,
+  }),
+  rule({
+    id: 'ssh-min-rsa',
+    assetType: 'sshKey',
+    severity: 'high',
+    title: 'Minimum RSA key size',
+    describe: policy => `RSA keys must be at least ${policy.minRsaBits} bits`,
+    check: (key, policy) => weakRsa(key.algorithm, policy),
+  }),
+  rule({
+    id: 'ssh-banned-algorithm',
+    assetType: 'sshKey',
+    severity: 'high',
+    title: 'Banned SSH algorithms',
+    describe: policy => `SSH keys must not use ${policy.bannedSshAlgorithms.join(', ') || 'any banned algorithm'}`,
+    check: (key, policy) => policy.bannedSshAlgorithms.includes(normalizeAlgorithm(key.algorithm))
+      ? `${key.algorithm} is banned for SSH`
+      : null,
+  }),
+  rule({
+    id: 'ssh-max-age',
+    assetType: 'sshKey',
+    severity: 'medium',
+    title: 'Maximum SSH key age',
+    describe: policy => `SSH keys must be rotated within ${policy.maxSshKeyAgeDays} days`,
+    check: (key, policy, now) => isSshKeyRotationOverdue(key, policy, now)
+      ? `${ageInDays(key.createdAt, now)} days old, over the ${policy.maxSshKeyAgeDays}-day limit`
+      : null,
+  }),
+  rule({
+    id: 'ssh-cert-expiry',
+    assetType: 'sshKey',
+    severity: 'high',
+    title: 'SSH certificate expiry',
+    describe: policy => `SSH certificates must be renewed more than ${policy.sshCertificateExpiryWarningDays} days before they expire`,
+    check: (key, policy, now) => {
+      if (!isSshCertificateExpiring(key, policy, now)) return null;
+      const days = sshCertificateDaysLeft(key, now)!;
+      return days < 0 ? `Certificate expired ${-days} days ago` : `Certificate expires in ${days} days`;
+    },
+  }),
+  rule({
+    id: 'ssh-cert-principals',
+    assetType: 'sshKey',
+    severity: 'high',
+    title: 'SSH certificate principals',
+    describe: policy => `SSH certificates must name at most ${policy.maxSshCertificatePrincipals} principals, without wildcards or root`,
+    check: (key, policy) => broadSshPrincipals(key, policy),
+  }),
+  rule({
+    id: 'csk-min-rsa',
+    assetType: 'codeSigningKey',
+    severity: 'high',
+    title: 'Minimum RSA key size',
+    describe: policy => `RSA keys must be at least ${policy.minRsaBits} bits`,
+    check: (key, policy) => weakRsa(key.algorithm, policy),
+  }),
+  rule({
+    id: 'csk-banned-algorithm',
+    assetType: 'codeSigningKey',
+    severity: 'high',
+    title: 'Banned code signing algorithms',
+    describe: policy => `Signing keys must not use ${policy.bannedCodeSigningAlgorithms.join(', ') || 'any banned algorithm'}`,
+    check: (key, policy) => policy.bannedCodeSigningAlgorithms.includes(normalizeAlgorithm(key.algorithm))
+      ? `${key.algorithm} is banned for code signing`
+      : null,
+  }),
+  rule({
+    id: 'csk-hsm-required',
+    assetType: 'codeSigningKey',
+    severity: 'critical',
+    title: 'HSM protection',
+    describe: policy => `Signing keys for ${policy.hsmRequiredEnvironments.join(', ') || 'no environments'} must be HSM-protected`,
+    check: (key, policy) => policy.hsmRequiredEnvironments.includes(key.environment) && key.protectionLevel !== 'HSM'
+      ? `${key.environment} key is ${key.protectionLevel}-protected`
+      : null,
+  }),
+  rule({
+    id: 'csk-rotation-overdue',
+    assetType: 'codeSigningKey',
+    severity: 'medium',
+    title: 'Rotation schedule',
+    describe: () => 'Signing keys must be rotated as often as their rotation policy says',
+    check: (key, _, now) => isSigningKeyRotationOverdue(key, now)
+      ? `${ageInDays(key.createdAt, now)} days since creation, policy is ${key.rotationPolicy}`
+      : null,
+  }),
+];
+
+const PATHS: Record<PolicyAssetType, string> = {
+  certificate: '/certificates',
+  sshKey: '/ssh-keys',
+  codeSigningKey: '/code-signing',
+};
+
+function assetName(assetType: PolicyAssetType, asset: Certificate | SSHKey | CodeSigningKey) {
+  if (assetType === 'certificate') return (asset as Certificate).name;
+  if (assetType === 'sshKey') return (asset as SSHKey).keyOwner;
+  return (asset as CodeSigningKey).keyAlias;
+}
+
+/**
+ * Runs every enabled rule against every asset. Findings are ordered by
+ * severity, most severe first.
+ */
+export function evaluatePolicies(assets: PolicyAssets, policy: CryptoPolicy = DEFAULT_CRYPTO_POLICY, now: Date = new Date()): Finding[] {
+  const byType: { [T in PolicyAssetType]: AssetTypeMap[T][] } = {
+    certificate: assets.certificates,
+    sshKey: assets.sshKeys,
+    codeSigningKey: assets.codeSigningKeys,
+  };
+
+  const findings: Finding[] = [];
+  POLICY_RULES
+    .filter(r => !policy.disabledRules.includes(r.id))
+    .forEach(r => {
+      const check = r.check as (asset: unknown, policy: CryptoPolicy, now: Date) => string | null;
+      byType[r.assetType].forEach(asset => {
+        const message = check(asset, policy, now);
+        if (!message) return;
+        findings.push({
+          ruleId: r.id,
+          ruleTitle: r.title,
+          severity: r.severity,
+          assetType: r.assetType,
+          assetId: asset.id,
+          assetName: assetName(r.assetType, asset),
+          message,
+          path: PATHS[r.assetType],
+        });
+      });
+    });
+
+  return findings.sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity));
+}
+
+export function countBySeverity(findings: Finding[]): Record<Severity, number> {
+  const counts: Record<Severity, number> = { critical: 0, high: 0, medium: 0, low: 0 };
+  findings.forEach(finding => {
+    counts[finding.severity]++;
+  });
+  return counts;
+}
+
+export function validatePolicy(policy: CryptoPolicy): string | null {
+  const limits: [number, string][] = [
+    [policy.minRsaBits, 'Minimum RSA size'],
+    [policy.maxCertificateValidityDays, 'Maximum certificate validity'],
+    [policy.maxSshKeyAgeDays, 'Maximum SSH key age'],
+    [policy.sshCertificateExpiryWarningDays, 'SSH certificate expiry warning'],
+    [policy.maxSshCertificatePrincipals, 'Maximum SSH certificate principals'],
+  ];
+  const bad = limits.find(([value]) => !Number.isInteger(value) || value <= 0);
+  return bad ? `${bad[1]} must be a positive whole number` : null;
+}
+
+// "old -> new" for each changed setting, the format POLICY_UPDATED entries use
+export function describePolicyChanges(before: CryptoPolicy, after: CryptoPolicy): Record<string, string> {
+  const format = (value: unknown) => Array.isArray(value) ? value.join(', ') || 'none' : String(value);
+  const changes: Record<string, string> = {};
+  (Object.keys(after) as (keyof CryptoPolicy)[]).forEach(key => {
+    if (format(before[key]) !== format(after[key])) {
+      changes[key] = `${format(before[key])} -> ${format(after[key])}`;
+    }
+  });
+  return changes;
+}
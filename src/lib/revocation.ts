@@ -0,0 +1,399 @@
+import {
+  Asn1Node,
+  Asn1Error,
+  TAG,
+  TAG_CLASS,
+  decodeDer,
+  decodeOid,
+  decodeSmallInteger,
+  decodeTime,
+  expectUniversal,
+  isContext,
+  isUniversal,
+  toHex,
+  encodeSequence,
+  encodeOid,
+  encodeNull,
+  encodeOctetString,
+  encodeInteger,
+} from './asn1';
+import { parseCertificates, base64ToBytes, ParsedCertificate } from './x509';
+import type { Certificate, RevocationState } from '../types/assets';
+
+// OCSP (RFC 6960) and CRL (RFC 5280) lookups. Responses are parsed but their
+// signatures are not verified, so treat the result as advisory.
+
+export const OCSP_RESPONDER_URL = import.meta.env.VITE_OCSP_RESPONDER_URL || '';
+export const CRL_URL = import.meta.env.VITE_CRL_URL || '';
+export const REVOCATION_ISSUER = import.meta.env.VITE_REVOCATION_ISSUER || '';
+
+export interface RevocationResponders {
+  // The CA the responders answer for, as certificates name their issuer.
+  // Its certificates are checked there instead of at the URLs they embed;
+  // every other certificate still uses its own.
+  issuer: string;
+  ocspUrl: string;
+  crlUrl: string;
+}
+
+export const DEFAULT_REVOCATION_RESPONDERS: RevocationResponders = {
+  issuer: REVOCATION_ISSUER,
+  ocspUrl: OCSP_RESPONDER_URL,
+  crlUrl: CRL_URL,
+};
+
+// Responder URLs that are set need a CA to apply to
+export function validateRevocationResponders({ issuer, ocspUrl, crlUrl }: RevocationResponders): string | null {
+  if ((ocspUrl || crlUrl) && !issuer) return 'Name the CA the OCSP responder and CRL answer for';
+  return null;
+}
+
+const sameIssuer = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+export class RevocationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RevocationError';
+  }
+}
+
+const OID = {
+  SHA1: '1.3.14.3.2.26',
+  OCSP_BASIC: '1.3.6.1.5.5.7.48.1.1',
+  CRL_REASON: '2.5.29.21',
+  AUTHORITY_KEY_ID: '2.5.29.35',
+};
+
+// CRLReason codes; 7 is unused
+const CRL_REASONS = [
+  'unspecified',
+  'keyCompromise',
+  'cACompromise',
+  'affiliationChanged',
+  'superseded',
+  'cessationOfOperation',
+  'certificateHold',
+  undefined,
+  'removeFromCRL',
+  'privilegeWithdrawn',
+  'aACompromise',
+];
+
+const OCSP_RESPONSE_STATUS = ['successful', 'malformedRequest', 'internalError', 'tryLater', undefined, 'sigRequired', 'unauthorized'];
+
+// Serials compare as numbers: no separators, no leading zeros, upper case
+export function normalizeSerial(serial: string): string {
+  return serial.replace(/[:\s]/g, '').toUpperCase().replace(/^0+(?=.)/, '');
+}
+
+// Parses colon-separated or plain hex, as serials and key identifiers are stored
+function hexBytes(value: string, what: string): Uint8Array {
+  const hex = value.replace(/[:\s]/g, '');
+  if (!/^[0-9A-Fa-f]+$/.test(hex)) {
+    throw new RevocationError(`${what} "${value}" is not hexadecimal`);
+  }
+  const padded = hex.length % 2 ? `0${hex}` : hex;
+  return Uint8Array.from(padded.match(/../g)!, byte => parseInt(byte, 16));
+}
+
+// Key identifiers compare without separators, in upper case
+const normalizeKeyId = (keyId: string) => keyId.replace(/[:\s]/g, '').toUpperCase();
+
+function integerHex(node: Asn1Node): string {
+  return normalizeSerial(toHex(node.value));
+}
+
+function reasonName(code: number): string {
+  return CRL_REASONS[code] ?? `reason ${code}`;
+}
+
+async function sha1(bytes: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest('SHA-1', bytes.slice()));
+}
+
+export interface OcspCertId {
+  issuerNameHash: Uint8Array;
+  issuerKeyHash: Uint8Array;
+  serialNumber: string;
+}
+
+/**
+ * Computes the CertID for a certificate. The issuer key hash needs the
+ * issuer's public key; without the issuer certificate we fall back to the
+ * authority key identifier, which most CAs derive the same way (SHA-1 of the key).
+ */
+export async function ocspCertId(cert: ParsedCertificate, issuer?: ParsedCertificate): Promise<OcspCertId> {
+  let issuerKeyHash: Uint8Array;
+  if (issuer) {
+    issuerKeyHash = await sha1(issuer.subjectPublicKey);
+  } else if (cert.authorityKeyId) {
+    issuerKeyHash = hexBytes(cert.authorityKeyId, 'Authority key identifier');
+  } else {
+    throw new RevocationError('Issuer key is unknown: import the issuing certificate first');
+  }
+  return {
+    issuerNameHash: await sha1(cert.issuerNameDer),
+    issuerKeyHash,
+    serialNumber: cert.serialNumber,
+  };
+}
+
+export function buildOcspRequest(certId: OcspCertId): Uint8Array {
+  const encodedCertId = encodeSequence(
+    encodeSequence(encodeOid(OID.SHA1), encodeNull()),
+    encodeOctetString(certId.issuerNameHash),
+    encodeOctetString(certId.issuerKeyHash),
+    encodeInteger(hexBytes(certId.serialNumber, 'Serial number'))
+  );
+  // OCSPRequest -> TBSRequest -> requestList -> Request -> CertID
+  return encodeSequence(encodeSequence(encodeSequence(encodeSequence(encodedCertId))));
+}
+
+export interface OcspStatus {
+  status: RevocationState['status'];
+  revokedAt?: Date;
+  reason?: string;
+  thisUpdate: Date;
+  nextUpdate?: Date;
+}
+
+/** Reads the SingleResponse for `serialNumber` out of a DER OCSPResponse. */
+export function parseOcspResponse(der: Uint8Array, serialNumber: string): OcspStatus {
+  try {
+    const response = expectUniversal(decodeDer(der), TAG.SEQUENCE, 'OCSPResponse');
+    const [statusNode, responseBytes] = response.children;
+    const code = decodeSmallInteger(expectUniversal(statusNode, TAG.ENUMERATED, 'responseStatus'));
+    if (code !== 0) {
+      throw new RevocationError(`OCSP responder answered "${OCSP_RESPONSE_STATUS[code] ?? code}"`);
+    }
+    if (!isContext(responseBytes, 0)) throw new RevocationError('OCSP response has no body');
+
+    const [type, body] = responseBytes.children[0].children;
+    if (decodeOid(type.value) !== OID.OCSP_BASIC) {
+      throw new RevocationError('Unsupported OCSP response type');
+    }
+    const basic = decodeDer(expectUniversal(body, TAG.OCTET_STRING, 'response').value);
+    const responseData = basic.children[0].children;
+    // The optional [0] version, the [1]/[2] responder ID and [1] extensions are all
+    // context-tagged; the list of SingleResponses is the only universal SEQUENCE
+    const responses = responseData.find(node => node.tagClass === TAG_CLASS.UNIVERSAL && node.tagNumber === TAG.SEQUENCE);
+    if (!responses) throw new RevocationError('OCSP response has no certificate statuses');
+
+    const wanted = normalizeSerial(serialNumber);
+    const single = responses.children.find(node => integerHex(node.children[0].children[3]) === wanted);
+    if (!single) throw new RevocationError('OCSP response does not cover this certificate');
+
+    const [, certStatus, thisUpdate, next] = single.children;
+    const result: OcspStatus = {
+      status: 'unknown',
+      thisUpdate: decodeTime(thisUpdate),
+      nextUpdate: isContext(next, 0) ? decodeTime(next.children[0]) : undefined,
+    };
+    // good [0], revoked [1] or unknown [2]
+    if (certStatus.tagNumber === 0) {
+      result.status = 'good';
+    } else if (certStatus.tagNumber === 1) {
+      const [revocationTime, reason] = certStatus.children;
+      result.status = 'revoked';
+      result.revokedAt = decodeTime(revocationTime);
+      if (isContext(reason, 0)) result.reason = reasonName(decodeSmallInteger(reason.children[0]));
+    }
+    return result;
+  } catch (err) {
+    if (err instanceof Asn1Error || err instanceof TypeError) {
+      throw new RevocationError(`Malformed OCSP response: ${err.message}`);
+    }
+    throw err;
+  }
+}
+
+export interface CrlEntry {
+  revokedAt: Date;
+  reason?: string;
+}
+
+export interface ParsedCrl {
+  // Encoded issuer Name, comparable with ParsedCertificate.issuerNameDer
+  issuerNameDer: Uint8Array;
+  // Key identifier from the CRL's authority key identifier extension, if any
+  authorityKeyId?: string;
+  thisUpdate: Date;
+  nextUpdate?: Date;
+  // Keyed by normalized serial number
+  entries: Map<string, CrlEntry>;
+}
+
+const PEM_CRL = /-----BEGIN X509 CRL-----([\s\S]*?)-----END X509 CRL-----/;
+
+/** Parses a DER or PEM certificate revocation list. */
+export function parseCrl(input: Uint8Array): ParsedCrl {
+  let der = input;
+  if (input[0] !== 0x30) {
+    const match = PEM_CRL.exec(new TextDecoder().decode(input));
+    if (!match) throw new RevocationError('CRL is neither DER nor PEM');
+    der = base64ToBytes(match[1]);
+  }
+
+  try {
+    const list = expectUniversal(decodeDer(der), TAG.SEQUENCE, 'CertificateList');
+    const fields = expectUniversal(list.children[0], TAG.SEQUENCE, 'TBSCertList').children;
+    // version is optional; signature algorithm and issuer follow it
+    let i = isUniversal(fields[0], TAG.INTEGER) ? 2 : 1;
+    const issuerNameDer = expectUniversal(fields[i++], TAG.SEQUENCE, 'issuer').bytes;
+    const thisUpdate = decodeTime(fields[i++]);
+    const nextUpdate = isUniversal(fields[i], TAG.UTC_TIME) || isUniversal(fields[i], TAG.GENERALIZED_TIME)
+      ? decodeTime(fields[i++])
+      : undefined;
+
+    const entries = new Map<string, CrlEntry>();
+    const revoked = isUniversal(fields[i], TAG.SEQUENCE) ? fields[i++].children : [];
+    revoked.forEach(entry => {
+      const [serial, date, extensions] = entry.children;
+      const reasonExt = extensions?.children.find(ext => decodeOid(ext.children[0].value) === OID.CRL_REASON);
+      const reason = reasonExt
+        ? reasonName(decodeSmallInteger(decodeDer(reasonExt.children[reasonExt.children.length - 1].value)))
+        : undefined;
+      entries.set(integerHex(serial), { revokedAt: decodeTime(date), reason });
+    });
+
+    // crlExtensions [0] EXPLICIT
+    const extensions = isContext(fields[i], 0) ? fields[i].children[0].children : [];
+    const akiExt = extensions.find(ext => decodeOid(ext.children[0].value) === OID.AUTHORITY_KEY_ID);
+    const keyId = akiExt && decodeDer(akiExt.children[akiExt.children.length - 1].value)
+      .children.find(child => isContext(child, 0));
+
+    return {
+      issuerNameDer,
+      authorityKeyId: keyId ? toHex(keyId.value, ':') : undefined,
+      thisUpdate,
+      nextUpdate,
+      entries,
+    };
+  } catch (err) {
+    if (err instanceof Asn1Error || err instanceof TypeError) {
+      throw new RevocationError(`Malformed CRL: ${err.message}`);
+    }
+    throw err;
+  }
+}
+
+async function fetchBytes(url: string, init?: RequestInit): Promise<Uint8Array> {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    throw new RevocationError(`${url} answered ${response.status}`);
+  }
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+async function firstCertificate(pem: string | undefined) {
+  if (!pem) return undefined;
+  const [parsed] = await parseCertificates(pem);
+  return parsed;
+}
+
+const equalBytes = (a: Uint8Array, b: Uint8Array) =>
+  a.length === b.length && a.every((byte, i) => byte === b[i]);
+
+/**
+ * Whether `crl` was issued by the certificate's CA: by authority key
+ * identifier when both carry one, else by issuer name (which needs the PEM).
+ * A CRL only says something about the serials of its own issuer.
+ */
+async function crlCoversCertificate(crl: ParsedCrl, cert: Certificate): Promise<boolean> {
+  if (crl.authorityKeyId && cert.authorityKeyId) {
+    return normalizeKeyId(crl.authorityKeyId) === normalizeKeyId(cert.authorityKeyId);
+  }
+  const parsed = await firstCertificate(cert.pem);
+  if (!parsed) {
+    throw new RevocationError('Cannot tell whether the CRL covers this certificate without its PEM or key identifiers');
+  }
+  return equalBytes(crl.issuerNameDer, parsed.issuerNameDer);
+}
+
+/**
+ * Returns a function that checks one certificate at a time: OCSP first when
+ * the certificate's PEM is on file, then its CRL. Certificates from the
+ * responders' CA go to the configured URLs, the rest to the URLs they embed.
+ * CRLs are downloaded once per checker, so reuse one for a bulk run.
+ */
+export function createRevocationChecker(responders: RevocationResponders, inventory: Certificate[]) {
+  const crls = new Map<string, Promise<ParsedCrl>>();
+
+  const loadCrl = (url: string) => {
+    let pending = crls.get(url);
+    if (!pending) {
+      pending = fetchBytes(url).then(parseCrl);
+      crls.set(url, pending);
+    }
+    return pending;
+  };
+
+  const checkOcsp = async (cert: Certificate, url: string): Promise<RevocationState> => {
+    const parsed = await firstCertificate(cert.pem);
+    if (!parsed) throw new RevocationError('OCSP needs the certificate PEM');
+    const issuerRecord = cert.authorityKeyId
+      ? inventory.find(c => c.subjectKeyId === cert.authorityKeyId && c.pem)
+      : undefined;
+    const certId = await ocspCertId(parsed, await firstCertificate(issuerRecord?.pem));
+
+    const der = await fetchBytes(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/ocsp-request', Accept: 'application/ocsp-response' },
+      body: buildOcspRequest(certId).slice(),
+    });
+    const result = parseOcspResponse(der, cert.serialNumber);
+    return {
+      status: result.status,
+      checkedAt: new Date().toISOString(),
+      method: 'ocsp',
+      source: url,
+      revokedAt: result.revokedAt?.toISOString(),
+      reason: result.reason,
+    };
+  };
+
+  const checkCrl = async (cert: Certificate, url: string): Promise<RevocationState> => {
+    // Fail before downloading anything if the serial can't match a CRL entry
+    hexBytes(cert.serialNumber, 'Serial number');
+    const crl = await loadCrl(url);
+    if (!(await crlCoversCertificate(crl, cert))) {
+      throw new RevocationError(`The CRL at ${url} was issued by a different CA`);
+    }
+    const entry = crl.entries.get(normalizeSerial(cert.serialNumber));
+    return {
+      status: entry ? 'revoked' : 'good',
+      checkedAt: new Date().toISOString(),
+      method: 'crl',
+      source: url,
+      revokedAt: entry?.revokedAt.toISOString(),
+      reason: entry?.reason,
+    };
+  };
+
+  return async (cert: Certificate): Promise<RevocationState> => {
+    const fromConfiguredCa = !!responders.issuer && sameIssuer(cert.issuer, responders.issuer);
+    const ocspUrl = (fromConfiguredCa && responders.ocspUrl) || cert.ocspUrls?.[0];
+    const crlUrl = (fromConfiguredCa && responders.crlUrl) || cert.crlUrls?.[0];
+    const errors: string[] = [];
+
+    if (ocspUrl && cert.pem) {
+      try {
+        return await checkOcsp(cert, ocspUrl);
+      } catch (err) {
+        errors.push(`OCSP: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+    if (crlUrl) {
+      try {
+        return await checkCrl(cert, crlUrl);
+      } catch (err) {
+        errors.push(`CRL: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+    if (errors.length === 0) errors.push('No OCSP responder or CRL is configured for this certificate');
+
+    return { status: 'unknown', checkedAt: new Date().toISOString(), error: errors.join('; ') };
+  };
+}
+
+export type RevocationChecker = ReturnType<typeof createRevocationChecker>;
@@ -0,0 +1,126 @@
+import type { ColumnConfig, NewRecord, SavedView } from '../types/assets';
+
+// Module pages whose list state lives in the query string
+export const VIEW_MODULES: Record<string, string> = {
+  '/certificates': 'Certificates',
+  '/issuers': 'Issuer Hierarchy',
+  '/ssh-keys': 'SSH Keys',
+  '/servers': 'Servers',
+  '/code-signing': 'Code Signing',
+  '/policies': 'Policies',
+  '/audit-logs': 'Audit Logs',
+};
+
+// Ids of the column-configurable tables on module pages, whose layout views save
+export const VIEW_TABLES: Record<string, string> = {
+  '/certificates': 'certificates',
+  '/ssh-keys': 'ssh-keys',
+  '/code-signing': 'code-signing-keys',
+};
+
+// Where you are in the list, or which record is open, rather than what the
+// list shows; not part of a view
+const TRANSIENT_PARAMS = ['page', 'open'];
+
+const EXPORT_VERSION = 1;
+
+// Pins are per user, so `pinned` records the exporting user's and is applied
+// to the importing user's
+type ExportedView = Pick<SavedView, 'name' | 'module' | 'query' | 'visibility' | 'columns'> & { pinned: boolean };
+
+export interface ImportedView {
+  view: NewRecord<SavedView>;
+  pinned: boolean;
+}
+
+export class SavedViewImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SavedViewImportError';
+  }
+}
+
+// Normalized query for a view: transient params dropped, keys sorted
+export function viewQuery(search: string | URLSearchParams): string {
+  const params = new URLSearchParams(search);
+  TRANSIENT_PARAMS.forEach(param => params.delete(param));
+  params.sort();
+  return params.toString();
+}
+
+export function isColumnConfig(value: unknown): value is ColumnConfig {
+  const config = value as ColumnConfig | undefined;
+  return typeof config === 'object' && config !== null &&
+    Array.isArray(config.order) && config.order.every(id => typeof id === 'string') &&
+    Array.isArray(config.hidden) && config.hidden.every(id => typeof id === 'string') &&
+    typeof config.widths === 'object' && config.widths !== null &&
+    Object.values(config.widths).every(width => typeof width === 'number');
+}
+
+export const viewPath = (view: Pick<SavedView, 'module' | 'query'>) =>
+  view.query ? `${view.module}?${view.query}` : view.module;
+
+// True when the page at `pathname` + `search` shows exactly this view
+export function isViewActive(view: SavedView, pathname: string, search: string) {
+  return view.module === pathname && viewQuery(view.query) === viewQuery(search);
+}
+
+// Shared views plus the user's own private ones, by name
+export function visibleViews(views: SavedView[], owner: string) {
+  return views
+    .filter(view => view.visibility === 'shared' || view.owner === owner)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function exportViews(views: SavedView[], pinnedIds: string[]) {
+  const exported: ExportedView[] = views.map(({ id, name, module, query, visibility, columns }) => ({
+    name,
+    module,
+    query,
+    visibility,
+    columns,
+    pinned: pinnedIds.includes(id),
+  }));
+  return JSON.stringify({ version: EXPORT_VERSION, views: exported }, null, 2);
+}
+
+/**
+ * Parses an export produced by exportViews. Imported views belong to
+ * `owner`; ids and creation times are assigned fresh.
+ */
+export function parseViewImport(text: string, owner: string): ImportedView[] {
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    throw new SavedViewImportError('File is not valid JSON');
+  }
+
+  const views = (body as { views?: unknown })?.views;
+  if ((body as { version?: unknown })?.version !== EXPORT_VERSION || !Array.isArray(views)) {
+    throw new SavedViewImportError('File is not a saved view export');
+  }
+
+  const createdAt = new Date().toISOString();
+  return views.map((value, index) => {
+    const view = value as Partial<ExportedView>;
+    if (typeof view.name !== 'string' || !view.name.trim()) {
+      throw new SavedViewImportError(`View ${index + 1} has no name`);
+    }
+    if (typeof view.module !== 'string' || !Object.hasOwn(VIEW_MODULES, view.module)) {
+      throw new SavedViewImportError(`"${view.name}" belongs to an unknown module`);
+    }
+    return {
+      view: {
+        name: view.name.trim(),
+        module: view.module,
+        query: typeof view.query === 'string' ? viewQuery(view.query) : '',
+        visibility: view.visibility === 'shared' ? 'shared' : 'private',
+        columns: isColumnConfig(view.columns) ? view.columns : undefined,
+        owner,
+        createdAt,
+      },
+      pinned: view.pinned === true,
+    };
+  });
+}
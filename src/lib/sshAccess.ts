@@ -0,0 +1,98 @@
+import type { SSHKey } from '../types/assets';
+
+// The inverse of SSHKey.associatedServers: for each host, the keys that can
+// log into it. A user CA trusted on a host (cert-authority in its
+// authorized_keys) lets in every user certificate the CA signed, so those
+// keys are listed too, through the CA.
+
+export interface ServerLogin {
+  key: SSHKey;
+  // The user CA the key's certificate is trusted through, if it has no direct access
+  via?: SSHKey;
+}
+
+export interface ServerAccess {
+  host: string;
+  logins: ServerLogin[];
+  // User CAs trusted on the host
+  authorities: SSHKey[];
+  // The host's own keys: host certificates and host CAs name it, but don't log into it
+  hostKeys: SSHKey[];
+}
+
+export const isHostKey = (key: SSHKey) =>
+  key.certificateAuthority === 'host' || key.certificate?.type === 'host';
+
+// Who a login belongs to: the assigned owner when there is one, else the key's own name
+export const loginOwner = (key: SSHKey) => key.owner || key.keyOwner;
+
+/**
+ * Builds the server list from the keys' server associations, sorted by host
+ * name. Keys with direct access come before keys let in by a CA.
+ */
+export function buildServerAccess(keys: SSHKey[]): ServerAccess[] {
+  const servers = new Map<string, ServerAccess>();
+  const serverFor = (host: string) => {
+    let server = servers.get(host);
+    if (!server) servers.set(host, server = { host, logins: [], authorities: [], hostKeys: [] });
+    return server;
+  };
+
+  const signedBy = new Map<string, SSHKey[]>();
+  for (const key of keys) {
+    if (key.certificate?.type !== 'user') continue;
+    const signed = signedBy.get(key.certificate.signingCaFingerprint) ?? [];
+    signed.push(key);
+    signedBy.set(key.certificate.signingCaFingerprint, signed);
+  }
+
+  for (const key of keys) {
+    for (const host of new Set(key.associatedServers)) {
+      const server = serverFor(host);
+      if (isHostKey(key)) server.hostKeys.push(key);
+      else if (key.certificateAuthority === 'user') server.authorities.push(key);
+      else server.logins.push({ key });
+    }
+  }
+
+  for (const server of servers.values()) {
+    const direct = new Set(server.logins.map(login => login.key.id));
+    for (const ca of server.authorities) {
+      for (const key of signedBy.get(ca.fingerprint) ?? []) {
+        if (direct.has(key.id)) continue;
+        direct.add(key.id);
+        server.logins.push({ key, via: ca });
+      }
+    }
+  }
+
+  return [...servers.values()].sort((a, b) => a.host.localeCompare(b.host));
+}
+
+export function matchesServerSearch(server: ServerAccess, term: string) {
+  const lower = term.trim().toLowerCase();
+  if (!lower) return true;
+  return server.host.toLowerCase().includes(lower) ||
+    server.logins.some(({ key }) =>
+      key.keyOwner.toLowerCase().includes(lower) || (key.owner ?? '').toLowerCase().includes(lower)
+    );
+}
+
+// Host names (which covers IPv4 addresses) and IPv6 addresses
+const HOST_NAME = /^(?=.{1,253}$)[a-z0-9_]([a-z0-9_-]{0,61}[a-z0-9_])?(\.[a-z0-9_]([a-z0-9_-]{0,61}[a-z0-9_])?)*\.?$/i;
+const IPV6 = /^[0-9a-f]{0,4}(:[0-9a-f]{0,4}){2,7}$/i;
+
+// Server lists are edited one host per line (commas and spaces also separate)
+export const splitServerList = (text: string) => text.split(/[\s,]+/).filter(Boolean);
+
+export function validateServerList(servers: string[]): string | null {
+  const invalid = servers.find(server => !HOST_NAME.test(server) && !IPV6.test(server));
+  if (invalid) return `"${invalid}" is not a host name or IP address`;
+  const seen = new Set<string>();
+  for (const server of servers) {
+    const lower = server.toLowerCase();
+    if (seen.has(lower)) return `${server} is listed twice`;
+    seen.add(lower);
+  }
+  return null;
+}
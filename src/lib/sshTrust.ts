@@ -0,0 +1,202 @@
+import type { AuditLog, SSHKey } from '../types/assets';
+import { CryptoPolicy, ageInDays, rsaKeyBits } from './policy';
+import { parseAuditTimestamp, sshKeyMatcher } from './audit';
+
+// SSH key trust, scored from what the inventory and audit log say about a
+// key rather than set by hand. Six factors add up to a 0-100 score, which
+// the thresholds turn into a high / medium / low level, unless the key has
+// a level set by hand.
+
+export type TrustLevel = 'high' | 'medium' | 'low';
+
+export const TRUST_LEVELS: TrustLevel[] = ['high', 'medium', 'low'];
+
+export const TRUST_LABELS: Record<TrustLevel, string> = {
+  high: 'High',
+  medium: 'Medium',
+  low: 'Low',
+};
+
+export interface TrustThresholds {
+  // Lowest score that is high trust, and lowest that is medium
+  high: number;
+  medium: number;
+  // Unused for longer than this many days counts as stale
+  staleAfterDays: number;
+  // Access to more servers than this counts as wide
+  maxServers: number;
+  // SSH_LOGIN events within this many days count as recent
+  loginWindowDays: number;
+}
+
+export const DEFAULT_TRUST_THRESHOLDS: TrustThresholds = {
+  high: 75,
+  medium: 50,
+  staleAfterDays: 90,
+  maxServers: 10,
+  loginWindowDays: 30,
+};
+
+export function validateTrustThresholds(thresholds: TrustThresholds): string | null {
+  const values = Object.values(thresholds);
+  if (values.some(value => !Number.isInteger(value) || value < 1)) {
+    return 'Trust thresholds must be positive whole numbers';
+  }
+  if (thresholds.high > 100 || thresholds.medium >= thresholds.high) {
+    return 'The medium trust score must be below the high trust score, and both at most 100';
+  }
+  return null;
+}
+
+// Recent SSH_LOGIN events per key, keyed by key id
+export type LoginActivity = Record<string, { count: number; last: number }>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Counts the SSH_LOGIN events of the last `windowDays` days per key
+export function summarizeSshLogins(
+  logs: AuditLog[],
+  keys: SSHKey[],
+  windowDays: number,
+  now: Date = new Date()
+): LoginActivity {
+  const since = now.getTime() - windowDays * DAY_MS;
+  const keyOf = sshKeyMatcher(keys);
+  const activity: LoginActivity = {};
+  for (const log of logs) {
+    if (log.actionType !== 'SSH_LOGIN') continue;
+    const time = parseAuditTimestamp(log.timestamp);
+    if (!(time >= since)) continue;
+    const key = keyOf(log);
+    if (!key) continue;
+    const entry = activity[key.id] ?? (activity[key.id] = { count: 0, last: 0 });
+    entry.count++;
+    entry.last = Math.max(entry.last, time);
+  }
+  return activity;
+}
+
+export interface TrustFactor {
+  id: 'algorithm' | 'age' | 'usage' | 'servers' | 'owner' | 'logins';
+  label: string;
+  points: number;
+  max: number;
+  detail: string;
+}
+
+export interface TrustScore {
+  score: number;
+  level: TrustLevel;
+  // The level the score gives; differs from `level` when it is overridden
+  scoredLevel: TrustLevel;
+  overridden: boolean;
+  factors: TrustFactor[];
+}
+
+export interface TrustContext {
+  thresholds: TrustThresholds;
+  policy: CryptoPolicy;
+  logins: LoginActivity;
+}
+
+// Owners that name a machine or automation rather than a person
+const SERVICE_OWNER = /(^|[^a-z])(ci|cd|bot|svc|service|agent|pipeline|deploy(ment)?|backup|automation|provisioner|terraform|ansible|jenkins|monitoring|bastion|signing)([^a-z]|$)/i;
+
+export const isServiceOwner = (key: SSHKey) => SERVICE_OWNER.test(key.keyOwner);
+
+// Keys limited by authorized_keys options or a certificate's critical options
+function isRestricted(key: SSHKey) {
+  const options = key.options ?? [];
+  return options.some(option => /^(from|command|restrict)\b/i.test(option)) ||
+    Object.keys(key.certificate?.criticalOptions ?? {}).length > 0;
+}
+
+function algorithmFactor(key: SSHKey, policy: CryptoPolicy): Omit<TrustFactor, 'id' | 'label' | 'max'> {
+  const algorithm = key.algorithm.trim().toLowerCase();
+  if (policy.bannedSshAlgorithms.includes(algorithm)) return { points: 0, detail: `${key.algorithm} is banned by policy` };
+  if (algorithm.startsWith('ed25519')) return { points: 30, detail: 'Ed25519' };
+  if (algorithm.startsWith('ecdsa')) return { points: 25, detail: 'ECDSA' };
+  const bits = rsaKeyBits(algorithm);
+  if (bits === null) return { points: 10, detail: `Unrecognised algorithm ${key.algorithm}` };
+  if (bits < policy.minRsaBits) return { points: 0, detail: `${bits}-bit RSA, below the ${policy.minRsaBits}-bit minimum` };
+  if (bits >= 4096) return { points: 25, detail: `${bits}-bit RSA` };
+  return bits >= 3072
+    ? { points: 20, detail: `${bits}-bit RSA` }
+    : { points: 10, detail: `${bits}-bit RSA, the weakest size allowed` };
+}
+
+/**
+ * Scores one key. Every factor explains its points, so the breakdown can be
+ * shown next to the score.
+ */
+export function scoreSshKey(key: SSHKey, { thresholds, policy, logins }: TrustContext, now: Date = new Date()): TrustScore {
+  const age = ageInDays(key.createdAt, now);
+  const idle = key.lastUsed ? Math.floor((now.getTime() - parseAuditTimestamp(key.lastUsed)) / DAY_MS) : NaN;
+  const servers = key.associatedServers.length;
+  const service = isServiceOwner(key);
+  const recent = logins[key.id];
+
+  const factors: TrustFactor[] = [
+    { id: 'algorithm', label: 'Algorithm strength', max: 30, ...algorithmFactor(key, policy) },
+    {
+      id: 'age',
+      label: 'Key age',
+      max: 15,
+      ...(age <= policy.maxSshKeyAgeDays / 2
+        ? { points: 15, detail: `${age} days old` }
+        : age <= policy.maxSshKeyAgeDays
+          ? { points: 8, detail: `${age} days old, due for rotation at ${policy.maxSshKeyAgeDays}` }
+          : { points: 0, detail: `${age} days old, over the ${policy.maxSshKeyAgeDays}-day limit` }),
+    },
+    {
+      id: 'usage',
+      label: 'Recent use',
+      max: 15,
+      ...(Number.isNaN(idle)
+        ? { points: 0, detail: 'Never used' }
+        : idle <= thresholds.staleAfterDays
+          ? { points: 15, detail: `Last used ${Math.max(idle, 0)} days ago` }
+          : idle <= thresholds.staleAfterDays * 2
+            ? { points: 5, detail: `Stale: last used ${idle} days ago` }
+            : { points: 0, detail: `Stale: last used ${idle} days ago` }),
+    },
+    {
+      id: 'servers',
+      label: 'Server access',
+      max: 15,
+      ...(servers <= thresholds.maxServers
+        ? { points: 15, detail: `${servers} server${servers === 1 ? '' : 's'}` }
+        : servers <= thresholds.maxServers * 2
+          ? { points: 7, detail: `${servers} servers, over ${thresholds.maxServers}` }
+          : { points: 0, detail: `${servers} servers, over twice the limit of ${thresholds.maxServers}` }),
+    },
+    {
+      id: 'owner',
+      label: 'Owner',
+      max: 10,
+      ...(!service
+        ? { points: 10, detail: 'Personal key' }
+        : isRestricted(key)
+          ? { points: 10, detail: 'Service key, restricted by source or command' }
+          : { points: 5, detail: 'Service key without from= or command= restrictions' }),
+    },
+    {
+      id: 'logins',
+      label: 'Audited logins',
+      max: 15,
+      ...(recent
+        ? { points: 15, detail: `${recent.count} SSH login${recent.count === 1 ? '' : 's'} in the last ${thresholds.loginWindowDays} days` }
+        : { points: 5, detail: `No SSH logins recorded in the last ${thresholds.loginWindowDays} days` }),
+    },
+  ];
+
+  const score = factors.reduce((sum, factor) => sum + factor.points, 0);
+  const scoredLevel = score >= thresholds.high ? 'high' : score >= thresholds.medium ? 'medium' : 'low';
+  return {
+    score,
+    level: key.trustOverride ?? scoredLevel,
+    scoredLevel,
+    overridden: !!key.trustOverride,
+    factors,
+  };
+}
@@ -0,0 +1,180 @@
+import type { AuditLog, Certificate, CodeSigningKey, SSHKey } from '../types/assets';
+
+// Deterministic inventories of any size, for trying the UI and benchmarking
+// list queries at 10k-1M rows. The same seed always gives the same records.
+
+export const SYNTHETIC_COLLECTIONS = ['certificates', 'sshKeys', 'codeSigningKeys', 'auditLogs'] as const;
+
+export type SyntheticCollection = typeof SYNTHETIC_COLLECTIONS[number];
+
+interface SyntheticRecordMap {
+  certificates: Certificate;
+  sshKeys: SSHKey;
+  codeSigningKeys: CodeSigningKey;
+  auditLogs: AuditLog;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const ISSUERS = ["Let's Encrypt R3", 'DigiCert TLS RSA SHA256 2020 CA1', 'Sectigo RSA Domain Validation', 'Internal Issuing CA G2'];
+const CERT_ALGORITHMS = ['RSA-2048', 'RSA-4096', 'ECDSA-P256', 'ECDSA-P384'];
+const SSH_ALGORITHMS = ['ed25519', 'ecdsa-sha2-nistp256', 'rsa-4096', 'rsa-2048', 'rsa-1024', 'dsa'];
+const SIGNING_ALGORITHMS = ['ecdsa-p256', 'ecdsa-p384', 'rsa-3072', 'rsa-4096', 'rsa-2048'];
+const ENVIRONMENTS = ['Production', 'Staging', 'Development'];
+const TEAMS = ['DevOps Team', 'Platform Security', 'Release Engineering', 'Mobile Team'];
+const ROTATION_POLICIES = ['30d', '90d', '180d', '365d'];
+const SERVICES = ['api', 'auth', 'portal', 'billing', 'search', 'cdn', 'mail', 'vpn'];
+const ZONES = ['example.com', 'example.net', 'corp.example.com', 'internal.example.com'];
+const PEOPLE = ['alice', 'bob', 'carol', 'dave', 'erin', 'frank', 'grace', 'heidi'];
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/'.split('');
+
+// mulberry32: small, fast and good enough to spread values around
+function createRandom(seed: number) {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return {
+    next,
+    int: (min: number, max: number) => min + Math.floor(next() * (max - min + 1)),
+    pick: <T>(items: readonly T[]) => items[Math.floor(next() * items.length)],
+  };
+}
+
+type Random = ReturnType<typeof createRandom>;
+
+const dateOnly = (ms: number) => new Date(ms).toISOString().slice(0, 10);
+const utcTimestamp = (ms: number) => `${new Date(ms).toISOString().slice(0, 19).replace('T', ' ')} UTC`;
+
+function hostname(random: Random, i: number) {
+  return `${random.pick(SERVICES)}-${i % 97}.${random.pick(ZONES)}`;
+}
+
+function serialNumber(random: Random) {
+  return Array.from({ length: 8 }, () => random.int(0, 255).toString(16).padStart(2, '0').toUpperCase()).join(':');
+}
+
+function sshFingerprint(random: Random) {
+  return `SHA256:${Array.from({ length: 43 }, () => random.pick(BASE64)).join('')}`;
+}
+
+const generators: { [C in SyntheticCollection]: (random: Random, i: number, now: number) => SyntheticRecordMap[C] } = {
+  certificates(random, i, now) {
+    const domain = hostname(random, i);
+    const created = now - random.int(30, 700) * DAY_MS;
+    // Spread expiries from a month ago to a year out, so every health bucket is populated
+    const expires = now + random.int(-30, 365) * DAY_MS;
+    return {
+      id: `cert-${i}`,
+      name: `${domain.split('.')[0]} TLS`,
+      domain,
+      issuer: random.pick(ISSUERS),
+      status: expires < now ? 'expired' : 'active',
+      expiryDate: dateOnly(expires),
+      commonName: domain,
+      serialNumber: serialNumber(random),
+      algorithm: random.pick(CERT_ALGORITHMS),
+      createdAt: dateOnly(created),
+    };
+  },
+
+  sshKeys(random, i, now) {
+    const created = now - random.int(10, 900) * DAY_MS;
+    return {
+      id: `ssh-${i}`,
+      keyOwner: `${random.pick(PEOPLE)}${i}@${random.pick(['prod', 'staging', 'laptop'])}`,
+      fingerprint: sshFingerprint(random),
+      lastUsed: utcTimestamp(now - random.int(0, 120 * 24 * 60) * 60 * 1000),
+      algorithm: random.pick(SSH_ALGORITHMS),
+      createdAt: dateOnly(created),
+      associatedServers: Array.from({ length: random.int(1, 4) }, (_, n) => hostname(random, i + n)),
+    };
+  },
+
+  codeSigningKeys(random, i, now) {
+    const environment = random.pick(ENVIRONMENTS);
+    return {
+      id: `csk-${i}`,
+      keyAlias: `${environment.slice(0, 4).toLowerCase()}-${random.pick(SERVICES)}-signing-${i}`,
+      description: `Signs ${random.pick(SERVICES)} release artifacts`,
+      algorithm: random.pick(SIGNING_ALGORITHMS),
+      protectionLevel: random.next() < 0.6 ? 'HSM' : 'Soft',
+      createdAt: dateOnly(now - random.int(10, 900) * DAY_MS),
+      // Minute precision, like the bundled keys
+      lastUsed: `${utcTimestamp(now - random.int(0, 90 * 24 * 60) * 60 * 1000).slice(0, 16)} UTC`,
+      rotationPolicy: random.pick(ROTATION_POLICIES),
+      environment,
+      owner: random.pick(TEAMS),
+    };
+  },
+
+  auditLogs(random, i, now) {
+    const person = random.pick(PEOPLE);
+    const base = {
+      id: `log-${i}`,
+      timestamp: utcTimestamp(now - random.int(0, 90 * 24 * 60 * 60) * 1000),
+      actor: person,
+      email: `${person}@example.com`,
+    };
+    const server = hostname(random, i);
+    switch (random.int(0, 3)) {
+      case 0:
+        return {
+          ...base,
+          actionType: 'SSH_LOGIN',
+          targetResource: `Server ${server}`,
+          resourcePath: `/ssh/servers/${server}`,
+          metadata: { source_ip: `10.${random.int(0, 255)}.${random.int(0, 255)}.${random.int(1, 254)}`, target_server: server },
+        };
+      case 1:
+        return {
+          ...base,
+          actionType: 'KEY_ACCESSED',
+          targetResource: `Code signing key csk-${random.int(1, 1000)}`,
+          resourcePath: `/code-signing/keys/csk-${random.int(1, 1000)}`,
+          metadata: { access_type: random.pick(['sign', 'export-public', 'read']), automated: random.next() < 0.7 },
+        };
+      case 2:
+        return {
+          ...base,
+          actionType: 'CERT_DEPLOYED',
+          targetResource: `Certificate ${server}`,
+          resourcePath: `/certificates/cert-${random.int(1, 1000)}`,
+          metadata: { deployment_target: server, deployment_method: random.pick(['ansible', 'kubernetes', 'manual']) },
+        };
+      default:
+        return {
+          ...base,
+          actionType: 'CERT_SCANNED',
+          targetResource: `Network ${random.pick(ZONES)}`,
+          resourcePath: '/certificates/scans',
+          metadata: { scan_type: 'network', findings: random.int(0, 12), scanned_count: random.int(50, 5000) },
+        };
+    }
+  },
+};
+
+// Records are plain objects, so they can also be read field by field by name
+export type SyntheticRecord<C extends SyntheticCollection> = SyntheticRecordMap[C] & Record<string, unknown>;
+
+/**
+ * Generates `count` records for a collection, numbered from 1. Dates are
+ * relative to `now` so expiries and rotations stay realistic.
+ */
+export function generateRecords<C extends SyntheticCollection>(collection: C, count: number, seed = 1, now = Date.now()): SyntheticRecord<C>[] {
+  const random = createRandom(seed);
+  const generate = generators[collection] as (random: Random, i: number, now: number) => SyntheticRecord<C>;
+  const records = new Array<SyntheticRecord<C>>(count);
+  for (let i = 0; i < count; i++) {
+    records[i] = generate(random, i + 1, now);
+  }
+  return records;
+}
+
+export function isSyntheticCollection(name: string): name is SyntheticCollection {
+  return (SYNTHETIC_COLLECTIONS as readonly string[]).includes(name);
+}
@@ -0,0 +1,65 @@
+// Multi-column sorting for list pages. Sorts are written like the mock
+// server's `sort` param: comma-separated column ids, "-" for descending.
+
+export interface SortKey {
+  id: string;
+  desc: boolean;
+}
+
+export type SortValue = string | number;
+
+export function parseSort(sort: string): SortKey[] {
+  return sort
+    .split(',')
+    .map(part => part.trim())
+    .filter(Boolean)
+    .map(part => part.startsWith('-') ? { id: part.slice(1), desc: true } : { id: part, desc: false });
+}
+
+export function formatSort(keys: SortKey[]): string {
+  return keys.map(key => `${key.desc ? '-' : ''}${key.id}`).join(',');
+}
+
+/**
+ * Sort after clicking a column header. A plain click makes the column the
+ * only key, cycling ascending, descending and off; with `additive` (shift)
+ * the column is added, flipped or dropped and the other keys are kept.
+ */
+export function toggleSort(keys: SortKey[], id: string, additive: boolean): SortKey[] {
+  const current = keys.find(key => key.id === id);
+  const next = !current ? { id, desc: false } : !current.desc ? { id, desc: true } : null;
+
+  if (!additive) return next ? [next] : [];
+  if (!current) return [...keys, next!];
+  return next
+    ? keys.map(key => key.id === id ? next : key)
+    : keys.filter(key => key.id !== id);
+}
+
+// One shared collator: localeCompare with options builds a new one per call
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+function compareValues(a: SortValue, b: SortValue) {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return collator.compare(String(a), String(b));
+}
+
+/**
+ * Returns a sorted copy of `rows`. Keys without an accessor are ignored;
+ * ties keep their original order.
+ */
+export function sortRows<T>(rows: T[], accessors: Record<string, ((row: T) => SortValue) | undefined>, keys: SortKey[]): T[] {
+  const active = keys.filter(key => accessors[key.id]);
+  if (active.length === 0) return rows;
+
+  return rows
+    .map((row, index) => ({ row, index, values: active.map(key => accessors[key.id]!(row)) }))
+    .sort((a, b) => {
+      for (let i = 0; i < active.length; i++) {
+        const result = compareValues(a.values[i], b.values[i]);
+        if (result !== 0) return active[i].desc ? -result : result;
+      }
+      return a.index - b.index;
+    })
+    .map(entry => entry.row);
+}
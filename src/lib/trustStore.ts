@@ -0,0 +1,30 @@
+// Roots the dashboard treats as trusted. Add private roots here so chains
+// that end at them are reported as trusted.
+export const TRUSTED_ROOTS = [
+  'ISRG Root X1',
+  'ISRG Root X2',
+  'DigiCert Global Root CA',
+  'DigiCert Global Root G2',
+  'GlobalSign Root CA',
+  'Baltimore CyberTrust Root',
+  'Corp Root CA v2',
+];
+
+// Public intermediates and the CA that issued them, so chains through
+// well-known CAs resolve without every intermediate being in the inventory
+export const KNOWN_INTERMEDIATES: Record<string, string> = {
+  "Let's Encrypt R3": 'ISRG Root X1',
+  "Let's Encrypt R10": 'ISRG Root X1',
+  "Let's Encrypt R11": 'ISRG Root X1',
+  "Let's Encrypt E5": 'ISRG Root X2',
+  'DigiCert TLS RSA': 'DigiCert Global Root CA',
+  'DigiCert TLS RSA SHA256 2020 CA1': 'DigiCert Global Root CA',
+  'DigiCert Global G2 TLS RSA SHA256 2020 CA1': 'DigiCert Global Root G2',
+  'GlobalSign AlphaSSL': 'GlobalSign Root CA',
+  'Cloudflare Inc': 'Baltimore CyberTrust Root',
+  'Cloudflare Inc ECC CA-3': 'Baltimore CyberTrust Root',
+};
+
+export function isTrustedRoot(name: string) {
+  return TRUSTED_ROOTS.includes(name);
+}
@@ -0,0 +1,446 @@
+import type { AssetCollection, AssetRecordMap, AuditActionType } from '../types/assets';
+import { parseAuditTimestamp } from './audit';
+
+type FieldType =
+  | 'string'
+  | 'number'
+  | 'boolean'
+  | 'date'
+  // "YYYY-MM-DD HH:MM:SS UTC", which Date doesn't parse in every browser
+  | 'audit-timestamp'
+  | 'string[]'
+  | 'string-map'
+  | 'geo'
+  | 'change-set'
+  | 'revocation'
+  | 'ssh-certificate'
+  | 'column-config'
+  | readonly string[];
+
+interface FieldRule {
+  type: FieldType;
+  optional?: boolean;
+}
+
+type Schema = Record<string, FieldType | FieldRule>;
+
+const optional = (type: FieldType): FieldRule => ({ type, optional: true });
+
+const certificateSchema: Schema = {
+  id: 'string',
+  name: 'string',
+  domain: 'string',
+  issuer: 'string',
+  status: ['active', 'expired', 'expiring_soon'],
+  expiryDate: 'date',
+  commonName: 'string',
+  serialNumber: 'string',
+  algorithm: 'string',
+  createdAt: 'date',
+  subject: optional('string'),
+  subjectAltNames: optional('string[]'),
+  keyUsage: optional('string[]'),
+  extendedKeyUsage: optional('string[]'),
+  fingerprints: optional('string-map'),
+  isCA: optional('boolean'),
+  subjectKeyId: optional('string'),
+  authorityKeyId: optional('string'),
+  ocspUrls: optional('string[]'),
+  crlUrls: optional('string[]'),
+  pem: optional('string'),
+  revocation: optional('revocation'),
+  tags: optional('string[]'),
+  owner: optional('string'),
+  reviewedAt: optional('date'),
+  reviewedBy: optional('string'),
+  rotationRequestedAt: optional('date'),
+};
+
+const certificateRequestSchema: Schema = {
+  id: 'string',
+  commonName: 'string',
+  subject: 'string',
+  dnsNames: 'string[]',
+  keyAlgorithm: 'string',
+  status: ['pending', 'issued', 'cancelled'],
+  requestedBy: 'string',
+  requestedAt: 'date',
+  csr: 'string',
+  publicKeySha256: 'string',
+  certificateId: optional('string'),
+  issuedAt: optional('date'),
+};
+
+const savedViewSchema: Schema = {
+  id: 'string',
+  name: 'string',
+  module: 'string',
+  query: 'string',
+  visibility: ['private', 'shared'],
+  owner: 'string',
+  createdAt: 'date',
+  columns: optional('column-config'),
+};
+
+const sshCertificateSchema: Schema = {
+  type: ['user', 'host'],
+  keyId: 'string',
+  serial: 'string',
+  principals: 'string[]',
+  validAfter: 'date',
+  validBefore: optional('date'),
+  criticalOptions: 'string-map',
+  extensions: 'string[]',
+  signingCaFingerprint: 'string',
+};
+
+const sshKeySchema: Schema = {
+  id: 'string',
+  keyOwner: 'string',
+  fingerprint: 'string',
+  lastUsed: optional('audit-timestamp'),
+  algorithm: 'string',
+  createdAt: 'date',
+  associatedServers: 'string[]',
+  publicKey: optional('string'),
+  fingerprintMd5: optional('string'),
+  comment: optional('string'),
+  options: optional('string[]'),
+  certificateAuthority: optional(['user', 'host']),
+  certificate: optional('ssh-certificate'),
+  tags: optional('string[]'),
+  owner: optional('string'),
+  reviewedAt: optional('date'),
+  reviewedBy: optional('string'),
+  rotationRequestedAt: optional('date'),
+  disabledAt: optional('date'),
+  trustOverride: optional(['high', 'medium', 'low']),
+  notes: optional('string'),
+};
+
+const codeSigningKeySchema: Schema = {
+  id: 'string',
+  keyAlias: 'string',
+  description: 'string',
+  algorithm: 'string',
+  protectionLevel: ['HSM', 'Soft'],
+  createdAt: 'date',
+  lastUsed: 'audit-timestamp',
+  rotationPolicy: 'string',
+  environment: 'string',
+  owner: 'string',
+  tags: optional('string[]'),
+  reviewedAt: optional('date'),
+  reviewedBy: optional('string'),
+  rotationRequestedAt: optional('date'),
+  disabledAt: optional('date'),
+};
+
+const auditLogSchema: Schema = {
+  id: 'string',
+  timestamp: 'audit-timestamp',
+  actor: 'string',
+  email: 'string',
+  targetResource: 'string',
+  resourcePath: 'string',
+};
+
+// Mirrors AuditMetadataMap in types/assets.ts
+const auditMetadataSchemas: Record<AuditActionType, Schema> = {
+  KEY_ROTATED: {
+    key_alias: optional('string'),
+    rotation_policy: optional('string'),
+    previous_key_id: optional('string'),
+    new_key_id: optional('string'),
+    trigger: optional('string'),
+    name: optional('string'),
+    run_id: optional('string'),
+    rotation_reason: optional('string'),
+    rotation_type: optional('string'),
+    rotation_schedule: optional('string'),
+    previous_expiry: optional('date'),
+    new_expiry: optional('date'),
+    next_rotation: optional('date'),
+  },
+  CERT_UPDATED: {
+    changes: optional('change-set'),
+    country: optional('string'),
+    city: optional('string'),
+    metadata: optional('string'),
+  },
+  SSH_KEY_UPDATED: {
+    changes: 'change-set',
+  },
+  SSH_LOGIN: {
+    source_ip: 'string',
+    geo: optional('geo'),
+    target_server: optional('string'),
+    operation: optional('string'),
+    metadata: optional('string'),
+    key_id: optional('string'),
+    key_fingerprint: optional('string'),
+  },
+  CERT_ISSUED: {
+    subject: 'string',
+    issuer: 'string',
+    validity: optional('string'),
+    oidc_provider: optional('string'),
+    workflow_ref: optional('string'),
+    request_id: optional('string'),
+  },
+  KEY_CREATED: {
+    key_type: 'string',
+    purpose: optional('string'),
+    approved_by: optional('string'),
+  },
+  CERT_REVOKED: {
+    reason: 'string',
+    revocation_date: optional('date'),
+    notified_teams: optional('string[]'),
+    batch_id: optional('string'),
+  },
+  KEY_ACCESSED: {
+    access_type: 'string',
+    purpose: optional('string'),
+    automated: optional('boolean'),
+  },
+  CERT_DEPLOYED: {
+    deployment_target: 'string',
+    deployment_method: optional('string'),
+    health_check: optional('string'),
+  },
+  CERT_SCANNED: {
+    scan_type: 'string',
+    findings: 'number',
+    scanned_count: 'number',
+  },
+  SSH_KEY_DELETED: {
+    deletion_reason: 'string',
+    last_used: optional('date'),
+    approved_by: optional('string'),
+  },
+  CERT_REQUESTED: {
+    domains: 'string[]',
+    certificate_type: optional('string'),
+    auto_renew: optional('boolean'),
+    key_algorithm: optional('string'),
+    request_id: optional('string'),
+  },
+  POLICY_UPDATED: {
+    policy_type: 'string',
+    changes: 'string-map',
+    effective_date: optional('date'),
+  },
+  AUDIT_EXPORT: {
+    export_format: 'string',
+    record_count: 'number',
+    requester: optional('string'),
+    export_purpose: optional('string'),
+  },
+  CERT_RENEWED: {
+    renewal_method: 'string',
+    previous_expiry: optional('date'),
+    new_expiry: optional('date'),
+    issuer: optional('string'),
+    previous_serial: optional('string'),
+    new_serial: optional('string'),
+    acme_directory: optional('string'),
+    order_url: optional('string'),
+  },
+  KEY_IMPORTED: {
+    import_source: 'string',
+    key_type: optional('string'),
+    automation: optional('boolean'),
+    fingerprint_sha256: optional('string'),
+    replaced_existing: optional('boolean'),
+  },
+  CERT_IMPORTED: {
+    source: 'string',
+    fingerprint_sha256: 'string',
+    replaced_existing: optional('boolean'),
+  },
+  CERT_VALIDATED: {
+    validation_method: 'string',
+    validation_status: 'string',
+    validated_domains: optional('string[]'),
+  },
+  ACCESS_REVIEW: {
+    review_type: 'string',
+    reviewed_keys: optional('number'),
+    revoked_keys: optional('number'),
+    findings: optional('string'),
+  },
+  ASSET_EXPORTED: {
+    export_format: 'string',
+    batch_id: optional('string'),
+  },
+  ASSET_TAGGED: {
+    tags: 'string[]',
+    batch_id: optional('string'),
+  },
+  OWNER_ASSIGNED: {
+    owner: 'string',
+    previous_owner: optional('string'),
+    batch_id: optional('string'),
+  },
+  ASSET_REVIEWED: {
+    review_type: 'string',
+    batch_id: optional('string'),
+  },
+  ROTATION_REQUESTED: {
+    trigger: 'string',
+    rotation_policy: optional('string'),
+    batch_id: optional('string'),
+  },
+  SSH_KEY_DISABLED: {
+    reason: 'string',
+    batch_id: optional('string'),
+  },
+  KEY_DISABLED: {
+    reason: 'string',
+    batch_id: optional('string'),
+  },
+};
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isString(value: unknown): value is string {
+  return typeof value === 'string';
+}
+
+function matchesType(value: unknown, type: FieldType): boolean {
+  if (Array.isArray(type)) {
+    return isString(value) && type.includes(value);
+  }
+  switch (type) {
+    case 'string':
+      return isString(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'date':
+      return isString(value) && !Number.isNaN(new Date(value).getTime());
+    case 'audit-timestamp':
+      return isString(value) && !Number.isNaN(parseAuditTimestamp(value));
+    case 'string[]':
+      return Array.isArray(value) && value.every(isString);
+    case 'string-map':
+      return isObject(value) && Object.values(value).every(isString);
+    case 'geo':
+      return isString(value) || (
+        Array.isArray(value) &&
+        value.every(v => isObject(v) && isString(v.country) && isString(v.city))
+      );
+    case 'change-set':
+      return isObject(value) &&
+        Object.values(value).every(v => isObject(v) && 'before' in v && 'after' in v);
+    case 'revocation':
+      return isObject(value) &&
+        matchesType(value.status, ['good', 'revoked', 'unknown']) &&
+        matchesType(value.checkedAt, 'date');
+    case 'ssh-certificate':
+      return isObject(value) && checkSchema(value, sshCertificateSchema).length === 0;
+    case 'column-config':
+      return isObject(value) &&
+        matchesType(value.order, 'string[]') &&
+        matchesType(value.hidden, 'string[]') &&
+        isObject(value.widths) &&
+        Object.values(value.widths).every(width => matchesType(width, 'number'));
+  }
+  return false;
+}
+
+function describeType(type: FieldType) {
+  if (Array.isArray(type)) return `one of ${type.join(', ')}`;
+  if (type === 'date') return 'a valid date';
+  if (type === 'audit-timestamp') return 'a "YYYY-MM-DD HH:MM:SS UTC" timestamp';
+  return `a ${type}`;
+}
+
+function checkSchema(value: Record<string, unknown>, schema: Schema, path = ''): string[] {
+  const issues: string[] = [];
+  for (const [field, spec] of Object.entries(schema)) {
+    const rule = isObject(spec) ? spec as FieldRule : { type: spec as FieldType };
+    const actual = value[field];
+    if (actual === undefined || actual === null) {
+      if (!rule.optional) issues.push(`${path}${field} is missing`);
+    } else if (!matchesType(actual, rule.type)) {
+      issues.push(`${path}${field} must be ${describeType(rule.type)}`);
+    }
+  }
+  return issues;
+}
+
+function checkAuditLog(value: Record<string, unknown>): string[] {
+  const issues = checkSchema(value, auditLogSchema);
+  const { actionType, metadata } = value;
+
+  if (!isString(actionType) || !(actionType in auditMetadataSchemas)) {
+    issues.push(`actionType "${String(actionType)}" is not a known action`);
+  } else if (!isObject(metadata)) {
+    issues.push('metadata must be an object');
+  } else {
+    issues.push(...checkSchema(metadata, auditMetadataSchemas[actionType as AuditActionType], 'metadata.'));
+  }
+  return issues;
+}
+
+const checkers: Record<AssetCollection, (value: Record<string, unknown>) => string[]> = {
+  certificates: value => checkSchema(value, certificateSchema),
+  certificateRequests: value => checkSchema(value, certificateRequestSchema),
+  sshKeys: value => checkSchema(value, sshKeySchema),
+  codeSigningKeys: value => checkSchema(value, codeSigningKeySchema),
+  auditLogs: checkAuditLog,
+  savedViews: value => checkSchema(value, savedViewSchema),
+};
+
+export interface QuarantinedRecord {
+  collection: AssetCollection;
+  id?: string;
+  record: unknown;
+  issues: string[];
+}
+
+export interface ValidationResult<T> {
+  valid: T[];
+  quarantined: QuarantinedRecord[];
+}
+
+// Returns the problems with a single record, or an empty list if it is valid
+export function validateRecord(collection: AssetCollection, record: unknown): string[] {
+  if (!isObject(record)) return ['record must be an object'];
+  return checkers[collection](record);
+}
+
+/**
+ * Splits a payload into records that match the asset type and records that
+ * don't. Invalid records are kept aside with their issues so they can be
+ * reported instead of reaching the UI.
+ */
+export function validateCollection<K extends AssetCollection>(
+  collection: K,
+  payload: unknown
+): ValidationResult<AssetRecordMap[K]> {
+  if (!Array.isArray(payload)) {
+    return {
+      valid: [],
+      quarantined: [{ collection, record: payload, issues: [`expected a list of ${collection}`] }],
+    };
+  }
+
+  const valid: AssetRecordMap[K][] = [];
+  const quarantined: QuarantinedRecord[] = [];
+  payload.forEach(record => {
+    const issues = validateRecord(collection, record);
+    if (issues.length === 0) {
+      valid.push(record as AssetRecordMap[K]);
+    } else {
+      const id = isObject(record) && isString(record.id) ? record.id : undefined;
+      quarantined.push({ collection, id, record, issues });
+    }
+  });
+  return { valid, quarantined };
+}
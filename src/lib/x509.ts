@@ -0,0 +1,434 @@
+import {
+  Asn1Node,
+  Asn1Error,
+  TAG,
+  decodeDer,
+  decodeOid,
+  decodeBoolean,
+  decodeSmallInteger,
+  decodeString,
+  decodeTime,
+  bitStringBytes,
+  expectUniversal,
+  isUniversal,
+  isContext,
+  toHex,
+} from './asn1';
+import { getCertificateHealth, toStoredStatus } from './certStatus';
+import type { Certificate, NewRecord } from '../types/assets';
+
+const NAME_ATTRIBUTES: Record<string, string> = {
+  '2.5.4.3': 'CN',
+  '2.5.4.5': 'serialNumber',
+  '2.5.4.6': 'C',
+  '2.5.4.7': 'L',
+  '2.5.4.8': 'ST',
+  '2.5.4.10': 'O',
+  '2.5.4.11': 'OU',
+  '1.2.840.113549.1.9.1': 'emailAddress',
+  '0.9.2342.19200300.100.1.25': 'DC',
+};
+
+const SIGNATURE_ALGORITHMS: Record<string, string> = {
+  '1.2.840.113549.1.1.5': 'sha1WithRSAEncryption',
+  '1.2.840.113549.1.1.11': 'sha256WithRSAEncryption',
+  '1.2.840.113549.1.1.12': 'sha384WithRSAEncryption',
+  '1.2.840.113549.1.1.13': 'sha512WithRSAEncryption',
+  '1.2.840.113549.1.1.10': 'rsassaPss',
+  '1.2.840.10045.4.3.2': 'ecdsa-with-SHA256',
+  '1.2.840.10045.4.3.3': 'ecdsa-with-SHA384',
+  '1.2.840.10045.4.3.4': 'ecdsa-with-SHA512',
+  '1.3.101.112': 'Ed25519',
+};
+
+const EC_CURVES: Record<string, string> = {
+  '1.2.840.10045.3.1.7': 'P-256',
+  '1.3.132.0.34': 'P-384',
+  '1.3.132.0.35': 'P-521',
+};
+
+const ACCESS_METHOD = {
+  OCSP: '1.3.6.1.5.5.7.48.1',
+  CA_ISSUERS: '1.3.6.1.5.5.7.48.2',
+};
+
+const KEY_USAGES = [
+  'digitalSignature',
+  'nonRepudiation',
+  'keyEncipherment',
+  'dataEncipherment',
+  'keyAgreement',
+  'keyCertSign',
+  'cRLSign',
+  'encipherOnly',
+  'decipherOnly',
+];
+
+const EXTENDED_KEY_USAGES: Record<string, string> = {
+  '1.3.6.1.5.5.7.3.1': 'serverAuth',
+  '1.3.6.1.5.5.7.3.2': 'clientAuth',
+  '1.3.6.1.5.5.7.3.3': 'codeSigning',
+  '1.3.6.1.5.5.7.3.4': 'emailProtection',
+  '1.3.6.1.5.5.7.3.8': 'timeStamping',
+  '1.3.6.1.5.5.7.3.9': 'OCSPSigning',
+  '2.5.29.37.0': 'anyExtendedKeyUsage',
+};
+
+const EXT = {
+  AUTHORITY_INFO_ACCESS: '1.3.6.1.5.5.7.1.1',
+  CRL_DISTRIBUTION_POINTS: '2.5.29.31',
+  SUBJECT_KEY_ID: '2.5.29.14',
+  KEY_USAGE: '2.5.29.15',
+  SUBJECT_ALT_NAME: '2.5.29.17',
+  BASIC_CONSTRAINTS: '2.5.29.19',
+  AUTHORITY_KEY_ID: '2.5.29.35',
+  EXT_KEY_USAGE: '2.5.29.37',
+};
+
+export interface DistinguishedName {
+  // Attributes in encoded order, e.g. [['C', 'US'], ['O', "Let's Encrypt"], ['CN', 'R3']]
+  attributes: [string, string][];
+  text: string;
+}
+
+export interface ParsedCertificate {
+  subject: DistinguishedName;
+  issuer: DistinguishedName;
+  serialNumber: string;
+  notBefore: Date;
+  notAfter: Date;
+  signatureAlgorithm: string;
+  // Key algorithm and size in inventory notation, e.g. "RSA-2048" or "ECDSA P-256"
+  keyAlgorithm: string;
+  subjectAltNames: string[];
+  keyUsage: string[];
+  extendedKeyUsage: string[];
+  isCA: boolean;
+  pathLength?: number;
+  subjectKeyId?: string;
+  authorityKeyId?: string;
+  // From Authority Information Access and CRL Distribution Points
+  ocspUrls: string[];
+  caIssuerUrls: string[];
+  crlUrls: string[];
+  fingerprints: { sha1: string; sha256: string };
+  // SHA-256 of the SubjectPublicKeyInfo, for matching the certificate to its CSR
+  publicKeySha256: string;
+  // Encoded issuer Name and public key bits, as OCSP CertIDs hash them
+  issuerNameDer: Uint8Array;
+  subjectPublicKey: Uint8Array;
+  der: Uint8Array;
+  pem: string;
+}
+
+export class CertificateParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CertificateParseError';
+  }
+}
+
+const PEM_BLOCK = /-----BEGIN CERTIFICATE-----([\s\S]*?)-----END CERTIFICATE-----/g;
+
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64.replace(/\s+/g, ''));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(b => {
+    binary += String.fromCharCode(b);
+  });
+  return btoa(binary);
+}
+
+export function derToPem(der: Uint8Array, label = 'CERTIFICATE'): string {
+  const lines = bytesToBase64(der).match(/.{1,64}/g) ?? [];
+  return `-----BEGIN ${label}-----\n${lines.join('\n')}\n-----END ${label}-----\n`;
+}
+
+// Extracts every certificate from PEM text, in the order they appear
+export function pemToDer(text: string): Uint8Array[] {
+  return Array.from(text.matchAll(PEM_BLOCK), match => {
+    try {
+      return base64ToBytes(match[1]);
+    } catch {
+      throw new CertificateParseError('PEM block is not valid base64');
+    }
+  });
+}
+
+function parseName(node: Asn1Node): DistinguishedName {
+  const attributes: [string, string][] = [];
+  expectUniversal(node, TAG.SEQUENCE, 'Name').children.forEach(rdn => {
+    rdn.children.forEach(attribute => {
+      const [type, value] = attribute.children;
+      const oid = decodeOid(expectUniversal(type, TAG.OID, 'attribute type').value);
+      attributes.push([NAME_ATTRIBUTES[oid] ?? oid, decodeString(value)]);
+    });
+  });
+  return {
+    attributes,
+    text: attributes.map(([key, value]) => `${key}=${value}`).join(', '),
+  };
+}
+
+export function nameAttribute(name: DistinguishedName, key: string): string | undefined {
+  return name.attributes.find(([k]) => k === key)?.[1];
+}
+
+function parseKeyAlgorithm(spki: Asn1Node): string {
+  const [algorithm, publicKey] = spki.children;
+  const [algorithmOid, parameters] = algorithm.children;
+  const oid = decodeOid(algorithmOid.value);
+
+  switch (oid) {
+    case '1.2.840.113549.1.1.1': {
+      const rsaKey = decodeDer(bitStringBytes(publicKey));
+      const modulus = rsaKey.children[0].value;
+      let start = 0;
+      while (start < modulus.length && modulus[start] === 0) start++;
+      const bits = (modulus.length - start) * 8 - Math.clz32(modulus[start] ?? 0) + 24;
+      return `RSA-${bits}`;
+    }
+    case '1.2.840.10045.2.1': {
+      const curve = isUniversal(parameters, TAG.OID) ? decodeOid(parameters.value) : '';
+      return `ECDSA ${EC_CURVES[curve] ?? curve}`;
+    }
+    case '1.3.101.112':
+      return 'Ed25519';
+    case '1.3.101.113':
+      return 'Ed448';
+    default:
+      return oid;
+  }
+}
+
+function parseGeneralName(node: Asn1Node): string | null {
+  switch (node.tagNumber) {
+    case 1:
+      return `email:${decodeString(node)}`;
+    case 2:
+      return `DNS:${decodeString(node)}`;
+    case 6:
+      return `URI:${decodeString(node)}`;
+    case 7: {
+      const bytes = Array.from(node.value);
+      if (bytes.length === 4) return `IP:${bytes.join('.')}`;
+      const groups: string[] = [];
+      for (let i = 0; i < bytes.length; i += 2) {
+        groups.push(((bytes[i] << 8) | bytes[i + 1]).toString(16));
+      }
+      return `IP:${groups.join(':')}`;
+    }
+    default:
+      return null;
+  }
+}
+
+function parseExtensions(container: Asn1Node | undefined) {
+  const result = {
+    subjectAltNames: [] as string[],
+    keyUsage: [] as string[],
+    extendedKeyUsage: [] as string[],
+    isCA: false,
+    pathLength: undefined as number | undefined,
+    subjectKeyId: undefined as string | undefined,
+    authorityKeyId: undefined as string | undefined,
+    ocspUrls: [] as string[],
+    caIssuerUrls: [] as string[],
+    crlUrls: [] as string[],
+  };
+  if (!container) return result;
+
+  const extensions = container.children[0]?.children ?? [];
+  extensions.forEach(extension => {
+    const oid = decodeOid(extension.children[0].value);
+    const valueNode = extension.children[extension.children.length - 1];
+    const value = decodeDer(expectUniversal(valueNode, TAG.OCTET_STRING, 'extension value').value);
+
+    switch (oid) {
+      case EXT.SUBJECT_ALT_NAME:
+        result.subjectAltNames = value.children
+          .map(parseGeneralName)
+          .filter((name): name is string => name !== null);
+        break;
+      case EXT.KEY_USAGE: {
+        const bits = bitStringBytes(value);
+        result.keyUsage = KEY_USAGES.filter((_, i) => (bits[i >> 3] ?? 0) & (0x80 >> (i & 7)));
+        break;
+      }
+      case EXT.EXT_KEY_USAGE:
+        result.extendedKeyUsage = value.children.map(child => {
+          const usage = decodeOid(child.value);
+          return EXTENDED_KEY_USAGES[usage] ?? usage;
+        });
+        break;
+      case EXT.BASIC_CONSTRAINTS: {
+        const [first, second] = value.children;
+        result.isCA = isUniversal(first, TAG.BOOLEAN) && decodeBoolean(first);
+        const pathLen = isUniversal(first, TAG.INTEGER) ? first : second;
+        if (isUniversal(pathLen, TAG.INTEGER)) {
+          result.pathLength = decodeSmallInteger(pathLen);
+        }
+        break;
+      }
+      case EXT.SUBJECT_KEY_ID:
+        result.subjectKeyId = toHex(value.value, ':');
+        break;
+      case EXT.AUTHORITY_KEY_ID: {
+        const keyId = value.children.find(child => isContext(child, 0));
+        if (keyId) result.authorityKeyId = toHex(keyId.value, ':');
+        break;
+      }
+      case EXT.AUTHORITY_INFO_ACCESS:
+        value.children.forEach(description => {
+          const [method, location] = description.children;
+          if (!isContext(location, 6)) return;
+          const accessMethod = decodeOid(method.value);
+          if (accessMethod === ACCESS_METHOD.OCSP) result.ocspUrls.push(decodeString(location));
+          if (accessMethod === ACCESS_METHOD.CA_ISSUERS) result.caIssuerUrls.push(decodeString(location));
+        });
+        break;
+      case EXT.CRL_DISTRIBUTION_POINTS:
+        value.children.forEach(point => {
+          // distributionPoint [0] -> fullName [0] -> GeneralNames
+          const fullName = point.children.find(child => isContext(child, 0))?.children.find(child => isContext(child, 0));
+          fullName?.children
+            .filter(name => isContext(name, 6))
+            .forEach(name => result.crlUrls.push(decodeString(name)));
+        });
+        break;
+    }
+  });
+  return result;
+}
+
+export async function fingerprint(algorithm: 'SHA-1' | 'SHA-256', der: Uint8Array) {
+  const digest = await crypto.subtle.digest(algorithm, der.slice());
+  return toHex(new Uint8Array(digest), ':');
+}
+
+/**
+ * Parses one DER-encoded X.509 certificate. Throws CertificateParseError
+ * when the input isn't a well-formed certificate.
+ */
+export async function parseCertificate(der: Uint8Array): Promise<ParsedCertificate> {
+  try {
+    const certificate = expectUniversal(decodeDer(der), TAG.SEQUENCE, 'Certificate');
+    const [tbs, signatureAlgorithm] = certificate.children;
+    const fields = expectUniversal(tbs, TAG.SEQUENCE, 'TBSCertificate').children;
+
+    // Skip the optional explicit [0] version
+    let i = isContext(fields[0], 0) ? 1 : 0;
+    const serial = expectUniversal(fields[i++], TAG.INTEGER, 'serialNumber');
+    i++; // signature algorithm, repeated in the outer structure
+    const issuerNode = fields[i++];
+    const issuer = parseName(issuerNode);
+    const validity = expectUniversal(fields[i++], TAG.SEQUENCE, 'Validity');
+    const subject = parseName(fields[i++]);
+    const spki = expectUniversal(fields[i++], TAG.SEQUENCE, 'SubjectPublicKeyInfo');
+    const extensions = parseExtensions(fields.slice(i).find(node => isContext(node, 3)));
+
+    // Drop the sign byte DER adds to keep positive serials positive
+    let serialBytes = serial.value;
+    if (serialBytes.length > 1 && serialBytes[0] === 0) serialBytes = serialBytes.subarray(1);
+
+    const sigOid = decodeOid(signatureAlgorithm.children[0].value);
+
+    return {
+      subject,
+      issuer,
+      serialNumber: toHex(serialBytes, ':'),
+      notBefore: decodeTime(validity.children[0]),
+      notAfter: decodeTime(validity.children[1]),
+      signatureAlgorithm: SIGNATURE_ALGORITHMS[sigOid] ?? sigOid,
+      keyAlgorithm: parseKeyAlgorithm(spki),
+      ...extensions,
+      issuerNameDer: issuerNode.bytes,
+      subjectPublicKey: bitStringBytes(spki.children[1]),
+      fingerprints: {
+        sha1: await fingerprint('SHA-1', der),
+        sha256: await fingerprint('SHA-256', der),
+      },
+      publicKeySha256: await fingerprint('SHA-256', spki.bytes),
+      der,
+      pem: derToPem(der),
+    };
+  } catch (err) {
+    if (err instanceof CertificateParseError) throw err;
+    if (err instanceof Asn1Error || err instanceof TypeError) {
+      throw new CertificateParseError(`Not a valid X.509 certificate: ${err.message}`);
+    }
+    throw err;
+  }
+}
+
+/**
+ * Parses PEM text (one or more certificates, e.g. a full chain) or raw DER
+ * bytes. PEM is detected by its BEGIN marker.
+ */
+export async function parseCertificates(input: string | Uint8Array): Promise<ParsedCertificate[]> {
+  const text = typeof input === 'string'
+    ? input
+    : input.length > 0 && input[0] !== 0x30 ? new TextDecoder().decode(input) : null;
+
+  if (text === null) {
+    return [await parseCertificate(input as Uint8Array)];
+  }
+
+  const blocks = pemToDer(text);
+  if (blocks.length === 0) {
+    throw new CertificateParseError('No "BEGIN CERTIFICATE" block found');
+  }
+  return Promise.all(blocks.map(parseCertificate));
+}
+
+// Drops repeats of a certificate, e.g. an intermediate in several chain files
+export function uniqueCertificates(certificates: ParsedCertificate[]) {
+  const seen = new Set<string>();
+  return certificates.filter(cert => {
+    if (seen.has(cert.fingerprints.sha256)) return false;
+    seen.add(cert.fingerprints.sha256);
+    return true;
+  });
+}
+
+function toDateOnly(date: Date) {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Maps a parsed certificate onto the inventory record shape. The display
+ * name defaults to the common name and can be edited after import.
+ */
+export function toCertificateRecord(parsed: ParsedCertificate): NewRecord<Certificate> {
+  const dnsNames = parsed.subjectAltNames
+    .filter(name => name.startsWith('DNS:'))
+    .map(name => name.slice(4));
+  const commonName = nameAttribute(parsed.subject, 'CN') ?? dnsNames[0] ?? parsed.subject.text;
+
+  return {
+    name: commonName,
+    domain: dnsNames[0] ?? commonName,
+    issuer: nameAttribute(parsed.issuer, 'CN') ?? nameAttribute(parsed.issuer, 'O') ?? parsed.issuer.text,
+    status: toStoredStatus(getCertificateHealth(parsed.notAfter.toISOString())),
+    expiryDate: toDateOnly(parsed.notAfter),
+    commonName,
+    serialNumber: parsed.serialNumber,
+    algorithm: parsed.keyAlgorithm,
+    createdAt: toDateOnly(parsed.notBefore),
+    subject: parsed.subject.text,
+    subjectAltNames: parsed.subjectAltNames,
+    keyUsage: parsed.keyUsage,
+    extendedKeyUsage: parsed.extendedKeyUsage,
+    fingerprints: parsed.fingerprints,
+    isCA: parsed.isCA,
+    subjectKeyId: parsed.subjectKeyId,
+    authorityKeyId: parsed.authorityKeyId,
+    ocspUrls: parsed.ocspUrls,
+    crlUrls: parsed.crlUrls,
+    pem: parsed.pem,
+  };
+}
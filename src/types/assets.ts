@@ -0,0 +1,357 @@
+// Outcome of the most recent OCSP or CRL lookup for a certificate
+export interface RevocationState {
+  status: 'good' | 'revoked' | 'unknown';
+  checkedAt: string;
+  method?: 'ocsp' | 'crl';
+  // Responder or CRL URL that produced the answer
+  source?: string;
+  revokedAt?: string;
+  reason?: string;
+  // Why the status could not be determined
+  error?: string;
+}
+
+export interface Certificate {
+  id: string;
+  name: string;
+  domain: string;
+  issuer: string;
+  status: 'active' | 'expired' | 'expiring_soon';
+  expiryDate: string;
+  commonName: string;
+  serialNumber: string;
+  algorithm: string;
+  createdAt: string;
+  // Filled in when the certificate was imported from PEM/DER
+  subject?: string;
+  subjectAltNames?: string[];
+  keyUsage?: string[];
+  extendedKeyUsage?: string[];
+  fingerprints?: { sha1: string; sha256: string };
+  isCA?: boolean;
+  subjectKeyId?: string;
+  authorityKeyId?: string;
+  ocspUrls?: string[];
+  crlUrls?: string[];
+  pem?: string;
+  revocation?: RevocationState;
+  // Set by bulk actions from the certificate table
+  tags?: string[];
+  owner?: string;
+  reviewedAt?: string;
+  reviewedBy?: string;
+  rotationRequestedAt?: string;
+}
+
+// A CSR generated in the browser, tracked until its certificate is imported
+export interface CertificateRequest {
+  id: string;
+  commonName: string;
+  subject: string;
+  dnsNames: string[];
+  keyAlgorithm: string;
+  status: 'pending' | 'issued' | 'cancelled';
+  requestedBy: string;
+  requestedAt: string;
+  csr: string;
+  // SHA-256 of the SubjectPublicKeyInfo; the issued certificate carries the same key
+  publicKeySha256: string;
+  certificateId?: string;
+  issuedAt?: string;
+}
+
+// A named set of list filters, restored by navigating to `module?query`
+export interface SavedView {
+  id: string;
+  name: string;
+  // Route of the module page, e.g. "/certificates"
+  module: string;
+  // Query string without the leading "?", e.g. "q=DigiCert&status=warning"
+  query: string;
+  // Private views are only listed for their owner
+  visibility: 'private' | 'shared';
+  owner: string;
+  createdAt: string;
+  // Column layout of the module's table when the view was saved; without one
+  // the view shows the default layout
+  columns?: ColumnConfig;
+}
+
+// A table's column layout: column order, hidden columns and widths
+export interface ColumnConfig {
+  order: string[];
+  hidden: string[];
+  widths: Record<string, number>;
+}
+
+// An OpenSSH certificate (ssh-keygen -s) issued for a key
+export interface SSHCertificate {
+  type: 'user' | 'host';
+  keyId: string;
+  // Unsigned 64-bit, kept as a decimal string
+  serial: string;
+  // Users or host names it is valid for; empty means any
+  principals: string[];
+  validAfter: string;
+  // Absent when the certificate never expires
+  validBefore?: string;
+  // e.g. force-command, source-address
+  criticalOptions: Record<string, string>;
+  // e.g. permit-pty, permit-port-forwarding
+  extensions: string[];
+  signingCaFingerprint: string;
+}
+
+export interface SSHKey {
+  id: string;
+  keyOwner: string;
+  fingerprint: string;
+  // Unset for keys imported from files, until a login is recorded
+  lastUsed?: string;
+  algorithm: string;
+  createdAt: string;
+  associatedServers: string[];
+  // Set when the key is imported from a key file, so the fingerprint can be checked
+  publicKey?: string;
+  fingerprintMd5?: string;
+  comment?: string;
+  // authorized_keys options as written, e.g. from="10.0.0.0/8" or no-pty
+  options?: string[];
+  // Set on CA keys: whether they sign user or host certificates
+  certificateAuthority?: 'user' | 'host';
+  // Set on CA-signed keys; keys without one are bare keys
+  certificate?: SSHCertificate;
+  // Set by bulk actions from the SSH key table
+  tags?: string[];
+  owner?: string;
+  reviewedAt?: string;
+  reviewedBy?: string;
+  rotationRequestedAt?: string;
+  disabledAt?: string;
+  // Set from the edit form; the override replaces the computed trust level
+  trustOverride?: 'high' | 'medium' | 'low';
+  notes?: string;
+}
+
+export interface CodeSigningKey {
+  id: string;
+  keyAlias: string;
+  description: string;
+  algorithm: string;
+  protectionLevel: 'HSM' | 'Soft';
+  createdAt: string;
+  lastUsed: string;
+  rotationPolicy: string;
+  environment: string;
+  owner: string;
+  // Set by bulk actions from the code signing table
+  tags?: string[];
+  reviewedAt?: string;
+  reviewedBy?: string;
+  rotationRequestedAt?: string;
+  disabledAt?: string;
+}
+
+export interface FieldChange {
+  before: unknown;
+  after: unknown;
+}
+
+export interface GeoLocation {
+  country: string;
+  city: string;
+}
+
+// Metadata recorded for each audit action. Most fields are optional because
+// producers (CI, bastions, people) fill in different subsets.
+export interface AuditMetadataMap {
+  KEY_ROTATED: {
+    key_alias?: string;
+    rotation_policy?: string;
+    previous_key_id?: string;
+    new_key_id?: string;
+    trigger?: string;
+    name?: string;
+    run_id?: string;
+    rotation_reason?: string;
+    rotation_type?: string;
+    rotation_schedule?: string;
+    previous_expiry?: string;
+    new_expiry?: string;
+    next_rotation?: string;
+  };
+  CERT_UPDATED: {
+    changes?: Record<string, FieldChange>;
+    country?: string;
+    city?: string;
+    metadata?: string;
+  };
+  SSH_KEY_UPDATED: {
+    changes: Record<string, FieldChange>;
+  };
+  SSH_LOGIN: {
+    source_ip: string;
+    geo?: string | GeoLocation[];
+    target_server?: string;
+    operation?: string;
+    metadata?: string;
+    // The key used, when the resource path names the server instead:
+    // its record id, or its fingerprint as sshd logs it (SHA256:...)
+    key_id?: string;
+    key_fingerprint?: string;
+  };
+  CERT_ISSUED: {
+    subject: string;
+    issuer: string;
+    validity?: string;
+    oidc_provider?: string;
+    workflow_ref?: string;
+    request_id?: string;
+  };
+  KEY_CREATED: {
+    key_type: string;
+    purpose?: string;
+    approved_by?: string;
+  };
+  CERT_REVOKED: {
+    reason: string;
+    revocation_date?: string;
+    notified_teams?: string[];
+    batch_id?: string;
+  };
+  KEY_ACCESSED: {
+    access_type: string;
+    purpose?: string;
+    automated?: boolean;
+  };
+  CERT_DEPLOYED: {
+    deployment_target: string;
+    deployment_method?: string;
+    health_check?: string;
+  };
+  CERT_SCANNED: {
+    scan_type: string;
+    findings: number;
+    scanned_count: number;
+  };
+  SSH_KEY_DELETED: {
+    deletion_reason: string;
+    last_used?: string;
+    approved_by?: string;
+  };
+  CERT_REQUESTED: {
+    domains: string[];
+    certificate_type?: string;
+    auto_renew?: boolean;
+    key_algorithm?: string;
+    request_id?: string;
+  };
+  POLICY_UPDATED: {
+    policy_type: string;
+    changes: Record<string, string>;
+    effective_date?: string;
+  };
+  AUDIT_EXPORT: {
+    export_format: string;
+    record_count: number;
+    requester?: string;
+    export_purpose?: string;
+  };
+  CERT_RENEWED: {
+    renewal_method: string;
+    previous_expiry?: string;
+    new_expiry?: string;
+    issuer?: string;
+    previous_serial?: string;
+    new_serial?: string;
+    acme_directory?: string;
+    order_url?: string;
+  };
+  KEY_IMPORTED: {
+    import_source: string;
+    key_type?: string;
+    automation?: boolean;
+    fingerprint_sha256?: string;
+    replaced_existing?: boolean;
+  };
+  CERT_IMPORTED: {
+    source: string;
+    fingerprint_sha256: string;
+    replaced_existing?: boolean;
+  };
+  CERT_VALIDATED: {
+    validation_method: string;
+    validation_status: string;
+    validated_domains?: string[];
+  };
+  ACCESS_REVIEW: {
+    review_type: string;
+    reviewed_keys?: number;
+    revoked_keys?: number;
+    findings?: string;
+  };
+  // Recorded per asset by bulk actions; batch_id ties the entries of one run together
+  ASSET_EXPORTED: {
+    export_format: string;
+    batch_id?: string;
+  };
+  ASSET_TAGGED: {
+    tags: string[];
+    batch_id?: string;
+  };
+  OWNER_ASSIGNED: {
+    owner: string;
+    previous_owner?: string;
+    batch_id?: string;
+  };
+  ASSET_REVIEWED: {
+    review_type: string;
+    batch_id?: string;
+  };
+  ROTATION_REQUESTED: {
+    trigger: string;
+    rotation_policy?: string;
+    batch_id?: string;
+  };
+  SSH_KEY_DISABLED: {
+    reason: string;
+    batch_id?: string;
+  };
+  KEY_DISABLED: {
+    reason: string;
+    batch_id?: string;
+  };
+}
+
+export type AuditActionType = keyof AuditMetadataMap;
+
+interface AuditLogBase {
+  id: string;
+  timestamp: string;
+  actor: string;
+  email: string;
+  targetResource: string;
+  resourcePath: string;
+}
+
+// Discriminated on actionType, so narrowing the action narrows metadata
+export type AuditLog = {
+  [A in AuditActionType]: AuditLogBase & { actionType: A; metadata: AuditMetadataMap[A] };
+}[AuditActionType];
+
+// Maps each collection name to the record type it holds
+export interface AssetRecordMap {
+  certificates: Certificate;
+  certificateRequests: CertificateRequest;
+  sshKeys: SSHKey;
+  codeSigningKeys: CodeSigningKey;
+  auditLogs: AuditLog;
+  savedViews: SavedView;
+}
+
+export type AssetCollection = keyof AssetRecordMap;
+
+// Input for creating a record; the data source assigns an id when omitted
+export type NewRecord<T> = T extends unknown ? Omit<T, 'id'> & { id?: string } : never;
+
+export const ASSET_COLLECTIONS: AssetCollection[] = ['certificates', 'certificateRequests', 'sshKeys', 'codeSigningKeys', 'auditLogs', 'savedViews'];
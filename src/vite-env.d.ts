@@ -0,0 +1,15 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_DATA_SOURCE?: 'static' | 'rest';
+  readonly VITE_API_BASE_URL?: string;
+  readonly VITE_ACME_DIRECTORY_URL?: string;
+  readonly VITE_OCSP_RESPONDER_URL?: string;
+  readonly VITE_CRL_URL?: string;
+  readonly VITE_REVOCATION_ISSUER?: string;
+  readonly VITE_SYNTHETIC_ROWS?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
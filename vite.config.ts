@@ -13,4 +13,14 @@ export default defineConfig({
       '@': path.resolve(__dirname, './src'),
     },
   },
+  server: {
+    proxy: {
+      // Forward REST data-source calls to the local mock server (npm run mock-server)
+      '/api': `http://localhost:${process.env.MOCK_PORT ?? 4000}`,
+      // ...and ACME renewals to its Pebble-style test CA
+      '/acme': `http://localhost:${process.env.MOCK_PORT ?? 4000}`,
+      // ...and revocation checks to its OCSP/CRL stub
+      '/revocation': `http://localhost:${process.env.MOCK_PORT ?? 4000}`,
+    },
+  },
 })